@@ -8,6 +8,7 @@ import ReactFlow, {
   type Node,
   type Edge,
   type Connection,
+  type OnSelectionChangeParams,
   useNodesState,
   useEdgesState,
   addEdge,
@@ -117,6 +118,8 @@ export default function ImageProcessingPipeline({
     removeEdge: removeContextEdge,
     updateNode: updateContextNode,
     selectNode,
+    selectedNodeIds,
+    selectNodes,
   } = usePipeline();
 
   // Convert context nodes to ReactFlow nodes
@@ -126,6 +129,8 @@ export default function ImageProcessingPipeline({
     position: node.position,
     data: { node },
     draggable: !readOnly,
+    // Keep the editor selection when the nodes are rebuilt from the context
+    selected: selectedNodeIds.includes(node.id),
     // Add specific class names for node types to enable custom styling
     className: `node-${node.type} ${
       highlightNodeId === node.id ? 'ring-2 ring-green-500' : ''
@@ -138,13 +143,15 @@ export default function ImageProcessingPipeline({
       height: 'auto',
       minWidth: '18rem', // 18rem = w-72
     }
-  })), [contextNodes, readOnly, highlightNodeId, operationMode]);
+  })), [contextNodes, selectedNodeIds, readOnly, highlightNodeId, operationMode]);
 
   // Convert context edges to ReactFlow edges
   const initialEdges: Edge[] = useMemo(() => contextEdges.map(edge => ({
     id: edge.id,
     source: edge.source,
     target: edge.target,
+    sourceHandle: edge.sourceHandle,
+    targetHandle: edge.targetHandle,
     type: 'animated',
     animated: true,
     style: {
@@ -173,7 +180,12 @@ export default function ImageProcessingPipeline({
   const onConnect = useCallback(
     (connection: Connection) => {
       if (connection.source && connection.target) {
-        addContextEdge(connection.source, connection.target);
+        addContextEdge(
+          connection.source,
+          connection.target,
+          connection.targetHandle || undefined,
+          connection.sourceHandle || undefined
+        );
         setEdges((eds) => addEdge({
           ...connection,
           animated: true,
@@ -200,6 +212,14 @@ export default function ImageProcessingPipeline({
     [selectNode, onNodeClick, operationMode]
   );
 
+  // Share the editor's multi-selection, e.g. for comparing two nodes
+  const handleSelectionChange = useCallback(
+    ({ nodes: selectedNodes }: OnSelectionChangeParams) => {
+      selectNodes(selectedNodes.map(node => node.id));
+    },
+    [selectNodes]
+  );
+
   // Handle edge click for removal or custom handling
   const handleEdgeClick = useCallback(
     (event: React.MouseEvent, edge: Edge) => {
@@ -227,6 +247,7 @@ export default function ImageProcessingPipeline({
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
         onNodeClick={handleNodeClick}
+        onSelectionChange={handleSelectionChange}
         onEdgeClick={handleEdgeClick}
         onNodeDragStop={onNodeDragStop}
         nodeTypes={nodeTypes}
@@ -22,7 +22,16 @@ import {
   FolderIcon,
   FolderOpenIcon,
   DocumentPlusIcon,
-  ChartBarIcon
+  ChartBarIcon,
+  PlusCircleIcon,
+  MinusCircleIcon,
+  ArrowsRightLeftIcon,
+  Square2StackIcon,
+  ViewfinderCircleIcon,
+  Squares2X2Icon,
+  ViewColumnsIcon,
+  EyeDropperIcon,
+  PresentationChartLineIcon
 } from '@heroicons/react/24/outline';
 import { Tooltip } from 'react-tooltip';
 
@@ -35,31 +44,32 @@ interface LabToolbarProps {
   operationMode?: 'select' | 'connect' | 'disconnect' | null;
   onChangeOperationMode?: (mode: 'select' | 'connect' | 'disconnect' | null) => void;
   onOpenProjectsModal?: (mode: 'save' | 'load' | 'new') => void;
+  onOpenCompareViewer?: (nodeIds: [string, string]) => void;
 }
 
 export default function LabToolbar({ 
   onOpenTransformationManager, 
   operationMode, 
   onChangeOperationMode,
-  onOpenProjectsModal
+  onOpenProjectsModal,
+  onOpenCompareViewer
 }: LabToolbarProps) {
-  const { addNode, addInspectionNode, nodes, clearPipeline, removeNode, selectedNodeId, duplicateNode } = usePipeline();
+  const { addNode, addInspectionNode, nodes, clearPipeline, removeNode, selectedNodeId, selectedNodeIds, duplicateNode, pixelInspectorEnabled, setPixelInspectorEnabled } = usePipeline();
   const [showAddMenu, setShowAddMenu] = useState(false);
   const [showInspectionMenu, setShowInspectionMenu] = useState(false);
 
-  // Check if there's already an input node
-  const hasInputNode = nodes.some((node) => node.type === 'input');
-  
   // Check if there's already an output node
   const hasOutputNode = nodes.some((node) => node.type === 'output');
 
   // Get the selected node if one exists
   const selectedNode = selectedNodeId ? nodes.find(node => node.id === selectedNodeId) : null;
 
+  // Two selected nodes can be compared in the A/B viewer
+  const compareNodeIds = selectedNodeIds.length === 2 ? [selectedNodeIds[0], selectedNodeIds[1]] as [string, string] : null;
+
+  // Several input nodes are allowed so multi-input nodes can combine different images
   const handleAddInputNode = () => {
-    if (!hasInputNode) {
-      addNode('input');
-    }
+    addNode('input');
     setShowAddMenu(false);
   };
 
@@ -158,15 +168,19 @@ export default function LabToolbar({
                 
                 <div className="px-1.5 py-1">
                   <button
-                    className={`flex items-center px-3 py-2 rounded-md text-sm w-full text-left hover:bg-blue-50 text-blue-700 ${hasInputNode ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    className="flex items-center px-3 py-2 rounded-md text-sm w-full text-left hover:bg-blue-50 text-blue-700"
                     onClick={handleAddInputNode}
-                    disabled={hasInputNode}
                   >
                     <PhotoIcon className="h-5 w-5 mr-2 text-blue-500" />
                     Input Node
-                    {hasInputNode && (
-                      <span className="ml-auto text-xs text-gray-500">(Added)</span>
-                    )}
+                  </button>
+                  
+                  <button
+                    className="flex items-center px-3 py-2 rounded-md text-sm w-full text-left hover:bg-sky-50 text-sky-700"
+                    onClick={() => handleAddTransformation('testPattern')}
+                  >
+                    <Squares2X2Icon className="h-5 w-5 mr-2 text-sky-500" />
+                    Test Pattern
                   </button>
                   
                   <button
@@ -203,6 +217,13 @@ export default function LabToolbar({
                       <AdjustmentsHorizontalIcon className="h-6 w-6 mb-1" />
                       <span className="text-xs">Threshold</span>
                     </button>
+                    <button
+                      onClick={() => handleAddTransformation('adaptiveThreshold')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-indigo-50 text-indigo-700 rounded-md"
+                    >
+                      <AdjustmentsHorizontalIcon className="h-6 w-6 mb-1" />
+                      <span className="text-xs">Adaptive Threshold</span>
+                    </button>
                   </div>
                   
                   <div className="px-3 py-1 mt-2">
@@ -244,6 +265,33 @@ export default function LabToolbar({
                       </svg>
                       <span className="text-xs">Median</span>
                     </button>
+                    <button
+                      onClick={() => handleAddTransformation('bilateral')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-blue-50 text-blue-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 17c2-4 4-4 6 0s4 4 6 0 4-4 6 0M3 7h6v6H3zM15 7h6v6h-6z" />
+                      </svg>
+                      <span className="text-xs">Bilateral</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('frequencyFilter')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-blue-50 text-blue-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 12h2l2-7 3 14 3-10 2 6 2-3h4M12 3v2m0 14v2" />
+                      </svg>
+                      <span className="text-xs">Frequency</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('noise')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-blue-50 text-blue-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 4h16v16H4zM8 8h.01M12 7h.01M16 9h.01M7 13h.01M11 12h.01M15 14h.01M9 17h.01M13 16h.01M17 17h.01" />
+                      </svg>
+                      <span className="text-xs">Noise</span>
+                    </button>
                   </div>
                   
                   <div className="px-3 py-1 mt-2">
@@ -314,6 +362,50 @@ export default function LabToolbar({
                     </button>
                   </div>
                   
+                  <div className="px-3 py-1 mt-2">
+                    <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Shape Analysis</h3>
+                  </div>
+                  
+                  <div className="grid grid-cols-2 gap-1 px-1.5">
+                    <button
+                      onClick={() => handleAddTransformation('contours')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-indigo-50 text-indigo-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.568 3H5.25A2.25 2.25 0 003 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 005.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 009.568 3z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 6h.008v.008H6V6z" />
+                      </svg>
+                      <span className="text-xs">Contours</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('hough')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-indigo-50 text-indigo-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 20L20 3M12 21a9 9 0 100-18 9 9 0 000 18z" />
+                      </svg>
+                      <span className="text-xs">Hough</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('distanceTransform')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-indigo-50 text-indigo-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 21a9 9 0 100-18 9 9 0 000 18zm0-4a5 5 0 100-10 5 5 0 000 10zm0-4a1 1 0 100-2 1 1 0 000 2z" />
+                      </svg>
+                      <span className="text-xs">Distance</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('watershed')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-indigo-50 text-indigo-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 3.75c-3 4.5-6 7.5-6 10.5a6 6 0 0012 0c0-3-3-6-6-10.5zM12 14.25v6" />
+                      </svg>
+                      <span className="text-xs">Watershed</span>
+                    </button>
+                  </div>
+                  
                   <div className="px-3 py-1 mt-2">
                     <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Adjustments</h3>
                   </div>
@@ -337,13 +429,40 @@ export default function LabToolbar({
                       </svg>
                       <span className="text-xs">Histogram</span>
                     </button>
+                    <button
+                      onClick={() => handleAddTransformation('colorConvert')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-rose-50 text-rose-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4.098 19.902a3.75 3.75 0 005.304 0l6.401-6.402M6.75 21A3.75 3.75 0 013 17.25V4.125C3 3.504 3.504 3 4.125 3h5.25c.621 0 1.125.504 1.125 1.125v4.072M6.75 21a3.75 3.75 0 003.75-3.75V8.197M6.75 21h13.125c.621 0 1.125-.504 1.125-1.125v-5.25c0-.621-.504-1.125-1.125-1.125h-4.072M10.5 8.197l2.88-2.88c.438-.439 1.15-.439 1.59 0l3.712 3.713c.44.44.44 1.152 0 1.59l-2.879 2.88M6.75 17.25h.008v.008H6.75v-.008z" />
+                      </svg>
+                      <span className="text-xs">Color Space</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('splitChannels')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-rose-50 text-rose-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25h16.5" />
+                      </svg>
+                      <span className="text-xs">Split Channels</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('mergeChannels')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-rose-50 text-rose-700 rounded-md"
+                    >
+                      <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 6.878V6a2.25 2.25 0 012.25-2.25h7.5A2.25 2.25 0 0118 6v.878m-12 0c.235-.083.487-.128.75-.128h10.5c.263 0 .515.045.75.128m-12 0A2.25 2.25 0 004.5 9v.878m13.5-3A2.25 2.25 0 0119.5 9v.878m0 0a2.246 2.246 0 00-.75-.128H5.25c-.263 0-.515.045-.75.128m15 0A2.25 2.25 0 0121 12v6a2.25 2.25 0 01-2.25 2.25H5.25A2.25 2.25 0 013 18v-6c0-.98.626-1.813 1.5-2.122" />
+                      </svg>
+                      <span className="text-xs">Merge Channels</span>
+                    </button>
                   </div>
                   
                   <div className="px-3 py-1 mt-2">
                     <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Geometry</h3>
                   </div>
                   
-                  <div className="grid grid-cols-2 gap-1 px-1.5 mb-2">
+                  <div className="grid grid-cols-2 gap-1 px-1.5">
                     <button
                       onClick={() => handleAddTransformation('resize')}
                       className="flex flex-col items-center justify-center p-2 hover:bg-emerald-50 text-emerald-700 rounded-md"
@@ -381,6 +500,69 @@ export default function LabToolbar({
                       <span className="text-xs">Perspective</span>
                     </button>
                   </div>
+                  
+                  <div className="px-3 py-1 mt-2">
+                    <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Combine</h3>
+                  </div>
+                  
+                  <div className="grid grid-cols-2 gap-1 px-1.5 mb-2">
+                    <button
+                      onClick={() => handleAddTransformation('add')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-cyan-50 text-cyan-700 rounded-md"
+                    >
+                      <PlusCircleIcon className="h-6 w-6 mb-1" />
+                      <span className="text-xs">Add</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('subtract')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-cyan-50 text-cyan-700 rounded-md"
+                    >
+                      <MinusCircleIcon className="h-6 w-6 mb-1" />
+                      <span className="text-xs">Subtract</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('absDiff')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-cyan-50 text-cyan-700 rounded-md"
+                    >
+                      <ArrowsRightLeftIcon className="h-6 w-6 mb-1" />
+                      <span className="text-xs">Abs Diff</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('blend')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-cyan-50 text-cyan-700 rounded-md"
+                    >
+                      <Square2StackIcon className="h-6 w-6 mb-1" />
+                      <span className="text-xs">Blend</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('bitwiseAnd')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-cyan-50 text-cyan-700 rounded-md"
+                    >
+                      <span className="h-6 mb-1 font-mono text-sm font-bold leading-6">&amp;</span>
+                      <span className="text-xs">AND</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('bitwiseOr')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-cyan-50 text-cyan-700 rounded-md"
+                    >
+                      <span className="h-6 mb-1 font-mono text-sm font-bold leading-6">|</span>
+                      <span className="text-xs">OR</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('bitwiseXor')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-cyan-50 text-cyan-700 rounded-md"
+                    >
+                      <span className="h-6 mb-1 font-mono text-sm font-bold leading-6">^</span>
+                      <span className="text-xs">XOR</span>
+                    </button>
+                    <button
+                      onClick={() => handleAddTransformation('maskedCopy')}
+                      className="flex flex-col items-center justify-center p-2 hover:bg-cyan-50 text-cyan-700 rounded-md"
+                    >
+                      <ViewfinderCircleIcon className="h-6 w-6 mb-1" />
+                      <span className="text-xs">Masked Copy</span>
+                    </button>
+                  </div>
                 </div>
               </div>
             )}
@@ -503,6 +685,29 @@ export default function LabToolbar({
                     </svg>
                     <span className="text-xs">FFT</span>
                   </button>
+                  <button
+                    onClick={() => handleAddInspection('featureDetection')}
+                    className="flex flex-col items-center justify-center p-2 hover:bg-teal-50 text-teal-700 rounded-md"
+                  >
+                    <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 3v2m0 14v2M3 12h2m14 0h2M12 8a4 4 0 100 8 4 4 0 000-8zm0 4l2.5-2.5" />
+                    </svg>
+                    <span className="text-xs">Keypoints</span>
+                  </button>
+                  <button
+                    onClick={() => handleAddInspection('imageQuality')}
+                    className="flex flex-col items-center justify-center p-2 hover:bg-teal-50 text-teal-700 rounded-md"
+                  >
+                    <ArrowsRightLeftIcon className="h-6 w-6 mb-1" />
+                    <span className="text-xs">Quality</span>
+                  </button>
+                  <button
+                    onClick={() => handleAddInspection('lineProfile')}
+                    className="flex flex-col items-center justify-center p-2 hover:bg-fuchsia-50 text-fuchsia-700 rounded-md"
+                  >
+                    <PresentationChartLineIcon className="h-6 w-6 mb-1" />
+                    <span className="text-xs">Profile</span>
+                  </button>
                 </div>
               </div>
             )}
@@ -568,6 +773,53 @@ export default function LabToolbar({
             Disconnect Nodes (D)
           </Tooltip>
           
+          {/* Pixel inspector toggle */}
+          <button
+            onClick={() => setPixelInspectorEnabled(!pixelInspectorEnabled)}
+            className={pixelInspectorEnabled ? activeButtonClass : buttonClass}
+            id="pixel-inspector-btn"
+            data-tooltip-id="pixel-inspector-tooltip"
+          >
+            <EyeDropperIcon className="h-5 w-5" />
+          </button>
+          <Tooltip 
+            id="pixel-inspector-tooltip" 
+            place="bottom" 
+            offset={10}
+            className="tooltip-fixed"
+            delayShow={300}
+            positionStrategy="fixed"
+          >
+            Pixel Inspector (I)
+          </Tooltip>
+          
+          {/* Compare viewer button */}
+          {onOpenCompareViewer && (
+            <>
+              <button
+                onClick={() => compareNodeIds && onOpenCompareViewer(compareNodeIds)}
+                className={`${buttonClass} ${compareNodeIds ? '' : 'opacity-50 cursor-not-allowed'}`}
+                disabled={!compareNodeIds}
+                id="compare-nodes-btn"
+                data-tooltip-id="compare-nodes-tooltip"
+              >
+                <ViewColumnsIcon className="h-5 w-5" />
+              </button>
+              <Tooltip 
+                id="compare-nodes-tooltip" 
+                place="bottom" 
+                offset={10}
+                className="tooltip-fixed"
+                delayShow={300}
+                positionStrategy="fixed"
+              >
+                {compareNodeIds
+                  ? 'Compare Selected Nodes'
+                  : 'Compare Nodes (select two with Ctrl/⌘-click or Shift-drag)'}
+              </Tooltip>
+            </>
+          )}
+          
           {/* Node action buttons - only shown when a node is selected */}
           {selectedNode && (
             <>
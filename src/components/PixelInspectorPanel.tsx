@@ -0,0 +1,166 @@
+import { XMarkIcon, EyeDropperIcon } from '@heroicons/react/24/outline';
+import { usePipeline } from '../contexts/PipelineContext';
+import { getEdgeSourceCanvas } from '../services/PipelineManager';
+import type { ImageProcessingEdge } from '../utils/types';
+import { samplePixel, type PixelValue } from '../utils/pixelSampling';
+import { getNodeLabel } from '../utils/nodeLabels';
+
+interface PixelInspectorPanelProps {
+  onClose: () => void;
+}
+
+// Nodes reachable from a node by following the edges against or along their direction
+const collectConnected = (
+  nodeId: string,
+  edges: ImageProcessingEdge[],
+  direction: 'upstream' | 'downstream'
+): Set<string> => {
+  const found = new Set<string>();
+  const queue = [nodeId];
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    for (const edge of edges) {
+      const [from, to] = direction === 'upstream' ? [edge.target, edge.source] : [edge.source, edge.target];
+      if (from === current && !found.has(to)) {
+        found.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  return found;
+};
+
+type NodeRelation = 'picked' | 'upstream' | 'downstream';
+
+const relationStyles: Record<NodeRelation, string> = {
+  picked: 'bg-rose-100 text-rose-700',
+  upstream: 'bg-blue-100 text-blue-700',
+  downstream: 'bg-green-100 text-green-700'
+};
+
+/**
+ * Values of the inspected pixel in every node, in processing order
+ */
+export default function PixelInspectorPanel({ onClose }: PixelInspectorPanelProps) {
+  const { nodes, edges, results, inspectedPixel, inspectPixel, selectNode, getTopologicalOrder } = usePipeline();
+
+  const order = getTopologicalOrder();
+  const upstream = inspectedPixel ? collectConnected(inspectedPixel.nodeId, edges, 'upstream') : new Set<string>();
+  const downstream = inspectedPixel ? collectConnected(inspectedPixel.nodeId, edges, 'downstream') : new Set<string>();
+
+  const sampleCanvas = (canvas: HTMLCanvasElement | null | undefined): PixelValue | null => {
+    return canvas && inspectedPixel ? samplePixel(canvas, inspectedPixel.x, inspectedPixel.y) : null;
+  };
+
+  const rows = order.map(nodeId => {
+    const node = nodes.find(n => n.id === nodeId);
+    const hasResult = !!results.get(nodeId)?.canvas;
+    const value = sampleCanvas(results.get(nodeId)?.canvas);
+    // Change in gray level made by this node, against its (first) input, read from the output port it uses
+    const inputEdge = edges.find(edge => edge.target === nodeId);
+    const inputValue = inputEdge ? sampleCanvas(getEdgeSourceCanvas(results.get(inputEdge.source), inputEdge)) : null;
+    const relation: NodeRelation | null = !inspectedPixel ? null
+      : nodeId === inspectedPixel.nodeId ? 'picked'
+      : upstream.has(nodeId) ? 'upstream'
+      : downstream.has(nodeId) ? 'downstream'
+      : null;
+    return {
+      nodeId,
+      label: getNodeLabel(node),
+      hasResult,
+      value,
+      change: value && inputValue ? value.gray - inputValue.gray : null,
+      relation
+    };
+  });
+
+  return (
+    <div className="absolute bottom-4 left-4 w-[26rem] max-h-[60%] flex flex-col bg-white rounded-lg shadow-xl border border-gray-200 z-20">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <div className="flex items-center text-sm font-medium text-gray-800">
+          <EyeDropperIcon className="h-4 w-4 mr-1.5 text-rose-500" />
+          Pixel Inspector
+          {inspectedPixel && (
+            <span className="ml-2 font-mono text-xs text-gray-500">
+              x {inspectedPixel.x}, y {inspectedPixel.y}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {inspectedPixel?.pinned && (
+            <button
+              onClick={() => inspectPixel(null)}
+              className="text-xs text-rose-600 hover:underline"
+            >
+              Unpin
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close (I)">
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {!inspectedPixel ? (
+        <p className="px-3 py-4 text-xs text-gray-500">
+          Hover a node preview to read a pixel in every node; click to pin it.
+        </p>
+      ) : (
+        <div className="overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-50 text-gray-500">
+              <tr>
+                <th className="px-3 py-1 text-left font-medium">Node</th>
+                <th className="px-1 py-1"></th>
+                <th className="px-2 py-1 text-right font-medium">R G B</th>
+                <th className="px-2 py-1 text-right font-medium">Gray</th>
+                <th className="px-3 py-1 text-right font-medium" title="Change in gray level from the node's input">Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr
+                  key={row.nodeId}
+                  onClick={() => selectNode(row.nodeId)}
+                  className={`cursor-pointer border-t border-gray-100 hover:bg-gray-50 ${
+                    row.relation ? '' : 'text-gray-400'
+                  }`}
+                >
+                  <td className="px-3 py-1">
+                    <span className="truncate">{row.label}</span>
+                    {row.relation && (
+                      <span className={`ml-1.5 px-1 rounded text-[10px] ${relationStyles[row.relation]}`}>
+                        {row.relation}
+                      </span>
+                    )}
+                  </td>
+                  {row.value ? (
+                    <>
+                      <td className="px-1 py-1">
+                        <span
+                          className="block h-3 w-3 rounded-sm border border-gray-300"
+                          style={{ backgroundColor: `rgb(${row.value.r}, ${row.value.g}, ${row.value.b})` }}
+                        />
+                      </td>
+                      <td className="px-2 py-1 text-right font-mono whitespace-nowrap">
+                        {row.value.r} {row.value.g} {row.value.b}
+                      </td>
+                      <td className="px-2 py-1 text-right font-mono">{row.value.gray}</td>
+                      <td className="px-3 py-1 text-right font-mono">
+                        {row.change === null ? '' : row.change > 0 ? `+${row.change}` : row.change}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="px-3 py-1 text-right italic text-gray-400">
+                      {row.hasResult ? 'Outside image' : 'No result'}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import React, { useRef, useEffect, useState } from 'react';
+import type { LineProfileData } from '../../services/LineProfileAnalyzer';
+
+export type ProfileChannels = 'auto' | 'rgb' | 'gray' | 'all';
+
+interface LineProfileChartProps {
+  data: LineProfileData;
+  width?: number;
+  height?: number;
+  // Curves to draw; auto shows the gray level of grayscale images and R, G, B otherwise
+  channels?: ProfileChannels;
+  // Overlay the derivative of the gray level, on its own scale
+  showGradient?: boolean;
+  interactive?: boolean;
+  // Distance along the line under the pointer, null when it leaves the chart
+  onHoverDistance?: (distance: number | null) => void;
+}
+
+const PADDING = 40;
+
+const CURVE_COLORS = {
+  red: 'rgb(239, 68, 68)',
+  green: 'rgb(34, 197, 94)',
+  blue: 'rgb(59, 130, 246)',
+  gray: 'rgb(75, 85, 99)',
+  gradient: 'rgb(245, 158, 11)'
+};
+
+// Channel curves to draw for a channel selection
+const getCurves = (data: LineProfileData, channels: ProfileChannels) => {
+  const shown = channels === 'auto' ? (data.isGrayscale ? 'gray' : 'rgb') : channels;
+  const curves: { name: 'red' | 'green' | 'blue' | 'gray'; values: Float32Array }[] = [];
+  if (shown === 'rgb' || shown === 'all') {
+    curves.push({ name: 'red', values: data.red }, { name: 'green', values: data.green }, { name: 'blue', values: data.blue });
+  }
+  if (shown === 'gray' || shown === 'all') {
+    curves.push({ name: 'gray', values: data.gray });
+  }
+  return curves;
+};
+
+export default function LineProfileChart({
+  data,
+  width = 400,
+  height = 300,
+  channels = 'auto',
+  showGradient = true,
+  interactive = true,
+  onHoverDistance
+}: LineProfileChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hoveredSample, setHoveredSample] = useState<number | null>(null);
+  const [mousePos, setMousePos] = useState<{ x: number; y: number } | null>(null);
+
+  const curves = getCurves(data, channels);
+
+  useEffect(() => {
+    const curves = getCurves(data, channels);
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const chartWidth = width - 2 * PADDING;
+    const chartHeight = height - 2 * PADDING;
+    const sampleCount = data.gray.length;
+    const toX = (index: number) => PADDING + (sampleCount > 1 ? index / (sampleCount - 1) : 0.5) * chartWidth;
+    const toY = (value: number) => PADDING + chartHeight - (value / 255) * chartHeight;
+
+    // Background, chart area and border
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = '#f8fafc';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(PADDING, PADDING, chartWidth, chartHeight);
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(PADDING, PADDING, chartWidth, chartHeight);
+
+    // Polyline corners
+    ctx.save();
+    ctx.setLineDash([3, 3]);
+    ctx.strokeStyle = '#cbd5e1';
+    data.vertexDistances.slice(1, -1).forEach(distance => {
+      const x = toX(Math.min(distance, sampleCount - 1));
+      ctx.beginPath();
+      ctx.moveTo(x, PADDING);
+      ctx.lineTo(x, PADDING + chartHeight);
+      ctx.stroke();
+    });
+    ctx.restore();
+
+    // Gradient on a symmetric scale around the middle of the chart
+    const gradientScale = Math.max(1e-6, Math.abs(data.statistics.maxGradient));
+    const toGradientY = (value: number) => PADDING + chartHeight / 2 - (value / gradientScale) * (chartHeight / 2);
+    if (showGradient) {
+      ctx.save();
+      ctx.setLineDash([4, 3]);
+      ctx.strokeStyle = 'rgba(245, 158, 11, 0.5)';
+      ctx.beginPath();
+      ctx.moveTo(PADDING, PADDING + chartHeight / 2);
+      ctx.lineTo(PADDING + chartWidth, PADDING + chartHeight / 2);
+      ctx.stroke();
+      ctx.restore();
+
+      ctx.fillStyle = 'rgba(245, 158, 11, 0.15)';
+      ctx.beginPath();
+      ctx.moveTo(toX(0), PADDING + chartHeight / 2);
+      for (let i = 0; i < sampleCount; i++) ctx.lineTo(toX(i), toGradientY(data.gradient[i]));
+      ctx.lineTo(toX(sampleCount - 1), PADDING + chartHeight / 2);
+      ctx.closePath();
+      ctx.fill();
+
+      ctx.strokeStyle = CURVE_COLORS.gradient;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let i = 0; i < sampleCount; i++) {
+        if (i === 0) ctx.moveTo(toX(i), toGradientY(data.gradient[i]));
+        else ctx.lineTo(toX(i), toGradientY(data.gradient[i]));
+      }
+      ctx.stroke();
+    }
+
+    // Intensity curves
+    ctx.lineWidth = 1.5;
+    curves.forEach(curve => {
+      ctx.strokeStyle = CURVE_COLORS[curve.name];
+      ctx.beginPath();
+      for (let i = 0; i < sampleCount; i++) {
+        if (i === 0) ctx.moveTo(toX(i), toY(curve.values[i]));
+        else ctx.lineTo(toX(i), toY(curve.values[i]));
+      }
+      ctx.stroke();
+    });
+
+    // Hovered sample
+    if (hoveredSample !== null) {
+      const x = toX(hoveredSample);
+      ctx.strokeStyle = 'rgba(59, 130, 246, 0.6)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, PADDING);
+      ctx.lineTo(x, PADDING + chartHeight);
+      ctx.stroke();
+      curves.forEach(curve => {
+        ctx.fillStyle = CURVE_COLORS[curve.name];
+        ctx.beginPath();
+        ctx.arc(x, toY(curve.values[hoveredSample]), 3, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+
+    // Axes
+    ctx.strokeStyle = '#6b7280';
+    ctx.lineWidth = 1;
+    ctx.font = '10px sans-serif';
+    ctx.fillStyle = '#6b7280';
+    ctx.beginPath();
+    ctx.moveTo(PADDING, PADDING + chartHeight);
+    ctx.lineTo(PADDING + chartWidth, PADDING + chartHeight);
+    ctx.moveTo(PADDING, PADDING);
+    ctx.lineTo(PADDING, PADDING + chartHeight);
+    ctx.stroke();
+
+    const tickCount = 4;
+    for (let i = 0; i <= tickCount; i++) {
+      // Distance ticks
+      const x = PADDING + (i / tickCount) * chartWidth;
+      ctx.beginPath();
+      ctx.moveTo(x, PADDING + chartHeight);
+      ctx.lineTo(x, PADDING + chartHeight + 5);
+      ctx.stroke();
+      ctx.textAlign = 'center';
+      ctx.fillText(Math.round((i / tickCount) * (sampleCount - 1)).toString(), x, PADDING + chartHeight + 18);
+
+      // Intensity ticks
+      const y = PADDING + chartHeight - (i / tickCount) * chartHeight;
+      ctx.beginPath();
+      ctx.moveTo(PADDING - 5, y);
+      ctx.lineTo(PADDING, y);
+      ctx.stroke();
+      ctx.textAlign = 'right';
+      ctx.fillText(Math.round((i / tickCount) * 255).toString(), PADDING - 7, y + 3);
+    }
+
+    // Gradient scale on the right
+    if (showGradient) {
+      ctx.fillStyle = CURVE_COLORS.gradient;
+      ctx.textAlign = 'left';
+      ctx.fillText(`+${gradientScale.toFixed(1)}`, PADDING + chartWidth + 3, PADDING + 8);
+      ctx.fillText(`−${gradientScale.toFixed(1)}`, PADDING + chartWidth + 3, PADDING + chartHeight);
+    }
+
+    // Labels
+    ctx.fillStyle = '#6b7280';
+    ctx.save();
+    ctx.translate(12, PADDING + chartHeight / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.font = '12px sans-serif';
+    ctx.fillText('Intensity', 0, 0);
+    ctx.restore();
+
+    ctx.textAlign = 'center';
+    ctx.font = '12px sans-serif';
+    ctx.fillText('Distance along line (px)', PADDING + chartWidth / 2, height - 5);
+  }, [data, width, height, channels, showGradient, hoveredSample]);
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!interactive) return;
+
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    // The editor's zoom scales the node, so positions are converted back to canvas pixels
+    const x = (event.clientX - rect.left) * (width / rect.width);
+    const chartWidth = width - 2 * PADDING;
+    setMousePos({ x: event.clientX, y: event.clientY });
+
+    if (x >= PADDING && x <= PADDING + chartWidth) {
+      const sample = Math.round(((x - PADDING) / chartWidth) * (data.gray.length - 1));
+      setHoveredSample(sample);
+      onHoverDistance?.(sample);
+    } else {
+      setHoveredSample(null);
+      onHoverDistance?.(null);
+    }
+  };
+
+  const handleMouseLeave = () => {
+    setHoveredSample(null);
+    setMousePos(null);
+    onHoverDistance?.(null);
+  };
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="border border-gray-200 rounded cursor-crosshair"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={handleMouseLeave}
+      />
+
+      {/* Tooltip */}
+      {interactive && hoveredSample !== null && mousePos && (
+        <div
+          className="fixed z-50 pointer-events-none"
+          style={{
+            left: mousePos.x + 10,
+            top: mousePos.y - 10,
+            transform: 'translateY(-100%)'
+          }}
+        >
+          <div className="bg-gray-800 text-white p-2 rounded shadow-lg text-xs">
+            <div>Distance: {hoveredSample} px</div>
+            {!data.isGrayscale && (
+              <>
+                <div className="text-red-300">Red: {data.red[hoveredSample].toFixed(1)}</div>
+                <div className="text-green-300">Green: {data.green[hoveredSample].toFixed(1)}</div>
+                <div className="text-blue-300">Blue: {data.blue[hoveredSample].toFixed(1)}</div>
+              </>
+            )}
+            <div>Gray: {data.gray[hoveredSample].toFixed(1)}</div>
+            <div className="text-amber-300">Gradient: {data.gradient[hoveredSample].toFixed(2)} /px</div>
+          </div>
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="flex justify-center mt-2 space-x-4 text-xs">
+        {curves.map(curve => (
+          <div key={curve.name} className="flex items-center">
+            <div className="w-3 h-0.5 mr-1" style={{ backgroundColor: CURVE_COLORS[curve.name] }}></div>
+            <span className="capitalize">{curve.name}</span>
+          </div>
+        ))}
+        {showGradient && (
+          <div className="flex items-center">
+            <div className="w-3 h-0.5 mr-1" style={{ backgroundColor: CURVE_COLORS.gradient }}></div>
+            <span>Gradient</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import React, { useRef, useState } from 'react';
+import type { PointValue } from '../../utils/types';
+
+interface LineProfileEditorProps {
+  imageUrl: string;
+  imageWidth: number;
+  imageHeight: number;
+  points: PointValue[];
+  // Drawn as a translucent band around the line
+  averagingWidth: number;
+  // Position marked on the line, e.g. the sample under the pointer in the chart
+  highlight?: PointValue | null;
+  // Called once per edit: when a line is drawn, a polyline finished or a vertex released
+  onChange: (points: PointValue[]) => void;
+}
+
+type DrawMode = 'line' | 'polyline';
+
+/**
+ * Input image with the profile line drawn on top. In line mode a drag draws
+ * a new line; in polyline mode clicks add vertices until the polyline is
+ * finished. Vertices of the current line can be dragged in both modes. The
+ * SVG viewBox matches the image, so coordinates are image pixels.
+ */
+export default function LineProfileEditor({
+  imageUrl,
+  imageWidth,
+  imageHeight,
+  points,
+  averagingWidth,
+  highlight,
+  onChange
+}: LineProfileEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [mode, setMode] = useState<DrawMode>('line');
+  // Line being drawn, not yet committed to the pipeline
+  const [draft, setDraft] = useState<PointValue[] | null>(null);
+  const [dragging, setDragging] = useState<{ index: number; point: PointValue } | null>(null);
+  const [hoverPoint, setHoverPoint] = useState<PointValue | null>(null);
+
+  const handleRadius = Math.max(imageWidth, imageHeight) * 0.02;
+  const displayed = draft
+    ? (mode === 'polyline' && hoverPoint ? [...draft, hoverPoint] : draft)
+    : dragging
+      ? points.map((point, index) => index === dragging.index ? dragging.point : point)
+      : points;
+
+  const toImagePoint = (event: React.PointerEvent | React.MouseEvent): PointValue | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.round(Math.min(Math.max(point.x, 0), imageWidth - 1)),
+      y: Math.round(Math.min(Math.max(point.y, 0), imageHeight - 1))
+    };
+  };
+
+  const finishPolyline = () => {
+    // The clicks of a double click also add vertices, on the same spot
+    const vertices = (draft || []).filter((point, index, all) =>
+      index === 0 || point.x !== all[index - 1].x || point.y !== all[index - 1].y
+    );
+    if (vertices.length >= 2) {
+      onChange(vertices);
+    }
+    setDraft(null);
+    setHoverPoint(null);
+  };
+
+  const handleBackgroundPointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImagePoint(event);
+    if (!point) return;
+
+    if (mode === 'line') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDraft([point, point]);
+    } else {
+      setDraft(draft ? [...draft, point] : [point]);
+    }
+  };
+
+  const handleVertexPointerDown = (index: number) => (event: React.PointerEvent<SVGCircleElement>) => {
+    if (draft) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragging({ index, point: points[index] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const point = toImagePoint(event);
+    if (!point) return;
+
+    if (dragging) {
+      setDragging({ ...dragging, point });
+    } else if (draft && mode === 'line') {
+      setDraft([draft[0], point]);
+    } else if (draft) {
+      setHoverPoint(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (dragging) {
+      onChange(points.map((point, index) => index === dragging.index ? dragging.point : point));
+      setDragging(null);
+    } else if (draft && mode === 'line') {
+      const [start, end] = draft;
+      if (start.x !== end.x || start.y !== end.y) {
+        onChange(draft);
+      }
+      setDraft(null);
+    }
+  };
+
+  const switchMode = (next: DrawMode) => {
+    setMode(next);
+    setDraft(null);
+    setHoverPoint(null);
+  };
+
+  const pathPoints = displayed.map(point => `${point.x + 0.5},${point.y + 0.5}`).join(' ');
+
+  return (
+    <div>
+      <div className="mb-1 flex items-center justify-between text-xs">
+        <div className="flex rounded border border-gray-200 overflow-hidden">
+          {(['line', 'polyline'] as DrawMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => switchMode(option)}
+              className={`px-2 py-0.5 capitalize ${mode === option ? 'bg-gray-800 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        {mode === 'polyline' && draft ? (
+          <div className="space-x-2">
+            <button
+              onClick={finishPolyline}
+              disabled={draft.length < 2}
+              title="Double-click also finishes"
+              className="text-gray-800 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              Finish
+            </button>
+            <button onClick={() => switchMode('polyline')} className="text-gray-500 hover:underline">
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <span className="text-gray-500">
+            {mode === 'line' ? 'Drag to draw a line' : 'Click to add points'}
+          </span>
+        )}
+      </div>
+      <div
+        className="nodrag relative w-full bg-slate-800 rounded-md overflow-hidden select-none"
+        style={{ aspectRatio: `${imageWidth} / ${imageHeight}`, maxHeight: 240 }}
+      >
+        <img
+          src={imageUrl}
+          alt="Input"
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+          draggable={false}
+        />
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="absolute inset-0 w-full h-full cursor-crosshair"
+          onPointerDown={handleBackgroundPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => { setDragging(null); setDraft(null); }}
+          onDoubleClick={mode === 'polyline' ? finishPolyline : undefined}
+        >
+          {averagingWidth > 1 && (
+            <polyline
+              points={pathPoints}
+              fill="none"
+              stroke="rgba(244, 63, 94, 0.3)"
+              strokeWidth={averagingWidth}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          )}
+          <polyline
+            points={pathPoints}
+            fill="none"
+            stroke="#f43f5e"
+            strokeWidth={2}
+            strokeDasharray={draft ? '4 3' : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+          {!draft && displayed.map((point, index) => (
+            <circle
+              key={index}
+              cx={point.x + 0.5}
+              cy={point.y + 0.5}
+              r={handleRadius}
+              fill={index === 0 ? '#22c55e' : index === displayed.length - 1 ? '#ef4444' : '#ffffff'}
+              stroke="#ffffff"
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+              style={{ cursor: 'move' }}
+              onPointerDown={handleVertexPointerDown(index)}
+            />
+          ))}
+          {highlight && !draft && (
+            <circle
+              cx={highlight.x + 0.5}
+              cy={highlight.y + 0.5}
+              r={handleRadius * 0.8}
+              fill="#facc15"
+              stroke="#000000"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+              pointerEvents="none"
+            />
+          )}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import type { PointValue, QuadCorners } from '../../utils/types';
+import { QUAD_CORNER_NAMES } from '../../utils/perspective';
+import type { QuadCornerName } from '../../utils/perspective';
+
+interface PerspectiveCornerEditorProps {
+  imageUrl: string;
+  imageWidth: number;
+  imageHeight: number;
+  corners: QuadCorners;
+  // Read-only editors only draw the quadrilateral (e.g. an auto-detected one)
+  editable?: boolean;
+  // Called once per drag, when the handle is released
+  onCornerChange?: (name: QuadCornerName, point: PointValue) => void;
+}
+
+const CORNER_LABELS: Record<QuadCornerName, string> = {
+  topLeft: 'TL',
+  topRight: 'TR',
+  bottomRight: 'BR',
+  bottomLeft: 'BL'
+};
+
+/**
+ * Input image with the four source corners of a perspective warp drawn on
+ * top. Corners are dragged in image pixel coordinates; the SVG viewBox
+ * matches the image so the overlay lines up at any display size.
+ */
+export default function PerspectiveCornerEditor({
+  imageUrl,
+  imageWidth,
+  imageHeight,
+  corners,
+  editable = true,
+  onCornerChange
+}: PerspectiveCornerEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<{ name: QuadCornerName; point: PointValue } | null>(null);
+
+  // Show the corner being dragged without committing every move to the pipeline
+  const displayed: QuadCorners = dragging ? { ...corners, [dragging.name]: dragging.point } : corners;
+  const handleRadius = Math.max(imageWidth, imageHeight) * 0.025;
+
+  const toImagePoint = (event: React.PointerEvent): PointValue | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.round(Math.min(Math.max(point.x, 0), imageWidth - 1)),
+      y: Math.round(Math.min(Math.max(point.y, 0), imageHeight - 1))
+    };
+  };
+
+  const handlePointerDown = (name: QuadCornerName) => (event: React.PointerEvent<SVGCircleElement>) => {
+    if (!editable) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragging({ name, point: corners[name] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragging) return;
+    const point = toImagePoint(event);
+    if (point) {
+      setDragging({ ...dragging, point });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragging) return;
+    onCornerChange?.(dragging.name, dragging.point);
+    setDragging(null);
+  };
+
+  const polygonPoints = QUAD_CORNER_NAMES.map(name => `${displayed[name].x},${displayed[name].y}`).join(' ');
+
+  return (
+    <div
+      className="nodrag relative w-full bg-slate-800 rounded-md overflow-hidden select-none"
+      style={{ aspectRatio: `${imageWidth} / ${imageHeight}`, maxHeight: 240 }}
+    >
+      <img
+        src={imageUrl}
+        alt="Input"
+        className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+        draggable={false}
+      />
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+        preserveAspectRatio="xMidYMid meet"
+        className="absolute inset-0 w-full h-full"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDragging(null)}
+      >
+        <polygon
+          points={polygonPoints}
+          fill="rgba(34, 197, 94, 0.15)"
+          stroke="#22c55e"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {QUAD_CORNER_NAMES.map(name => (
+          <g key={name}>
+            <circle
+              cx={displayed[name].x}
+              cy={displayed[name].y}
+              r={handleRadius}
+              fill={name === 'topLeft' ? '#22c55e' : '#ffffff'}
+              stroke="#15803d"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              style={{ cursor: editable ? 'move' : 'default' }}
+              onPointerDown={handlePointerDown(name)}
+            />
+            <text
+              x={displayed[name].x}
+              y={displayed[name].y - handleRadius * 1.4}
+              textAnchor="middle"
+              fontSize={handleRadius * 1.2}
+              fill="#ffffff"
+              stroke="#000000"
+              strokeWidth={0.5}
+              vectorEffect="non-scaling-stroke"
+              pointerEvents="none"
+            >
+              {CORNER_LABELS[name]}
+            </text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+}
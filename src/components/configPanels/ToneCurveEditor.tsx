@@ -0,0 +1,155 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { HistogramData, PointValue } from '../../utils/types';
+import { createCurveLut, normalizeCurvePoints } from '../../utils/colorAdjustment';
+
+interface ToneCurveEditorProps {
+  // Control points in 0-255 (input x, output y), sorted by x
+  points: PointValue[];
+  onChange: (points: PointValue[]) => void;
+  // Luminance histogram of the node input, drawn behind the curve
+  inputHistogram?: HistogramData | null;
+  // Luminance histogram of the adjusted image, drawn as an outline
+  outputHistogram?: HistogramData | null;
+}
+
+// Curve coordinates are 0-255 with y pointing up; the SVG has y pointing down
+const SIZE = 255;
+const HANDLE_RADIUS = 5;
+
+// Path of a 256-bin histogram scaled to the plot height, closed along the bottom when filled
+const histogramPath = (bins: number[] | undefined, closed: boolean): string | null => {
+  if (!bins || bins.length === 0) return null;
+  const peak = Math.max(...bins);
+  if (peak === 0) return null;
+
+  const line = bins.map((count, value) => `${value},${SIZE - (count / peak) * SIZE * 0.9}`).join(' L');
+  return closed ? `M0,${SIZE} L${line} L${SIZE},${SIZE} Z` : `M${line}`;
+};
+
+/**
+ * Tone curve editor: a monotone spline through draggable control points,
+ * over the histogram of the image being adjusted. Click the plot to add a
+ * point, drag a point to move it and double-click it to remove it; the
+ * first and last point can be moved but not removed.
+ */
+export default function ToneCurveEditor({
+  points,
+  onChange,
+  inputHistogram,
+  outputHistogram
+}: ToneCurveEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const curve = useMemo(() => normalizeCurvePoints(points), [points]);
+
+  const curvePath = useMemo(() => {
+    const lut = createCurveLut(curve);
+    return Array.from(lut, (value, input) => `${input},${SIZE - value}`).join(' L');
+  }, [curve]);
+
+  const inputPath = useMemo(() => histogramPath(inputHistogram?.gray, true), [inputHistogram]);
+  const outputPath = useMemo(() => histogramPath(outputHistogram?.gray, false), [outputHistogram]);
+
+  const toCurvePoint = (event: React.PointerEvent | React.MouseEvent): PointValue | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.round(Math.min(Math.max(point.x, 0), SIZE)),
+      y: Math.round(Math.min(Math.max(SIZE - point.y, 0), SIZE))
+    };
+  };
+
+  const handlePointerDown = (index: number) => (event: React.PointerEvent<SVGCircleElement>) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const point = toCurvePoint(event);
+    if (!point) return;
+
+    // Keep the point strictly between its neighbours so the order never changes
+    const minX = dragIndex === 0 ? 0 : curve[dragIndex - 1].x + 1;
+    const maxX = dragIndex === curve.length - 1 ? SIZE : curve[dragIndex + 1].x - 1;
+    const updated = [...curve];
+    updated[dragIndex] = { x: Math.min(Math.max(point.x, minX), maxX), y: point.y };
+    onChange(updated);
+  };
+
+  const handleAddPoint = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (dragIndex !== null) return;
+    const point = toCurvePoint(event);
+    if (!point || curve.some(existing => existing.x === point.x)) return;
+
+    // New points start on the curve so adding one does not change the result
+    const lut = createCurveLut(curve);
+    onChange(normalizeCurvePoints([...curve, { x: point.x, y: Math.round(lut[point.x]) }]));
+  };
+
+  const handleRemovePoint = (index: number) => (event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (index === 0 || index === curve.length - 1) return;
+    onChange(curve.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="nodrag w-full max-w-xs mx-auto select-none">
+      <svg
+        ref={svgRef}
+        viewBox={`-${HANDLE_RADIUS} -${HANDLE_RADIUS} ${SIZE + HANDLE_RADIUS * 2} ${SIZE + HANDLE_RADIUS * 2}`}
+        className="w-full aspect-square bg-white border border-gray-300 rounded-md cursor-crosshair"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerCancel={() => setDragIndex(null)}
+        onClick={handleAddPoint}
+      >
+        {[64, 128, 192].map(position => (
+          <g key={position} stroke="#e5e7eb" strokeWidth={1} vectorEffect="non-scaling-stroke">
+            <line x1={position} y1={0} x2={position} y2={SIZE} />
+            <line x1={0} y1={position} x2={SIZE} y2={position} />
+          </g>
+        ))}
+        {inputPath && <path d={inputPath} fill="rgba(148, 163, 184, 0.45)" stroke="none" />}
+        {outputPath && (
+          <path d={outputPath} fill="none" stroke="#f43f5e" strokeWidth={1} strokeOpacity={0.6} vectorEffect="non-scaling-stroke" />
+        )}
+        <line
+          x1={0}
+          y1={SIZE}
+          x2={SIZE}
+          y2={0}
+          stroke="#9ca3af"
+          strokeDasharray="4 4"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+        <path d={`M${curvePath}`} fill="none" stroke="#111827" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {curve.map((point, index) => (
+          <circle
+            key={index}
+            cx={point.x}
+            cy={SIZE - point.y}
+            r={HANDLE_RADIUS}
+            fill={dragIndex === index ? '#e11d48' : '#ffffff'}
+            stroke="#e11d48"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            style={{ cursor: 'move' }}
+            onPointerDown={handlePointerDown(index)}
+            onClick={(event) => event.stopPropagation()}
+            onDoubleClick={handleRemovePoint(index)}
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>Shadows</span>
+        <span>Input</span>
+        <span>Highlights</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Dialog, DialogPanel, DialogTitle } from '@headlessui/react';
+import {
+  XMarkIcon,
+  ArrowsRightLeftIcon,
+  MagnifyingGlassPlusIcon,
+  MagnifyingGlassMinusIcon,
+  ArrowsPointingInIcon
+} from '@heroicons/react/24/outline';
+import { usePipeline } from '../../contexts/PipelineContext';
+import { getNodeLabel } from '../../utils/nodeLabels';
+import { getCanvasPixels } from '../../utils/pixelSampling';
+
+type CompareMode = 'split' | 'sideBySide' | 'onion' | 'difference';
+
+// Pane coordinates of image point (u, v) are (u · zoom + x, v · zoom + y), in CSS pixels
+interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+interface DifferenceImage {
+  canvas: HTMLCanvasElement;
+  maxDifference: number;
+  changedPixels: number;
+  pixelCount: number;
+}
+
+interface CompareViewerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The two nodes to compare, shown as A and B
+  nodeIds: [string, string];
+}
+
+const COMPARE_MODES: { id: CompareMode; label: string }[] = [
+  { id: 'split', label: 'Split' },
+  { id: 'sideBySide', label: 'Side by Side' },
+  { id: 'onion', label: 'Onion Skin' },
+  { id: 'difference', label: 'Difference' }
+];
+
+// Zoom steps; whole multiples above 1:1 keep every image pixel the same size on screen
+const ZOOM_LEVELS = [1 / 32, 1 / 16, 1 / 8, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 1, 2, 3, 4, 6, 8, 12, 16, 24, 32, 48, 64];
+// Zoom from which the pixel grid can be drawn
+const GRID_ZOOM = 8;
+// Scroll distance of one zoom step
+const WHEEL_STEP = 60;
+// Gap between the two panes of the side-by-side mode
+const PANE_GAP = 8;
+
+const DIFFERENCE_GAINS = [1, 2, 4, 8, 16, 32];
+
+// Absolute difference per channel over the area both images cover, amplified by gain
+const createDifferenceImage = (a: ImageData, b: ImageData, gain: number): DifferenceImage | null => {
+  const width = Math.min(a.width, b.width);
+  const height = Math.min(a.height, b.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const output = ctx.createImageData(width, height);
+  let maxDifference = 0;
+  let changedPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const indexA = (y * a.width + x) * 4;
+      const indexB = (y * b.width + x) * 4;
+      const index = (y * width + x) * 4;
+      let changed = false;
+      for (let c = 0; c < 3; c++) {
+        const difference = Math.abs(a.data[indexA + c] - b.data[indexB + c]);
+        if (difference > maxDifference) maxDifference = difference;
+        if (difference > 0) changed = true;
+        output.data[index + c] = difference * gain;
+      }
+      output.data[index + 3] = 255;
+      if (changed) changedPixels++;
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+
+  return { canvas, maxDifference, changedPixels, pixelCount: width * height };
+};
+
+const formatPixel = (pixels: ImageData | null, x: number, y: number): string => {
+  if (!pixels || x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) return '—';
+  const index = (y * pixels.width + x) * 4;
+  return Array.from(pixels.data.slice(index, index + 4)).join(', ');
+};
+
+const formatZoom = (zoom: number): string =>
+  zoom >= 1 ? `${Math.round(zoom * 100)}%` : `${(zoom * 100).toFixed(zoom < 0.1 ? 1 : 0)}%`;
+
+export default function CompareViewerModal({ isOpen, onClose, nodeIds }: CompareViewerModalProps) {
+  const { nodes, results } = usePipeline();
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [swapped, setSwapped] = useState(false);
+  const [view, setView] = useState<ViewTransform>({ zoom: 1, x: 0, y: 0 });
+  const [split, setSplit] = useState(0.5);
+  const [opacity, setOpacity] = useState(0.5);
+  const [gain, setGain] = useState(1);
+  const [showGrid, setShowGrid] = useState(true);
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+  const [containerSize, setContainerSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Held in state, as the dialog panel may mount after this component's first effects
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const paneRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const dragRef = useRef<{ kind: 'pan' | 'split'; startX: number; startY: number; view: ViewTransform } | null>(null);
+  const wheelRef = useRef(0);
+  const needsFitRef = useRef(true);
+
+  const [idA, idB] = swapped ? [nodeIds[1], nodeIds[0]] : nodeIds;
+  const nodeA = nodes.find(node => node.id === idA);
+  const nodeB = nodes.find(node => node.id === idB);
+
+  // The context mirrors PipelineManager.getNodeResult, so the viewer follows reprocessing
+  const canvasA = results.get(idA)?.canvas || null;
+  const canvasB = results.get(idB)?.canvas || null;
+  const pixelsA = useMemo(() => (canvasA ? getCanvasPixels(canvasA) : null), [canvasA]);
+  const pixelsB = useMemo(() => (canvasB ? getCanvasPixels(canvasB) : null), [canvasB]);
+  const difference = useMemo(
+    () => (pixelsA && pixelsB ? createDifferenceImage(pixelsA, pixelsB, gain) : null),
+    [pixelsA, pixelsB, gain]
+  );
+
+  const imageWidth = Math.max(canvasA?.width || 0, canvasB?.width || 0);
+  const imageHeight = Math.max(canvasA?.height || 0, canvasB?.height || 0);
+  const sizesDiffer = !!canvasA && !!canvasB &&
+    (canvasA.width !== canvasB.width || canvasA.height !== canvasB.height);
+
+  const paneCount = mode === 'sideBySide' ? 2 : 1;
+  const paneWidth = containerSize
+    ? Math.max(1, (containerSize.width - (paneCount - 1) * PANE_GAP) / paneCount)
+    : 0;
+  const paneHeight = containerSize?.height || 0;
+
+  // Split line in pane pixels, on an image pixel boundary from 1:1 up
+  const rawSplitX = split * paneWidth;
+  const splitX = view.zoom >= 1
+    ? view.x + Math.round((rawSplitX - view.x) / view.zoom) * view.zoom
+    : rawSplitX;
+
+  // Track the size of the viewing area
+  useEffect(() => {
+    if (!container) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setContainerSize({ width, height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const fitView = useCallback(() => {
+    if (!paneWidth || !paneHeight || !imageWidth || !imageHeight) return;
+    const zoom = Math.min(paneWidth / imageWidth, paneHeight / imageHeight) * 0.95;
+    setView({
+      zoom,
+      x: Math.round((paneWidth - imageWidth * zoom) / 2),
+      y: Math.round((paneHeight - imageHeight * zoom) / 2)
+    });
+  }, [paneWidth, paneHeight, imageWidth, imageHeight]);
+
+  // Fit once the viewing area and both images are known
+  useEffect(() => {
+    if (needsFitRef.current && paneWidth && paneHeight && imageWidth && imageHeight) {
+      needsFitRef.current = false;
+      fitView();
+    }
+  }, [fitView, paneWidth, paneHeight, imageWidth, imageHeight]);
+
+  // Zoom to a new level, keeping the image point under (px, py) in place
+  const zoomTo = useCallback((zoom: number, px: number, py: number) => {
+    setView(current => {
+      const next = Math.min(ZOOM_LEVELS[ZOOM_LEVELS.length - 1], Math.max(ZOOM_LEVELS[0], zoom));
+      return {
+        zoom: next,
+        x: Math.round(px - (px - current.x) * next / current.zoom),
+        y: Math.round(py - (py - current.y) * next / current.zoom)
+      };
+    });
+  }, []);
+
+  // Next zoom level up or down from the current zoom, which may lie between levels after fitting
+  const stepZoom = useCallback((direction: 1 | -1, px = paneWidth / 2, py = paneHeight / 2) => {
+    const next = direction > 0
+      ? ZOOM_LEVELS.find(level => level > view.zoom * 1.001)
+      : [...ZOOM_LEVELS].reverse().find(level => level < view.zoom / 1.001);
+    if (next) zoomTo(next, px, py);
+  }, [paneWidth, paneHeight, view.zoom, zoomTo]);
+
+  // Render every pane with the shared view transform
+  useEffect(() => {
+    if (!isOpen || !paneWidth || !paneHeight) return;
+    const dpr = window.devicePixelRatio || 1;
+
+    for (let index = 0; index < paneCount; index++) {
+      const canvas = paneRefs.current[index];
+      if (!canvas) continue;
+      canvas.width = Math.round(paneWidth * dpr);
+      canvas.height = Math.round(paneHeight * dpr);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) continue;
+
+      ctx.fillStyle = '#0f172a';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      // Nearest neighbour when magnifying, so pixels stay sharp squares
+      ctx.imageSmoothingEnabled = view.zoom < 1;
+
+      const applyImageTransform = () => {
+        ctx.setTransform(dpr * view.zoom, 0, 0, dpr * view.zoom, dpr * view.x, dpr * view.y);
+      };
+      const drawLayer = (source: HTMLCanvasElement | null, alpha: number = 1) => {
+        if (!source) return;
+        ctx.save();
+        applyImageTransform();
+        ctx.globalAlpha = alpha;
+        ctx.drawImage(source, 0, 0);
+        ctx.restore();
+      };
+
+      if (mode === 'sideBySide') {
+        drawLayer(index === 0 ? canvasA : canvasB);
+      } else if (mode === 'onion') {
+        drawLayer(canvasA);
+        drawLayer(canvasB, opacity);
+      } else if (mode === 'difference') {
+        drawLayer(difference?.canvas || null);
+      } else {
+        // B everywhere, A left of the split line
+        drawLayer(canvasB);
+        ctx.save();
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.beginPath();
+        ctx.rect(0, 0, splitX, paneHeight);
+        ctx.clip();
+        drawLayer(canvasA);
+        ctx.restore();
+      }
+
+      // One line per image pixel boundary, once pixels are large enough to tell apart
+      if (showGrid && view.zoom >= GRID_ZOOM) {
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.strokeStyle = 'rgba(148, 163, 184, 0.35)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        const firstColumn = Math.max(0, Math.floor(-view.x / view.zoom));
+        const lastColumn = Math.min(imageWidth, Math.ceil((paneWidth - view.x) / view.zoom));
+        const firstRow = Math.max(0, Math.floor(-view.y / view.zoom));
+        const lastRow = Math.min(imageHeight, Math.ceil((paneHeight - view.y) / view.zoom));
+        const top = Math.round((view.y + firstRow * view.zoom) * dpr);
+        const bottom = Math.round((view.y + lastRow * view.zoom) * dpr);
+        const left = Math.round((view.x + firstColumn * view.zoom) * dpr);
+        const right = Math.round((view.x + lastColumn * view.zoom) * dpr);
+        for (let column = firstColumn; column <= lastColumn; column++) {
+          const x = Math.round((view.x + column * view.zoom) * dpr) + 0.5;
+          ctx.moveTo(x, top);
+          ctx.lineTo(x, bottom);
+        }
+        for (let row = firstRow; row <= lastRow; row++) {
+          const y = Math.round((view.y + row * view.zoom) * dpr) + 0.5;
+          ctx.moveTo(left, y);
+          ctx.lineTo(right, y);
+        }
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      if (mode === 'split') {
+        ctx.save();
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.fillStyle = '#f8fafc';
+        ctx.fillRect(Math.round(splitX) - 1, 0, 2, paneHeight);
+        ctx.beginPath();
+        ctx.arc(splitX, paneHeight / 2, 10, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#0f172a';
+        ctx.font = '12px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('↔', splitX, paneHeight / 2);
+        ctx.restore();
+      }
+    }
+  }, [
+    isOpen, mode, view, splitX, opacity, showGrid, paneCount, paneWidth, paneHeight,
+    canvasA, canvasB, difference, imageWidth, imageHeight
+  ]);
+
+  const getPanePoint = (event: React.PointerEvent | React.WheelEvent) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getPanePoint(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      kind: mode === 'split' && Math.abs(point.x - splitX) <= 10 ? 'split' : 'pan',
+      startX: point.x,
+      startY: point.y,
+      view
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getPanePoint(event);
+    setHover({
+      x: Math.floor((point.x - view.x) / view.zoom),
+      y: Math.floor((point.y - view.y) / view.zoom)
+    });
+
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'split') {
+      setSplit(Math.min(1, Math.max(0, point.x / paneWidth)));
+    } else {
+      // Whole-pixel offsets keep the image pixels aligned with the screen pixels
+      setView({
+        ...drag.view,
+        x: Math.round(drag.view.x + point.x - drag.startX),
+        y: Math.round(drag.view.y + point.y - drag.startY)
+      });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    dragRef.current = null;
+  };
+
+  const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
+    // Trackpads scroll in small increments, so steps are taken per accumulated distance
+    wheelRef.current += event.deltaY;
+    if (Math.abs(wheelRef.current) < WHEEL_STEP) return;
+    const point = getPanePoint(event);
+    stepZoom(wheelRef.current < 0 ? 1 : -1, point.x, point.y);
+    wheelRef.current = 0;
+  };
+
+  const hoverPixel = hover && hover.x >= 0 && hover.y >= 0 && hover.x < imageWidth && hover.y < imageHeight
+    ? hover
+    : null;
+  const buttonClass = 'p-1.5 rounded-md text-slate-300 hover:text-white hover:bg-slate-700';
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-slate-950/80" aria-hidden="true" />
+      <DialogPanel className="fixed inset-0 flex flex-col bg-slate-900 text-slate-100">
+        {/* Header: the two nodes, the compare mode and the view controls */}
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-slate-700">
+          <DialogTitle as="h3" className="text-base font-medium">Compare</DialogTitle>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="px-2 py-0.5 rounded bg-sky-600/30 text-sky-200">
+              A: {getNodeLabel(nodeA)}
+              {canvasA && <span className="ml-1 text-sky-300/70">{canvasA.width}×{canvasA.height}</span>}
+            </span>
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={() => setSwapped(!swapped)}
+              title="Swap A and B"
+            >
+              <ArrowsRightLeftIcon className="h-4 w-4" />
+            </button>
+            <span className="px-2 py-0.5 rounded bg-amber-600/30 text-amber-200">
+              B: {getNodeLabel(nodeB)}
+              {canvasB && <span className="ml-1 text-amber-300/70">{canvasB.width}×{canvasB.height}</span>}
+            </span>
+          </div>
+
+          <div className="flex rounded-md overflow-hidden border border-slate-600">
+            {COMPARE_MODES.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                className={`px-3 py-1 text-xs ${
+                  mode === option.id ? 'bg-slate-100 text-slate-900' : 'text-slate-300 hover:bg-slate-700'
+                }`}
+                onClick={() => {
+                  // Panes change width when entering or leaving side by side
+                  if ((option.id === 'sideBySide') !== (mode === 'sideBySide')) needsFitRef.current = true;
+                  setMode(option.id);
+                }}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'onion' && (
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              A
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={opacity}
+                onChange={(e) => setOpacity(parseFloat(e.target.value))}
+                className="w-32"
+              />
+              B
+            </label>
+          )}
+
+          {mode === 'difference' && (
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              Gain
+              <select
+                value={gain}
+                onChange={(e) => setGain(parseInt(e.target.value, 10))}
+                className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5"
+              >
+                {DIFFERENCE_GAINS.map(value => (
+                  <option key={value} value={value}>×{value}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <div className="flex items-center gap-1 ml-auto">
+            <button type="button" className={buttonClass} onClick={() => stepZoom(-1)} title="Zoom out">
+              <MagnifyingGlassMinusIcon className="h-4 w-4" />
+            </button>
+            <span className="w-14 text-center text-xs tabular-nums">{formatZoom(view.zoom)}</span>
+            <button type="button" className={buttonClass} onClick={() => stepZoom(1)} title="Zoom in">
+              <MagnifyingGlassPlusIcon className="h-4 w-4" />
+            </button>
+            <button type="button" className={buttonClass} onClick={fitView} title="Fit to view">
+              <ArrowsPointingInIcon className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              className={`${buttonClass} text-xs`}
+              onClick={() => zoomTo(1, paneWidth / 2, paneHeight / 2)}
+              title="Actual pixels"
+            >
+              1:1
+            </button>
+            <label className="flex items-center gap-1 ml-2 text-xs text-slate-300" title={`Shown from ${GRID_ZOOM * 100}% zoom`}>
+              <input type="checkbox" checked={showGrid} onChange={(e) => setShowGrid(e.target.checked)} />
+              Pixel grid
+            </label>
+            <button type="button" className={`${buttonClass} ml-2`} onClick={onClose} title="Close">
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Viewing area: one pane, or two sharing the same view */}
+        <div ref={setContainer} className="relative flex-1 min-h-0 overflow-hidden">
+          {!canvasA || !canvasB ? (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-400">
+              Both nodes need a processed image to compare.
+            </div>
+          ) : (
+            <div className="absolute inset-0 flex" style={{ gap: PANE_GAP }}>
+              {Array.from({ length: paneCount }, (_, index) => (
+                <div key={`${mode}-${index}`} className="relative flex-1 min-w-0">
+                  <canvas
+                    ref={element => { paneRefs.current[index] = element; }}
+                    className={`absolute inset-0 w-full h-full touch-none ${
+                      mode === 'split' ? 'cursor-col-resize' : 'cursor-grab'
+                    }`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerLeave={() => setHover(null)}
+                    onWheel={handleWheel}
+                  />
+                  <div className="absolute top-2 left-2 flex gap-1 text-xs pointer-events-none">
+                    {(mode !== 'sideBySide' || index === 0) && mode !== 'difference' && (
+                      <span className="px-1.5 py-0.5 rounded bg-sky-600/80">A</span>
+                    )}
+                    {mode === 'difference' && (
+                      <span className="px-1.5 py-0.5 rounded bg-slate-700/80">|A − B| ×{gain}</span>
+                    )}
+                  </div>
+                  {(mode === 'split' || mode === 'onion' || (mode === 'sideBySide' && index === 1)) && (
+                    <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded bg-amber-600/80 text-xs pointer-events-none">
+                      B
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer: pixel readout and notes */}
+        <div className="flex flex-wrap items-center gap-4 px-4 py-1.5 border-t border-slate-700 text-xs text-slate-400 font-mono">
+          {hoverPixel ? (
+            <>
+              <span>x {hoverPixel.x}, y {hoverPixel.y}</span>
+              <span className="text-sky-300">A {formatPixel(pixelsA, hoverPixel.x, hoverPixel.y)}</span>
+              <span className="text-amber-300">B {formatPixel(pixelsB, hoverPixel.x, hoverPixel.y)}</span>
+            </>
+          ) : (
+            <span className="font-sans">Drag to pan, scroll to zoom{mode === 'split' ? ', drag the divider to move the split' : ''}</span>
+          )}
+          {difference && (
+            <span className="font-sans">
+              {difference.changedPixels === 0
+                ? 'Identical pixels'
+                : `${difference.changedPixels.toLocaleString()} pixels differ ` +
+                  `(${(difference.changedPixels / difference.pixelCount * 100).toFixed(2)}%), max Δ ${difference.maxDifference}`}
+            </span>
+          )}
+          {sizesDiffer && (
+            <span className="font-sans text-amber-300">Sizes differ; both images are aligned at the top-left corner</span>
+          )}
+        </div>
+      </DialogPanel>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState, Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon, ChartBarIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
-import type { Inspection, InspectionParameter } from '../../utils/types';
+import type { Inspection, InspectionParameter, VectorValue } from '../../utils/types';
 
 interface InspectionConfigModalProps {
   isOpen: boolean;
@@ -17,6 +17,16 @@ export default function InspectionConfigModal({
   onSave
 }: InspectionConfigModalProps) {
   const [localInspection, setLocalInspection] = useState<Inspection>({ ...inspection });
+  const [wasOpen, setWasOpen] = useState(isOpen);
+  
+  // Start from the current inspection on each opening, as it can change outside the modal
+  // (e.g. a profile line drawn on the node preview)
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setLocalInspection({ ...inspection });
+    }
+  }
   
   // Check if there are any unsaved changes
   const hasChanges = JSON.stringify(localInspection) !== JSON.stringify(inspection);
@@ -513,6 +523,170 @@ export default function InspectionConfigModal({
     );
   };
 
+  const renderFeatureDetectionConfig = () => {
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {localInspection.parameters
+            .filter(param => !param.advanced)
+            .map(param => (
+              <div key={param.name}>
+                {renderParameterControl(param)}
+              </div>
+            ))}
+        </div>
+        
+        {/* Advanced Parameters */}
+        <details className="bg-gray-50 rounded-lg">
+          <summary className="cursor-pointer p-3 font-medium text-gray-700 hover:bg-gray-100 rounded-lg">
+            Advanced Parameters
+          </summary>
+          <div className="p-3 space-y-3">
+            {localInspection.parameters
+              .filter(param => param.advanced)
+              .map(param => (
+                <div key={param.name}>
+                  {renderParameterControl(param)}
+                </div>
+              ))}
+          </div>
+        </details>
+        
+        <div className="bg-blue-50 p-3 rounded-md">
+          <h4 className="font-medium text-blue-800 mb-2">About Feature Detection</h4>
+          <p className="text-sm text-blue-700">
+            Finds distinctive points that can be matched between images. Every detector computes a response
+            per pixel, shown as the heatmap, and keeps its strongest local maxima as keypoints. Circles show the
+            size of each keypoint's neighbourhood and, for ORB, a radius shows its orientation.
+          </p>
+          <div className="mt-2 text-xs text-blue-600">
+            <strong>Detectors:</strong>
+            <ul className="mt-1 ml-4 list-disc">
+              <li><strong>Harris:</strong> Corner measure det(M) − k·trace(M)² of the local gradient structure tensor</li>
+              <li><strong>Shi-Tomasi:</strong> Smaller eigenvalue of the structure tensor, with a minimum distance between corners</li>
+              <li><strong>FAST:</strong> Nine contiguous pixels on a 16-pixel circle all brighter or darker than the centre</li>
+              <li><strong>ORB:</strong> FAST over a scale pyramid, ranked by Harris response and oriented by the patch intensity centroid</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderImageQualityConfig = () => {
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {localInspection.parameters
+            .filter(param => !param.advanced)
+            .map(param => (
+              <div key={param.name}>
+                {renderParameterControl(param)}
+              </div>
+            ))}
+        </div>
+        
+        {/* Advanced Parameters */}
+        <details className="bg-gray-50 rounded-lg">
+          <summary className="cursor-pointer p-3 font-medium text-gray-700 hover:bg-gray-100 rounded-lg">
+            Advanced Parameters
+          </summary>
+          <div className="p-3 space-y-3">
+            {localInspection.parameters
+              .filter(param => param.advanced)
+              .map(param => (
+                <div key={param.name}>
+                  {renderParameterControl(param)}
+                </div>
+              ))}
+          </div>
+        </details>
+        
+        <div className="bg-blue-50 p-3 rounded-md">
+          <h4 className="font-medium text-blue-800 mb-2">About Image Quality</h4>
+          <p className="text-sm text-blue-700">
+            Measures how close the Test input is to the Reference input, pixel for pixel, so both must have the
+            same size. Connect the original image as the reference and a filtered or noisy version as the test.
+          </p>
+          <div className="mt-2 text-xs text-blue-600">
+            <strong>Metrics:</strong>
+            <ul className="mt-1 ml-4 list-disc">
+              <li><strong>MSE:</strong> Mean squared difference of the channel values; 0 for identical images</li>
+              <li><strong>PSNR:</strong> 10·log₁₀(255² / MSE) in dB; higher is better, around 30–40 dB for good compression</li>
+              <li><strong>SSIM:</strong> Agreement of local mean, contrast and structure in a Gaussian window; 1 for identical images</li>
+              <li><strong>MS-SSIM:</strong> SSIM combined over five scales, closer to perceived quality at different viewing distances</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderLineProfileConfig = () => {
+    const pointCount = ((localInspection.parameters.find(p => p.name === 'points')?.value as VectorValue)?.values.length || 0) / 2;
+    
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {localInspection.parameters
+            .filter(param => !param.advanced)
+            .map(param => (
+              <div key={param.name}>
+                {renderParameterControl(param)}
+              </div>
+            ))}
+        </div>
+        
+        {/* Advanced Parameters */}
+        <details className="bg-gray-50 rounded-lg">
+          <summary className="cursor-pointer p-3 font-medium text-gray-700 hover:bg-gray-100 rounded-lg">
+            Advanced Parameters
+          </summary>
+          <div className="p-3 space-y-3">
+            {localInspection.parameters
+              .filter(param => param.advanced && param.type !== 'vector')
+              .map(param => (
+                <div key={param.name}>
+                  {renderParameterControl(param)}
+                </div>
+              ))}
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-gray-700">
+                {pointCount >= 2
+                  ? `Line: ${pointCount} points drawn on the preview`
+                  : 'Line: horizontal through the middle'}
+              </span>
+              {pointCount >= 2 && (
+                <button
+                  onClick={() => handleParameterChange('points', { values: [] })}
+                  className="text-xs text-gray-800 hover:underline"
+                >
+                  Reset line
+                </button>
+              )}
+            </div>
+          </div>
+        </details>
+        
+        <div className="bg-blue-50 p-3 rounded-md">
+          <h4 className="font-medium text-blue-800 mb-2">About Line Profile</h4>
+          <p className="text-sm text-blue-700">
+            Plots the intensity of each channel along a line drawn on the node preview: drag for a straight line,
+            or switch to polyline and click the vertices. Averaging several pixels across the line smooths out noise.
+          </p>
+          <div className="mt-2 text-xs text-blue-600">
+            <strong>Reading a step edge:</strong>
+            <ul className="mt-1 ml-4 list-disc">
+              <li><strong>Edge width:</strong> Distance over which the steepest edge rises from 10% to 90%; a blur widens it</li>
+              <li><strong>Gradient:</strong> Derivative along the line; it peaks at the edge, which is what an edge detector responds to</li>
+              <li><strong>Channels:</strong> Separate R, G, B curves show colour fringes that the gray level hides</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const renderStatisticsConfig = () => {
     return (
       <div className="space-y-6">
@@ -575,6 +749,12 @@ export default function InspectionConfigModal({
         return renderTextureAnalysisConfig();
       case 'fourierTransform':
         return renderFourierTransformConfig();
+      case 'featureDetection':
+        return renderFeatureDetectionConfig();
+      case 'imageQuality':
+        return renderImageQualityConfig();
+      case 'lineProfile':
+        return renderLineProfileConfig();
       case 'statistics':
         return renderStatisticsConfig();
       default:
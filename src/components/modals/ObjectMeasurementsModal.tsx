@@ -0,0 +1,173 @@
+import { Fragment, useMemo, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon, ArrowDownTrayIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import type { ContourAnalysis } from '../../utils/types';
+import {
+  MEASUREMENT_COLUMNS,
+  sortMeasurements,
+  formatMeasurement,
+  measurementsToCsv
+} from '../../utils/objectMeasurements';
+
+interface ObjectMeasurementsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  analysis: ContourAnalysis;
+  // Overlay produced by the node, shown above the table so IDs can be matched to objects
+  imageUrl?: string | null;
+}
+
+export default function ObjectMeasurementsModal({
+  isOpen,
+  onClose,
+  title,
+  analysis,
+  imageUrl
+}: ObjectMeasurementsModalProps) {
+  const [sortKey, setSortKey] = useState('id');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+
+  const rows = useMemo(
+    () => sortMeasurements(analysis.objects, sortKey, sortDirection),
+    [analysis.objects, sortKey, sortDirection]
+  );
+
+  const handleSort = (key: string) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection('asc');
+    }
+  };
+
+  const handleExportCsv = () => {
+    // Export in the order shown, so a sorted table exports sorted
+    const blob = new Blob([measurementsToCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${title.trim().replace(/[^a-z0-9-_]+/gi, '_') || 'objects'}-measurements.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <Transition.Root show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-6xl transform overflow-hidden rounded-lg bg-white p-6 text-left shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      {title} - Object Measurements
+                    </Dialog.Title>
+                    <p className="text-sm text-gray-500">
+                      {analysis.objects.length} contours from {analysis.componentCount} connected components
+                      {analysis.retrieval === 'all' ? ', holes included' : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      type="button"
+                      className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={handleExportCsv}
+                      disabled={rows.length === 0}
+                      title="Download the table as CSV"
+                    >
+                      <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                      Export CSV
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none"
+                      onClick={onClose}
+                    >
+                      <XMarkIcon className="h-6 w-6" />
+                    </button>
+                  </div>
+                </div>
+
+                {imageUrl && (
+                  <div className="mb-4 bg-slate-800 rounded-md overflow-hidden">
+                    <img src={imageUrl} alt="Object overlay" className="max-h-72 w-full object-contain" />
+                  </div>
+                )}
+
+                {rows.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-8">
+                    No contours found. The input should be a binary image; check the minimum area and the dark objects setting.
+                  </p>
+                ) : (
+                  <div className="max-h-[50vh] overflow-auto border border-gray-200 rounded-md">
+                    <table className="min-w-full text-xs">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          {MEASUREMENT_COLUMNS.map(column => (
+                            <th
+                              key={column.key}
+                              className="px-2 py-2 text-right font-medium text-gray-700 whitespace-nowrap cursor-pointer select-none hover:bg-gray-100"
+                              onClick={() => handleSort(column.key)}
+                            >
+                              <span className="inline-flex items-center">
+                                {column.label}
+                                {sortKey === column.key && (sortDirection === 'asc'
+                                  ? <ChevronUpIcon className="h-3 w-3 ml-1" />
+                                  : <ChevronDownIcon className="h-3 w-3 ml-1" />
+                                )}
+                              </span>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {rows.map(object => (
+                          <tr key={object.id} className="hover:bg-blue-50">
+                            {MEASUREMENT_COLUMNS.map(column => (
+                              <td key={column.key} className="px-2 py-1 text-right font-mono text-gray-800 whitespace-nowrap">
+                                {formatMeasurement(column.value(object), column.digits)}
+                                {column.key === 'id' && object.isHole && (
+                                  <span className="ml-1 font-sans text-cyan-600">hole</span>
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, Fragment } from 'react';
+import React, { useState, useEffect, useRef, Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { 
   XMarkIcon, 
@@ -7,10 +7,13 @@ import {
   ArrowDownOnSquareIcon, 
   ExclamationTriangleIcon,
   ChartBarIcon,
-  ArrowTopRightOnSquareIcon 
+  ArrowTopRightOnSquareIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon
 } from '@heroicons/react/24/outline';
 import { projectManager } from '../../services/ProjectManager';
 import type { SavedProject } from '../../utils/types';
+import type { ProjectListItem, StorageInfo } from '../../services/ProjectStorage';
 import { usePipeline } from '../../contexts/PipelineContext';
 
 interface ProjectsModalProps {
@@ -20,21 +23,8 @@ interface ProjectsModalProps {
   onSuccess?: (projectId: string) => void;
 }
 
-// Storage info interface matching ProjectManager
-interface StorageInfo {
-  usedSpace: number;
-  totalProjects: number;
-  availableSpace: number;
-  canSave: boolean;
-}
-
 export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: ProjectsModalProps) {
-  const [projects, setProjects] = useState<{
-    id: string;
-    name: string;
-    updatedAt: number;
-    thumbnailDataUrl?: string;
-  }[]>([]);
+  const [projects, setProjects] = useState<ProjectListItem[]>([]);
   const [projectName, setProjectName] = useState('');
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -43,16 +33,23 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
   const [showConfirmNew, setShowConfirmNew] = useState(false);
   const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
   const [showStorageDetails, setShowStorageDetails] = useState(false);
+  // Oldest projects offered for deletion, waiting for the user's confirmation
+  const [cleanupCandidates, setCleanupCandidates] = useState<ProjectListItem[] | null>(null);
   const { nodes } = usePipeline();
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Load projects list on modal open
   useEffect(() => {
-    if (isOpen) {
-      loadProjectsList();
-      loadStorageInfo();
+    if (!isOpen) return;
+    
+    let cancelled = false;
+    loadProjectsList();
+    loadStorageInfo();
+    
+    // Get current project
+    projectManager.getCurrentProject().then(currentProject => {
+      if (cancelled) return;
       
-      // Get current project
-      const currentProject = projectManager.getCurrentProject();
       if (currentProject) {
         setCurrentProjectId(currentProject.id);
         
@@ -69,13 +66,17 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
       if (mode === 'new' && (currentProject || nodes.length > 0)) {
         setShowConfirmNew(true);
       }
-    }
+    });
+    
+    return () => {
+      cancelled = true;
+    };
   }, [isOpen, mode, nodes]);
   
   // Load the list of projects
-  const loadProjectsList = () => {
+  const loadProjectsList = async () => {
     try {
-      const projectsList = projectManager.getProjectsList();
+      const projectsList = await projectManager.getProjectsList();
       
       // Sort by most recently updated
       projectsList.sort((a, b) => b.updatedAt - a.updatedAt);
@@ -90,9 +91,9 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
   };
   
   // Load storage information
-  const loadStorageInfo = () => {
+  const loadStorageInfo = async () => {
     try {
-      const info = projectManager.getStorageInfo();
+      const info = await projectManager.getStorageInfo();
       setStorageInfo(info);
     } catch (err) {
       console.error('Error loading storage info:', err);
@@ -100,13 +101,12 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
     }
   };
   
-  // Handle cleaning up storage
-  const handleCleanupStorage = () => {
+  // Handle cleaning up storage: list the oldest projects first, delete them once confirmed
+  const handleCleanupStorage = async () => {
     try {
-      const success = projectManager.cleanupStorage();
-      if (success) {
-        loadProjectsList();
-        loadStorageInfo();
+      const candidates = await projectManager.getCleanupCandidates();
+      if (candidates.length > 0) {
+        setCleanupCandidates(candidates);
         setError(null);
       } else {
         setError('No old projects found to clean up');
@@ -117,8 +117,28 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
     }
   };
   
+  const handleConfirmCleanup = async () => {
+    if (!cleanupCandidates) return;
+    
+    setLoading(true);
+    try {
+      for (const project of cleanupCandidates) {
+        await projectManager.deleteProject(project.id);
+      }
+      setCleanupCandidates(null);
+      loadProjectsList();
+      loadStorageInfo();
+      setError(null);
+    } catch (err) {
+      console.error('Error during storage cleanup:', err);
+      setError('Failed to clean up storage');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   // Handle saving a project
-  const handleSaveProject = () => {
+  const handleSaveProject = async () => {
     if (!projectName.trim()) {
       setError('Please enter a project name');
       return;
@@ -130,7 +150,7 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
     try {
       // Check if we're updating an existing project
       if (currentProjectId) {
-        const updated = projectManager.updateProject(currentProjectId, projectName);
+        const updated = await projectManager.updateProject(currentProjectId, projectName);
         if (updated) {
           if (onSuccess) onSuccess(updated.id);
           onClose();
@@ -139,7 +159,7 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
         }
       } else {
         // Create a new project
-        const newProject = projectManager.saveProject(projectName);
+        const newProject = await projectManager.saveProject(projectName);
         if (onSuccess) onSuccess(newProject.id);
         onClose();
       }
@@ -155,12 +175,12 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
   };
   
   // Handle loading a project
-  const handleLoadProject = (projectId: string) => {
+  const handleLoadProject = async (projectId: string) => {
     setLoading(true);
     setError(null);
     
     try {
-      const project = projectManager.loadProject(projectId);
+      const project = await projectManager.loadProject(projectId);
       if (project) {
         if (onSuccess) onSuccess(project.id);
         onClose();
@@ -176,7 +196,7 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
   };
   
   // Handle deleting a project
-  const handleDeleteProject = (projectId: string) => {
+  const handleDeleteProject = async (projectId: string) => {
     if (confirmDelete !== projectId) {
       // First click - ask for confirmation
       setConfirmDelete(projectId);
@@ -187,7 +207,7 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
     setLoading(true);
     
     try {
-      projectManager.deleteProject(projectId);
+      await projectManager.deleteProject(projectId);
       loadProjectsList();
       loadStorageInfo(); // Update storage info after deletion
       setConfirmDelete(null);
@@ -217,6 +237,43 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
     }
   };
   
+  // Handle exporting the current pipeline as a .itlab bundle
+  const handleExportProject = async () => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      await projectManager.downloadProjectBundle(projectName.trim() || undefined);
+    } catch (err) {
+      console.error('Error exporting project:', err);
+      setError(err instanceof Error ? err.message : `Failed to export project: ${String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  // Handle importing a .itlab bundle selected by the user
+  const handleImportProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so selecting the same file again triggers another import
+    event.target.value = '';
+    if (!file) return;
+    
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const project = await projectManager.importProjectBundle(file);
+      if (onSuccess) onSuccess(project.id);
+      onClose();
+    } catch (err) {
+      console.error('Error importing project:', err);
+      setError(err instanceof Error ? err.message : `Failed to import project: ${String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   // Format date for display
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
@@ -288,6 +345,10 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
         
         {showStorageDetails && (
           <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Storage:</span>
+              <span className="font-medium">{storageInfo.backend}</span>
+            </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Total Projects:</span>
               <span className="font-medium">{storageInfo.totalProjects}</span>
@@ -327,17 +388,49 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
               </div>
             )}
             
-            <button
-              onClick={handleCleanupStorage}
-              disabled={loading}
-              className={`w-full px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                isAtLimit 
-                  ? 'bg-red-600 hover:bg-red-700 text-white' 
-                  : 'bg-yellow-600 hover:bg-yellow-700 text-white'
-              } disabled:opacity-50 disabled:cursor-not-allowed`}
-            >
-              {loading ? 'Cleaning...' : '🧹 Auto-cleanup Old Projects'}
-            </button>
+            {cleanupCandidates ? (
+              <div className="p-3 bg-white rounded-md border border-gray-200">
+                <p className="text-sm text-gray-800 font-medium mb-2">
+                  Delete these {cleanupCandidates.length} oldest projects?
+                </p>
+                <ul className="mb-3 space-y-1 text-xs text-gray-600">
+                  {cleanupCandidates.map(project => (
+                    <li key={project.id} className="flex justify-between">
+                      <span className="truncate mr-2">{project.name}</span>
+                      <span className="flex-shrink-0">{formatDate(project.updatedAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleConfirmCleanup}
+                    disabled={loading}
+                    className="flex-1 px-3 py-2 text-sm font-medium rounded-md bg-red-600 hover:bg-red-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loading ? 'Deleting...' : 'Delete'}
+                  </button>
+                  <button
+                    onClick={() => setCleanupCandidates(null)}
+                    disabled={loading}
+                    className="flex-1 px-3 py-2 text-sm font-medium rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={handleCleanupStorage}
+                disabled={loading}
+                className={`w-full px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                  isAtLimit 
+                    ? 'bg-red-600 hover:bg-red-700 text-white' 
+                    : 'bg-yellow-600 hover:bg-yellow-700 text-white'
+                } disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                🧹 Clean Up Old Projects
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -463,6 +556,45 @@ export default function ProjectsModal({ isOpen, onClose, mode, onSuccess }: Proj
                       </div>
                     )}
 
+                    {/* Project File Export/Import */}
+                    {(mode === 'save' || mode === 'load') && (
+                      <div className="mb-4 flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                        <div>
+                          <p className="text-sm font-medium text-gray-700">Project file (.itlab)</p>
+                          <p className="text-xs text-gray-500">Full-resolution images and settings, for sharing or backup</p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            type="button"
+                            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            onClick={handleExportProject}
+                            disabled={loading || nodes.length === 0}
+                            title="Download the current pipeline as a .itlab file"
+                          >
+                            <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                            Export
+                          </button>
+                          <button
+                            type="button"
+                            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={loading}
+                            title="Replace the current pipeline with a .itlab file"
+                          >
+                            <ArrowUpTrayIcon className="h-4 w-4 mr-1" />
+                            Import
+                          </button>
+                          <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".itlab,application/zip"
+                            className="hidden"
+                            onChange={handleImportProject}
+                          />
+                        </div>
+                      </div>
+                    )}
+
                     {/* Save Mode */}
                     {mode === 'save' && (
                       <div className="mb-6">
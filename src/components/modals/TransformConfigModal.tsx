@@ -1,9 +1,13 @@
-import { useState, useEffect, Fragment } from 'react';
+import { useState, useEffect, useMemo, Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { ExclamationTriangleIcon, XMarkIcon, DocumentTextIcon, InformationCircleIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 import type { Transformation, TransformationParameter, KernelValue } from '../../utils/types';
 import CustomBlurConfigPanel from '../configPanels/CustomBlurConfigPanel';
 import MorphologyConfigPanel from '../configPanels/MorphologyConfigPanel';
+import ToneCurveEditor from '../configPanels/ToneCurveEditor';
+import { HistogramAnalyzer } from '../../services/HistogramAnalyzer';
+import { applyColorAdjustment, IDENTITY_CURVE } from '../../utils/colorAdjustment';
+import { getColorAdjustOptions } from '../../utils/imageProcessing';
 
 interface TransformConfigModalProps {
   isOpen: boolean;
@@ -11,6 +15,8 @@ interface TransformConfigModalProps {
   transformation: Transformation;
   onSave: (updatedTransformation: Transformation) => void;
   onReset: () => void;
+  // Downscaled node input, for previews such as the histogram behind the tone curve
+  inputImage?: ImageData | null;
 }
 
 // Add a function to initialize kernel values from either transformation or advanced parameters
@@ -58,7 +64,8 @@ export default function TransformConfigModal({
   onClose,
   transformation,
   onSave,
-  onReset
+  onReset,
+  inputImage
 }: TransformConfigModalProps) {
   const [editedTransformation, setEditedTransformation] = useState<Transformation>(
     JSON.parse(JSON.stringify(transformation))
@@ -82,6 +89,22 @@ export default function TransformConfigModal({
   const [hasChanges, setHasChanges] = useState(false);
   const [showDiscardWarning, setShowDiscardWarning] = useState(false);
 
+  // Luminance histograms drawn behind the tone curve: the node input, and the
+  // adjusted image recomputed as the settings change
+  const curveInputHistogram = useMemo(() => {
+    if (transformation.type !== 'colorAdjust' || !inputImage) return null;
+    return new HistogramAnalyzer('grayscale').analyze(inputImage);
+  }, [transformation.type, inputImage]);
+  
+  const curveOutputHistogram = useMemo(() => {
+    if (editedTransformation.type !== 'colorAdjust' || !inputImage) return null;
+    const options = getColorAdjustOptions({
+      ...editedTransformation,
+      metadata: { ...editedTransformation.metadata, advancedParameters }
+    });
+    return new HistogramAnalyzer('grayscale').analyze(applyColorAdjustment(inputImage, options));
+  }, [editedTransformation, advancedParameters, inputImage]);
+
   // Common validation for parameters (e.g., ensuring odd values for kernels)
   const validateParameter = (param: TransformationParameter): TransformationParameter => {
     // Ensure kernel sizes are odd numbers for certain operations
@@ -174,7 +197,7 @@ export default function TransformConfigModal({
       };
     } else if (transformation.type === 'colorAdjust') {
       defaultAdvancedParams = {
-        method: 'hsv',
+        curve: IDENTITY_CURVE,
         preserveLuminance: true
       };
     } else if (transformation.type === 'morphology' || transformation.type === 'dilate' || transformation.type === 'erode') {
@@ -432,10 +455,8 @@ export default function TransformConfigModal({
         return renderCustomBlurConfig();
         
       case 'threshold':
-        return renderThresholdConfig();
-        
       case 'adaptiveThreshold':
-        return <div>Advanced threshold configuration (coming soon)</div>;
+        return renderThresholdConfig();
         
       case 'laplacian':
       case 'sobel':
@@ -449,12 +470,51 @@ export default function TransformConfigModal({
       case 'morphology':
         return renderMorphologyConfig();
         
+      case 'contours':
+        return renderContourConfig();
+        
+      case 'hough':
+        return renderHoughConfig();
+        
+      case 'distanceTransform':
+      case 'watershed':
+        return renderSegmentationConfig();
+        
       case 'colorAdjust':
         return renderColorAdjustConfig();
         
       case 'histogram':
         return renderHistogramConfig();
         
+      case 'colorConvert':
+      case 'splitChannels':
+      case 'mergeChannels':
+        return renderColorSpaceConfig();
+        
+      case 'sharpen':
+      case 'median':
+      case 'bilateral':
+        return renderFilterConfig();
+        
+      case 'frequencyFilter':
+        return renderFrequencyFilterConfig();
+        
+      case 'noise':
+        return renderNoiseConfig();
+        
+      case 'testPattern':
+        return renderTestPatternConfig();
+        
+      case 'add':
+      case 'subtract':
+      case 'absDiff':
+      case 'blend':
+      case 'bitwiseAnd':
+      case 'bitwiseOr':
+      case 'bitwiseXor':
+      case 'maskedCopy':
+        return renderCombineConfig();
+        
       case 'rotate':
       case 'resize':
       case 'flip':
@@ -753,23 +813,31 @@ export default function TransformConfigModal({
         <div>
           <h3 className="text-lg font-medium text-gray-900">Advanced Parameters</h3>
           <div className="mt-2 bg-gray-50 p-4 rounded-md space-y-4">
-            {/* Method Selection */}
+            {/* Tone Curve */}
             <div>
-              <label className="block text-sm font-medium text-gray-800 mb-1">
-                Color Adjustment Method
-              </label>
-              <select
-                value={advancedParameters.method || 'hsv'}
-                onChange={(e) => handleAdvancedParamChange('method', e.target.value)}
-                className="w-full p-2 border border-gray-300 rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="hsv" className="text-gray-900 bg-white">HSV (Hue-Saturation-Value)</option>
-                <option value="hsl" className="text-gray-900 bg-white">HSL (Hue-Saturation-Lightness)</option>
-                <option value="rgb" className="text-gray-900 bg-white">RGB (Direct)</option>
-              </select>
+              <div className="flex justify-between items-center mb-1">
+                <label className="block text-sm font-medium text-gray-800">
+                  Tone Curve
+                </label>
+                <button
+                  type="button"
+                  onClick={() => handleAdvancedParamChange('curve', IDENTITY_CURVE)}
+                  className="inline-flex items-center text-xs text-gray-600 hover:text-gray-900"
+                >
+                  <ArrowPathIcon className="h-3 w-3 mr-1" />
+                  Reset curve
+                </button>
+              </div>
+              <ToneCurveEditor
+                points={advancedParameters.curve || IDENTITY_CURVE}
+                onChange={(points) => handleAdvancedParamChange('curve', points)}
+                inputHistogram={curveInputHistogram}
+                outputHistogram={curveOutputHistogram}
+              />
               <p className="mt-1 text-xs text-gray-500 flex items-center">
                 <InformationCircleIcon className="h-3 w-3 mr-1" />
-                Color space used for adjustment calculations
+                Click to add a point, drag to move it, double-click to remove it.
+                {inputImage ? ' Gray: input histogram, red: adjusted.' : ' Connect an input to see its histogram.'}
               </p>
             </div>
             
@@ -790,7 +858,7 @@ export default function TransformConfigModal({
             </div>
             <p className="text-xs text-gray-500 mt-0">
               <InformationCircleIcon className="h-3 w-3 inline-block mr-1" />
-              Maintains the perceived brightness when adjusting colors
+              Keeps the perceived brightness through hue and saturation changes
             </p>
           </div>
         </div>
@@ -815,6 +883,10 @@ export default function TransformConfigModal({
               Adjusting colors in these spaces often produces more natural-looking results than 
               directly manipulating RGB values.
             </p>
+            <p className="mt-3">
+              The tonal settings (levels, gamma, brightness/contrast and the tone curve) are applied
+              first, to each RGB channel; the hue, saturation and lightness shifts follow in HSL.
+            </p>
           </div>
         </div>
       </div>
@@ -838,6 +910,171 @@ export default function TransformConfigModal({
     );
   };
 
+  // Render colour space conversion / channel split / channel merge configuration
+  const renderColorSpaceConfig = () => {
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters.map(param => 
+              <div key={param.name}>{renderParameterControl(param)}</div>
+            )}
+          </div>
+        </div>
+        
+        {/* Channel encoding explanation */}
+        <div>
+          <div className="flex items-center text-blue-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">Channel Encodings</h3>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-md text-sm text-gray-800">
+            <p className="mb-3">
+              Channels are stored as 8-bit values with the same encodings as OpenCV&apos;s <code>cvtColor</code>,
+              so every channel fits in 0-255:
+            </p>
+            <ul className="list-disc pl-5 mb-3 space-y-1">
+              <li><strong>HSV / HLS</strong>: hue is halved (0-180), saturation and value/lightness span 0-255</li>
+              <li><strong>Lab</strong>: L* is scaled from 0-100 to 0-255, a* and b* are offset by 128</li>
+              <li><strong>YCrCb</strong>: Y is the luma, Cr and Cb are offset by 128</li>
+              <li><strong>XYZ</strong>: the 8-bit RGB values multiplied by the sRGB to XYZ matrix</li>
+            </ul>
+            <p>
+              A converted image shows its three channels in the red, green and blue slots. The split node
+              has one output per channel plus alpha; the merge node takes three channel inputs and an
+              optional alpha input and converts them back to RGB.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Render contour analysis configuration
+  const renderContourConfig = () => {
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters.map(param => 
+              <div key={param.name}>{renderParameterControl(param)}</div>
+            )}
+          </div>
+        </div>
+        
+        {/* Measurement definitions */}
+        <div>
+          <div className="flex items-center text-blue-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">Measurements</h3>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-md text-sm text-gray-800">
+            <p className="mb-3">
+              The input is binarised at 128 and its connected components are labelled; every contour
+              traced around them becomes a row of the measurements table:
+            </p>
+            <ul className="list-disc pl-5 mb-3 space-y-1">
+              <li><strong>Area</strong>: area enclosed by the contour; <strong>Pixels</strong> counts the pixels of its component</li>
+              <li><strong>Circularity</strong>: 4π·area / perimeter², 1 for a perfect circle</li>
+              <li><strong>Aspect ratio</strong>: bounding box width divided by its height</li>
+              <li><strong>Hu moments</strong>: seven shape descriptors that do not change when the object is moved, scaled or rotated</li>
+            </ul>
+            <p>
+              Threshold the image first; a grayscale or colour input gives one object per bright region.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Render Hough transform configuration
+  const renderHoughConfig = () => {
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters.map(param => 
+              <div key={param.name}>{renderParameterControl(param)}</div>
+            )}
+          </div>
+        </div>
+        
+        {/* Voting explanation */}
+        <div>
+          <div className="flex items-center text-blue-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">How the Hough Transform Votes</h3>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-md text-sm text-gray-800">
+            <p className="mb-3">
+              Every edge pixel votes for all the shapes that could pass through it. Shapes collecting
+              enough votes are reported; the Accumulator output shows the votes as a heatmap with the
+              detections outlined.
+            </p>
+            <ul className="list-disc pl-5 mb-3 space-y-1">
+              <li><strong>Standard</strong>: lines in normal form x·cos θ + y·sin θ = ρ; the accumulator has θ across and ρ down, so each pixel draws a sinusoid</li>
+              <li><strong>Probabilistic</strong>: votes in the same space with a random subset of pixels and returns finite segments</li>
+              <li><strong>Circles</strong>: edge pixels vote for centres along their gradient direction; the accumulator has the image layout</li>
+            </ul>
+            <p>
+              Lines expect an edge map such as Canny output on the Source input. Circles find their own
+              edges, so connect a grayscale (ideally blurred) image. Connect the original image to
+              Background to draw the detections over it.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Render distance transform and watershed configuration
+  const renderSegmentationConfig = () => {
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters.map(param => 
+              <div key={param.name}>{renderParameterControl(param)}</div>
+            )}
+          </div>
+        </div>
+        
+        {/* Segmentation explanation */}
+        <div>
+          <div className="flex items-center text-blue-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">Separating Touching Objects</h3>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-md text-sm text-gray-800">
+            <p className="mb-3">
+              Thresholding merges objects that touch into one blob. The distance transform gives every
+              object pixel its distance to the background, so each object gets a peak near its centre
+              even where the blobs are joined.
+            </p>
+            <ul className="list-disc pl-5 mb-3 space-y-1">
+              <li><strong>L2</strong>: straight-line distance; <strong>L1</strong>: horizontal plus vertical steps; <strong>chessboard</strong>: steps in any of 8 directions</li>
+              <li><strong>Watershed</strong>: every marker grows into a region until it meets a neighbouring region; the meeting lines are the boundaries</li>
+              <li><strong>Markers</strong>: each bright blob on the Markers input seeds one region; unconnected, the distance-transform peaks are used</li>
+            </ul>
+            <p>
+              Too many regions per object: raise the peak threshold or the minimum peak distance.
+              Objects still merged: lower them, or feed hand-made markers.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   // Render Geometry configuration
   const renderGeometryConfig = () => {
     return (
@@ -886,6 +1123,268 @@ export default function TransformConfigModal({
     );
   };
 
+  // Render sharpen / median / bilateral configuration
+  const renderFilterConfig = () => {
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters
+              .filter(param => param.name !== 'kernelType')
+              .map(param => 
+                <div key={param.name}>{renderParameterControl(param)}</div>
+              )
+            }
+          </div>
+        </div>
+        
+        {/* Mathematical explanation */}
+        <div>
+          <div className="flex items-center text-blue-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">Mathematical Explanation</h3>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-md text-sm text-gray-800">
+            {editedTransformation.type === 'sharpen' && (
+              <>
+                <p className="mb-3">
+                  <strong>Unsharp masking</strong> subtracts a Gaussian-blurred copy of the image to isolate fine detail,
+                  then adds that detail back scaled by the strength:
+                </p>
+                <div className="bg-white p-2 rounded text-center mb-3">
+                  <code>sharpened = f + strength · (f − G<sub>σ</sub> * f)</code>
+                </div>
+                <p>
+                  The radius is the Gaussian σ: small values enhance fine texture, larger values boost broader edges.
+                </p>
+              </>
+            )}
+            {editedTransformation.type === 'median' && (
+              <>
+                <p className="mb-3">
+                  The <strong>median filter</strong> replaces each pixel with the median of its k×k neighbourhood:
+                </p>
+                <div className="bg-white p-2 rounded text-center mb-3">
+                  <code>g(x, y) = median {'{'} f(i, j) : (i, j) ∈ W(x, y) {'}'}</code>
+                </div>
+                <p>
+                  Because isolated outliers never reach the middle of the sorted window, it removes salt-and-pepper
+                  noise while keeping edges sharp. The kernel size must be odd.
+                </p>
+              </>
+            )}
+            {editedTransformation.type === 'bilateral' && (
+              <>
+                <p className="mb-3">
+                  The <strong>bilateral filter</strong> averages neighbours weighted by both spatial distance and
+                  colour similarity:
+                </p>
+                <div className="bg-white p-2 rounded text-center mb-3">
+                  <code>w(p, q) = exp(−‖p − q‖² / 2σ<sub>s</sub>²) · exp(−|f(p) − f(q)|² / 2σ<sub>c</sub>²)</code>
+                </div>
+                <p>
+                  Pixels across a strong edge differ in colour and get almost no weight, so flat regions are smoothed
+                  while edges are preserved.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Render frequency-domain filter configuration
+  // Render noise configuration
+  const renderNoiseConfig = () => {
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters.map(param => 
+              <div key={param.name}>{renderParameterControl(param)}</div>
+            )}
+          </div>
+        </div>
+        
+        {/* Noise models */}
+        <div>
+          <div className="flex items-center text-blue-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">Noise Models</h3>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-md text-sm text-gray-800">
+            <ul className="list-disc pl-5 mb-3 space-y-1">
+              <li><strong>Gaussian</strong>: <code>v + N(0, σ²)</code>, sensor read noise; best removed by Gaussian or bilateral blur</li>
+              <li><strong>Salt and pepper</strong>: isolated white and black pixels, such as dead pixels or bit errors; the median filter removes them</li>
+              <li><strong>Poisson</strong>: photon shot noise, stronger in bright areas and with fewer photons</li>
+              <li><strong>Speckle</strong>: <code>v · (1 + N(0, σ²))</code>, multiplicative noise as in radar and ultrasound images</li>
+            </ul>
+            <p>
+              The noise is generated from the seed, so a saved project reproduces exactly the same image.
+              Change the seed for a different noise pattern with the same strength.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderTestPatternConfig = () => {
+    const parameterValues: Record<string, unknown> = {};
+    editedTransformation.parameters.forEach(param => {
+      parameterValues[param.name] = param.value;
+    });
+    
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters
+              .filter(param => !param.showIf || param.showIf(parameterValues))
+              .map(param => 
+                <div key={param.name}>{renderParameterControl(param)}</div>
+              )
+            }
+          </div>
+        </div>
+        
+        {/* Patterns */}
+        <div>
+          <div className="flex items-center text-sky-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">Patterns</h3>
+          </div>
+          <div className="bg-sky-50 p-4 rounded-md text-sm text-gray-800">
+            <ul className="list-disc pl-5 mb-3 space-y-1">
+              <li><strong>Checkerboard</strong>: sharp horizontal and vertical edges at a known spacing, for calibration and resampling</li>
+              <li><strong>Linear and radial gradients</strong>: smooth ramps that show banding, thresholds and tone curves</li>
+              <li><strong>Zone plate</strong>: rings of <code>cos(π·k·r²)</code>, whose frequency grows with the radius; the FFT and any resampling show exactly where aliasing starts</li>
+              <li><strong>Siemens star</strong>: spokes that get finer towards the centre, for resolution and blur</li>
+              <li><strong>Random shapes</strong>: coloured ellipses, rectangles and triangles for contours, segmentation and feature detection</li>
+              <li><strong>Uniform noise</strong>: values spread evenly between the dark and bright levels, with a flat spectrum</li>
+              <li><strong>Step edge</strong>: one straight edge through the centre; a few degrees off the axis gives the slanted edge used to measure sharpness</li>
+            </ul>
+            <p>
+              The node has no input. A project stores only these settings, and the random patterns are generated
+              from the seed, so the image is regenerated exactly when the project is loaded.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderFrequencyFilterConfig = () => {
+    const parameterValues: Record<string, unknown> = {};
+    editedTransformation.parameters.forEach(param => {
+      parameterValues[param.name] = param.value;
+    });
+    
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters
+              .filter(param => !param.showIf || param.showIf(parameterValues))
+              .map(param => 
+                <div key={param.name}>{renderParameterControl(param)}</div>
+              )
+            }
+          </div>
+        </div>
+        
+        {/* Mathematical explanation */}
+        <div>
+          <div className="flex items-center text-blue-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">Mathematical Explanation</h3>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-md text-sm text-gray-800">
+            <p className="mb-3">
+              The image is transformed with the <strong>2D FFT</strong>, multiplied by a filter transfer function
+              H(u, v) and transformed back:
+            </p>
+            <div className="bg-white p-2 rounded text-center mb-3">
+              <code>g = F<sup>−1</sup>{'{'} H(u, v) · F{'{'}f{'}'}(u, v) {'}'}</code>
+            </div>
+            <p className="mb-3">
+              With D the distance from the DC term (cycles per pixel) and D<sub>0</sub> the cutoff, the lowpass
+              profiles are:
+            </p>
+            <ul className="list-disc pl-5 space-y-1 mb-3">
+              <li><strong>Ideal:</strong> <code>H = 1 if D ≤ D<sub>0</sub>, else 0</code> (sharp cut, visible ringing)</li>
+              <li><strong>Butterworth:</strong> <code>H = 1 / (1 + (D / D<sub>0</sub>)<sup>2n</sup>)</code></li>
+              <li><strong>Gaussian:</strong> <code>H = exp(−D² / 2D<sub>0</sub>²)</code> (no ringing)</li>
+            </ul>
+            <p>
+              Highpass uses 1 − H. Bandpass keeps a ring of the given bandwidth around D<sub>0</sub> and notch
+              rejects it. Each channel is padded to a power of two for the FFT; enable <em>Show Steps</em> on the
+              node to see the spectrum before and after filtering.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Render multi-input (arithmetic, bitwise and mask) configuration
+  const renderCombineConfig = () => {
+    const formulas: Record<string, string> = {
+      add: 'g = min(A + B, 255)',
+      subtract: 'g = max(A − B, 0)',
+      absDiff: 'g = |A − B|',
+      blend: 'g = (1 − α)·A + α·B + γ',
+      bitwiseAnd: 'g = A & B',
+      bitwiseOr: 'g = A | B',
+      bitwiseXor: 'g = A ^ B',
+      maskedCopy: 'g = mask > t ? source : background'
+    };
+    
+    return (
+      <div className="space-y-6">
+        {/* Basic parameters section */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Basic Parameters</h3>
+          <div className="mt-2 bg-gray-50 p-4 rounded-md">
+            {editedTransformation.parameters.map(param => 
+              <div key={param.name}>{renderParameterControl(param)}</div>
+            )}
+          </div>
+        </div>
+        
+        {/* Mathematical explanation */}
+        <div>
+          <div className="flex items-center text-blue-600 mb-2">
+            <DocumentTextIcon className="h-5 w-5 mr-1" />
+            <h3 className="text-lg font-medium">Mathematical Explanation</h3>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-md text-sm text-gray-800">
+            <p className="mb-3">
+              The operation is applied independently to every pixel and colour channel of the connected inputs:
+            </p>
+            <div className="bg-white p-2 rounded text-center mb-3">
+              <code>{formulas[editedTransformation.type]}</code>
+            </div>
+            <p>
+              Inputs must have the same size. With <strong>resize</strong> every input is scaled to the size of the
+              first one, with <strong>crop</strong> all inputs are cut to their common top-left region, and
+              with <strong>error</strong> mismatched sizes stop the node.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   // Pass the kernel state and updater function to CustomBlurConfigPanel
   const renderCustomBlurConfig = () => {
     return (
@@ -2,6 +2,7 @@ import React from 'react';
 import { useCallback } from 'react';
 import { Handle, Position } from 'reactflow';
 import { usePipeline } from '../../contexts/PipelineContext';
+import type { InputPort, OutputPort } from '../../utils/types';
 
 export interface BaseNodeProps {
   id: string;
@@ -21,6 +22,8 @@ export interface BaseNodeProps {
     inputPosition?: Position;
     outputPosition?: Position;
   };
+  inputPorts?: InputPort[]; // Named input handles, spread along the input side
+  outputPorts?: OutputPort[]; // Named output handles, spread along the output side
   width?: string;
 }
 
@@ -46,12 +49,18 @@ export default function BaseNode({
     inputPosition: Position.Left,
     outputPosition: Position.Right,
   },
+  inputPorts,
+  outputPorts,
   width = 'w-72',
 }: BaseNodeProps) {
+  // Nodes with several named inputs get one handle per port
+  const hasNamedPorts = !!inputPorts && inputPorts.length > 1;
+  const hasNamedOutputs = !!outputPorts && outputPorts.length > 0;
+
   return (
     <div className={`rounded-lg shadow-lg ${color.background} ${width} overflow-hidden 
         ${selected ? 'ring-2 ring-blue-400' : `border ${color.border}`}`}>
-      {handles.input && (
+      {handles.input && !hasNamedPorts && (
         <Handle
           type="target"
           position={handles.inputPosition || Position.Left}
@@ -61,7 +70,29 @@ export default function BaseNode({
         />
       )}
 
-      {handles.output && (
+      {handles.input && hasNamedPorts && inputPorts!.map((port, index) => {
+        const top = `${((index + 1) / (inputPorts!.length + 1)) * 100}%`;
+        return (
+          <React.Fragment key={port.id}>
+            <Handle
+              type="target"
+              position={handles.inputPosition || Position.Left}
+              id={port.id}
+              className={`!w-3 !h-3 ${port.optional ? '!bg-gray-400' : '!bg-gray-700'} !border-2 !border-white !z-10 connectablestart connectableend`}
+              style={{ top, transform: 'translateY(-50%)' }}
+              title={port.description || port.label}
+            />
+            <div
+              className="absolute z-10 px-1 rounded bg-white/90 shadow-sm text-[10px] font-medium text-gray-600 pointer-events-none whitespace-nowrap"
+              style={{ top, right: 'calc(100% + 8px)', transform: 'translateY(-50%)' }}
+            >
+              {port.label}{port.optional ? ' (optional)' : ''}
+            </div>
+          </React.Fragment>
+        );
+      })}
+
+      {handles.output && !hasNamedOutputs && (
         <Handle
           type="source"
           position={handles.outputPosition || Position.Right}
@@ -71,6 +102,28 @@ export default function BaseNode({
         />
       )}
 
+      {handles.output && hasNamedOutputs && outputPorts!.map((port, index) => {
+        const top = `${((index + 1) / (outputPorts!.length + 1)) * 100}%`;
+        return (
+          <React.Fragment key={port.id}>
+            <Handle
+              type="source"
+              position={handles.outputPosition || Position.Right}
+              id={port.id}
+              className="!w-3 !h-3 !bg-gray-700 !border-2 !border-white !z-10 source connectablestart connectableend connectionindicator"
+              style={{ top, transform: 'translateY(-50%)' }}
+              title={port.description || port.label}
+            />
+            <div
+              className="absolute z-10 px-1 rounded bg-white/90 shadow-sm text-[10px] font-medium text-gray-600 pointer-events-none whitespace-nowrap"
+              style={{ top, left: 'calc(100% + 8px)', transform: 'translateY(-50%)' }}
+            >
+              {port.label}
+            </div>
+          </React.Fragment>
+        );
+      })}
+
       <div className={`${color.header} ${color.headerText} py-2 px-3 flex justify-between items-center`}>
         <h3 className="text-sm font-semibold">{title}</h3>
         <div className="flex items-center space-x-1">
@@ -3,6 +3,7 @@ import { Position } from 'reactflow';
 import { usePipeline } from '../../contexts/PipelineContext';
 import { PhotoIcon, ArrowUpTrayIcon, DocumentArrowUpIcon } from '@heroicons/react/24/outline';
 import BaseNode from './BaseNode';
+import PixelLoupe from './PixelLoupe';
 
 interface InputNodeProps {
   id: string;
@@ -14,7 +15,7 @@ export default function InputNode({ id, data, selected }: InputNodeProps) {
   const [image, setImage] = useState<string | null>(null);
   const [imageSize, setImageSize] = useState<{width: number, height: number} | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { setInputImage, results } = usePipeline();
+  const { setInputImage, results, pixelInspectorEnabled } = usePipeline();
 
   // Update the display when the node result changes
   useEffect(() => {
@@ -95,19 +96,23 @@ export default function InputNode({ id, data, selected }: InputNodeProps) {
         ) : (
           <div className="w-full">
             <div className="relative group mb-3 bg-slate-800 rounded-md overflow-hidden">
-              <img 
-                src={image} 
-                alt="Input" 
+              <PixelLoupe
+                nodeId={id}
+                src={image}
+                alt="Input"
                 className="max-h-52 w-full object-contain mx-auto"
               />
-              <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 flex items-center justify-center transition-all opacity-0 group-hover:opacity-100">
-                <button
-                  className="px-3 py-1.5 bg-white text-gray-800 rounded-md text-sm font-medium shadow-sm hover:bg-blue-50 transition-all"
-                  onClick={() => fileInputRef.current?.click()}
-                >
-                  Change Image
-                </button>
-              </div>
+              {/* The change-image overlay would cover the preview while inspecting pixels */}
+              {!pixelInspectorEnabled && (
+                <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 flex items-center justify-center transition-all opacity-0 group-hover:opacity-100">
+                  <button
+                    className="px-3 py-1.5 bg-white text-gray-800 rounded-md text-sm font-medium shadow-sm hover:bg-blue-50 transition-all"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    Change Image
+                  </button>
+                </div>
+              )}
             </div>
 
             <div className="mt-2 text-xs text-gray-500 flex justify-between">
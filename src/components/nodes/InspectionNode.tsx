@@ -13,13 +13,27 @@ import {
 } from '@heroicons/react/24/outline';
 import BaseNode from './BaseNode';
 import HistogramChart from '../charts/HistogramChart';
+import LineProfileChart from '../charts/LineProfileChart';
+import type { ProfileChannels } from '../charts/LineProfileChart';
+import LineProfileEditor from '../configPanels/LineProfileEditor';
 import InspectionConfigModal from '../modals/InspectionConfigModal';
+import { getEdgeSourceCanvas } from '../../services/PipelineManager';
 import { histogramAnalyzer } from '../../services/HistogramAnalyzer';
 import { ModuleCalculator, GradientStrategyFactory } from '../../services/ModuleCalculator';
 import { PhaseCalculator } from '../../services/PhaseCalculator';
 import { EdgeDensityAnalyzer, EdgeDetectionStrategyFactory } from '../../services/EdgeDensityAnalyzer';
 import { fourierTransformAnalyzer } from '../../services/FourierTransformAnalyzer';
-import type { Inspection, HistogramData, InspectionResult } from '../../utils/types';
+import { TextureAnalyzer, TextureStrategyFactory } from '../../services/TextureAnalyzer';
+import { FeatureDetector, FeatureStrategyFactory } from '../../services/FeatureDetector';
+import { imageQualityAnalyzer } from '../../services/ImageQualityAnalyzer';
+import type { ChannelError } from '../../services/ImageQualityAnalyzer';
+import { lineProfileAnalyzer, getDefaultProfilePoints } from '../../services/LineProfileAnalyzer';
+import type { LineProfileData, ProfileInterpolation } from '../../services/LineProfileAnalyzer';
+import type { TextureDirection } from '../../services/TextureAnalyzer';
+import { colorAnalyzer } from '../../services/ColorAnalyzer';
+import type { ColorSpace, ClusteringMethod, ColorAnalysisResult } from '../../services/ColorAnalyzer';
+import { getInspectionInputPorts, isMultiInputInspection } from '../../utils/inspectionTemplates';
+import type { Inspection, HistogramData, InspectionResult, ImageProcessingEdge, PointValue, VectorValue } from '../../utils/types';
 
 interface InspectionNodeProps {
   id: string;
@@ -55,13 +69,21 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
   const [showConfig, setShowConfig] = useState(false);
   const [showFullSize, setShowFullSize] = useState(false);
   const [lastProcessedInput, setLastProcessedInput] = useState<string | null>(null);
+  // Distance along the profile line under the pointer in the chart
+  const [profileHoverDistance, setProfileHoverDistance] = useState<number | null>(null);
 
   const inspection = data.node.inspection;
+  
+  // Named input ports of inspections that compare several images, and which of them are connected
+  const inputPorts = getInspectionInputPorts(inspection.type);
+  const connectedPorts = new Set(
+    edges.filter(edge => edge.target === id && edge.targetHandle).map(edge => edge.targetHandle)
+  );
 
-  // Monitor for input changes and reprocess
+  // Monitor for input and configuration changes and reprocess
   useEffect(() => {
     processInspection();
-  }, [id, edges, results]);
+  }, [id, edges, results, inspection]);
 
   const processInspection = async () => {
     // Find connected input nodes
@@ -73,17 +95,29 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
       return;
     }
 
+    // Multi-input inspections read one image per named input port
+    if (isMultiInputInspection(inspection.type)) {
+      await processMultiInputInspection(inputEdges);
+      return;
+    }
+
     const sourceNodeId = inputEdges[0].source;
     const sourceResult = results.get(sourceNodeId);
+    const sourceCanvas = getEdgeSourceCanvas(sourceResult, inputEdges[0]);
 
     // Skip if no source result or same input as last processed
-    if (!sourceResult || sourceResult.status !== 'success' || !sourceResult.canvas) {
+    if (!sourceResult || !sourceCanvas) {
       return;
     }
 
-    // Check if we already processed this input
-    const inputSignature = `${sourceNodeId}-${sourceResult.canvas.toDataURL()}`;
-    if (inputSignature === lastProcessedInput) {
+    // Check if we already processed this input, using the pipeline's content hash.
+    // The parameters are part of the signature, so a configuration change analyzes again
+    const sourcePort = inputEdges[0].sourceHandle ? `:${inputEdges[0].sourceHandle}` : '';
+    const parameterSignature = JSON.stringify(inspection.parameters.map(param => [param.name, param.value]));
+    const inputSignature = sourceResult.hash
+      ? `${sourceNodeId}${sourcePort}-${sourceResult.hash}|${parameterSignature}`
+      : null;
+    if (inputSignature && inputSignature === lastProcessedInput) {
       return;
     }
 
@@ -94,7 +128,7 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
       await new Promise(resolve => setTimeout(resolve, 10)); // Allow UI to update
 
       // Get image data from canvas
-      const canvas = sourceResult.canvas;
+      const canvas = sourceCanvas;
       const ctx = canvas.getContext('2d');
       if (!ctx) {
         throw new Error('Could not get canvas context');
@@ -125,6 +159,9 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
         case 'fourierTransform':
           await processFourierTransform(imageData);
           break;
+        case 'featureDetection':
+          await processFeatureDetection(imageData);
+          break;
         case 'statistics':
           await processStatistics(imageData);
           break;
@@ -134,6 +171,9 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
         case 'dimensionInfo':
           await processDimensionInfo(imageData);
           break;
+        case 'lineProfile':
+          await processLineProfile(imageData);
+          break;
         default:
           throw new Error(`Unsupported inspection type: ${inspection.type}`);
       }
@@ -147,6 +187,73 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
     }
   };
 
+  const processMultiInputInspection = async (inputEdges: ImageProcessingEdge[]) => {
+    const inputCanvases: Record<string, HTMLCanvasElement> = {};
+    const signatures: string[] = [];
+    
+    for (const edge of inputEdges) {
+      if (!edge.targetHandle) continue;
+      const sourceResult = results.get(edge.source);
+      const sourceCanvas = getEdgeSourceCanvas(sourceResult, edge);
+      
+      // Wait until every connected input has a result
+      if (!sourceResult || !sourceCanvas) {
+        return;
+      }
+      
+      inputCanvases[edge.targetHandle] = sourceCanvas;
+      const sourcePort = edge.sourceHandle ? `:${edge.sourceHandle}` : '';
+      signatures.push(sourceResult.hash ? `${edge.targetHandle}=${edge.source}${sourcePort}-${sourceResult.hash}` : '');
+    }
+    
+    // Nothing to compare until every required port is connected
+    if (inputPorts.some(port => !port.optional && !inputCanvases[port.id])) {
+      setInspectionData(null);
+      setError(null);
+      return;
+    }
+    
+    // The parameters are part of the signature, so a configuration change compares again
+    const parameterSignature = JSON.stringify(inspection.parameters.map(param => [param.name, param.value]));
+    const inputSignature = signatures.every(Boolean)
+      ? `${signatures.sort().join('|')}|${parameterSignature}`
+      : null;
+    if (inputSignature && inputSignature === lastProcessedInput) {
+      return;
+    }
+    
+    setProcessing(true);
+    setError(null);
+    
+    try {
+      await new Promise(resolve => setTimeout(resolve, 10)); // Allow UI to update
+      
+      const inputs: Record<string, ImageData> = {};
+      Object.entries(inputCanvases).forEach(([portId, canvas]) => {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          throw new Error('Could not get canvas context');
+        }
+        inputs[portId] = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      });
+      
+      switch (inspection.type) {
+        case 'imageQuality':
+          await processImageQuality(inputs.reference, inputs.test);
+          break;
+        default:
+          throw new Error(`Unsupported inspection type: ${inspection.type}`);
+      }
+      
+      setLastProcessedInput(inputSignature);
+    } catch (err) {
+      console.error('Inspection processing error:', err);
+      setError(err instanceof Error ? err.message : 'Processing failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const processHistogram = async (imageData: ImageData) => {
     // Get histogram type from parameters or auto-detect
     const histogramType = inspection.parameters.find(p => p.name === 'type')?.value as string || 'auto';
@@ -266,161 +373,95 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
     });
   };
 
+  // Summarize a color clustering result for the statistics panel
+  const getPaletteStatistics = (result: ColorAnalysisResult): Record<string, string | number> => {
+    const statistics: Record<string, string | number> = {};
+    result.clusters.forEach((cluster, index) => {
+      statistics[`Color ${index + 1}`] = `${cluster.hex} (${cluster.percentage.toFixed(1)}%)`;
+    });
+    return statistics;
+  };
+
   const processColorDistribution = async (imageData: ImageData) => {
-    // Simplified color distribution analysis
-    const { data, width, height } = imageData;
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d')!;
-    
-    // Show original image with color analysis overlay
-    ctx.putImageData(imageData, 0, 0);
-    
-    // Simple color sampling and analysis
-    const colorSamples: { r: number; g: number; b: number; count: number }[] = [];
-    const sampleStep = 20; // Sample every 20th pixel
-    
-    for (let i = 0; i < data.length; i += 4 * sampleStep) {
-      const r = Math.floor(data[i] / 32) * 32; // Quantize colors
-      const g = Math.floor(data[i + 1] / 32) * 32;
-      const b = Math.floor(data[i + 2] / 32) * 32;
-      
-      const existing = colorSamples.find(c => c.r === r && c.g === g && c.b === b);
-      if (existing) {
-        existing.count++;
-      } else {
-        colorSamples.push({ r, g, b, count: 1 });
-      }
-    }
-    
-    // Sort by frequency and get top colors
-    colorSamples.sort((a, b) => b.count - a.count);
-    const topColors = colorSamples.slice(0, 8);
-    
-    // Draw color analysis overlay
-    ctx.globalAlpha = 0.7;
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-    ctx.fillRect(0, height - 60, width, 60);
-    
-    // Show dominant colors
-    const colorWidth = Math.min(width / topColors.length, 80);
-    topColors.forEach((color, index) => {
-      ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`;
-      ctx.fillRect(index * colorWidth, height - 50, colorWidth - 2, 40);
-      
-      ctx.fillStyle = 'white';
-      ctx.font = '10px Arial';
-      ctx.fillText(`${color.count}`, index * colorWidth + 5, height - 15);
+    const colorSpace = inspection.parameters.find(p => p.name === 'colorSpace')?.value as ColorSpace || 'rgb';
+    const clusterCount = inspection.parameters.find(p => p.name === 'clusterCount')?.value as number || 8;
+    const samplingRate = inspection.parameters.find(p => p.name === 'samplingRate')?.value as number || 0.1;
+    const showClusters = inspection.parameters.find(p => p.name === 'showClusters')?.value as boolean ?? true;
+    const showDistribution = inspection.parameters.find(p => p.name === 'showDistribution')?.value as boolean ?? true;
+
+    const result = colorAnalyzer.analyze(imageData, {
+      colorSpace,
+      clusterCount,
+      samplingRate,
+      method: 'kmeans'
     });
     
-    ctx.globalAlpha = 1.0;
+    const canvas = colorAnalyzer.createVisualization(imageData, result, {
+      showClusters,
+      showDistribution,
+      showPalette: true,
+      showPercentages: true
+    });
     
     const statistics: Record<string, string | number> = {
-      'Total Colors Found': colorSamples.length,
-      'Samples Analyzed': Math.floor(data.length / (4 * sampleStep)),
-      'Most Frequent Color': `RGB(${topColors[0]?.r || 0}, ${topColors[0]?.g || 0}, ${topColors[0]?.b || 0})`,
-      'Dominant Color Count': topColors[0]?.count || 0
+      'Dominant Color': `${result.clusters[0].hex} (${result.clusters[0].percentage.toFixed(1)}%)`,
+      'Clusters Found': result.clusters.length,
+      'Color Space': colorSpace.toUpperCase(),
+      'Samples Analyzed': result.sampleCount,
+      'K-means Iterations': result.iterations,
+      'Mean Squared Error': result.inertia.toFixed(2),
+      ...getPaletteStatistics(result)
     };
     
-    topColors.slice(0, 5).forEach((color, index) => {
-      statistics[`Color ${index + 1}`] = `RGB(${color.r}, ${color.g}, ${color.b})`;
-      statistics[`Color ${index + 1} Frequency`] = color.count;
-    });
-    
     setInspectionData({
       type: 'colorDistribution',
       canvas,
-      data: { topColors, allColors: colorSamples },
+      data: result,
       statistics,
       timestamp: Date.now()
     });
   };
 
   const processTextureAnalysis = async (imageData: ImageData) => {
-    // Simplified texture analysis using edge detection
-    const { data, width, height } = imageData;
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d')!;
+    const method = inspection.parameters.find(p => p.name === 'method')?.value as string || 'glcm';
+    const windowSize = inspection.parameters.find(p => p.name === 'windowSize')?.value as number || 32;
+    const direction = inspection.parameters.find(p => p.name === 'direction')?.value as TextureDirection || 'all';
+    const distance = inspection.parameters.find(p => p.name === 'distance')?.value as number || 1;
+    const radius = inspection.parameters.find(p => p.name === 'radius')?.value as number || 3;
+    const gaborFrequency = inspection.parameters.find(p => p.name === 'gaborFrequency')?.value as number || 0.1;
+    const showFeatures = inspection.parameters.find(p => p.name === 'showFeatures')?.value as boolean ?? true;
+
+    const strategy = TextureStrategyFactory.create(method, { direction, distance, radius, gaborFrequency });
+    const analyzer = new TextureAnalyzer(strategy);
     
-    // Convert to grayscale
-    const grayData = new Uint8Array(width * height);
-    for (let i = 0; i < data.length; i += 4) {
-      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-      grayData[i / 4] = gray;
-    }
+    const textureData = analyzer.analyzeTexture(imageData, { windowSize });
     
-    // Simple texture analysis using local variance
-    const textureMap = new Uint8Array(width * height);
-    const windowSize = 5;
-    let totalTexture = 0;
-    let textureCount = 0;
+    const visualizationCanvas = analyzer.createVisualization(textureData, {
+      colormap: 'jet',
+      showFeatures
+    });
     
-    for (let y = windowSize; y < height - windowSize; y++) {
-      for (let x = windowSize; x < width - windowSize; x++) {
-        let sum = 0;
-        let sumSq = 0;
-        let count = 0;
-        
-        // Calculate local variance in window
-        for (let dy = -windowSize; dy <= windowSize; dy++) {
-          for (let dx = -windowSize; dx <= windowSize; dx++) {
-            const idx = (y + dy) * width + (x + dx);
-            const val = grayData[idx];
-            sum += val;
-            sumSq += val * val;
-            count++;
-          }
-        }
-        
-        const mean = sum / count;
-        const variance = (sumSq / count) - (mean * mean);
-        const texture = Math.sqrt(variance);
-        
-        textureMap[y * width + x] = Math.min(255, texture * 2);
-        totalTexture += texture;
-        textureCount++;
-      }
-    }
+    const statistics: Record<string, string | number> = {
+      'Analysis Method': textureData.method,
+      'Window Size': `${textureData.windowSize}px (${textureData.gridWidth}×${textureData.gridHeight} windows)`
+    };
     
-    // Create visualization
-    const imageDataOut = ctx.createImageData(width, height);
-    for (let i = 0; i < textureMap.length; i++) {
-      const value = textureMap[i];
-      imageDataOut.data[i * 4] = value;     // R
-      imageDataOut.data[i * 4 + 1] = value; // G  
-      imageDataOut.data[i * 4 + 2] = value; // B
-      imageDataOut.data[i * 4 + 3] = 255;   // A
-    }
-    ctx.putImageData(imageDataOut, 0, 0);
+    textureData.featureNames.forEach(name => {
+      const featureStats = textureData.statistics[name];
+      statistics[name] = textureData.globalFeatures[name].toFixed(4);
+      statistics[`${name} (window range)`] = `${featureStats.min.toFixed(3)} – ${featureStats.max.toFixed(3)}`;
+    });
     
-    // Add heat map overlay for high texture areas
-    ctx.globalAlpha = 0.4;
-    const avgTexture = totalTexture / textureCount;
-    for (let i = 0; i < textureMap.length; i++) {
-      if (textureMap[i] > avgTexture * 1.5) {
-        const x = i % width;
-        const y = Math.floor(i / width);
-        ctx.fillStyle = 'rgba(255, 0, 0, 0.6)';
-        ctx.fillRect(x, y, 2, 2);
-      }
+    if (textureData.histogram) {
+      textureData.histogram.labels.forEach((label, index) => {
+        statistics[`LBP bin ${label}`] = (textureData.histogram!.values[index] * 100).toFixed(1) + '%';
+      });
     }
-    ctx.globalAlpha = 1.0;
-    
-    const statistics: Record<string, string | number> = {
-      'Analysis Method': 'Local Variance',
-      'Window Size': windowSize,
-      'Average Texture': avgTexture.toFixed(2),
-      'High Texture Pixels': textureMap.filter(v => v > avgTexture * 1.5).length,
-      'Texture Coverage': ((textureMap.filter(v => v > avgTexture * 1.5).length / textureMap.length) * 100).toFixed(1) + '%'
-    };
     
     setInspectionData({
       type: 'textureAnalysis',
-      canvas,
-      data: { textureMap, avgTexture, windowSize },
+      canvas: visualizationCanvas,
+      data: textureData,
       statistics,
       timestamp: Date.now()
     });
@@ -524,6 +565,170 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
     }
   };
 
+  // Corner responses are tiny (Harris, Shi-Tomasi) or large (FAST), so pick the notation by magnitude
+  const formatResponse = (value: number): string =>
+    value !== 0 && Math.abs(value) < 0.01 ? value.toExponential(2) : value.toFixed(2);
+
+  const processFeatureDetection = async (imageData: ImageData) => {
+    const method = inspection.parameters.find(p => p.name === 'method')?.value as string || 'harris';
+    const maxKeypoints = inspection.parameters.find(p => p.name === 'maxKeypoints')?.value as number || 500;
+    const qualityLevel = inspection.parameters.find(p => p.name === 'qualityLevel')?.value as number || 0.01;
+    const minDistance = inspection.parameters.find(p => p.name === 'minDistance')?.value as number ?? 10;
+    const fastThreshold = inspection.parameters.find(p => p.name === 'fastThreshold')?.value as number || 20;
+    const nonmaxSuppression = inspection.parameters.find(p => p.name === 'nonmaxSuppression')?.value as boolean ?? true;
+    const scaleFactor = inspection.parameters.find(p => p.name === 'scaleFactor')?.value as number || 1.2;
+    const nLevels = inspection.parameters.find(p => p.name === 'nLevels')?.value as number || 8;
+    const blockSize = inspection.parameters.find(p => p.name === 'blockSize')?.value as number || 3;
+    const harrisK = inspection.parameters.find(p => p.name === 'harrisK')?.value as number || 0.04;
+    const showKeypoints = inspection.parameters.find(p => p.name === 'showKeypoints')?.value as boolean ?? true;
+    const showHeatmap = inspection.parameters.find(p => p.name === 'showHeatmap')?.value as boolean ?? true;
+    const colormap = inspection.parameters.find(p => p.name === 'colormap')?.value as string || 'hot';
+
+    const strategy = FeatureStrategyFactory.create(method, {
+      qualityLevel,
+      minDistance,
+      blockSize,
+      harrisK,
+      fastThreshold,
+      nonmaxSuppression,
+      maxKeypoints,
+      scaleFactor,
+      nLevels
+    });
+    const detector = new FeatureDetector(strategy);
+    
+    const featureData = detector.detectFeatures(imageData, { maxKeypoints });
+    
+    const visualizationCanvas = detector.createVisualization(imageData, featureData, {
+      showHeatmap,
+      showKeypoints,
+      colormap
+    });
+    
+    const { statistics: featureStats } = featureData;
+    const statistics: Record<string, string | number> = {
+      'Keypoints': featureData.detectedCount > featureStats.count
+        ? `${featureStats.count} of ${featureData.detectedCount}`
+        : String(featureStats.count),
+      'Detector': featureData.method,
+      'Response Range': `${formatResponse(featureStats.minResponse)} – ${formatResponse(featureStats.maxResponse)}`,
+      'Mean Response': formatResponse(featureStats.meanResponse)
+    };
+    
+    Object.entries(featureStats.percentiles).forEach(([percentile, value]) => {
+      statistics[`Response ${percentile} percentile`] = formatResponse(value);
+    });
+    
+    if (featureStats.count > 0) {
+      featureStats.histogram.forEach((count, index) => {
+        statistics[`Strength bin ${index + 1} (≥ ${formatResponse(featureStats.bins[index])})`] = String(count);
+      });
+    }
+    
+    if (featureStats.octaveCounts.length > 1) {
+      featureStats.octaveCounts.forEach((count, octave) => {
+        statistics[`Octave ${octave}`] = String(count);
+      });
+    }
+    
+    setInspectionData({
+      type: 'featureDetection',
+      canvas: visualizationCanvas,
+      data: featureData,
+      statistics,
+      timestamp: Date.now()
+    });
+  };
+
+  const processImageQuality = async (reference: ImageData, test: ImageData) => {
+    const ssimChannel = inspection.parameters.find(p => p.name === 'ssimChannel')?.value as 'luminance' | 'rgb' || 'luminance';
+    const view = inspection.parameters.find(p => p.name === 'view')?.value as 'both' | 'ssim' | 'difference' || 'both';
+    const colormap = inspection.parameters.find(p => p.name === 'colormap')?.value as string || 'hot';
+    const normalizeDifference = inspection.parameters.find(p => p.name === 'normalizeDifference')?.value as boolean ?? true;
+    const windowSigma = inspection.parameters.find(p => p.name === 'windowSigma')?.value as number || 1.5;
+
+    const qualityData = imageQualityAnalyzer.compare(reference, test, { ssimChannel, windowSigma });
+    
+    const visualizationCanvas = imageQualityAnalyzer.createVisualization(qualityData, {
+      view,
+      colormap,
+      normalizeDifference
+    });
+    
+    const formatPsnr = (psnr: number) => Number.isFinite(psnr) ? `${psnr.toFixed(2)} dB` : '∞ (identical)';
+    const statistics: Record<string, string | number> = {
+      'PSNR': formatPsnr(qualityData.psnr),
+      'SSIM': qualityData.ssim.toFixed(4),
+      'MS-SSIM': qualityData.msssimScales < 5
+        ? `${qualityData.msssim.toFixed(4)} (${qualityData.msssimScales} scales)`
+        : qualityData.msssim.toFixed(4),
+      'MSE': qualityData.mse.toFixed(3),
+      'SSIM Channel': qualityData.ssimChannel === 'rgb' ? 'RGB average' : 'Luminance',
+      'Max Difference': qualityData.maxDifference.toFixed(1)
+    };
+    
+    const channels: [string, ChannelError][] = [
+      ['Red', qualityData.channels.red],
+      ['Green', qualityData.channels.green],
+      ['Blue', qualityData.channels.blue]
+    ];
+    channels.forEach(([name, channel]) => {
+      statistics[`${name} MSE`] = channel.mse.toFixed(3);
+      statistics[`${name} PSNR`] = formatPsnr(channel.psnr);
+      statistics[`${name} MAE`] = channel.mae.toFixed(3);
+      statistics[`${name} Max Error`] = String(channel.maxError);
+    });
+    
+    setInspectionData({
+      type: 'imageQuality',
+      canvas: visualizationCanvas,
+      data: qualityData,
+      statistics,
+      timestamp: Date.now()
+    });
+  };
+
+  const processLineProfile = async (imageData: ImageData) => {
+    const averagingWidth = inspection.parameters.find(p => p.name === 'averagingWidth')?.value as number || 1;
+    const interpolation = inspection.parameters.find(p => p.name === 'interpolation')?.value as ProfileInterpolation || 'bilinear';
+    const pointValues = (inspection.parameters.find(p => p.name === 'points')?.value as VectorValue)?.values || [];
+    
+    // Points are stored as flat x, y pairs; without a drawn line, profile the middle row
+    const drawnPoints: PointValue[] = [];
+    for (let i = 0; i + 1 < pointValues.length; i += 2) {
+      drawnPoints.push({ x: pointValues[i], y: pointValues[i + 1] });
+    }
+    const points = drawnPoints.length >= 2 ? drawnPoints : getDefaultProfilePoints(imageData.width, imageData.height);
+    
+    const profile = lineProfileAnalyzer.analyze(imageData, points, { averagingWidth, interpolation });
+    const visualizationCanvas = lineProfileAnalyzer.createVisualization(imageData, profile);
+    
+    // Plain input image for the line editor, which draws the line itself
+    const inputCanvas = document.createElement('canvas');
+    inputCanvas.width = imageData.width;
+    inputCanvas.height = imageData.height;
+    inputCanvas.getContext('2d')?.putImageData(imageData, 0, 0);
+    
+    const { edgeWidth, maxGradient, maxGradientDistance, minGray, maxGray, meanGray } = profile.statistics;
+    const statistics: Record<string, string | number> = {
+      'Edge Width (10–90%)': edgeWidth !== null ? `${edgeWidth.toFixed(2)} px` : 'No edge',
+      'Max Gradient': `${maxGradient.toFixed(2)} levels/px at ${maxGradientDistance} px`,
+      'Length': `${profile.length.toFixed(1)} px`,
+      'Gray Range': `${minGray.toFixed(1)} – ${maxGray.toFixed(1)}`,
+      'Mean Gray': meanGray.toFixed(2),
+      'Vertices': String(profile.points.length),
+      'Averaging Width': `${profile.averagingWidth} px`
+    };
+    
+    setInspectionData({
+      type: 'lineProfile',
+      canvas: visualizationCanvas,
+      data: { profile, imageUrl: inputCanvas.toDataURL() },
+      statistics,
+      timestamp: Date.now()
+    });
+  };
+
   const processStatistics = async (imageData: ImageData) => {
     // Calculate basic image statistics
     const { data: pixels, width, height } = imageData;
@@ -564,10 +769,39 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
   };
 
   const processColorProfile = async (imageData: ImageData) => {
-    // Placeholder for color profile analysis
+    const dominantColors = inspection.parameters.find(p => p.name === 'dominantColors')?.value as number || 5;
+    const colorSpace = inspection.parameters.find(p => p.name === 'colorSpace')?.value as ColorSpace || 'rgb';
+    const advanced = inspection.metadata?.advancedParameters || {};
+    const displayOptions = inspection.metadata?.displayOptions || {};
+    const method: ClusteringMethod = advanced.clusteringMethod === 'medianCut' ? 'medianCut' : 'kmeans';
+
+    const result = colorAnalyzer.analyze(imageData, {
+      colorSpace,
+      clusterCount: dominantColors,
+      method,
+      maxIterations: advanced.iterations || 20
+    });
+    
+    const canvas = colorAnalyzer.createVisualization(imageData, result, {
+      showClusters: true,
+      showDistribution: false,
+      showPalette: displayOptions.showPalette ?? true,
+      showPercentages: displayOptions.showPercentages ?? true
+    });
+    
+    const statistics: Record<string, string | number> = {
+      'Dominant Color': `${result.clusters[0].hex} (${result.clusters[0].percentage.toFixed(1)}%)`,
+      'Palette Size': result.clusters.length,
+      'Color Space': colorSpace.toUpperCase(),
+      'Method': method === 'medianCut' ? 'Median cut' : 'K-means',
+      ...getPaletteStatistics(result)
+    };
+    
     setInspectionData({
       type: 'colorProfile',
-      data: { message: 'Color profile analysis - implementation in progress' },
+      canvas,
+      data: result,
+      statistics,
       timestamp: Date.now()
     });
   };
@@ -601,6 +835,20 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
     setShowConfig(false);
   };
 
+  // Store a line drawn on the preview as flat x, y pairs
+  const handleProfilePointsChange = (points: PointValue[]) => {
+    updateNode(id, {
+      inspection: {
+        ...inspection,
+        parameters: inspection.parameters.map(param =>
+          param.name === 'points'
+            ? { ...param, value: { values: points.flatMap(point => [point.x, point.y]) } }
+            : param
+        )
+      }
+    });
+  };
+
   const getInspectionColors = () => {
     switch (inspection.type) {
       case 'histogram':
@@ -645,6 +893,27 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
           header: 'bg-green-600',
           headerText: 'text-white'
         };
+      case 'featureDetection':
+        return {
+          border: 'border-lime-200',
+          background: 'bg-gradient-to-br from-lime-50 to-white',
+          header: 'bg-lime-600',
+          headerText: 'text-white'
+        };
+      case 'lineProfile':
+        return {
+          border: 'border-fuchsia-200',
+          background: 'bg-gradient-to-br from-fuchsia-50 to-white',
+          header: 'bg-fuchsia-600',
+          headerText: 'text-white'
+        };
+      case 'imageQuality':
+        return {
+          border: 'border-teal-200',
+          background: 'bg-gradient-to-br from-teal-50 to-white',
+          header: 'bg-teal-600',
+          headerText: 'text-white'
+        };
       case 'statistics':
         return {
           border: 'border-blue-200',
@@ -714,7 +983,11 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
       return (
         <div className="p-4 text-center">
           <ChartBarIcon className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-          <p className="text-sm text-gray-500">Connect an input to analyze</p>
+          <p className="text-sm text-gray-500">
+            {inputPorts.length > 1
+              ? `Connect the ${inputPorts.map(port => port.label).join(' and ')} inputs to analyze`
+              : 'Connect an input to analyze'}
+          </p>
         </div>
       );
     }
@@ -743,8 +1016,11 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
       case 'phaseCalculator':
       case 'edgeDensity':
       case 'colorDistribution':
+      case 'colorProfile':
       case 'textureAnalysis':
       case 'fourierTransform':
+      case 'featureDetection':
+      case 'imageQuality':
         return (
           <div className="p-2">
             {inspectionData.canvas ? (
@@ -775,6 +1051,45 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
           </div>
         );
       
+      case 'lineProfile': {
+        const profile = inspectionData.data.profile as LineProfileData;
+        return (
+          <div className="p-2">
+            <LineProfileEditor
+              imageUrl={inspectionData.data.imageUrl}
+              imageWidth={profile.imageWidth}
+              imageHeight={profile.imageHeight}
+              points={profile.points}
+              averagingWidth={profile.averagingWidth}
+              highlight={profileHoverDistance !== null ? lineProfileAnalyzer.pointAt(profile, profileHoverDistance) : null}
+              onChange={handleProfilePointsChange}
+            />
+            <div className="mt-2">
+              <LineProfileChart
+                data={profile}
+                width={280}
+                height={180}
+                channels={inspection.parameters.find(p => p.name === 'channels')?.value as ProfileChannels || 'auto'}
+                showGradient={inspection.parameters.find(p => p.name === 'showGradient')?.value as boolean ?? true}
+                onHoverDistance={setProfileHoverDistance}
+              />
+            </div>
+            {inspectionData.statistics && (
+              <div className="mt-2 text-xs text-gray-600">
+                {Object.entries(inspectionData.statistics).slice(0, 2).map(([key, value]) => (
+                  <div key={key} className="flex justify-between">
+                    <span>{key}:</span>
+                    <span className="font-medium truncate ml-2">
+                      {formatStatValue(key, value)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      }
+      
       case 'statistics':
         return (
           <div className="p-2">
@@ -841,9 +1156,30 @@ export default function InspectionNode({ id, data, selected }: InspectionNodePro
           output: false,
           inputPosition: Position.Left
         }}
+        inputPorts={inputPorts}
         width="w-80"
       >
         <div className="flex flex-col">
+          {/* Input ports status for multi-input inspections */}
+          {inputPorts.length > 1 && (
+            <div className="mb-2 flex flex-wrap gap-1.5">
+              {inputPorts.map(port => (
+                <span
+                  key={port.id}
+                  title={port.description}
+                  className={`text-xs px-2 py-0.5 rounded-full border ${
+                    connectedPorts.has(port.id)
+                      ? 'bg-gray-100 text-gray-700 border-transparent'
+                      : 'bg-white text-red-500 border-red-200'
+                  }`}
+                >
+                  {port.label}: {connectedPorts.has(port.id) ? 'connected' : 'missing'}
+                </span>
+              ))}
+            </div>
+          )}
+          
+
           {/* Configuration and Full Size buttons */}
           <div className="flex justify-between items-center mb-2">
             <span className="text-xs text-gray-500 flex-1 pr-2">{inspection.description}</span>
@@ -1276,6 +1612,21 @@ function FullSizeInspectionModal({
           
           {inspectionData.canvas && inspectionData.type !== 'histogram' && (
             <div className="h-full flex flex-col">
+              {/* Large Line Profile Chart */}
+              {inspectionData.type === 'lineProfile' && (
+                <div className="flex justify-center mb-8">
+                  <div className="bg-white rounded-lg shadow-lg p-8 border">
+                    <LineProfileChart
+                      data={inspectionData.data.profile}
+                      width={Math.min(1200, window.innerWidth - 300)}
+                      height={Math.min(500, window.innerHeight - 400)}
+                      channels={inspection.parameters.find(p => p.name === 'channels')?.value as ProfileChannels || 'auto'}
+                      showGradient={inspection.parameters.find(p => p.name === 'showGradient')?.value as boolean ?? true}
+                    />
+                  </div>
+                </div>
+              )}
+              
               {/* Large Visualization */}
               <div className="flex-1 flex items-center justify-center mb-8">
                 <div className="bg-white rounded-lg shadow-lg p-8 border">
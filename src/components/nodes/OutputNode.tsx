@@ -1,8 +1,9 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState } from 'react';
 import { Position } from 'reactflow';
 import { usePipeline } from '../../contexts/PipelineContext';
 import { PhotoIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
 import BaseNode from './BaseNode';
+import PixelLoupe from './PixelLoupe';
 
 interface OutputNodeProps {
   id: string;
@@ -11,13 +12,10 @@ interface OutputNodeProps {
 }
 
 export default function OutputNode({ id, data, selected }: OutputNodeProps) {
-  const { edges, results, invalidateNode } = usePipeline();
+  const { edges, results } = usePipeline();
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [downloading, setDownloading] = useState(false);
   const [isWaitingForInput, setIsWaitingForInput] = useState(false);
-  const [inputCheckAttempt, setInputCheckAttempt] = useState(0);
-  const sourceNodeRef = useRef<string | null>(null);
-  const timeoutRef = useRef<number | null>(null);
 
   // Find connected nodes to get the image
   useEffect(() => {
@@ -27,7 +25,6 @@ export default function OutputNode({ id, data, selected }: OutputNodeProps) {
     if (inputEdges.length > 0) {
       // Get the source node ID (there should only be one input to an output node)
       const sourceNodeId = inputEdges[0].source;
-      sourceNodeRef.current = sourceNodeId;
       
       // Get the result from the pipeline for this node
       const nodeResult = results.get(id);
@@ -35,28 +32,15 @@ export default function OutputNode({ id, data, selected }: OutputNodeProps) {
       // Get the source node result
       const sourceResult = results.get(sourceNodeId);
       
-      // If source is still processing, show waiting state
-      if (sourceResult && (sourceResult.status === 'pending' || sourceResult.status === 'idle')) {
-        setIsWaitingForInput(true);
-        
-        // Set a retry timeout if not already set
-        if (timeoutRef.current === null) {
-          timeoutRef.current = window.setTimeout(() => {
-            setInputCheckAttempt(prev => prev + 1);
-            invalidateNode(id);
-            timeoutRef.current = null;
-          }, 500);
-        }
-      } else {
-        setIsWaitingForInput(false);
-      }
+      // If source is still processing, show waiting state.
+      // The pipeline scheduler processes this node once the source settles.
+      setIsWaitingForInput(
+        !!sourceResult && (sourceResult.status === 'pending' || sourceResult.status === 'idle')
+      );
       
       // If we have a result with a canvas, display it
       if (nodeResult && nodeResult.canvas && nodeResult.status === 'success') {
         setImageUrl(nodeResult.canvas.toDataURL());
-      } else if (sourceResult && sourceResult.status === 'success' && sourceResult.canvas) {
-        // If our node doesn't have a result but source does, try to invalidate this node
-        invalidateNode(id);
       } else {
         setImageUrl(null);
       }
@@ -65,15 +49,7 @@ export default function OutputNode({ id, data, selected }: OutputNodeProps) {
       setImageUrl(null);
       setIsWaitingForInput(false);
     }
-    
-    // Clean up timeout on unmount
-    return () => {
-      if (timeoutRef.current !== null) {
-        clearTimeout(timeoutRef.current);
-        timeoutRef.current = null;
-      }
-    };
-  }, [id, edges, results, invalidateNode, inputCheckAttempt]);
+  }, [id, edges, results]);
 
   const handleDownload = () => {
     if (!imageUrl) return;
@@ -113,9 +89,10 @@ export default function OutputNode({ id, data, selected }: OutputNodeProps) {
         {imageUrl ? (
           <>
             <div className="mb-3 bg-slate-800 rounded-md overflow-hidden">
-              <img 
-                src={imageUrl} 
-                alt="Output" 
+              <PixelLoupe
+                nodeId={id}
+                src={imageUrl}
+                alt="Output"
                 className="max-h-52 w-full object-contain mx-auto"
               />
             </div>
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePipeline } from '../../contexts/PipelineContext';
+import { drawMagnifiedNeighbourhood, samplePixel } from '../../utils/pixelSampling';
+
+interface PixelLoupeProps {
+  // Node whose result canvas the preview shows
+  nodeId: string;
+  src: string;
+  alt: string;
+  className?: string;
+}
+
+// Pixels on each side of the centre shown in the loupe
+const LOUPE_RADIUS = 5;
+// Largest side of the loupe, in CSS pixels
+const LOUPE_MAX_SIZE = 99;
+const MARKER_COLOR = '#f43f5e';
+
+// Placement of the picture inside an object-contain image element, in CSS pixels
+const getContentBox = (img: HTMLImageElement) => {
+  const scale = Math.min(img.clientWidth / img.naturalWidth, img.clientHeight / img.naturalHeight);
+  return {
+    scale,
+    left: (img.clientWidth - img.naturalWidth * scale) / 2,
+    top: (img.clientHeight - img.naturalHeight * scale) / 2
+  };
+};
+
+/**
+ * Node preview image that takes part in the pixel inspector: hovering picks
+ * the pixel under the pointer (a click pins it), the preview it was picked on
+ * shows the magnified neighbourhood, and every preview marks the same
+ * coordinate and reports its own value there.
+ */
+export default function PixelLoupe({ nodeId, src, alt, className }: PixelLoupeProps) {
+  const { results, pixelInspectorEnabled, inspectedPixel, inspectPixel } = usePipeline();
+  const imgRef = useRef<HTMLImageElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  // Bumped when the image has loaded, as the overlay needs its final size
+  const [loadCount, setLoadCount] = useState(0);
+
+  const canvas = results.get(nodeId)?.canvas || null;
+  const value = pixelInspectorEnabled && inspectedPixel && canvas
+    ? samplePixel(canvas, inspectedPixel.x, inspectedPixel.y)
+    : null;
+
+  // Mark the inspected pixel, and magnify its neighbourhood on the preview it was picked on
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    const img = imgRef.current;
+    if (!overlay || !img) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    overlay.style.width = `${img.clientWidth}px`;
+    overlay.style.height = `${img.clientHeight}px`;
+    overlay.width = Math.round(img.clientWidth * dpr);
+    overlay.height = Math.round(img.clientHeight * dpr);
+    const ctx = overlay.getContext('2d');
+    if (!ctx || !pixelInspectorEnabled || !inspectedPixel || !canvas || !img.naturalWidth) return;
+
+    const { x, y } = inspectedPixel;
+    if (x >= canvas.width || y >= canvas.height) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    // Outline of the pixel, kept visible on shrunken previews
+    const box = getContentBox(img);
+    const markerSize = Math.max(5, box.scale);
+    const markerX = box.left + (x + 0.5) * box.scale;
+    const markerY = box.top + (y + 0.5) * box.scale;
+    ctx.strokeStyle = MARKER_COLOR;
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(markerX - markerSize / 2, markerY - markerSize / 2, markerSize, markerSize);
+
+    if (inspectedPixel.nodeId !== nodeId) return;
+
+    // Loupe in the top corner away from the pointer
+    const cells = LOUPE_RADIUS * 2 + 1;
+    const cellSize = Math.max(3, Math.floor(
+      Math.min(LOUPE_MAX_SIZE, img.clientHeight - 8, img.clientWidth / 2 - 8) / cells
+    ));
+    const loupeSize = cells * cellSize;
+    const left = markerX < img.clientWidth / 2 ? img.clientWidth - loupeSize - 4 : 4;
+    const top = 4;
+
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(left, top, loupeSize, loupeSize);
+    drawMagnifiedNeighbourhood(ctx, canvas, x, y, LOUPE_RADIUS, cellSize, left, top);
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.strokeRect(left - 0.5, top - 0.5, loupeSize + 1, loupeSize + 1);
+    ctx.strokeStyle = MARKER_COLOR;
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(left + LOUPE_RADIUS * cellSize, top + LOUPE_RADIUS * cellSize, cellSize, cellSize);
+  }, [pixelInspectorEnabled, inspectedPixel, canvas, nodeId, loadCount]);
+
+  // Image pixel under the pointer, or null outside the picture
+  const getPointerPixel = (event: React.MouseEvent) => {
+    const img = imgRef.current;
+    if (!img || !canvas || !img.naturalWidth) return null;
+
+    // The editor's zoom scales the node, so client distances are converted back to layout pixels
+    const rect = img.getBoundingClientRect();
+    const zoom = rect.width / img.clientWidth || 1;
+    const box = getContentBox(img);
+    const x = Math.floor(((event.clientX - rect.left) / zoom - box.left) / box.scale);
+    const y = Math.floor(((event.clientY - rect.top) / zoom - box.top) / box.scale);
+    if (x < 0 || y < 0 || x >= canvas.width || y >= canvas.height) return null;
+    return { x, y };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (inspectedPixel?.pinned) return;
+    const pixel = getPointerPixel(event);
+    inspectPixel(pixel ? { nodeId, ...pixel, pinned: false } : null);
+  };
+
+  const handleMouseLeave = () => {
+    if (!inspectedPixel?.pinned && inspectedPixel?.nodeId === nodeId) {
+      inspectPixel(null);
+    }
+  };
+
+  // A click pins the pixel, a click on the pinned pixel releases it
+  const handleClick = (event: React.MouseEvent) => {
+    const pixel = getPointerPixel(event);
+    if (!pixel) return;
+    const isPinnedPixel = !!inspectedPixel?.pinned && inspectedPixel.nodeId === nodeId &&
+      inspectedPixel.x === pixel.x && inspectedPixel.y === pixel.y;
+    inspectPixel({ nodeId, ...pixel, pinned: !isPinnedPixel });
+  };
+
+  return (
+    <div
+      className={`relative ${pixelInspectorEnabled ? 'nodrag cursor-crosshair' : ''}`}
+      onMouseMove={pixelInspectorEnabled ? handleMouseMove : undefined}
+      onMouseLeave={pixelInspectorEnabled ? handleMouseLeave : undefined}
+      onClick={pixelInspectorEnabled ? handleClick : undefined}
+    >
+      <img
+        ref={imgRef}
+        src={src}
+        alt={alt}
+        className={className}
+        onLoad={() => setLoadCount(count => count + 1)}
+      />
+      <canvas ref={overlayRef} className="absolute top-0 left-0 pointer-events-none" />
+      {value && inspectedPixel && (
+        <div className="absolute bottom-0 left-0 right-0 px-1.5 py-0.5 bg-slate-900/80 text-[10px] text-slate-100 font-mono pointer-events-none">
+          ({inspectedPixel.x}, {inspectedPixel.y}) RGB {value.r} {value.g} {value.b} · Gray {value.gray}
+          {inspectedPixel.pinned && <span className="ml-1 text-rose-300">pinned</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,18 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { Position } from 'reactflow';
 import { usePipeline } from '../../contexts/PipelineContext';
-import { processImage } from '../../utils/imageProcessing';
-import type { Transformation, TransformationParameter, ParameterType, KernelValue } from '../../utils/types';
-import { AdjustmentsHorizontalIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, ExclamationTriangleIcon, InformationCircleIcon, EyeIcon, EyeSlashIcon, SparklesIcon, Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { processImage, getTransformationInputPorts, getTransformationOutputPorts } from '../../utils/imageProcessing';
+import type { Transformation, TransformationParameter, ParameterType, KernelValue, HistogramTransformAnalysis, ThresholdAnalysis, PerspectiveAnalysis, ContourAnalysis, HoughAnalysis, WatershedAnalysis, PointValue, QuadCorners } from '../../utils/types';
+import { AdjustmentsHorizontalIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, ExclamationTriangleIcon, InformationCircleIcon, EyeIcon, EyeSlashIcon, SparklesIcon, Cog6ToothIcon, TableCellsIcon } from '@heroicons/react/24/outline';
 import type { IntermediateResult } from '../../utils/imageProcessing';
 import BaseNode from './BaseNode';
+import PixelLoupe from './PixelLoupe';
+import { getEdgeSourceCanvas } from '../../services/PipelineManager';
 import TransformConfigModal from '../modals/TransformConfigModal';
+import ObjectMeasurementsModal from '../modals/ObjectMeasurementsModal';
 import ParameterControl from '../parameters/ParameterControl';
+import HistogramChart from '../charts/HistogramChart';
+import PerspectiveCornerEditor from '../configPanels/PerspectiveCornerEditor';
 
 interface TransformationNodeProps {
   id: string;
@@ -28,6 +33,7 @@ export default function TransformationNode({ id, data, selected }: Transformatio
     invalidateNode,
     getProcessedCanvas,
     results,
+    edges,
     getDirectDownstreamNodes
   } = usePipeline();
   
@@ -39,10 +45,21 @@ export default function TransformationNode({ id, data, selected }: Transformatio
   const [error, setError] = useState<string | null>(null);
   const [errorDetails, setErrorDetails] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [processingProgress, setProcessingProgress] = useState<{ value: number; stage: string } | null>(null);
   const [processingSucceeded, setProcessingSucceeded] = useState(false);
   const [detailedErrorShown, setDetailedErrorShown] = useState(false);
   const [intermediateResults, setIntermediateResults] = useState<IntermediateResult[]>([]);
   const [showIntermediates, setShowIntermediates] = useState(false);
+  const [histogramAnalysis, setHistogramAnalysis] = useState<HistogramTransformAnalysis | null>(null);
+  const [showHistograms, setShowHistograms] = useState(true);
+  const [thresholdAnalysis, setThresholdAnalysis] = useState<ThresholdAnalysis | null>(null);
+  const [perspectiveAnalysis, setPerspectiveAnalysis] = useState<PerspectiveAnalysis | null>(null);
+  const [contourAnalysis, setContourAnalysis] = useState<ContourAnalysis | null>(null);
+  const [showMeasurements, setShowMeasurements] = useState(false);
+  const [houghAnalysis, setHoughAnalysis] = useState<HoughAnalysis | null>(null);
+  const [watershedAnalysis, setWatershedAnalysis] = useState<WatershedAnalysis | null>(null);
+  const [accumulatorUrl, setAccumulatorUrl] = useState<string | null>(null);
+  const [showHoughDetails, setShowHoughDetails] = useState(true);
   const [isAdvancedConfigOpen, setIsAdvancedConfigOpen] = useState(false);
   const [isKernelSizeChanging, setIsKernelSizeChanging] = useState(false);
   const processingAttemptRef = useRef(0);
@@ -171,6 +188,22 @@ export default function TransformationNode({ id, data, selected }: Transformatio
     invalidateNode(id);
   };
 
+  // Update several parameters at once (e.g. all four perspective corners)
+  const handleUpdateParameterValues = (updates: Record<string, TransformationParameter['value']>) => {
+    if (!data.node?.transformation) return;
+    
+    const updatedParams = data.node.transformation.parameters.map(param =>
+      param.name in updates ? { ...param, value: updates[param.name] } : param
+    );
+    
+    updateNode(id, { transformation: { ...data.node.transformation, parameters: updatedParams } });
+    setParameters(updatedParams);
+    
+    setProcessingSucceeded(false);
+    processingAttemptRef.current += 1;
+    invalidateNode(id);
+  };
+
   // Handle the slider change when user confirmed they want to overwrite advanced configs
   const confirmKernelSizeChange = (name: string, value: number) => {
     // Update the local state
@@ -295,12 +328,16 @@ export default function TransformationNode({ id, data, selected }: Transformatio
     if (nodeResult) {
       // Update processing state
       setIsProcessing(nodeResult.status === 'pending');
+      setProcessingProgress(nodeResult.status === 'pending' ? nodeResult.progress || null : null);
       setProcessingSucceeded(nodeResult.status === 'success');
       
       // Handle error
       if (nodeResult.status === 'error' && nodeResult.error) {
         setError('Processing failed');
         setErrorDetails(nodeResult.error.message);
+      } else if (nodeResult.status === 'blocked' && nodeResult.error) {
+        setError('Blocked by upstream failure');
+        setErrorDetails(nodeResult.error.message);
       } else {
       setError(null);
       setErrorDetails(null);
@@ -312,9 +349,53 @@ export default function TransformationNode({ id, data, selected }: Transformatio
       } else {
         setProcessedImageUrl(null);
       }
+      
+      // Update intermediate processing steps
+      setIntermediateResults(nodeResult.intermediates || []);
+      
+      // Before/after histograms reported by histogram transformations
+      setHistogramAnalysis(nodeResult.analysis?.histogram || null);
+      setThresholdAnalysis(nodeResult.analysis?.threshold || null);
+      setPerspectiveAnalysis(nodeResult.analysis?.perspective || null);
+      setContourAnalysis(nodeResult.analysis?.contours || null);
+      setHoughAnalysis(nodeResult.analysis?.hough || null);
+      setWatershedAnalysis(nodeResult.analysis?.watershed || null);
+      setAccumulatorUrl(nodeResult.outputs?.accumulator?.toDataURL() || null);
     }
   }, [id, results]);
   
+  // Input image of perspective nodes, on which the source corners are picked.
+  // Encoded only when the input canvas itself changes, not on every pipeline run
+  const perspectiveEdge = transformation.type === 'perspective' ? edges.find(edge => edge.target === id) : undefined;
+  const perspectiveCanvas = perspectiveEdge ? getEdgeSourceCanvas(results.get(perspectiveEdge.source), perspectiveEdge) : null;
+  const perspectiveInput = useMemo(() => {
+    if (!perspectiveCanvas) return null;
+    
+    return {
+      url: perspectiveCanvas.toDataURL(),
+      width: perspectiveCanvas.width,
+      height: perspectiveCanvas.height
+    };
+  }, [perspectiveCanvas]);
+  
+  // Downscaled input of colour adjustment nodes, whose histogram the tone curve editor shows
+  const colorAdjustInput = useMemo(() => {
+    if (transformation.type !== 'colorAdjust' || !isAdvancedConfigOpen) return null;
+    
+    const inputEdge = edges.find(edge => edge.target === id);
+    const inputCanvas = inputEdge ? getEdgeSourceCanvas(results.get(inputEdge.source), inputEdge) : null;
+    if (!inputCanvas) return null;
+    
+    const scale = Math.min(1, 256 / Math.max(inputCanvas.width, inputCanvas.height));
+    const preview = document.createElement('canvas');
+    preview.width = Math.max(1, Math.round(inputCanvas.width * scale));
+    preview.height = Math.max(1, Math.round(inputCanvas.height * scale));
+    const ctx = preview.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(inputCanvas, 0, 0, preview.width, preview.height);
+    return ctx.getImageData(0, 0, preview.width, preview.height);
+  }, [transformation.type, isAdvancedConfigOpen, edges, results, id]);
+  
   // Update parameters when transformation changes
   useEffect(() => {
     setParameters(transformation.parameters || []);
@@ -346,6 +427,8 @@ export default function TransformationNode({ id, data, selected }: Transformatio
       case 'median':
       case 'bilateral':
       case 'sharpen':
+      case 'frequencyFilter':
+      case 'noise':
         return {
           border: 'border-blue-200',
           background: 'bg-gradient-to-br from-blue-50 to-white',
@@ -357,6 +440,9 @@ export default function TransformationNode({ id, data, selected }: Transformatio
         };
       case 'colorAdjust':
       case 'histogram':
+      case 'colorConvert':
+      case 'splitChannels':
+      case 'mergeChannels':
         return {
           border: 'border-rose-200',
           background: 'bg-gradient-to-br from-rose-50 to-white',
@@ -369,6 +455,7 @@ export default function TransformationNode({ id, data, selected }: Transformatio
       case 'laplacian':
       case 'sobel':
       case 'canny':
+      case 'hough':
         return {
           border: 'border-amber-200',
           background: 'bg-gradient-to-br from-amber-50 to-white',
@@ -381,6 +468,9 @@ export default function TransformationNode({ id, data, selected }: Transformatio
       case 'dilate':
       case 'erode':
       case 'morphology':
+      case 'contours':
+      case 'distanceTransform':
+      case 'watershed':
         return {
           border: 'border-fuchsia-200',
           background: 'bg-gradient-to-br from-fuchsia-50 to-white',
@@ -390,6 +480,23 @@ export default function TransformationNode({ id, data, selected }: Transformatio
           accentLight: 'bg-fuchsia-100',
           textAccent: 'text-fuchsia-600'
         };
+      case 'add':
+      case 'subtract':
+      case 'absDiff':
+      case 'blend':
+      case 'bitwiseAnd':
+      case 'bitwiseOr':
+      case 'bitwiseXor':
+      case 'maskedCopy':
+        return {
+          border: 'border-cyan-200',
+          background: 'bg-gradient-to-br from-cyan-50 to-white',
+          header: 'bg-cyan-600',
+          headerText: 'text-white',
+          accentColor: 'rgb(8, 145, 178)',
+          accentLight: 'bg-cyan-100',
+          textAccent: 'text-cyan-600'
+        };
       case 'resize':
       case 'rotate':
       case 'flip':
@@ -404,6 +511,16 @@ export default function TransformationNode({ id, data, selected }: Transformatio
           accentLight: 'bg-emerald-100',
           textAccent: 'text-emerald-600'
         };
+      case 'testPattern':
+        return {
+          border: 'border-sky-200',
+          background: 'bg-gradient-to-br from-sky-50 to-white',
+          header: 'bg-sky-600',
+          headerText: 'text-white',
+          accentColor: 'rgb(2, 132, 199)',
+          accentLight: 'bg-sky-100',
+          textAccent: 'text-sky-600'
+        };
       default:
         return {
           border: 'border-gray-200',
@@ -442,12 +559,36 @@ export default function TransformationNode({ id, data, selected }: Transformatio
   // Get node colors based on transformation type
   const colors = getTransformationColors();
 
+  // Named input ports and which of them are connected
+  const inputPorts = getTransformationInputPorts(transformation.type);
+  const connectedPorts = new Set(
+    edges.filter(edge => edge.target === id && edge.targetHandle).map(edge => edge.targetHandle)
+  );
+  
+  // Named output ports, labelled after the current parameters (e.g. the split colour space)
+  const outputPorts = getTransformationOutputPorts({ ...transformation, parameters });
+
   // Get a map of all parameter values for conditional rendering
   const parameterValues: Record<string, any> = {};
   parameters.forEach(param => {
     parameterValues[param.name] = param.value;
   });
 
+  // Perspective corners shown on the input: the editable parameters, or the detected outline
+  const perspectiveEditable = parameterValues.mode === 'points';
+  const getCornerParameter = (name: keyof QuadCorners): PointValue =>
+    (parameterValues[name] as PointValue | undefined) || { x: 0, y: 0 };
+  const perspectiveCorners: QuadCorners | null = transformation.type !== 'perspective'
+    ? null
+    : perspectiveEditable
+      ? {
+          topLeft: getCornerParameter('topLeft'),
+          topRight: getCornerParameter('topRight'),
+          bottomRight: getCornerParameter('bottomRight'),
+          bottomLeft: getCornerParameter('bottomLeft')
+        }
+      : perspectiveAnalysis?.corners || null;
+
   // Filter out parameters that shouldn't be shown in the main UI
   const visibleParameters = parameters.filter(param => {
     // Hide kernel size and type for specific transformations
@@ -457,7 +598,7 @@ export default function TransformationNode({ id, data, selected }: Transformatio
     }
     
     // Hide deprecated or redundant parameters for other transformations
-    if (['histogram', 'sharpen', 'bilateral', 'median'].includes(transformation.type) &&
+    if (['histogram', 'sharpen', 'bilateral'].includes(transformation.type) &&
         (param.name === 'kernelSize' || param.name === 'kernelType')) {
       return false;
     }
@@ -510,9 +651,36 @@ export default function TransformationNode({ id, data, selected }: Transformatio
           header: colors.header,
           headerText: colors.headerText
         }}
+        handles={{
+          input: inputPorts.length > 0,
+          output: true
+        }}
+        inputPorts={inputPorts}
+        outputPorts={outputPorts}
         width="w-72"
       >
         <div>
+          {/* Input ports status for multi-input nodes */}
+          {inputPorts.length > 1 && (
+            <div className="mb-3 flex flex-wrap gap-1.5">
+              {inputPorts.map(port => (
+                <span
+                  key={port.id}
+                  title={port.description}
+                  className={`text-xs px-2 py-0.5 rounded-full border ${
+                    connectedPorts.has(port.id)
+                      ? `${colors.accentLight} ${colors.textAccent} border-transparent`
+                      : port.optional
+                        ? 'bg-white text-gray-400 border-gray-200'
+                        : 'bg-white text-red-500 border-red-200'
+                  }`}
+                >
+                  {port.label}: {connectedPorts.has(port.id) ? 'connected' : port.optional ? 'optional' : 'missing'}
+                </span>
+              ))}
+            </div>
+          )}
+          
           {/* Parameters Section */}
           {(visibleParameters?.length > 0 || transformation.type === 'customBlur') && (
             <div className="mb-4">
@@ -590,8 +758,18 @@ export default function TransformationNode({ id, data, selected }: Transformatio
             <div className="mb-3 p-2 bg-blue-50 border border-blue-200 rounded-md">
               <div className="flex items-center">
                 <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-600 border-t-transparent mr-2"></div>
-                <p className="text-xs text-blue-700 font-medium">Processing image...</p>
+                <p className="text-xs text-blue-700 font-medium">
+                  {processingProgress ? processingProgress.stage : 'Processing image...'}
+                </p>
               </div>
+              {processingProgress && (
+                <div className="mt-1.5 h-1 bg-blue-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-300"
+                    style={{ width: `${Math.round(processingProgress.value * 100)}%` }}
+                  />
+                </div>
+              )}
             </div>
           )}
           
@@ -628,6 +806,45 @@ export default function TransformationNode({ id, data, selected }: Transformatio
             </div>
           )}
           
+          {/* Perspective source corners, picked on the input image */}
+          {perspectiveInput && perspectiveCorners && (
+            <div className="mb-3">
+              <div className="mb-1 flex justify-between items-center">
+                <h5 className="text-xs font-medium text-gray-700">
+                  {perspectiveEditable ? 'Source corners (drag to adjust)' : 'Detected document outline'}
+                </h5>
+                {perspectiveEditable ? (
+                  <button
+                    onClick={() => handleUpdateParameterValues({
+                      topLeft: { x: 0, y: 0 },
+                      topRight: { x: perspectiveInput.width - 1, y: 0 },
+                      bottomRight: { x: perspectiveInput.width - 1, y: perspectiveInput.height - 1 },
+                      bottomLeft: { x: 0, y: perspectiveInput.height - 1 }
+                    })}
+                    className="text-xs text-gray-800 hover:underline"
+                  >
+                    Reset to image
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleUpdateParameterValues({ mode: 'points', ...perspectiveCorners })}
+                    className="text-xs text-gray-800 hover:underline"
+                  >
+                    Edit corners
+                  </button>
+                )}
+              </div>
+              <PerspectiveCornerEditor
+                imageUrl={perspectiveInput.url}
+                imageWidth={perspectiveInput.width}
+                imageHeight={perspectiveInput.height}
+                corners={perspectiveCorners}
+                editable={perspectiveEditable}
+                onCornerChange={(name, point) => handleUpdateParameterValue(name, point)}
+              />
+            </div>
+          )}
+          
           {/* Output Preview */}
           {processedImageUrl && (
             <div>
@@ -656,13 +873,97 @@ export default function TransformationNode({ id, data, selected }: Transformatio
                 )}
               </div>
               <div className="bg-slate-800 rounded-md overflow-hidden">
-                <img
+                <PixelLoupe
+                  nodeId={id}
                   src={processedImageUrl}
                   alt="Processed"
                   className="max-h-40 w-full object-contain"
                 />
               </div>
               
+              {/* Threshold applied, including the automatically chosen one */}
+              {thresholdAnalysis && (
+                <p className="mt-2 text-xs text-gray-600">
+                  Threshold: <span className="font-mono font-medium text-gray-800">{thresholdAnalysis.value}</span>
+                  {thresholdAnalysis.selection !== 'manual' && (
+                    <span> (chosen by {thresholdAnalysis.selection === 'otsu' ? 'Otsu' : 'triangle'})</span>
+                  )}
+                </p>
+              )}
+              
+              {/* Object count of contour analysis, with the full measurements table a click away */}
+              {contourAnalysis && (
+                <div className="mt-2 flex justify-between items-center text-xs text-gray-600">
+                  <span>
+                    <span className="font-medium text-gray-800">{contourAnalysis.objects.length}</span> contours,{' '}
+                    <span className="font-medium text-gray-800">{contourAnalysis.componentCount}</span> components
+                  </span>
+                  <button
+                    onClick={() => setShowMeasurements(true)}
+                    className="text-gray-800 hover:underline flex items-center"
+                  >
+                    <TableCellsIcon className="h-3 w-3 mr-1" />
+                    Measurements
+                  </button>
+                </div>
+              )}
+              
+              {/* Region count of watershed segmentation and where its seeds came from */}
+              {watershedAnalysis && (
+                <p className="mt-2 text-xs text-gray-600">
+                  <span className="font-medium text-gray-800">{watershedAnalysis.regionCount}</span> regions,
+                  seeded from {watershedAnalysis.markerSource === 'input' ? 'the markers input' : 'distance-transform peaks'}
+                </p>
+              )}
+              
+              {/* Hough detections, with the accumulator they were voted in */}
+              {houghAnalysis && (
+                <div className="mt-3">
+                  <div className="mb-1 flex justify-between items-center">
+                    <h5 className="text-xs font-medium text-gray-700">
+                      {houghAnalysis.mode === 'circles'
+                        ? `${houghAnalysis.circles.length} circles`
+                        : `${houghAnalysis.lines.length} ${houghAnalysis.mode === 'probabilistic' ? 'segments' : 'lines'}`}
+                      {houghAnalysis.truncated && ' (strongest only)'}
+                    </h5>
+                    <button
+                      onClick={() => setShowHoughDetails(!showHoughDetails)}
+                      className="text-xs text-gray-800 hover:underline"
+                    >
+                      {showHoughDetails ? 'Hide' : 'Show'}
+                    </button>
+                  </div>
+                  {showHoughDetails && (
+                    <div className="space-y-2">
+                      {accumulatorUrl && (
+                        <div>
+                          <p className="text-xs text-gray-600">
+                            {houghAnalysis.mode === 'circles' ? 'Centre votes' : 'Accumulator (θ across, ρ down)'}
+                          </p>
+                          <div className="bg-slate-800 rounded-md overflow-hidden">
+                            <img src={accumulatorUrl} alt="Hough accumulator" className="max-h-32 w-full object-contain" />
+                          </div>
+                        </div>
+                      )}
+                      <div className="nodrag nowheel max-h-32 overflow-y-auto border border-gray-100 rounded text-xs font-mono text-gray-700">
+                        {houghAnalysis.mode === 'circles'
+                          ? houghAnalysis.circles.map((circle, index) => (
+                            <div key={index} className="px-1 py-0.5 odd:bg-gray-50">
+                              #{index + 1} c=({circle.center.x.toFixed(1)}, {circle.center.y.toFixed(1)}) r={circle.radius.toFixed(1)}
+                            </div>
+                          ))
+                          : houghAnalysis.lines.map((line, index) => (
+                            <div key={index} className="px-1 py-0.5 odd:bg-gray-50">
+                              #{index + 1} ρ={line.rho.toFixed(1)} θ={(line.theta * 180 / Math.PI).toFixed(1)}°
+                              {' '}({Math.round(line.start.x)}, {Math.round(line.start.y)})→({Math.round(line.end.x)}, {Math.round(line.end.y)})
+                            </div>
+                          ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+              
               {/* Intermediate steps display */}
               {showIntermediates && intermediateResults.length > 0 && (
                 <div className="mt-3 space-y-3">
@@ -681,6 +982,37 @@ export default function TransformationNode({ id, data, selected }: Transformatio
                   ))}
                 </div>
               )}
+              
+              {/* Redistributed histogram */}
+              {histogramAnalysis && (
+                <div className="mt-3">
+                  <div className="mb-1 flex justify-between items-center">
+                    <h5 className="text-xs font-medium text-gray-700">
+                      Histogram ({histogramAnalysis.mode === 'luminance' ? 'luminance' : 'per channel'})
+                    </h5>
+                    <button
+                      onClick={() => setShowHistograms(!showHistograms)}
+                      className="text-xs text-gray-800 hover:underline"
+                    >
+                      {showHistograms ? 'Hide' : 'Show'}
+                    </button>
+                  </div>
+                  {showHistograms && (
+                    <div className="space-y-2">
+                      {([
+                        ['Before', histogramAnalysis.before],
+                        ['After', histogramAnalysis.after],
+                        ['Reference', histogramAnalysis.reference]
+                      ] as const).map(([label, data]) => data && (
+                        <div key={label}>
+                          <p className="text-xs text-gray-600">{label}</p>
+                          <HistogramChart data={data} width={240} height={150} interactive={false} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -693,7 +1025,18 @@ export default function TransformationNode({ id, data, selected }: Transformatio
         transformation={transformation}
         onSave={handleSaveAdvancedConfig}
         onReset={handleResetAdvancedConfig}
+        inputImage={colorAdjustInput}
       />
+      
+      {contourAnalysis && (
+        <ObjectMeasurementsModal
+          isOpen={showMeasurements}
+          onClose={() => setShowMeasurements(false)}
+          title={transformation.name}
+          analysis={contourAnalysis}
+          imageUrl={processedImageUrl}
+        />
+      )}
 
       {/* Kernel Size Change Warning Modal */}
       {isKernelSizeChanging && (
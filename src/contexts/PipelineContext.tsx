@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { pipelineManager, type PipelineObserver, type PipelineEvent, PipelineEventType, type NodeProcessingResult } from '../services/PipelineManager';
-import type { ImageProcessingNode, ImageProcessingEdge, Transformation, Inspection } from '../utils/types';
+import type { ImageProcessingNode, ImageProcessingEdge, Transformation, Inspection, InspectedPixel } from '../utils/types';
 import { v4 as uuidv4 } from 'uuid';
 
 interface PipelineContextType {
@@ -8,7 +8,12 @@ interface PipelineContextType {
   nodes: ImageProcessingNode[];
   edges: ImageProcessingEdge[];
   selectedNodeId: string | null;
+  // All nodes selected in the editor (Ctrl/⌘-click or box selection)
+  selectedNodeIds: string[];
   results: Map<string, NodeProcessingResult>;
+  // Pixel inspector: hovering a preview picks a coordinate that every node reports on
+  pixelInspectorEnabled: boolean;
+  inspectedPixel: InspectedPixel | null;
   
   // Actions
   addNode: (
@@ -23,15 +28,19 @@ interface PipelineContextType {
   updateNode: (nodeId: string, updates: Partial<ImageProcessingNode>) => void;
   removeNode: (nodeId: string) => void;
   updateParameter: (nodeId: string, paramName: string, value: number | string | boolean) => void;
-  addEdge: (sourceId: string, targetId: string) => void;
+  addEdge: (sourceId: string, targetId: string, targetHandle?: string, sourceHandle?: string) => void;
   removeEdge: (edgeId: string) => void;
   selectNode: (nodeId: string | null) => void;
+  selectNodes: (nodeIds: string[]) => void;
   setInputImage: (nodeId: string, image: HTMLImageElement) => void;
   invalidateNode: (nodeId: string) => void;
   clearPipeline: () => void;
   getProcessedCanvas: (nodeId: string) => HTMLCanvasElement | null;
   duplicateNode: (nodeId: string) => string | null;
   getDirectDownstreamNodes: (nodeId: string) => string[];
+  getTopologicalOrder: () => string[];
+  setPixelInspectorEnabled: (enabled: boolean) => void;
+  inspectPixel: (pixel: InspectedPixel | null) => void;
 }
 
 const PipelineContext = createContext<PipelineContextType | null>(null);
@@ -52,7 +61,10 @@ export const PipelineProvider: React.FC<PipelineProviderProps> = ({ children })
   const [nodes, setNodes] = useState<ImageProcessingNode[]>([]);
   const [edges, setEdges] = useState<ImageProcessingEdge[]>([]);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
   const [results, setResults] = useState<Map<string, NodeProcessingResult>>(new Map());
+  const [pixelInspectorEnabled, setPixelInspectorEnabledState] = useState(false);
+  const [inspectedPixel, setInspectedPixel] = useState<InspectedPixel | null>(null);
   
   // Update state from the pipeline manager whenever it changes
   const syncStateFromManager = useCallback(() => {
@@ -74,8 +86,12 @@ export const PipelineProvider: React.FC<PipelineProviderProps> = ({ children })
           case PipelineEventType.EDGE_ADDED:
           case PipelineEventType.EDGE_REMOVED:
           case PipelineEventType.PIPELINE_RESET:
+          case PipelineEventType.PROCESSING_STARTED:
           case PipelineEventType.PROCESSING_COMPLETED:
           case PipelineEventType.PROCESSING_FAILED:
+          case PipelineEventType.PROCESSING_PROGRESS:
+          case PipelineEventType.PROCESSING_CANCELLED:
+          case PipelineEventType.PROCESSING_BLOCKED:
             syncStateFromManager();
             break;
         }
@@ -152,8 +168,8 @@ export const PipelineProvider: React.FC<PipelineProviderProps> = ({ children })
   }, []);
   
   // Add an edge
-  const addEdge = useCallback((sourceId: string, targetId: string): void => {
-    pipelineManager.addEdge(sourceId, targetId);
+  const addEdge = useCallback((sourceId: string, targetId: string, targetHandle?: string, sourceHandle?: string): void => {
+    pipelineManager.addEdge(sourceId, targetId, undefined, targetHandle, sourceHandle);
   }, []);
   
   // Remove an edge
@@ -166,6 +182,15 @@ export const PipelineProvider: React.FC<PipelineProviderProps> = ({ children })
     setSelectedNodeId(nodeId);
   }, []);
   
+  // Track the editor's multi-selection, keeping the array stable while it is unchanged
+  const selectNodes = useCallback((nodeIds: string[]): void => {
+    setSelectedNodeIds(current =>
+      current.length === nodeIds.length && current.every((id, index) => id === nodeIds[index])
+        ? current
+        : nodeIds
+    );
+  }, []);
+  
   // Set an input image
   const setInputImage = useCallback((nodeId: string, image: HTMLImageElement): void => {
     pipelineManager.setInputImage(nodeId, image);
@@ -311,11 +336,35 @@ export const PipelineProvider: React.FC<PipelineProviderProps> = ({ children })
       .map(edge => edge.target);
   }, [edges]);
   
+  // Get the processing order of the nodes (every node after its inputs)
+  const getTopologicalOrder = useCallback((): string[] => {
+    return pipelineManager.getTopologicalOrder();
+  }, []);
+  
+  // Turn the pixel inspector on or off, forgetting the inspected pixel
+  const setPixelInspectorEnabled = useCallback((enabled: boolean): void => {
+    setPixelInspectorEnabledState(enabled);
+    setInspectedPixel(null);
+  }, []);
+  
+  // Set the inspected pixel, leaving the state alone while the pointer stays on the same one
+  const inspectPixel = useCallback((pixel: InspectedPixel | null): void => {
+    setInspectedPixel(current =>
+      current && pixel && current.nodeId === pixel.nodeId && current.x === pixel.x &&
+      current.y === pixel.y && current.pinned === pixel.pinned
+        ? current
+        : pixel
+    );
+  }, []);
+  
   const contextValue: PipelineContextType = {
     nodes,
     edges,
     selectedNodeId,
+    selectedNodeIds,
     results,
+    pixelInspectorEnabled,
+    inspectedPixel,
     addNode,
     addInspectionNode,
     updateNode,
@@ -324,12 +373,16 @@ export const PipelineProvider: React.FC<PipelineProviderProps> = ({ children })
     addEdge,
     removeEdge,
     selectNode,
+    selectNodes,
     setInputImage,
     invalidateNode,
     clearPipeline,
     getProcessedCanvas,
     duplicateNode,
-    getDirectDownstreamNodes
+    getDirectDownstreamNodes,
+    getTopologicalOrder,
+    setPixelInspectorEnabled,
+    inspectPixel
   };
   
   return (
@@ -10,10 +10,22 @@ import {
   ArrowsPointingOutIcon,
   WrenchScrewdriverIcon 
 } from '@heroicons/react/24/outline';
-import type { Transformation, TransformationType } from '../utils/types';
+import type { Transformation, TransformationParameter, TransformationType } from '../utils/types';
 import ProjectsModal from '../components/modals/ProjectsModal';
+import CompareViewerModal from '../components/modals/CompareViewerModal';
+import PixelInspectorPanel from '../components/PixelInspectorPanel';
 import { projectManager } from '../services/ProjectManager';
 
+// Size-mismatch policy shared by the multi-input transformations
+const sizePolicyParameter: TransformationParameter = {
+  name: 'sizePolicy',
+  type: 'select',
+  value: 'resize',
+  options: ['resize', 'crop', 'error'],
+  label: 'Size Mismatch',
+  description: 'Resize inputs to the first input, crop all to the common area, or fail'
+};
+
 // Transformation templates
 export const transformationTemplates: Record<TransformationType, Omit<Transformation, 'id' | 'inputNodes'>> = {
   grayscale: {
@@ -91,8 +103,16 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
   threshold: {
     type: 'threshold',
     name: 'Threshold',
-    description: 'Apply binary threshold to the image',
+    description: 'Apply a global threshold to the image, chosen manually or automatically',
     parameters: [
+      {
+        name: 'method',
+        type: 'select',
+        value: 'manual',
+        options: ['manual', 'otsu', 'triangle'],
+        label: 'Threshold Selection',
+        description: 'Set the threshold by hand, or let Otsu (bimodal histograms) or triangle (unimodal histograms) choose it'
+      },
       {
         name: 'threshold',
         type: 'number',
@@ -100,7 +120,18 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
         min: 0,
         max: 255,
         step: 1,
+        label: 'Threshold',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'manual'
       },
+      {
+        name: 'thresholdType',
+        type: 'select',
+        value: 'binary',
+        options: ['binary', 'binaryInverse', 'truncate', 'toZero', 'toZeroInverse'],
+        label: 'Type',
+        description: 'Output above / below the threshold: white / black, black / white, threshold / unchanged, unchanged / black, black / unchanged'
+      }
     ],
   },
   adaptiveThreshold: {
@@ -135,6 +166,14 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
         step: 1,
         label: 'Constant',
         description: 'Constant subtracted from the mean or weighted mean'
+      },
+      {
+        name: 'thresholdType',
+        type: 'select',
+        value: 'binary',
+        options: ['binary', 'binaryInverse'],
+        label: 'Type',
+        description: 'White where the pixel is above its local threshold, or the inverse'
       }
     ]
   },
@@ -248,7 +287,7 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
   colorAdjust: {
     type: 'colorAdjust',
     name: 'Color Adjustment',
-    description: 'Adjust brightness, contrast, and other color properties',
+    description: 'Adjust levels, gamma, brightness/contrast, tone curve and HSL',
     parameters: [
       {
         name: 'brightness',
@@ -258,7 +297,7 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
         max: 100,
         step: 1,
         label: 'Brightness',
-        description: 'Adjust image brightness'
+        description: 'Offset added to every channel'
       },
       {
         name: 'contrast',
@@ -268,17 +307,57 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
         max: 100,
         step: 1,
         label: 'Contrast',
-        description: 'Adjust image contrast'
+        description: 'Stretch (positive) or compress (negative) tones around mid grey'
       },
       {
-        name: 'saturation',
+        name: 'gamma',
+        type: 'number',
+        value: 1,
+        min: 0.1,
+        max: 5,
+        step: 0.05,
+        label: 'Gamma',
+        description: 'Midtone gamma; above 1 brightens the midtones, below 1 darkens them'
+      },
+      {
+        name: 'inputBlack',
         type: 'number',
         value: 0,
-        min: -100,
-        max: 100,
+        min: 0,
+        max: 254,
         step: 1,
-        label: 'Saturation',
-        description: 'Adjust color saturation'
+        label: 'Input Black',
+        description: 'Input level mapped to black; darker values are clipped'
+      },
+      {
+        name: 'inputWhite',
+        type: 'number',
+        value: 255,
+        min: 1,
+        max: 255,
+        step: 1,
+        label: 'Input White',
+        description: 'Input level mapped to white; brighter values are clipped'
+      },
+      {
+        name: 'outputBlack',
+        type: 'number',
+        value: 0,
+        min: 0,
+        max: 255,
+        step: 1,
+        label: 'Output Black',
+        description: 'Darkest output level'
+      },
+      {
+        name: 'outputWhite',
+        type: 'number',
+        value: 255,
+        min: 0,
+        max: 255,
+        step: 1,
+        label: 'Output White',
+        description: 'Brightest output level'
       },
       {
         name: 'hue',
@@ -288,7 +367,27 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
         max: 180,
         step: 1,
         label: 'Hue',
-        description: 'Shift image hue'
+        description: 'Rotate every hue by this many degrees'
+      },
+      {
+        name: 'saturation',
+        type: 'number',
+        value: 0,
+        min: -100,
+        max: 100,
+        step: 1,
+        label: 'Saturation',
+        description: 'Scale colour saturation (-100 gives grayscale)'
+      },
+      {
+        name: 'lightness',
+        type: 'number',
+        value: 0,
+        min: -100,
+        max: 100,
+        step: 1,
+        label: 'Lightness',
+        description: 'Blend towards black (negative) or white (positive)'
       }
     ]
   },
@@ -373,18 +472,331 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
       }
     ]
   },
+  noise: {
+    type: 'noise',
+    name: 'Add Noise',
+    description: 'Add reproducible random noise to the image',
+    parameters: [
+      {
+        name: 'noiseType',
+        type: 'select',
+        value: 'gaussian',
+        options: ['gaussian', 'saltPepper', 'poisson', 'speckle'],
+        label: 'Noise Type',
+        description: 'Additive Gaussian, salt and pepper, photon (Poisson) or multiplicative speckle noise'
+      },
+      {
+        name: 'sigma',
+        type: 'number',
+        value: 20,
+        min: 0,
+        max: 100,
+        step: 1,
+        label: 'Standard Deviation',
+        description: 'Spread of the noise in gray levels',
+        dependsOn: 'noiseType',
+        showIf: (params) => params.noiseType === 'gaussian'
+      },
+      {
+        name: 'density',
+        type: 'number',
+        value: 0.05,
+        min: 0,
+        max: 1,
+        step: 0.01,
+        label: 'Density',
+        description: 'Fraction of pixels replaced by white or black',
+        dependsOn: 'noiseType',
+        showIf: (params) => params.noiseType === 'saltPepper'
+      },
+      {
+        name: 'saltRatio',
+        type: 'number',
+        value: 0.5,
+        min: 0,
+        max: 1,
+        step: 0.05,
+        label: 'Salt Ratio',
+        description: 'Share of the replaced pixels that turn white',
+        dependsOn: 'noiseType',
+        showIf: (params) => params.noiseType === 'saltPepper'
+      },
+      {
+        name: 'photons',
+        type: 'number',
+        value: 50,
+        min: 1,
+        max: 1000,
+        step: 1,
+        label: 'Photon Count',
+        description: 'Photons collected by a white pixel; fewer photons give more noise',
+        dependsOn: 'noiseType',
+        showIf: (params) => params.noiseType === 'poisson'
+      },
+      {
+        name: 'speckleSigma',
+        type: 'number',
+        value: 0.2,
+        min: 0,
+        max: 1,
+        step: 0.01,
+        label: 'Speckle Strength',
+        description: 'Standard deviation of the multiplicative noise, relative to the pixel value',
+        dependsOn: 'noiseType',
+        showIf: (params) => params.noiseType === 'speckle'
+      },
+      {
+        name: 'monochrome',
+        type: 'boolean',
+        value: false,
+        label: 'Monochrome',
+        description: 'Same noise in every channel instead of independent color noise',
+        dependsOn: 'noiseType',
+        showIf: (params) => params.noiseType !== 'saltPepper'
+      },
+      {
+        name: 'seed',
+        type: 'number',
+        value: 42,
+        min: 0,
+        max: 999999,
+        step: 1,
+        label: 'Seed',
+        description: 'The same seed always gives the same noise'
+      }
+    ]
+  },
+  testPattern: {
+    type: 'testPattern',
+    name: 'Test Pattern',
+    description: 'Generate a synthetic test image; only the settings are saved with the project',
+    parameters: [
+      {
+        name: 'pattern',
+        type: 'select',
+        value: 'checkerboard',
+        options: ['checkerboard', 'linearGradient', 'radialGradient', 'zonePlate', 'siemensStar', 'randomShapes', 'uniformNoise', 'stepEdge'],
+        label: 'Pattern',
+        description: 'Synthetic image to generate'
+      },
+      {
+        name: 'width',
+        type: 'number',
+        value: 512,
+        min: 16,
+        max: 4096,
+        step: 16,
+        label: 'Width',
+        description: 'Image width in pixels'
+      },
+      {
+        name: 'height',
+        type: 'number',
+        value: 512,
+        min: 16,
+        max: 4096,
+        step: 16,
+        label: 'Height',
+        description: 'Image height in pixels'
+      },
+      {
+        name: 'cellSize',
+        type: 'number',
+        value: 32,
+        min: 1,
+        max: 512,
+        step: 1,
+        label: 'Square Size',
+        description: 'Side of one checkerboard square in pixels',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern === 'checkerboard'
+      },
+      {
+        name: 'angle',
+        type: 'number',
+        value: 5,
+        min: -180,
+        max: 180,
+        step: 1,
+        label: 'Angle',
+        description: 'Direction from dark to bright in degrees, clockwise from left to right',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern === 'linearGradient' || params.pattern === 'stepEdge'
+      },
+      {
+        name: 'maxFrequency',
+        type: 'number',
+        value: 0.5,
+        min: 0.05,
+        max: 1,
+        step: 0.05,
+        label: 'Edge Frequency',
+        description: 'Ring frequency at the nearest image edge in cycles per pixel; above 0.5 the rings alias',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern === 'zonePlate'
+      },
+      {
+        name: 'spokes',
+        type: 'number',
+        value: 36,
+        min: 4,
+        max: 180,
+        step: 1,
+        label: 'Spokes',
+        description: 'Number of bright and dark spoke pairs',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern === 'siemensStar'
+      },
+      {
+        name: 'shapeCount',
+        type: 'number',
+        value: 20,
+        min: 1,
+        max: 200,
+        step: 1,
+        label: 'Shapes',
+        description: 'Number of ellipses, rectangles and triangles',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern === 'randomShapes'
+      },
+      {
+        name: 'monochrome',
+        type: 'boolean',
+        value: true,
+        label: 'Monochrome',
+        description: 'Gray noise instead of independent color noise',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern === 'uniformNoise'
+      },
+      {
+        name: 'seed',
+        type: 'number',
+        value: 42,
+        min: 0,
+        max: 999999,
+        step: 1,
+        label: 'Seed',
+        description: 'The same seed always gives the same image',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern === 'randomShapes' || params.pattern === 'uniformNoise'
+      },
+      {
+        name: 'low',
+        type: 'number',
+        value: 0,
+        min: 0,
+        max: 255,
+        step: 1,
+        label: 'Dark Level',
+        description: 'Gray level of the dark parts (the background of the shapes)'
+      },
+      {
+        name: 'high',
+        type: 'number',
+        value: 255,
+        min: 0,
+        max: 255,
+        step: 1,
+        label: 'Bright Level',
+        description: 'Gray level of the bright parts',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern !== 'randomShapes'
+      },
+      {
+        name: 'antialias',
+        type: 'boolean',
+        value: true,
+        label: 'Anti-aliasing',
+        description: 'Average 4×4 samples per pixel; turn off to sample pixel centers only and see aliasing',
+        dependsOn: 'pattern',
+        showIf: (params) => params.pattern !== 'uniformNoise'
+      }
+    ]
+  },
+  frequencyFilter: {
+    type: 'frequencyFilter',
+    name: 'Frequency Filter',
+    description: 'Filter the image in the frequency domain using the FFT',
+    parameters: [
+      {
+        name: 'filterType',
+        type: 'select',
+        value: 'lowpass',
+        options: ['lowpass', 'highpass', 'bandpass', 'notch'],
+        label: 'Filter Type',
+        description: 'Which frequencies are kept (notch rejects the band around the cutoff)'
+      },
+      {
+        name: 'filterShape',
+        type: 'select',
+        value: 'butterworth',
+        options: ['ideal', 'butterworth', 'gaussian'],
+        label: 'Filter Shape',
+        description: 'Transfer function profile (ideal filters cause ringing)'
+      },
+      {
+        name: 'cutoffFrequency',
+        type: 'number',
+        value: 0.1,
+        min: 0.01,
+        max: 0.5,
+        step: 0.01,
+        label: 'Cutoff Frequency',
+        description: 'Cutoff (or band center) in cycles per pixel, 0.5 = Nyquist'
+      },
+      {
+        name: 'bandwidth',
+        type: 'number',
+        value: 0.05,
+        min: 0.01,
+        max: 0.5,
+        step: 0.01,
+        label: 'Bandwidth',
+        description: 'Width of the band in cycles per pixel',
+        dependsOn: 'filterType',
+        showIf: (params) => params.filterType === 'bandpass' || params.filterType === 'notch'
+      },
+      {
+        name: 'filterOrder',
+        type: 'number',
+        value: 2,
+        min: 1,
+        max: 10,
+        step: 1,
+        label: 'Filter Order',
+        description: 'Steepness of the Butterworth roll-off',
+        dependsOn: 'filterShape',
+        showIf: (params) => params.filterShape === 'butterworth'
+      },
+      {
+        name: 'normalizeOutput',
+        type: 'boolean',
+        value: false,
+        label: 'Normalize Output',
+        description: 'Stretch the result to 0-255 (useful for highpass / bandpass, which remove the mean brightness)'
+      }
+    ]
+  },
   histogram: {
     type: 'histogram',
     name: 'Histogram Equalization',
-    description: 'Improve contrast using histogram equalization',
+    description: 'Redistribute intensities by equalization, CLAHE or matching a reference histogram',
     parameters: [
       {
         name: 'method',
         type: 'select',
         value: 'global',
-        options: ['global', 'adaptive'],
+        options: ['global', 'adaptive', 'match'],
         label: 'Method',
-        description: 'Global or adaptive (CLAHE) equalization'
+        description: 'Global equalization, adaptive (CLAHE) equalization, or matching the histogram of the Reference input'
+      },
+      {
+        name: 'mode',
+        type: 'select',
+        value: 'luminance',
+        options: ['luminance', 'perChannel'],
+        label: 'Channels',
+        description: 'Luminance only (keeps colors) or each RGB channel independently'
       },
       {
         name: 'clipLimit',
@@ -397,6 +809,163 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
         description: 'Threshold for contrast limiting (CLAHE only)',
         dependsOn: 'method',
         showIf: (params) => params.method === 'adaptive'
+      },
+      {
+        name: 'tileGridSize',
+        type: 'number',
+        value: 8,
+        min: 2,
+        max: 32,
+        step: 1,
+        label: 'Tile Grid',
+        description: 'Number of tiles along each axis (CLAHE only)',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'adaptive'
+      }
+    ]
+  },
+  colorConvert: {
+    type: 'colorConvert',
+    name: 'Color Space',
+    description: 'Convert between RGB and HSV, HLS, Lab, YCrCb or XYZ',
+    parameters: [
+      {
+        name: 'colorSpace',
+        type: 'select',
+        value: 'hsv',
+        options: ['hsv', 'hls', 'lab', 'ycrcb', 'xyz'],
+        label: 'Color Space',
+        description: 'Channels are stored in R, G and B with OpenCV 8-bit ranges (hue is 0-180)'
+      },
+      {
+        name: 'direction',
+        type: 'select',
+        value: 'fromRgb',
+        options: ['fromRgb', 'toRgb'],
+        label: 'Direction',
+        description: 'Convert RGB to the color space, or a converted image back to RGB'
+      }
+    ]
+  },
+  contours: {
+    type: 'contours',
+    name: 'Contours',
+    description: 'Label the objects of a binary image and measure their contours',
+    parameters: [
+      {
+        name: 'retrieval',
+        type: 'select',
+        value: 'external',
+        options: ['external', 'all'],
+        label: 'Retrieval',
+        description: 'Outer outlines only, or the outlines of holes as well'
+      },
+      {
+        name: 'connectivity',
+        type: 'select',
+        value: '8',
+        options: ['8', '4'],
+        label: 'Connectivity',
+        description: 'Whether diagonal neighbours belong to the same component'
+      },
+      {
+        name: 'invert',
+        type: 'boolean',
+        value: false,
+        label: 'Dark Objects',
+        description: 'Treat dark pixels as the objects instead of bright ones'
+      },
+      {
+        name: 'minArea',
+        type: 'number',
+        value: 10,
+        min: 0,
+        max: 10000,
+        step: 1,
+        label: 'Minimum Area',
+        description: 'Contours enclosing fewer pixels are ignored'
+      },
+      {
+        name: 'showLabels',
+        type: 'boolean',
+        value: true,
+        label: 'Label Colors',
+        description: 'Color each connected component'
+      },
+      {
+        name: 'showContours',
+        type: 'boolean',
+        value: true,
+        label: 'Contours',
+        description: 'Draw contour outlines (holes in cyan)'
+      },
+      {
+        name: 'showBoxes',
+        type: 'boolean',
+        value: true,
+        label: 'Bounding Boxes',
+        description: 'Draw the bounding box of each contour'
+      },
+      {
+        name: 'showCentroids',
+        type: 'boolean',
+        value: true,
+        label: 'Centroids',
+        description: 'Mark each centroid with the object ID used in the measurements table'
+      }
+    ]
+  },
+  distanceTransform: {
+    type: 'distanceTransform',
+    name: 'Distance Transform',
+    description: 'Distance of every object pixel to the nearest background pixel',
+    parameters: [
+      {
+        name: 'metric',
+        type: 'select',
+        value: 'L2',
+        options: ['L2', 'L1', 'chessboard'],
+        label: 'Metric',
+        description: 'Euclidean, city block, or chessboard (8-neighbour steps) distance'
+      },
+      {
+        name: 'maskSize',
+        type: 'select',
+        value: '5',
+        options: ['3', '5', 'precise'],
+        label: 'Mask Size',
+        description: 'Approximation mask of the Euclidean distance, or the exact distance',
+        dependsOn: 'metric',
+        showIf: (params) => params.metric === 'L2'
+      },
+      {
+        name: 'invert',
+        type: 'boolean',
+        value: false,
+        label: 'Dark Objects',
+        description: 'Measure inside the dark pixels instead of the bright ones'
+      },
+      {
+        name: 'normalize',
+        type: 'boolean',
+        value: true,
+        label: 'Normalize',
+        description: 'Stretch the distances to the full 0-255 range; otherwise one gray level per pixel'
+      }
+    ]
+  },
+  splitChannels: {
+    type: 'splitChannels',
+    name: 'Split Channels',
+    description: 'Split an image into one grayscale output per channel',
+    parameters: [
+      {
+        name: 'colorSpace',
+        type: 'select',
+        value: 'rgb',
+        options: ['rgb', 'hsv', 'hls', 'lab', 'ycrcb', 'xyz'],
+        label: 'Color Space',
+        description: 'Convert the RGB input to this color space before splitting'
       }
     ]
   },
@@ -632,15 +1201,15 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
   perspective: {
     type: 'perspective',
     name: 'Perspective Transform',
-    description: 'Apply perspective transformation to the image',
+    description: 'Warp a quadrilateral of the image to an upright rectangle',
     parameters: [
       {
         name: 'mode',
         type: 'select',
         value: 'points',
-        options: ['points', 'matrix'],
+        options: ['points', 'autoDocument', 'matrix'],
         label: 'Mode',
-        description: 'Set perspective by corner points or transformation matrix'
+        description: 'Corner points (drag them on the preview), auto-detected document outline, or a transformation matrix'
       },
       {
         name: 'topLeft',
@@ -661,20 +1230,20 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
         showIf: (params) => params.mode === 'points'
       },
       {
-        name: 'bottomLeft',
+        name: 'bottomRight',
         type: 'point',
-        value: { x: 0, y: 100 },
-        label: 'Bottom Left',
-        description: 'Bottom-left corner coordinate',
+        value: { x: 100, y: 100 },
+        label: 'Bottom Right',
+        description: 'Bottom-right corner coordinate',
         dependsOn: 'mode',
         showIf: (params) => params.mode === 'points'
       },
       {
-        name: 'bottomRight',
+        name: 'bottomLeft',
         type: 'point',
-        value: { x: 100, y: 100 },
-        label: 'Bottom Right',
-        description: 'Bottom-right corner coordinate',
+        value: { x: 0, y: 100 },
+        label: 'Bottom Left',
+        description: 'Bottom-left corner coordinate',
         dependsOn: 'mode',
         showIf: (params) => params.mode === 'points'
       },
@@ -695,6 +1264,36 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
         dependsOn: 'mode',
         showIf: (params) => params.mode === 'matrix'
       },
+      {
+        name: 'outputSize',
+        type: 'select',
+        value: 'fromCorners',
+        options: ['fromCorners', 'input', 'custom'],
+        label: 'Output Size',
+        description: 'Longest edges of the quadrilateral, the input size, or a custom size (matrix mode uses the input size unless custom)'
+      },
+      {
+        name: 'outputWidth',
+        type: 'number',
+        value: 640,
+        min: 1,
+        max: 4096,
+        step: 1,
+        label: 'Output Width',
+        dependsOn: 'outputSize',
+        showIf: (params) => params.outputSize === 'custom'
+      },
+      {
+        name: 'outputHeight',
+        type: 'number',
+        value: 480,
+        min: 1,
+        max: 4096,
+        step: 1,
+        label: 'Output Height',
+        dependsOn: 'outputSize',
+        showIf: (params) => params.outputSize === 'custom'
+      },
       {
         name: 'interpolation',
         type: 'select',
@@ -705,6 +1304,352 @@ export const transformationTemplates: Record<TransformationType, Omit<Transforma
       }
     ]
   },
+  add: {
+    type: 'add',
+    name: 'Add',
+    description: 'Add two images pixel by pixel (saturating at 255)',
+    parameters: [{ ...sizePolicyParameter }]
+  },
+  subtract: {
+    type: 'subtract',
+    name: 'Subtract',
+    description: 'Subtract image B from image A (clamped at 0)',
+    parameters: [{ ...sizePolicyParameter }]
+  },
+  absDiff: {
+    type: 'absDiff',
+    name: 'Absolute Difference',
+    description: 'Absolute per-pixel difference |A − B|, e.g. for background subtraction',
+    parameters: [{ ...sizePolicyParameter }]
+  },
+  blend: {
+    type: 'blend',
+    name: 'Weighted Blend',
+    description: 'Blend two images: (1 − α)·A + α·B + γ',
+    parameters: [
+      {
+        name: 'alpha',
+        type: 'number',
+        value: 0.5,
+        min: 0,
+        max: 1,
+        step: 0.05,
+        label: 'Alpha (weight of B)',
+        description: 'Contribution of image B; A gets 1 − alpha'
+      },
+      {
+        name: 'gamma',
+        type: 'number',
+        value: 0,
+        min: -128,
+        max: 128,
+        step: 1,
+        label: 'Gamma',
+        description: 'Constant added to every blended pixel'
+      },
+      { ...sizePolicyParameter }
+    ]
+  },
+  bitwiseAnd: {
+    type: 'bitwiseAnd',
+    name: 'Bitwise AND',
+    description: 'Bitwise AND of two images',
+    parameters: [{ ...sizePolicyParameter }]
+  },
+  bitwiseOr: {
+    type: 'bitwiseOr',
+    name: 'Bitwise OR',
+    description: 'Bitwise OR of two images',
+    parameters: [{ ...sizePolicyParameter }]
+  },
+  bitwiseXor: {
+    type: 'bitwiseXor',
+    name: 'Bitwise XOR',
+    description: 'Bitwise XOR of two images',
+    parameters: [{ ...sizePolicyParameter }]
+  },
+  maskedCopy: {
+    type: 'maskedCopy',
+    name: 'Masked Copy',
+    description: 'Copy the source onto the background wherever the mask is set',
+    parameters: [
+      {
+        name: 'maskThreshold',
+        type: 'number',
+        value: 127,
+        min: 0,
+        max: 254,
+        step: 1,
+        label: 'Mask Threshold',
+        description: 'Mask pixels brighter than this select the source'
+      },
+      {
+        name: 'invertMask',
+        type: 'boolean',
+        value: false,
+        label: 'Invert Mask',
+        description: 'Copy the source where the mask is dark instead'
+      },
+      { ...sizePolicyParameter }
+    ]
+  },
+  mergeChannels: {
+    type: 'mergeChannels',
+    name: 'Merge Channels',
+    description: 'Combine three channel images (and optional alpha) into an RGB image',
+    parameters: [
+      {
+        name: 'colorSpace',
+        type: 'select',
+        value: 'rgb',
+        options: ['rgb', 'hsv', 'hls', 'lab', 'ycrcb', 'xyz'],
+        label: 'Color Space',
+        description: 'Color space the input channels belong to; the result is converted back to RGB'
+      },
+      { ...sizePolicyParameter }
+    ]
+  },
+  hough: {
+    type: 'hough',
+    name: 'Hough Transform',
+    description: 'Detect lines or circles and draw them over the image',
+    parameters: [
+      {
+        name: 'mode',
+        type: 'select',
+        value: 'standard',
+        options: ['standard', 'probabilistic', 'circles'],
+        label: 'Detection',
+        description: 'Standard lines (rho/theta), probabilistic line segments, or circles'
+      },
+      {
+        name: 'rho',
+        type: 'number',
+        value: 1,
+        min: 1,
+        max: 10,
+        step: 1,
+        label: 'Rho Resolution',
+        description: 'Distance resolution of the accumulator in pixels',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode !== 'circles'
+      },
+      {
+        name: 'theta',
+        type: 'number',
+        value: 1,
+        min: 0.25,
+        max: 10,
+        step: 0.25,
+        label: 'Theta Resolution',
+        description: 'Angle resolution of the accumulator in degrees',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode !== 'circles'
+      },
+      {
+        name: 'threshold',
+        type: 'number',
+        value: 100,
+        min: 1,
+        max: 500,
+        step: 1,
+        label: 'Vote Threshold',
+        description: 'Minimum number of edge pixels voting for a line',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode !== 'circles'
+      },
+      {
+        name: 'minLineLength',
+        type: 'number',
+        value: 30,
+        min: 0,
+        max: 1000,
+        step: 1,
+        label: 'Min Line Length',
+        description: 'Shorter segments are discarded',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode === 'probabilistic'
+      },
+      {
+        name: 'maxLineGap',
+        type: 'number',
+        value: 10,
+        min: 0,
+        max: 200,
+        step: 1,
+        label: 'Max Line Gap',
+        description: 'Largest gap between points joined into one segment',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode === 'probabilistic'
+      },
+      {
+        name: 'dp',
+        type: 'number',
+        value: 1,
+        min: 1,
+        max: 4,
+        step: 0.5,
+        label: 'Accumulator Scale',
+        description: 'Inverse resolution of the centre accumulator (2 = half the image size)',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode === 'circles'
+      },
+      {
+        name: 'minDist',
+        type: 'number',
+        value: 20,
+        min: 1,
+        max: 1000,
+        step: 1,
+        label: 'Min Centre Distance',
+        description: 'Minimum distance between detected centres',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode === 'circles'
+      },
+      {
+        name: 'cannyThreshold',
+        type: 'number',
+        value: 100,
+        min: 1,
+        max: 500,
+        step: 1,
+        label: 'Edge Threshold',
+        description: 'Upper Canny threshold used to find edges (the lower one is half)',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode === 'circles'
+      },
+      {
+        name: 'accumulatorThreshold',
+        type: 'number',
+        value: 30,
+        min: 1,
+        max: 300,
+        step: 1,
+        label: 'Centre Votes',
+        description: 'Minimum votes for a circle centre; lower finds more (and false) circles',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode === 'circles'
+      },
+      {
+        name: 'minRadius',
+        type: 'number',
+        value: 0,
+        min: 0,
+        max: 1000,
+        step: 1,
+        label: 'Min Radius',
+        description: 'Smallest radius searched',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode === 'circles'
+      },
+      {
+        name: 'maxRadius',
+        type: 'number',
+        value: 0,
+        min: 0,
+        max: 2000,
+        step: 1,
+        label: 'Max Radius',
+        description: 'Largest radius searched (0 = no limit)',
+        dependsOn: 'mode',
+        showIf: (params) => params.mode === 'circles'
+      },
+      {
+        name: 'maxResults',
+        type: 'number',
+        value: 50,
+        min: 1,
+        max: 1000,
+        step: 1,
+        label: 'Max Detections',
+        description: 'Strongest detections kept for drawing and listing'
+      },
+      {
+        name: 'color',
+        type: 'color',
+        value: '#ff0000',
+        label: 'Color',
+        description: 'Color of the drawn lines and circles'
+      },
+      {
+        name: 'thickness',
+        type: 'number',
+        value: 2,
+        min: 1,
+        max: 10,
+        step: 1,
+        label: 'Thickness',
+        description: 'Line thickness in pixels'
+      },
+      { ...sizePolicyParameter }
+    ]
+  },
+  watershed: {
+    type: 'watershed',
+    name: 'Watershed',
+    description: 'Separate touching objects by flooding from markers',
+    parameters: [
+      {
+        name: 'invert',
+        type: 'boolean',
+        value: false,
+        label: 'Dark Objects',
+        description: 'Treat dark pixels as the objects instead of bright ones'
+      },
+      {
+        name: 'peakThreshold',
+        type: 'number',
+        value: 0.5,
+        min: 0.05,
+        max: 1,
+        step: 0.05,
+        label: 'Peak Threshold',
+        description: 'Automatic markers: fraction of the largest distance a peak must reach'
+      },
+      {
+        name: 'minPeakDistance',
+        type: 'number',
+        value: 10,
+        min: 1,
+        max: 200,
+        step: 1,
+        label: 'Min Peak Distance',
+        description: 'Automatic markers: peaks closer than this many pixels merge'
+      },
+      {
+        name: 'backgroundMarker',
+        type: 'boolean',
+        value: true,
+        label: 'Background Marker',
+        description: 'Seed the pixels well away from every object as one background region'
+      },
+      {
+        name: 'fillRegions',
+        type: 'boolean',
+        value: true,
+        label: 'Fill Regions',
+        description: 'Tint each region in its own color'
+      },
+      {
+        name: 'color',
+        type: 'color',
+        value: '#ff0000',
+        label: 'Boundary Color',
+        description: 'Color of the region boundaries'
+      },
+      {
+        name: 'thickness',
+        type: 'number',
+        value: 2,
+        min: 1,
+        max: 10,
+        step: 1,
+        label: 'Thickness',
+        description: 'Boundary thickness in pixels'
+      },
+      { ...sizePolicyParameter }
+    ]
+  },
   custom: {
     type: 'custom',
     name: 'Custom Filter',
@@ -722,19 +1667,24 @@ export default function LabPage() {
     removeNode, 
     addEdge, 
     removeEdge, 
-    duplicateNode
+    duplicateNode,
+    pixelInspectorEnabled,
+    setPixelInspectorEnabled,
+    inspectPixel
   } = usePipeline();
   const [transformationManagerOpen, setTransformationManagerOpen] = useState(false);
   const [operationMode, setOperationMode] = useState<'select' | 'connect' | 'disconnect' | null>(null);
   const [projectsModalOpen, setProjectsModalOpen] = useState(false);
   const [projectsModalMode, setProjectsModalMode] = useState<'save' | 'load' | 'new'>('save');
   const [connectStartNodeId, setConnectStartNodeId] = useState<string | null>(null);
+  const [compareNodeIds, setCompareNodeIds] = useState<[string, string] | null>(null);
   const pageRef = useRef<HTMLDivElement>(null);
   
   // Function to handle keyboard shortcuts
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    // Skip if modifiers are pressed except for the specific combinations we want
-    if (event.altKey || event.metaKey || 
+    // Skip if modifiers are pressed except for the specific combinations we want,
+    // and while the compare viewer covers the editor
+    if (compareNodeIds || event.altKey || event.metaKey || 
         (event.ctrlKey && !['c', 'v', 'x'].includes(event.key.toLowerCase())) || 
         event.target instanceof HTMLInputElement || 
         event.target instanceof HTMLTextAreaElement) {
@@ -760,6 +1710,15 @@ export default function LabPage() {
       event.preventDefault();
     }
 
+    // Pixel inspector with I key, Escape releases the inspected pixel
+    if (event.key.toLowerCase() === 'i' && !event.ctrlKey) {
+      setPixelInspectorEnabled(!pixelInspectorEnabled);
+      event.preventDefault();
+    }
+    if (event.key === 'Escape' && pixelInspectorEnabled) {
+      inspectPixel(null);
+    }
+
     // Copy/cut/paste with Ctrl+C, Ctrl+X, Ctrl+V
     if (event.ctrlKey && selectedNodeId) {
       if (event.key.toLowerCase() === 'c') {
@@ -773,7 +1732,7 @@ export default function LabPage() {
         event.preventDefault();
       }
     }
-  }, [selectedNodeId, removeNode, duplicateNode, setOperationMode]);
+  }, [compareNodeIds, selectedNodeId, removeNode, duplicateNode, setOperationMode, pixelInspectorEnabled, setPixelInspectorEnabled, inspectPixel]);
 
   // Register and clean up keyboard event listeners
   useEffect(() => {
@@ -783,15 +1742,12 @@ export default function LabPage() {
     };
   }, [handleKeyDown]);
 
-  // Check if there's already an input node
-  const hasInputNode = nodes.some((node) => node.type === 'input');
   // Check if there's already an output node
   const hasOutputNode = nodes.some((node) => node.type === 'output');
 
+  // Several input nodes are allowed so multi-input nodes can combine different images
   const handleAddInputNode = () => {
-    if (!hasInputNode) {
-      addNode('input');
-    }
+    addNode('input');
   };
 
   const handleAddOutputNode = () => {
@@ -806,13 +1762,14 @@ export default function LabPage() {
     setTransformationManagerOpen(false);
   };
 
-  // Check for existing project on load
+  // Check for existing project on load (this also opens project storage and migrates old projects)
   useEffect(() => {
-    const currentProject = projectManager.getCurrentProject();
-    if (currentProject) {
-      // Project already loaded from localStorage
-      console.log(`Current project: ${currentProject.name}`);
-    }
+    projectManager.getCurrentProject().then(currentProject => {
+      if (currentProject) {
+        // Project already loaded from storage
+        console.log(`Current project: ${currentProject.name}`);
+      }
+    });
   }, []);
 
   // Handle node clicks based on current operation mode
@@ -854,6 +1811,7 @@ export default function LabPage() {
         operationMode={operationMode}
         onChangeOperationMode={setOperationMode}
         onOpenProjectsModal={handleOpenProjectsModal}
+        onOpenCompareViewer={setCompareNodeIds}
       />
       
       <div className="flex-grow flex relative p-4">
@@ -880,6 +1838,11 @@ export default function LabPage() {
             <TransformationManager onClose={() => setTransformationManagerOpen(false)} />
           </motion.div>
         )}
+
+        {/* Pixel values across the pipeline */}
+        {pixelInspectorEnabled && (
+          <PixelInspectorPanel onClose={() => setPixelInspectorEnabled(false)} />
+        )}
       </div>
 
       {/* Status indicator for connect mode */}
@@ -896,6 +1859,15 @@ export default function LabPage() {
         mode={projectsModalMode}
         onSuccess={handleProjectActionSuccess}
       />
+
+      {/* A/B compare viewer */}
+      {compareNodeIds && (
+        <CompareViewerModal
+          isOpen={true}
+          onClose={() => setCompareNodeIds(null)}
+          nodeIds={compareNodeIds}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,574 @@
+/**
+ * Color Analyzer
+ * Extracts dominant color palettes with seeded k-means or median-cut clustering
+ * in RGB, HSV, Lab or XYZ space
+ */
+import { createRandom } from '../utils/random';
+import { rgbToHsv, rgbToXyz, xyzToLab } from '../utils/colorSpaces';
+
+export type ColorSpace = 'rgb' | 'hsv' | 'lab' | 'xyz';
+export type ClusteringMethod = 'kmeans' | 'medianCut';
+
+export interface ColorAnalysisOptions {
+  colorSpace: ColorSpace;
+  clusterCount: number;
+  method: ClusteringMethod;
+  samplingRate: number;   // Fraction of pixels used to fit the clusters
+  maxIterations: number;  // k-means only
+  seed: number;           // Makes sampling and initialization reproducible
+}
+
+export interface ColorCluster {
+  rgb: { r: number; g: number; b: number };  // Mean sRGB color of the members
+  hex: string;
+  center: number[];                           // Cluster center in the analysis color space
+  pixelCount: number;
+  percentage: number;
+}
+
+export interface ColorAnalysisResult {
+  colorSpace: ColorSpace;
+  method: ClusteringMethod;
+  width: number;
+  height: number;
+  clusters: ColorCluster[];        // Sorted by percentage, largest first
+  assignments: Uint8Array;         // Cluster index for every pixel
+  sampleCount: number;
+  iterations: number;
+  inertia: number;                 // Mean squared distance of the samples to their center
+  scatterPoints: Array<{ x: number; y: number; r: number; g: number; b: number }>;
+}
+
+const MAX_SAMPLES = 50000;
+const MAX_SCATTER_POINTS = 4000;
+
+export class ColorAnalyzer {
+  /**
+   * Cluster the image colors and assign every pixel to its nearest cluster
+   */
+  public analyze(imageData: ImageData, options: Partial<ColorAnalysisOptions> = {}): ColorAnalysisResult {
+    const {
+      colorSpace = 'rgb',
+      method = 'kmeans',
+      samplingRate = 0.1,
+      maxIterations = 20,
+      seed = 42
+    } = options;
+    const { width, height, data } = imageData;
+    const pixelCount = width * height;
+    const clusterCount = Math.max(1, Math.min(32, Math.round(options.clusterCount || 8)));
+
+    // Convert every pixel to the analysis color space
+    const features = new Float32Array(pixelCount * 3);
+    const point = [0, 0, 0];
+    for (let i = 0; i < pixelCount; i++) {
+      this.convertColor(data[i * 4], data[i * 4 + 1], data[i * 4 + 2], colorSpace, point);
+      features[i * 3] = point[0];
+      features[i * 3 + 1] = point[1];
+      features[i * 3 + 2] = point[2];
+    }
+
+    // Pick a reproducible random subset of pixels to fit the clusters
+    const random = createRandom(seed);
+    const targetSamples = Math.max(clusterCount, Math.min(MAX_SAMPLES, Math.round(pixelCount * Math.max(0.001, Math.min(1, samplingRate)))));
+    const sampleIndices = this.sampleIndices(pixelCount, targetSamples, random);
+
+    const fit = method === 'medianCut'
+      ? this.fitMedianCut(features, sampleIndices, clusterCount)
+      : this.fitKMeans(features, sampleIndices, clusterCount, maxIterations, random);
+
+    // Assign all pixels and accumulate member colors
+    const k = fit.centers.length / 3;
+    const assignments = new Uint8Array(pixelCount);
+    const counts = new Array(k).fill(0);
+    const sums = new Float64Array(k * 3);
+    for (let i = 0; i < pixelCount; i++) {
+      const cluster = this.nearestCenter(features, i, fit.centers, k).index;
+      assignments[i] = cluster;
+      counts[cluster]++;
+      sums[cluster * 3] += data[i * 4];
+      sums[cluster * 3 + 1] += data[i * 4 + 1];
+      sums[cluster * 3 + 2] += data[i * 4 + 2];
+    }
+
+    // Build clusters sorted by size and remap the assignments to that order
+    const order = Array.from({ length: k }, (_, i) => i)
+      .filter(i => counts[i] > 0)
+      .sort((a, b) => counts[b] - counts[a]);
+    const remap = new Uint8Array(k);
+    order.forEach((cluster, rank) => {
+      remap[cluster] = rank;
+    });
+    for (let i = 0; i < pixelCount; i++) {
+      assignments[i] = remap[assignments[i]];
+    }
+
+    const clusters: ColorCluster[] = order.map(cluster => {
+      const r = Math.round(sums[cluster * 3] / counts[cluster]);
+      const g = Math.round(sums[cluster * 3 + 1] / counts[cluster]);
+      const b = Math.round(sums[cluster * 3 + 2] / counts[cluster]);
+      return {
+        rgb: { r, g, b },
+        hex: this.toHex(r, g, b),
+        center: Array.from(fit.centers.slice(cluster * 3, cluster * 3 + 3)),
+        pixelCount: counts[cluster],
+        percentage: (counts[cluster] / pixelCount) * 100
+      };
+    });
+
+    // Subsample the fitted samples for the chroma scatter plot
+    const scatterPoints: ColorAnalysisResult['scatterPoints'] = [];
+    const scatterStep = Math.max(1, Math.floor(sampleIndices.length / MAX_SCATTER_POINTS));
+    for (let s = 0; s < sampleIndices.length; s += scatterStep) {
+      const idx = sampleIndices[s] * 4;
+      const r = data[idx], g = data[idx + 1], b = data[idx + 2];
+      const chroma = this.getChromaCoordinates(r, g, b, colorSpace);
+      scatterPoints.push({ x: chroma.x, y: chroma.y, r, g, b });
+    }
+
+    return {
+      colorSpace,
+      method,
+      width,
+      height,
+      clusters,
+      assignments,
+      sampleCount: sampleIndices.length,
+      iterations: fit.iterations,
+      inertia: fit.inertia,
+      scatterPoints
+    };
+  }
+
+  /**
+   * Convert an sRGB color to the analysis color space.
+   * HSV is mapped to cone coordinates (S·V·cos H, S·V·sin H, V) so hue wraps around
+   * correctly and dark colors, whose hue is meaningless, collapse together.
+   */
+  private convertColor(r: number, g: number, b: number, colorSpace: ColorSpace, out: number[]): void {
+    switch (colorSpace) {
+      case 'hsv': {
+        const [h, s, v] = rgbToHsv(r, g, b);
+        const angle = (h * Math.PI) / 180;
+        out[0] = s * v * Math.cos(angle) * 100;
+        out[1] = s * v * Math.sin(angle) * 100;
+        out[2] = v * 100;
+        break;
+      }
+      case 'lab': {
+        const [l, a, bStar] = xyzToLab(...rgbToXyz(r, g, b));
+        out[0] = l;
+        out[1] = a;
+        out[2] = bStar;
+        break;
+      }
+      case 'xyz': {
+        // Scaled to Y = 100 for white
+        const [x, y, z] = rgbToXyz(r, g, b);
+        out[0] = x * 100;
+        out[1] = y * 100;
+        out[2] = z * 100;
+        break;
+      }
+      default:
+        out[0] = r;
+        out[1] = g;
+        out[2] = b;
+    }
+  }
+
+  /**
+   * 2D chroma coordinates used by the scatter plot:
+   * opponent axes for RGB, hue wheel for HSV, a*b* for Lab and xy chromaticity for XYZ
+   */
+  private getChromaCoordinates(r: number, g: number, b: number, colorSpace: ColorSpace): { x: number; y: number } {
+    switch (colorSpace) {
+      case 'hsv': {
+        const [h, s] = rgbToHsv(r, g, b);
+        const angle = (h * Math.PI) / 180;
+        return { x: s * Math.cos(angle), y: s * Math.sin(angle) };
+      }
+      case 'lab': {
+        const [, a, bStar] = xyzToLab(...rgbToXyz(r, g, b));
+        return { x: a, y: bStar };
+      }
+      case 'xyz': {
+        const [x, y, z] = rgbToXyz(r, g, b);
+        const sum = x + y + z;
+        // Black has no chromaticity, place it at the D65 white point
+        return sum > 0 ? { x: x / sum, y: y / sum } : { x: 0.3127, y: 0.329 };
+      }
+      default:
+        return { x: r - g, y: (r + g) / 2 - b };
+    }
+  }
+
+  private getChromaBounds(colorSpace: ColorSpace): { minX: number; maxX: number; minY: number; maxY: number; xLabel: string; yLabel: string } {
+    switch (colorSpace) {
+      case 'hsv':
+        return { minX: -1, maxX: 1, minY: -1, maxY: 1, xLabel: 'S·cos H', yLabel: 'S·sin H' };
+      case 'lab':
+        return { minX: -128, maxX: 128, minY: -128, maxY: 128, xLabel: 'a*', yLabel: 'b*' };
+      case 'xyz':
+        return { minX: 0, maxX: 0.8, minY: 0, maxY: 0.9, xLabel: 'x', yLabel: 'y' };
+      default:
+        return { minX: -255, maxX: 255, minY: -255, maxY: 255, xLabel: 'R − G', yLabel: '(R + G)/2 − B' };
+    }
+  }
+
+  private sampleIndices(pixelCount: number, count: number, random: () => number): Uint32Array {
+    if (count >= pixelCount) {
+      return Uint32Array.from({ length: pixelCount }, (_, i) => i);
+    }
+
+    // Stratified sampling: one random pixel per equal-sized stratum
+    const indices = new Uint32Array(count);
+    const stride = pixelCount / count;
+    for (let i = 0; i < count; i++) {
+      indices[i] = Math.min(pixelCount - 1, Math.floor((i + random()) * stride));
+    }
+    return indices;
+  }
+
+  private nearestCenter(features: Float32Array, pixel: number, centers: Float64Array, k: number): { index: number; distance: number } {
+    const f0 = features[pixel * 3], f1 = features[pixel * 3 + 1], f2 = features[pixel * 3 + 2];
+    let best = 0;
+    let bestDistance = Infinity;
+
+    for (let c = 0; c < k; c++) {
+      const d0 = f0 - centers[c * 3];
+      const d1 = f1 - centers[c * 3 + 1];
+      const d2 = f2 - centers[c * 3 + 2];
+      const distance = d0 * d0 + d1 * d1 + d2 * d2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = c;
+      }
+    }
+
+    return { index: best, distance: bestDistance };
+  }
+
+  /**
+   * Lloyd's k-means with k-means++ initialization
+   */
+  private fitKMeans(
+    features: Float32Array,
+    samples: Uint32Array,
+    k: number,
+    maxIterations: number,
+    random: () => number
+  ): { centers: Float64Array; iterations: number; inertia: number } {
+    const n = samples.length;
+    const centers = new Float64Array(k * 3);
+
+    // k-means++ seeding: later centers are drawn proportionally to their squared distance
+    const first = samples[Math.floor(random() * n)];
+    centers.set([features[first * 3], features[first * 3 + 1], features[first * 3 + 2]], 0);
+    const minDistances = new Float64Array(n).fill(Infinity);
+
+    for (let c = 1; c < k; c++) {
+      let total = 0;
+      for (let s = 0; s < n; s++) {
+        const pixel = samples[s];
+        const d0 = features[pixel * 3] - centers[(c - 1) * 3];
+        const d1 = features[pixel * 3 + 1] - centers[(c - 1) * 3 + 1];
+        const d2 = features[pixel * 3 + 2] - centers[(c - 1) * 3 + 2];
+        minDistances[s] = Math.min(minDistances[s], d0 * d0 + d1 * d1 + d2 * d2);
+        total += minDistances[s];
+      }
+
+      let chosen = samples[Math.floor(random() * n)];
+      if (total > 0) {
+        let target = random() * total;
+        for (let s = 0; s < n; s++) {
+          target -= minDistances[s];
+          if (target <= 0) {
+            chosen = samples[s];
+            break;
+          }
+        }
+      }
+      centers.set([features[chosen * 3], features[chosen * 3 + 1], features[chosen * 3 + 2]], c * 3);
+    }
+
+    const labels = new Int32Array(n).fill(-1);
+    const sums = new Float64Array(k * 3);
+    const counts = new Int32Array(k);
+    let iterations = 0;
+    let inertia = 0;
+
+    for (let iter = 0; iter < Math.max(1, maxIterations); iter++) {
+      iterations = iter + 1;
+      let changed = 0;
+      inertia = 0;
+      sums.fill(0);
+      counts.fill(0);
+
+      for (let s = 0; s < n; s++) {
+        const pixel = samples[s];
+        const { index, distance } = this.nearestCenter(features, pixel, centers, k);
+        if (labels[s] !== index) {
+          labels[s] = index;
+          changed++;
+        }
+        inertia += distance;
+        counts[index]++;
+        sums[index * 3] += features[pixel * 3];
+        sums[index * 3 + 1] += features[pixel * 3 + 1];
+        sums[index * 3 + 2] += features[pixel * 3 + 2];
+      }
+
+      for (let c = 0; c < k; c++) {
+        // Empty clusters keep their previous center
+        if (counts[c] === 0) continue;
+        centers[c * 3] = sums[c * 3] / counts[c];
+        centers[c * 3 + 1] = sums[c * 3 + 1] / counts[c];
+        centers[c * 3 + 2] = sums[c * 3 + 2] / counts[c];
+      }
+
+      if (changed === 0) break;
+    }
+
+    return { centers, iterations, inertia: inertia / Math.max(1, n) };
+  }
+
+  /**
+   * Median cut: repeatedly split the box with the largest channel range at its median
+   */
+  private fitMedianCut(
+    features: Float32Array,
+    samples: Uint32Array,
+    k: number
+  ): { centers: Float64Array; iterations: number; inertia: number } {
+    const boxes: number[][] = [Array.from(samples)];
+
+    const getRange = (box: number[]) => {
+      let bestChannel = 0;
+      let bestRange = -1;
+      for (let ch = 0; ch < 3; ch++) {
+        let min = Infinity, max = -Infinity;
+        for (const pixel of box) {
+          const value = features[pixel * 3 + ch];
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+        if (max - min > bestRange) {
+          bestRange = max - min;
+          bestChannel = ch;
+        }
+      }
+      return { channel: bestChannel, range: bestRange };
+    };
+
+    while (boxes.length < k) {
+      let splitIndex = -1;
+      let splitInfo = { channel: 0, range: 0 };
+      boxes.forEach((box, index) => {
+        if (box.length < 2) return;
+        const info = getRange(box);
+        if (info.range > splitInfo.range) {
+          splitInfo = info;
+          splitIndex = index;
+        }
+      });
+
+      // Every remaining box is a single color
+      if (splitIndex < 0) break;
+
+      const box = boxes[splitIndex];
+      box.sort((a, b) => features[a * 3 + splitInfo.channel] - features[b * 3 + splitInfo.channel]);
+      const median = Math.floor(box.length / 2);
+      boxes.splice(splitIndex, 1, box.slice(0, median), box.slice(median));
+    }
+
+    const centers = new Float64Array(boxes.length * 3);
+    let inertia = 0;
+    boxes.forEach((box, c) => {
+      for (const pixel of box) {
+        centers[c * 3] += features[pixel * 3] / box.length;
+        centers[c * 3 + 1] += features[pixel * 3 + 1] / box.length;
+        centers[c * 3 + 2] += features[pixel * 3 + 2] / box.length;
+      }
+      for (const pixel of box) {
+        const d0 = features[pixel * 3] - centers[c * 3];
+        const d1 = features[pixel * 3 + 1] - centers[c * 3 + 1];
+        const d2 = features[pixel * 3 + 2] - centers[c * 3 + 2];
+        inertia += d0 * d0 + d1 * d1 + d2 * d2;
+      }
+    });
+
+    return { centers, iterations: boxes.length - 1, inertia: inertia / Math.max(1, samples.length) };
+  }
+
+  private toHex(r: number, g: number, b: number): string {
+    return '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Render every pixel with the mean color of its cluster
+   */
+  public createClusterOverlay(result: ColorAnalysisResult): HTMLCanvasElement {
+    const { width, height, assignments, clusters } = result;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    const output = ctx.createImageData(width, height);
+    for (let i = 0; i < assignments.length; i++) {
+      const { r, g, b } = clusters[assignments[i]].rgb;
+      output.data[i * 4] = r;
+      output.data[i * 4 + 1] = g;
+      output.data[i * 4 + 2] = b;
+      output.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(output, 0, 0);
+
+    return canvas;
+  }
+
+  /**
+   * Draw the palette as proportional swatches, optionally labelled with percentages
+   */
+  public drawPalette(
+    ctx: CanvasRenderingContext2D,
+    result: ColorAnalysisResult,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    showPercentages: boolean = true
+  ): void {
+    let offset = x;
+    result.clusters.forEach((cluster, index) => {
+      const isLast = index === result.clusters.length - 1;
+      const swatchWidth = isLast ? x + width - offset : Math.round((cluster.percentage / 100) * width);
+      ctx.fillStyle = cluster.hex;
+      ctx.fillRect(offset, y, swatchWidth, height);
+
+      if (showPercentages && swatchWidth >= 28) {
+        const luminance = 0.299 * cluster.rgb.r + 0.587 * cluster.rgb.g + 0.114 * cluster.rgb.b;
+        ctx.fillStyle = luminance > 140 ? 'black' : 'white';
+        ctx.font = '10px Arial';
+        ctx.fillText(`${cluster.percentage.toFixed(1)}%`, offset + 3, y + height / 2 + 3);
+      }
+      offset += swatchWidth;
+    });
+  }
+
+  /**
+   * Draw the 2D chroma scatter plot with the cluster centers
+   */
+  public drawChromaScatter(
+    ctx: CanvasRenderingContext2D,
+    result: ColorAnalysisResult,
+    x: number,
+    y: number,
+    size: number
+  ): void {
+    const bounds = this.getChromaBounds(result.colorSpace);
+    const toCanvasX = (value: number) => x + ((value - bounds.minX) / (bounds.maxX - bounds.minX)) * size;
+    const toCanvasY = (value: number) => y + size - ((value - bounds.minY) / (bounds.maxY - bounds.minY)) * size;
+
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(x, y, size, size);
+
+    // Axes through the neutral point
+    const neutral = result.colorSpace === 'xyz' ? { x: 0.3127, y: 0.329 } : { x: 0, y: 0 };
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x, toCanvasY(neutral.y));
+    ctx.lineTo(x + size, toCanvasY(neutral.y));
+    ctx.moveTo(toCanvasX(neutral.x), y);
+    ctx.lineTo(toCanvasX(neutral.x), y + size);
+    ctx.stroke();
+
+    result.scatterPoints.forEach(point => {
+      ctx.fillStyle = `rgb(${point.r}, ${point.g}, ${point.b})`;
+      ctx.fillRect(toCanvasX(point.x) - 1, toCanvasY(point.y) - 1, 2, 2);
+    });
+
+    // Cluster centers, sized by their share of the image
+    result.clusters.forEach(cluster => {
+      const chroma = this.getChromaCoordinates(cluster.rgb.r, cluster.rgb.g, cluster.rgb.b, result.colorSpace);
+      const radius = 4 + Math.sqrt(cluster.percentage) * 1.5;
+      ctx.beginPath();
+      ctx.arc(toCanvasX(chroma.x), toCanvasY(chroma.y), radius, 0, 2 * Math.PI);
+      ctx.fillStyle = cluster.hex;
+      ctx.fill();
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    });
+
+    ctx.fillStyle = 'white';
+    ctx.font = '11px Arial';
+    ctx.fillText(`${result.colorSpace.toUpperCase()} chroma (${bounds.xLabel} / ${bounds.yLabel})`, x + 4, y + 12);
+  }
+
+  /**
+   * Compose the cluster overlay (or source), chroma scatter and palette into one canvas
+   */
+  public createVisualization(
+    imageData: ImageData,
+    result: ColorAnalysisResult,
+    options: {
+      showClusters?: boolean;
+      showDistribution?: boolean;
+      showPalette?: boolean;
+      showPercentages?: boolean;
+    } = {}
+  ): HTMLCanvasElement {
+    const {
+      showClusters = true,
+      showDistribution = true,
+      showPalette = true,
+      showPercentages = true
+    } = options;
+
+    const panelHeight = 240;
+    const imageWidth = Math.max(1, Math.round((result.width / result.height) * panelHeight));
+    const scatterSize = showDistribution ? panelHeight : 0;
+    const gap = showDistribution ? 8 : 0;
+    const paletteHeight = showPalette ? 36 : 0;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = imageWidth + gap + scatterSize;
+    canvas.height = panelHeight + (showPalette ? paletteHeight + 8 : 0);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Cluster assignment overlay, or the source image when clusters are hidden
+    let source: HTMLCanvasElement;
+    if (showClusters) {
+      source = this.createClusterOverlay(result);
+    } else {
+      source = document.createElement('canvas');
+      source.width = imageData.width;
+      source.height = imageData.height;
+      source.getContext('2d')!.putImageData(imageData, 0, 0);
+    }
+    ctx.imageSmoothingEnabled = !showClusters;
+    ctx.drawImage(source, 0, 0, imageWidth, panelHeight);
+    ctx.imageSmoothingEnabled = true;
+
+    if (showDistribution) {
+      this.drawChromaScatter(ctx, result, imageWidth + gap, 0, scatterSize);
+    }
+
+    if (showPalette) {
+      this.drawPalette(ctx, result, 0, panelHeight + 8, canvas.width, paletteHeight, showPercentages);
+    }
+
+    return canvas;
+  }
+}
+
+// Export singleton instance - following same pattern as HistogramAnalyzer
+export const colorAnalyzer = new ColorAnalyzer();
@@ -1,3 +1,5 @@
+import { applyColormap } from '../utils/colormaps';
+
 export interface EdgeDensityData {
   densityMap: Float32Array;
   regionCenters: Array<{ x: number; y: number; density: number; strength: number }>;
@@ -542,7 +544,7 @@ export class EdgeDensityAnalyzer {
         const density = densityMap[gridY * width + gridX];
         
         const normalizedDensity = statistics.maxDensity > 0 ? density / statistics.maxDensity : 0;
-        const color = this.applyColormap(normalizedDensity, colormap);
+        const color = applyColormap(normalizedDensity, colormap, 'hot');
         
         const idx = (y * canvas.width + x) * 4;
         data[idx] = color.r;
@@ -575,56 +577,6 @@ export class EdgeDensityAnalyzer {
 
     return canvas;
   }
-
-  /**
-   * Apply colormap to normalized value
-   */
-  private applyColormap(value: number, colormap: string): { r: number, g: number, b: number } {
-    value = Math.max(0, Math.min(1, value));
-
-    switch (colormap) {
-      case 'hot':
-        return this.hotColormap(value);
-      case 'jet':
-        return this.jetColormap(value);
-      case 'cool':
-        return this.coolColormap(value);
-      default:
-        return this.hotColormap(value);
-    }
-  }
-
-  private hotColormap(value: number): { r: number, g: number, b: number } {
-    const r = value < 0.33 ? value * 3 : 1;
-    const g = value < 0.33 ? 0 : value < 0.66 ? (value - 0.33) * 3 : 1;
-    const b = value < 0.66 ? 0 : (value - 0.66) * 3;
-    
-    return {
-      r: Math.round(r * 255),
-      g: Math.round(g * 255),
-      b: Math.round(b * 255)
-    };
-  }
-
-  private jetColormap(value: number): { r: number, g: number, b: number } {
-    const r = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 3)));
-    const g = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 2)));
-    const b = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 1)));
-    
-    return {
-      r: Math.round(r * 255),
-      g: Math.round(g * 255),
-      b: Math.round(b * 255)
-    };
-  }
-
-  private coolColormap(value: number): { r: number, g: number, b: number } {
-    return {
-      r: Math.round((1 - value) * 255),
-      g: Math.round(value * 255),
-      b: 255
-    };
-  }
 }
 
 /**
@@ -0,0 +1,688 @@
+/**
+ * Feature Detector
+ * Finds keypoints with the Harris and Shi-Tomasi corner measures, the FAST
+ * segment test and ORB (oriented FAST over an image pyramid), together with
+ * the per-pixel response map each detector ranks its keypoints by
+ */
+import { applyColormap } from '../utils/colormaps';
+
+export interface Keypoint {
+  x: number;
+  y: number;
+  // Diameter of the meaningful neighbourhood, in image pixels
+  size: number;
+  // Orientation in degrees [0, 360), or -1 for detectors without orientation
+  angle: number;
+  response: number;
+  // Pyramid level the keypoint was found on (0 for single-scale detectors)
+  octave: number;
+}
+
+export interface FeatureDetectionResult {
+  keypoints: Keypoint[];
+  // Detector response per pixel of the input image
+  responseMap: Float32Array;
+}
+
+export interface FeatureDetectionData {
+  method: string;
+  keypoints: Keypoint[];
+  responseMap: Float32Array;
+  width: number;
+  height: number;
+  // Keypoints found before the maxKeypoints limit was applied
+  detectedCount: number;
+  statistics: {
+    count: number;
+    minResponse: number;
+    maxResponse: number;
+    meanResponse: number;
+    percentiles: Record<string, number>;
+    // Keypoint counts per response bin; bins holds the lower edge of each bin
+    histogram: number[];
+    bins: number[];
+    octaveCounts: number[];
+  };
+}
+
+export interface FeatureDetectionParams {
+  qualityLevel?: number;
+  minDistance?: number;
+  blockSize?: number;
+  harrisK?: number;
+  fastThreshold?: number;
+  nonmaxSuppression?: boolean;
+  maxKeypoints?: number;
+  scaleFactor?: number;
+  nLevels?: number;
+}
+
+/**
+ * Strategy interface for different keypoint detectors
+ */
+export interface FeatureDetectionStrategy {
+  detect(gray: Float32Array, width: number, height: number): FeatureDetectionResult;
+  getName(): string;
+}
+
+// Bresenham circle of radius 3 used by the FAST segment test, clockwise from the top
+const FAST_CIRCLE: Array<[number, number]> = [
+  [0, -3], [1, -3], [2, -2], [3, -1], [3, 0], [3, 1], [2, 2], [1, 3],
+  [0, 3], [-1, 3], [-2, 2], [-3, 1], [-3, 0], [-3, -1], [-2, -2], [-1, -3]
+];
+const FAST_ARC_LENGTH = 9;
+
+// Radius of the ORB patch (31×31) used for orientation
+const ORB_PATCH_RADIUS = 15;
+
+/**
+ * Box-filtered structure tensor (Ix², Iy², Ix·Iy) from Sobel derivatives,
+ * scaled the way cv.cornerHarris scales 8-bit input so responses are
+ * independent of the block size
+ */
+const computeStructureTensor = (
+  gray: Float32Array,
+  width: number,
+  height: number,
+  blockSize: number
+): { xx: Float32Array; yy: Float32Array; xy: Float32Array } => {
+  const size = width * height;
+  const scale = 1 / (4 * blockSize * 255);
+  const products = [new Float32Array(size), new Float32Array(size), new Float32Array(size)];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const dx = (gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1]
+        - gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1]) * scale;
+      const dy = (gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1]
+        - gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1]) * scale;
+      products[0][i] = dx * dx;
+      products[1][i] = dy * dy;
+      products[2][i] = dx * dy;
+    }
+  }
+
+  // Separable box sum over the block
+  const half = Math.floor(blockSize / 2);
+  const [xx, yy, xy] = products.map(product => {
+    const rows = new Float32Array(size);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = Math.max(0, x - half); k <= Math.min(width - 1, x + half); k++) {
+          sum += product[y * width + k];
+        }
+        rows[y * width + x] = sum;
+      }
+    }
+    const summed = new Float32Array(size);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = Math.max(0, y - half); k <= Math.min(height - 1, y + half); k++) {
+          sum += rows[k * width + x];
+        }
+        summed[y * width + x] = sum;
+      }
+    }
+    return summed;
+  });
+
+  return { xx, yy, xy };
+};
+
+/**
+ * Harris corner measure det(M) - k·trace(M)² of the structure tensor M
+ */
+const computeHarrisResponse = (
+  gray: Float32Array,
+  width: number,
+  height: number,
+  blockSize: number,
+  k: number
+): Float32Array => {
+  const { xx, yy, xy } = computeStructureTensor(gray, width, height, blockSize);
+  const response = new Float32Array(width * height);
+  for (let i = 0; i < response.length; i++) {
+    const trace = xx[i] + yy[i];
+    response[i] = xx[i] * yy[i] - xy[i] * xy[i] - k * trace * trace;
+  }
+  return response;
+};
+
+/**
+ * Whether the value at (x, y) is the maximum of its 3×3 neighbourhood
+ */
+const isLocalMaximum = (map: Float32Array, width: number, height: number, x: number, y: number): boolean => {
+  const value = map[y * width + x];
+  for (let ky = -1; ky <= 1; ky++) {
+    for (let kx = -1; kx <= 1; kx++) {
+      if (kx === 0 && ky === 0) continue;
+      const nx = x + kx;
+      const ny = y + ky;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const neighbour = map[ny * width + nx];
+      // Ties go to the first pixel in scan order, so plateaus give one keypoint
+      if (neighbour > value || (neighbour === value && (ky < 0 || (ky === 0 && kx < 0)))) return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Local maxima of a response map above a fraction of its global maximum
+ */
+const findCorners = (
+  response: Float32Array,
+  width: number,
+  height: number,
+  qualityLevel: number,
+  size: number
+): Keypoint[] => {
+  let maxResponse = 0;
+  for (let i = 0; i < response.length; i++) {
+    if (response[i] > maxResponse) maxResponse = response[i];
+  }
+  if (maxResponse <= 0) return [];
+
+  const threshold = maxResponse * qualityLevel;
+  const keypoints: Keypoint[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const value = response[y * width + x];
+      if (value <= threshold || !isLocalMaximum(response, width, height, x, y)) continue;
+      keypoints.push({ x, y, size, angle: -1, response: value, octave: 0 });
+    }
+  }
+  return keypoints.sort((a, b) => b.response - a.response);
+};
+
+/**
+ * FAST segment test: score of every pixel with at least nine contiguous
+ * circle pixels all brighter or all darker than the centre by the threshold.
+ * The score is the summed absolute difference over those pixels, as in the
+ * original paper, and 0 for pixels that fail the test
+ */
+const computeFastScores = (gray: Float32Array, width: number, height: number, threshold: number): Float32Array => {
+  const scores = new Float32Array(width * height);
+  const offsets = FAST_CIRCLE.map(([dx, dy]) => dy * width + dx);
+  const states = new Int8Array(FAST_CIRCLE.length);
+
+  for (let y = 3; y < height - 3; y++) {
+    for (let x = 3; x < width - 3; x++) {
+      const i = y * width + x;
+      const centre = gray[i];
+      let brighterSum = 0;
+      let darkerSum = 0;
+
+      for (let k = 0; k < offsets.length; k++) {
+        const value = gray[i + offsets[k]];
+        if (value > centre + threshold) {
+          states[k] = 1;
+          brighterSum += value - centre - threshold;
+        } else if (value < centre - threshold) {
+          states[k] = -1;
+          darkerSum += centre - value - threshold;
+        } else {
+          states[k] = 0;
+        }
+      }
+
+      // Longest run of equal non-zero states, wrapping around the circle
+      let run = 0;
+      let previous = 0;
+      let cornerState = 0;
+      for (let k = 0; k < offsets.length + FAST_ARC_LENGTH - 1 && cornerState === 0; k++) {
+        const state = states[k % offsets.length];
+        run = state !== 0 && state === previous ? run + 1 : state !== 0 ? 1 : 0;
+        previous = state;
+        if (run >= FAST_ARC_LENGTH) cornerState = state;
+      }
+
+      if (cornerState !== 0) {
+        scores[i] = cornerState > 0 ? brighterSum : darkerSum;
+      }
+    }
+  }
+
+  return scores;
+};
+
+/**
+ * Harris corner strategy: R = det(M) - k·trace(M)²
+ */
+export class HarrisCornerStrategy implements FeatureDetectionStrategy {
+  private blockSize: number;
+  private k: number;
+  private qualityLevel: number;
+
+  constructor(blockSize: number = 3, k: number = 0.04, qualityLevel: number = 0.01) {
+    this.blockSize = blockSize;
+    this.k = k;
+    this.qualityLevel = qualityLevel;
+  }
+
+  detect(gray: Float32Array, width: number, height: number): FeatureDetectionResult {
+    const responseMap = computeHarrisResponse(gray, width, height, this.blockSize, this.k);
+    return {
+      keypoints: findCorners(responseMap, width, height, this.qualityLevel, this.blockSize),
+      responseMap
+    };
+  }
+
+  getName(): string {
+    return 'Harris';
+  }
+}
+
+/**
+ * Shi-Tomasi strategy: minimum eigenvalue of the structure tensor, with the
+ * minimum distance between corners enforced strongest first, as in
+ * cv.goodFeaturesToTrack
+ */
+export class ShiTomasiStrategy implements FeatureDetectionStrategy {
+  private blockSize: number;
+  private qualityLevel: number;
+  private minDistance: number;
+
+  constructor(blockSize: number = 3, qualityLevel: number = 0.01, minDistance: number = 10) {
+    this.blockSize = blockSize;
+    this.qualityLevel = qualityLevel;
+    this.minDistance = minDistance;
+  }
+
+  detect(gray: Float32Array, width: number, height: number): FeatureDetectionResult {
+    const { xx, yy, xy } = computeStructureTensor(gray, width, height, this.blockSize);
+    const responseMap = new Float32Array(width * height);
+    for (let i = 0; i < responseMap.length; i++) {
+      const mean = (xx[i] + yy[i]) / 2;
+      const difference = (xx[i] - yy[i]) / 2;
+      responseMap[i] = mean - Math.sqrt(difference * difference + xy[i] * xy[i]);
+    }
+
+    const candidates = findCorners(responseMap, width, height, this.qualityLevel, this.blockSize);
+    const minDistanceSquared = this.minDistance * this.minDistance;
+    const keypoints: Keypoint[] = [];
+    candidates.forEach(candidate => {
+      const tooClose = keypoints.some(kept => {
+        const dx = kept.x - candidate.x;
+        const dy = kept.y - candidate.y;
+        return dx * dx + dy * dy < minDistanceSquared;
+      });
+      if (!tooClose) keypoints.push(candidate);
+    });
+
+    return { keypoints, responseMap };
+  }
+
+  getName(): string {
+    return 'Shi-Tomasi';
+  }
+}
+
+/**
+ * FAST strategy: segment test on the 16-pixel circle, optionally keeping only
+ * the local score maxima
+ */
+export class FastStrategy implements FeatureDetectionStrategy {
+  private threshold: number;
+  private nonmaxSuppression: boolean;
+
+  constructor(threshold: number = 20, nonmaxSuppression: boolean = true) {
+    this.threshold = threshold;
+    this.nonmaxSuppression = nonmaxSuppression;
+  }
+
+  detect(gray: Float32Array, width: number, height: number): FeatureDetectionResult {
+    const responseMap = computeFastScores(gray, width, height, this.threshold);
+    const keypoints: Keypoint[] = [];
+
+    for (let y = 3; y < height - 3; y++) {
+      for (let x = 3; x < width - 3; x++) {
+        const score = responseMap[y * width + x];
+        if (score <= 0) continue;
+        if (this.nonmaxSuppression && !isLocalMaximum(responseMap, width, height, x, y)) continue;
+        // OpenCV reports FAST keypoints with the circle diameter as their size
+        keypoints.push({ x, y, size: 7, angle: -1, response: score, octave: 0 });
+      }
+    }
+
+    return { keypoints: keypoints.sort((a, b) => b.response - a.response), responseMap };
+  }
+
+  getName(): string {
+    return 'FAST';
+  }
+}
+
+/**
+ * ORB strategy: FAST keypoints on every level of a scale pyramid, ranked by
+ * their Harris response and oriented by the intensity centroid of the 31×31
+ * patch. Only the keypoints are computed, not the BRIEF descriptors
+ */
+export class OrbStrategy implements FeatureDetectionStrategy {
+  private maxKeypoints: number;
+  private scaleFactor: number;
+  private nLevels: number;
+  private fastThreshold: number;
+  private harrisK: number;
+
+  constructor(
+    maxKeypoints: number = 500,
+    scaleFactor: number = 1.2,
+    nLevels: number = 8,
+    fastThreshold: number = 20,
+    harrisK: number = 0.04
+  ) {
+    this.maxKeypoints = maxKeypoints;
+    this.scaleFactor = Math.max(1.01, scaleFactor);
+    this.nLevels = Math.max(1, Math.round(nLevels));
+    this.fastThreshold = fastThreshold;
+    this.harrisK = harrisK;
+  }
+
+  detect(gray: Float32Array, width: number, height: number): FeatureDetectionResult {
+    const keypoints: Keypoint[] = [];
+    let responseMap = new Float32Array(width * height);
+
+    // Keypoint budget per level, geometric in the level scale as in cv.ORB
+    const inverseScale = 1 / this.scaleFactor;
+    const firstLevelShare = this.maxKeypoints * (1 - inverseScale) / (1 - Math.pow(inverseScale, this.nLevels));
+
+    let level = gray;
+    let levelWidth = width;
+    let levelHeight = height;
+    for (let octave = 0; octave < this.nLevels; octave++) {
+      const scale = Math.pow(this.scaleFactor, octave);
+      if (octave > 0) {
+        levelWidth = Math.round(width / scale);
+        levelHeight = Math.round(height / scale);
+        if (levelWidth <= 2 * ORB_PATCH_RADIUS + 2 || levelHeight <= 2 * ORB_PATCH_RADIUS + 2) break;
+        level = this.resize(gray, width, height, levelWidth, levelHeight);
+      }
+
+      const harris = computeHarrisResponse(level, levelWidth, levelHeight, 7, this.harrisK);
+      if (octave === 0) responseMap = harris;
+
+      const scores = computeFastScores(level, levelWidth, levelHeight, this.fastThreshold);
+      const candidates: Keypoint[] = [];
+      const border = ORB_PATCH_RADIUS + 1;
+      for (let y = border; y < levelHeight - border; y++) {
+        for (let x = border; x < levelWidth - border; x++) {
+          if (scores[y * levelWidth + x] <= 0 || !isLocalMaximum(scores, levelWidth, levelHeight, x, y)) continue;
+          candidates.push({
+            x,
+            y,
+            size: 2 * ORB_PATCH_RADIUS + 1,
+            angle: -1,
+            response: harris[y * levelWidth + x],
+            octave
+          });
+        }
+      }
+
+      const budget = Math.round(firstLevelShare * Math.pow(inverseScale, octave));
+      candidates
+        .sort((a, b) => b.response - a.response)
+        .slice(0, budget)
+        .forEach(candidate => {
+          keypoints.push({
+            ...candidate,
+            angle: this.computeOrientation(level, levelWidth, candidate.x, candidate.y),
+            x: candidate.x * scale,
+            y: candidate.y * scale,
+            size: candidate.size * scale
+          });
+        });
+    }
+
+    return { keypoints: keypoints.sort((a, b) => b.response - a.response), responseMap };
+  }
+
+  /**
+   * Angle of the vector from the patch centre to its intensity centroid
+   */
+  private computeOrientation(gray: Float32Array, width: number, cx: number, cy: number): number {
+    let m01 = 0;
+    let m10 = 0;
+    const radiusSquared = ORB_PATCH_RADIUS * ORB_PATCH_RADIUS;
+    for (let dy = -ORB_PATCH_RADIUS; dy <= ORB_PATCH_RADIUS; dy++) {
+      for (let dx = -ORB_PATCH_RADIUS; dx <= ORB_PATCH_RADIUS; dx++) {
+        if (dx * dx + dy * dy > radiusSquared) continue;
+        const value = gray[(cy + dy) * width + (cx + dx)];
+        m10 += dx * value;
+        m01 += dy * value;
+      }
+    }
+    const angle = Math.atan2(m01, m10) * 180 / Math.PI;
+    return angle < 0 ? angle + 360 : angle;
+  }
+
+  /**
+   * Bilinear downscale of a grayscale image
+   */
+  private resize(gray: Float32Array, width: number, height: number, newWidth: number, newHeight: number): Float32Array {
+    const output = new Float32Array(newWidth * newHeight);
+    const scaleX = width / newWidth;
+    const scaleY = height / newHeight;
+    for (let y = 0; y < newHeight; y++) {
+      const sy = Math.min(height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+      const y0 = Math.floor(sy);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const fy = sy - y0;
+      for (let x = 0; x < newWidth; x++) {
+        const sx = Math.min(width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+        const x0 = Math.floor(sx);
+        const x1 = Math.min(width - 1, x0 + 1);
+        const fx = sx - x0;
+        const top = gray[y0 * width + x0] * (1 - fx) + gray[y0 * width + x1] * fx;
+        const bottom = gray[y1 * width + x0] * (1 - fx) + gray[y1 * width + x1] * fx;
+        output[y * newWidth + x] = top * (1 - fy) + bottom * fy;
+      }
+    }
+    return output;
+  }
+
+  getName(): string {
+    return 'ORB';
+  }
+}
+
+/**
+ * Factory for creating feature detection strategies
+ */
+export class FeatureStrategyFactory {
+  static create(method: string, params: FeatureDetectionParams = {}): FeatureDetectionStrategy {
+    switch (method.toLowerCase()) {
+      case 'shitomasi':
+        return new ShiTomasiStrategy(params.blockSize || 3, params.qualityLevel ?? 0.01, params.minDistance ?? 10);
+      case 'fast':
+        return new FastStrategy(params.fastThreshold ?? 20, params.nonmaxSuppression ?? true);
+      case 'orb':
+        return new OrbStrategy(
+          params.maxKeypoints || 500,
+          params.scaleFactor || 1.2,
+          params.nLevels || 8,
+          params.fastThreshold ?? 20,
+          params.harrisK ?? 0.04
+        );
+      case 'harris':
+      default:
+        return new HarrisCornerStrategy(params.blockSize || 3, params.harrisK ?? 0.04, params.qualityLevel ?? 0.01);
+    }
+  }
+}
+
+/**
+ * Feature Detector for finding and visualizing keypoints
+ */
+export class FeatureDetector {
+  private strategy: FeatureDetectionStrategy;
+
+  constructor(strategy: FeatureDetectionStrategy) {
+    this.strategy = strategy;
+  }
+
+  /**
+   * Detect keypoints, strongest first, and summarize their responses
+   */
+  public detectFeatures(
+    imageData: ImageData,
+    options: {
+      maxKeypoints?: number;
+      histogramBins?: number;
+    } = {}
+  ): FeatureDetectionData {
+    const { maxKeypoints = 500, histogramBins = 10 } = options;
+    const { width, height, data } = imageData;
+
+    // Convert to grayscale
+    const gray = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+      const idx = i * 4;
+      gray[i] = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+    }
+
+    const { keypoints: detected, responseMap } = this.strategy.detect(gray, width, height);
+    const keypoints = maxKeypoints > 0 ? detected.slice(0, maxKeypoints) : detected;
+
+    return {
+      method: this.strategy.getName(),
+      keypoints,
+      responseMap,
+      width,
+      height,
+      detectedCount: detected.length,
+      statistics: this.generateStatistics(keypoints, histogramBins)
+    };
+  }
+
+  /**
+   * Count, range, percentiles and histogram of the keypoint responses
+   */
+  private generateStatistics(keypoints: Keypoint[], numBins: number): FeatureDetectionData['statistics'] {
+    const responses = keypoints.map(keypoint => keypoint.response).sort((a, b) => a - b);
+    const octaveCounts: number[] = [];
+    keypoints.forEach(keypoint => {
+      while (octaveCounts.length <= keypoint.octave) octaveCounts.push(0);
+      octaveCounts[keypoint.octave]++;
+    });
+
+    if (responses.length === 0) {
+      return {
+        count: 0,
+        minResponse: 0,
+        maxResponse: 0,
+        meanResponse: 0,
+        percentiles: {},
+        histogram: new Array(numBins).fill(0),
+        bins: new Array(numBins).fill(0),
+        octaveCounts
+      };
+    }
+
+    const minResponse = responses[0];
+    const maxResponse = responses[responses.length - 1];
+    const meanResponse = responses.reduce((sum, value) => sum + value, 0) / responses.length;
+
+    const getPercentile = (p: number) => responses[Math.floor((p / 100) * (responses.length - 1))];
+    const percentiles: Record<string, number> = {
+      '25th': getPercentile(25),
+      '50th': getPercentile(50),
+      '75th': getPercentile(75),
+      '95th': getPercentile(95)
+    };
+
+    const binWidth = (maxResponse - minResponse) / numBins;
+    const histogram = new Array(numBins).fill(0);
+    const bins = Array.from({ length: numBins }, (_, i) => minResponse + i * binWidth);
+    responses.forEach(value => {
+      const bin = binWidth > 0 ? Math.min(numBins - 1, Math.floor((value - minResponse) / binWidth)) : 0;
+      histogram[bin]++;
+    });
+
+    return { count: responses.length, minResponse, maxResponse, meanResponse, percentiles, histogram, bins, octaveCounts };
+  }
+
+  /**
+   * Create visualization canvas: the dimmed image under the response heatmap,
+   * with a circle per keypoint (diameter = keypoint size) and a radius
+   * showing its orientation
+   */
+  public createVisualization(
+    imageData: ImageData,
+    featureData: FeatureDetectionData,
+    options: {
+      showHeatmap?: boolean;
+      showKeypoints?: boolean;
+      colormap?: string;
+    } = {}
+  ): HTMLCanvasElement {
+    const {
+      showHeatmap = true,
+      showKeypoints = true,
+      colormap = 'hot'
+    } = options;
+
+    const { responseMap, width, height } = featureData;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    let maxResponse = 0;
+    for (let i = 0; i < responseMap.length; i++) {
+      if (responseMap[i] > maxResponse) maxResponse = responseMap[i];
+    }
+
+    const output = ctx.createImageData(width, height);
+    const source = imageData.data;
+    for (let i = 0; i < width * height; i++) {
+      const idx = i * 4;
+      const gray = 0.299 * source[idx] + 0.587 * source[idx + 1] + 0.114 * source[idx + 2];
+      let r = gray * 0.5;
+      let g = gray * 0.5;
+      let b = gray * 0.5;
+
+      if (showHeatmap && maxResponse > 0 && responseMap[i] > 0) {
+        // Square root keeps weaker responses visible next to the strongest corners
+        const value = Math.sqrt(responseMap[i] / maxResponse);
+        const color = applyColormap(value, colormap, 'hot');
+        const alpha = Math.min(1, value * 1.5);
+        r = r * (1 - alpha) + color.r * alpha;
+        g = g * (1 - alpha) + color.g * alpha;
+        b = b * (1 - alpha) + color.b * alpha;
+      }
+
+      output.data[idx] = r;
+      output.data[idx + 1] = g;
+      output.data[idx + 2] = b;
+      output.data[idx + 3] = 255;
+    }
+    ctx.putImageData(output, 0, 0);
+
+    if (showKeypoints) {
+      ctx.lineWidth = Math.max(1, Math.round(Math.min(width, height) / 400));
+      featureData.keypoints.forEach(keypoint => {
+        const radius = Math.max(2, keypoint.size / 2);
+        ctx.strokeStyle = keypoint.octave > 0 ? '#facc15' : '#4ade80';
+        ctx.beginPath();
+        ctx.arc(keypoint.x, keypoint.y, radius, 0, Math.PI * 2);
+        ctx.stroke();
+
+        if (keypoint.angle >= 0) {
+          const angle = keypoint.angle * Math.PI / 180;
+          ctx.beginPath();
+          ctx.moveTo(keypoint.x, keypoint.y);
+          ctx.lineTo(keypoint.x + Math.cos(angle) * radius, keypoint.y + Math.sin(angle) * radius);
+          ctx.stroke();
+        }
+      });
+    }
+
+    return canvas;
+  }
+}
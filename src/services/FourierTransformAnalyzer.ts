@@ -2,6 +2,7 @@
  * Fourier Transform Analyzer
  * Provides frequency domain analysis using Fast Fourier Transform
  */
+import { applyColormap } from '../utils/colormaps';
 
 export interface FFTResult {
   width: number;
@@ -35,13 +36,34 @@ export interface FFTVisualizationOptions {
   centerDC: boolean;
   normalize: boolean;
   colormap: 'jet' | 'hot' | 'cool' | 'gray' | 'hsv';
-  filterType?: 'none' | 'lowpass' | 'highpass' | 'bandpass' | 'notch';
+  filterType?: 'none' | FrequencyFilterType;
   cutoffFrequency?: number;
   filterOrder?: number;
   windowFunction?: 'none' | 'hanning' | 'hamming' | 'blackman' | 'kaiser';
   showRadialProfile?: boolean;
 }
 
+export type FrequencyFilterType = 'lowpass' | 'highpass' | 'bandpass' | 'notch';
+export type FrequencyFilterShape = 'ideal' | 'butterworth' | 'gaussian';
+
+export interface FrequencyFilterOptions {
+  filterType: FrequencyFilterType;
+  filterShape: FrequencyFilterShape;
+  cutoffFrequency: number; // Normalized radius in cycles per pixel (0 - 0.5)
+  bandwidth?: number;      // Width of the band for bandpass / notch filters
+  filterOrder?: number;    // Order of the Butterworth filter
+  normalizeOutput?: boolean;
+}
+
+export interface FrequencyFilterResult {
+  imageData: ImageData;
+  paddedWidth: number;
+  paddedHeight: number;
+  spectrumBefore: Float32Array; // Centered magnitude, averaged over RGB channels
+  spectrumAfter: Float32Array;
+  mask: Float32Array;           // Centered filter transfer function
+}
+
 export class FourierTransformAnalyzer {
   /**
    * Main analysis method - follows same pattern as HistogramAnalyzer
@@ -54,16 +76,32 @@ export class FourierTransformAnalyzer {
    * Perform 2D FFT on grayscale image data
    */
   public analyzeFFT(imageData: ImageData, options: Partial<FFTVisualizationOptions> = {}): FFTResult {
-    const { width, height, data } = imageData;
-    
     // Convert to grayscale if needed
-    const grayData = this.convertToGrayscale(data, width, height);
+    const grayData = this.convertToGrayscale(imageData.data, imageData.width, imageData.height);
     
     // Apply windowing if specified
-    const windowedData = this.applyWindowing(grayData, width, height, options.windowFunction || 'none');
+    const windowedData = this.applyWindowing(grayData, imageData.width, imageData.height, options.windowFunction || 'none');
+    
+    // The radix-2 FFT needs power-of-two dimensions
+    const { data: paddedData, width, height } = this.padToPowerOfTwo(windowedData, imageData.width, imageData.height);
     
     // Perform 2D FFT
-    const fftResult = this.fft2D(windowedData, width, height);
+    const fftResult = this.fft2D(paddedData, width, height);
+    
+    // Apply the frequency filter to the spectrum if requested
+    if (options.filterType && options.filterType !== 'none' && options.cutoffFrequency && options.cutoffFrequency > 0) {
+      const mask = this.ifftShift(this.createFilterMask(width, height, {
+        filterType: options.filterType,
+        filterShape: 'butterworth',
+        cutoffFrequency: options.cutoffFrequency,
+        filterOrder: options.filterOrder
+      }), width, height);
+      
+      for (let i = 0; i < mask.length; i++) {
+        fftResult.real[i] *= mask[i];
+        fftResult.imaginary[i] *= mask[i];
+      }
+    }
     
     // Calculate magnitude and phase spectra
     const magnitudeSpectrum = this.calculateMagnitudeSpectrum(fftResult.real, fftResult.imaginary, width, height);
@@ -96,6 +134,152 @@ export class FourierTransformAnalyzer {
     };
   }
 
+  /**
+   * Filter an image in the frequency domain.
+   * Each RGB channel is padded to a power of two, transformed, multiplied by the
+   * filter mask and transformed back; the padding is cropped from the result.
+   */
+  public applyFrequencyFilter(imageData: ImageData, options: FrequencyFilterOptions): FrequencyFilterResult {
+    const { width, height, data } = imageData;
+    const paddedWidth = this.nextPowerOfTwo(width);
+    const paddedHeight = this.nextPowerOfTwo(height);
+    const mask = this.createFilterMask(paddedWidth, paddedHeight, options);
+    const uncenteredMask = this.ifftShift(mask, paddedWidth, paddedHeight);
+    
+    const magnitudeSum = new Float32Array(paddedWidth * paddedHeight);
+    const filteredChannels: Float32Array[] = [];
+    const channel = new Float32Array(width * height);
+    
+    for (let c = 0; c < 3; c++) {
+      for (let i = 0; i < width * height; i++) {
+        channel[i] = data[i * 4 + c];
+      }
+      
+      const padded = this.padToPowerOfTwo(channel, width, height);
+      const spectrum = this.fft2D(padded.data, paddedWidth, paddedHeight);
+      
+      for (let i = 0; i < uncenteredMask.length; i++) {
+        const re = spectrum.real[i];
+        const im = spectrum.imaginary[i];
+        magnitudeSum[i] += Math.sqrt(re * re + im * im) / 3;
+        spectrum.real[i] = re * uncenteredMask[i];
+        spectrum.imaginary[i] = im * uncenteredMask[i];
+      }
+      
+      filteredChannels.push(this.ifft2D(spectrum.real, spectrum.imaginary, paddedWidth, paddedHeight).real);
+    }
+    
+    // Optionally stretch the output, e.g. for highpass results that lost their DC component
+    let offset = 0;
+    let scale = 1;
+    if (options.normalizeOutput) {
+      let minVal = Infinity, maxVal = -Infinity;
+      for (const filtered of filteredChannels) {
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const val = filtered[y * paddedWidth + x];
+            minVal = Math.min(minVal, val);
+            maxVal = Math.max(maxVal, val);
+          }
+        }
+      }
+      offset = minVal;
+      scale = maxVal > minVal ? 255 / (maxVal - minVal) : 1;
+    }
+    
+    const output = new Uint8ClampedArray(data.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = y * width + x;
+        for (let c = 0; c < 3; c++) {
+          output[idx * 4 + c] = (filteredChannels[c][y * paddedWidth + x] - offset) * scale;
+        }
+        output[idx * 4 + 3] = data[idx * 4 + 3];
+      }
+    }
+    
+    const spectrumBefore = this.fftShift(magnitudeSum, paddedWidth, paddedHeight);
+    const spectrumAfter = new Float32Array(spectrumBefore.length);
+    for (let i = 0; i < spectrumAfter.length; i++) {
+      spectrumAfter[i] = spectrumBefore[i] * mask[i];
+    }
+    
+    return {
+      imageData: new ImageData(output, width, height),
+      paddedWidth,
+      paddedHeight,
+      spectrumBefore,
+      spectrumAfter,
+      mask
+    };
+  }
+
+  /**
+   * Build a centered (DC in the middle) frequency filter transfer function.
+   * Distances are measured in cycles per pixel, so a cutoff of 0.5 reaches the Nyquist frequency.
+   * Bandpass and notch filters are centered on the cutoff with the given bandwidth.
+   */
+  public createFilterMask(width: number, height: number, options: FrequencyFilterOptions): Float32Array {
+    const mask = new Float32Array(width * height);
+    const centerX = Math.floor(width / 2);
+    const centerY = Math.floor(height / 2);
+    const d0 = Math.max(options.cutoffFrequency, 1e-6);
+    const bandwidth = Math.max(options.bandwidth || 0.1, 1e-6);
+    const order = Math.max(1, options.filterOrder || 2);
+    
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const u = (x - centerX) / width;
+        const v = (y - centerY) / height;
+        const d = Math.sqrt(u * u + v * v);
+        
+        let value: number;
+        switch (options.filterType) {
+          case 'lowpass':
+            value = this.lowpassResponse(d, d0, options.filterShape, order);
+            break;
+          case 'highpass':
+            value = 1 - this.lowpassResponse(d, d0, options.filterShape, order);
+            break;
+          case 'bandpass':
+            value = 1 - this.bandRejectResponse(d, d0, bandwidth, options.filterShape, order);
+            break;
+          case 'notch':
+            value = this.bandRejectResponse(d, d0, bandwidth, options.filterShape, order);
+            break;
+          default:
+            value = 1;
+        }
+        
+        mask[y * width + x] = value;
+      }
+    }
+    
+    return mask;
+  }
+
+  /**
+   * Render a centered magnitude spectrum as an image (log-scaled and normalized)
+   */
+  public createSpectrumImage(
+    spectrum: Float32Array,
+    width: number,
+    height: number,
+    colormap: FFTVisualizationOptions['colormap'] = 'gray',
+    logScale: boolean = true
+  ): ImageData {
+    // Filled directly, without a canvas, as this also runs in the pipeline worker
+    const imageData = new ImageData(width, height);
+    this.fillMagnitudeImage(imageData, spectrum, {
+      visualizationMode: 'magnitude',
+      logScale,
+      centerDC: true,
+      normalize: true,
+      colormap
+    });
+    return imageData;
+  }
+
   /**
    * Create visualization of FFT results
    */
@@ -232,15 +416,108 @@ export class FourierTransformAnalyzer {
   }
 
   /**
-   * Perform 2D FFT using separable 1D FFTs
+   * Lowpass transfer function for a normalized frequency distance
+   */
+  private lowpassResponse(d: number, d0: number, shape: FrequencyFilterShape, order: number): number {
+    switch (shape) {
+      case 'ideal':
+        return d <= d0 ? 1 : 0;
+      case 'gaussian':
+        return Math.exp(-(d * d) / (2 * d0 * d0));
+      case 'butterworth':
+      default:
+        return 1 / (1 + Math.pow(d / d0, 2 * order));
+    }
+  }
+
+  /**
+   * Band-reject transfer function centered on d0 with bandwidth w
    */
-  private fft2D(data: Float32Array, width: number, height: number): { real: Float32Array; imaginary: Float32Array } {
+  private bandRejectResponse(d: number, d0: number, w: number, shape: FrequencyFilterShape, order: number): number {
+    const radialDistance = d * d - d0 * d0;
+    
+    switch (shape) {
+      case 'ideal':
+        return Math.abs(d - d0) <= w / 2 ? 0 : 1;
+      case 'gaussian':
+        if (d === 0) return 1;
+        return 1 - Math.exp(-Math.pow(radialDistance / (d * w), 2));
+      case 'butterworth':
+      default:
+        if (radialDistance === 0) return 0;
+        return 1 / (1 + Math.pow((d * w) / radialDistance, 2 * order));
+    }
+  }
+
+  /**
+   * Smallest power of two greater than or equal to n
+   */
+  private nextPowerOfTwo(n: number): number {
+    let size = 1;
+    while (size < n) size <<= 1;
+    return size;
+  }
+
+  /**
+   * Pad data to power-of-two dimensions as required by the radix-2 FFT.
+   * The last row/column is replicated into the padding so the extension does not
+   * add a hard black border to the spectrum.
+   */
+  public padToPowerOfTwo(data: Float32Array, width: number, height: number): { data: Float32Array; width: number; height: number } {
+    const paddedWidth = this.nextPowerOfTwo(width);
+    const paddedHeight = this.nextPowerOfTwo(height);
+    
+    if (paddedWidth === width && paddedHeight === height) {
+      return { data, width, height };
+    }
+    
+    const padded = new Float32Array(paddedWidth * paddedHeight);
+    for (let y = 0; y < paddedHeight; y++) {
+      const srcY = Math.min(y, height - 1);
+      for (let x = 0; x < paddedWidth; x++) {
+        padded[y * paddedWidth + x] = data[srcY * width + Math.min(x, width - 1)];
+      }
+    }
+    
+    return { data: padded, width: paddedWidth, height: paddedHeight };
+  }
+
+  /**
+   * Perform 2D FFT using separable 1D FFTs.
+   * Width and height must be powers of two (see padToPowerOfTwo).
+   */
+  public fft2D(data: Float32Array, width: number, height: number): { real: Float32Array; imaginary: Float32Array } {
     const real = new Float32Array(width * height);
     const imaginary = new Float32Array(width * height);
     
     // Copy input data to real part
     real.set(data);
     
+    this.transform2D(real, imaginary, width, height, false);
+    
+    return { real, imaginary };
+  }
+
+  /**
+   * Inverse 2D FFT (the imaginary part is ~0 for spectra of real images with symmetric filters)
+   */
+  public ifft2D(real: Float32Array, imaginary: Float32Array, width: number, height: number): { real: Float32Array; imaginary: Float32Array } {
+    const outReal = new Float32Array(real);
+    const outImaginary = new Float32Array(imaginary);
+    
+    this.transform2D(outReal, outImaginary, width, height, true);
+    
+    return { real: outReal, imaginary: outImaginary };
+  }
+
+  /**
+   * In-place separable 2D transform (forward or inverse)
+   */
+  private transform2D(real: Float32Array, imaginary: Float32Array, width: number, height: number, inverse: boolean): void {
+    if (width & (width - 1) || height & (height - 1)) {
+      throw new Error(`FFT dimensions must be powers of two, got ${width}x${height}`);
+    }
+    
     // FFT along rows
     for (let y = 0; y < height; y++) {
       const rowReal = new Float32Array(width);
@@ -251,7 +528,7 @@ export class FourierTransformAnalyzer {
         rowImag[x] = imaginary[y * width + x];
       }
       
-      this.fft1D(rowReal, rowImag);
+      this.fft1D(rowReal, rowImag, inverse);
       
       for (let x = 0; x < width; x++) {
         real[y * width + x] = rowReal[x];
@@ -269,21 +546,19 @@ export class FourierTransformAnalyzer {
         colImag[y] = imaginary[y * width + x];
       }
       
-      this.fft1D(colReal, colImag);
+      this.fft1D(colReal, colImag, inverse);
       
       for (let y = 0; y < height; y++) {
         real[y * width + x] = colReal[y];
         imaginary[y * width + x] = colImag[y];
       }
     }
-    
-    return { real, imaginary };
   }
 
   /**
-   * 1D FFT using Cooley-Tukey algorithm
+   * 1D FFT using Cooley-Tukey algorithm (inverse transform is scaled by 1/N)
    */
-  private fft1D(real: Float32Array, imaginary: Float32Array): void {
+  private fft1D(real: Float32Array, imaginary: Float32Array, inverse: boolean = false): void {
     const N = real.length;
     
     // Bit-reversal permutation
@@ -302,7 +577,7 @@ export class FourierTransformAnalyzer {
     
     // Cooley-Tukey FFT
     for (let len = 2; len <= N; len <<= 1) {
-      const wlen = -2 * Math.PI / len;
+      const wlen = (inverse ? 2 : -2) * Math.PI / len;
       const wcos = Math.cos(wlen);
       const wsin = Math.sin(wlen);
       
@@ -331,6 +606,13 @@ export class FourierTransformAnalyzer {
         }
       }
     }
+    
+    if (inverse) {
+      for (let i = 0; i < N; i++) {
+        real[i] /= N;
+        imaginary[i] /= N;
+      }
+    }
   }
 
   /**
@@ -362,7 +644,7 @@ export class FourierTransformAnalyzer {
   /**
    * Shift zero frequency to center (fftshift)
    */
-  private fftShift(data: Float32Array, width: number, height: number): Float32Array {
+  public fftShift(data: Float32Array, width: number, height: number): Float32Array {
     const shifted = new Float32Array(data.length);
     const halfWidth = Math.floor(width / 2);
     const halfHeight = Math.floor(height / 2);
@@ -378,6 +660,25 @@ export class FourierTransformAnalyzer {
     return shifted;
   }
 
+  /**
+   * Move the centered zero frequency back to the origin (inverse of fftShift)
+   */
+  public ifftShift(data: Float32Array, width: number, height: number): Float32Array {
+    const shifted = new Float32Array(data.length);
+    const halfWidth = Math.floor(width / 2);
+    const halfHeight = Math.floor(height / 2);
+    
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const srcY = (y + halfHeight) % height;
+        const srcX = (x + halfWidth) % width;
+        shifted[y * width + x] = data[srcY * width + srcX];
+      }
+    }
+    
+    return shifted;
+  }
+
   /**
    * Calculate statistics from magnitude spectrum
    */
@@ -489,7 +790,14 @@ export class FourierTransformAnalyzer {
   private renderMagnitudeSpectrum(canvas: HTMLCanvasElement, magnitudeSpectrum: Float32Array, width: number, height: number, options: FFTVisualizationOptions): void {
     const ctx = canvas.getContext('2d')!;
     const imageData = ctx.createImageData(width, height);
-    
+    this.fillMagnitudeImage(imageData, magnitudeSpectrum, options);
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  /**
+   * Write the colormapped magnitude spectrum into image pixels
+   */
+  private fillMagnitudeImage(imageData: ImageData, magnitudeSpectrum: Float32Array, options: FFTVisualizationOptions): void {
     // Find min/max for normalization
     let minVal = Infinity, maxVal = -Infinity;
     
@@ -524,7 +832,7 @@ export class FourierTransformAnalyzer {
       // Ensure value is in [0, 1] range for colormap
       normalizedVal = Math.max(0, Math.min(1, normalizedVal));
       
-      const color = this.applyColormap(normalizedVal, options.colormap);
+      const color = applyColormap(normalizedVal, options.colormap);
       const pixelIdx = i * 4;
       
       imageData.data[pixelIdx] = color.r;
@@ -532,8 +840,6 @@ export class FourierTransformAnalyzer {
       imageData.data[pixelIdx + 2] = color.b;
       imageData.data[pixelIdx + 3] = 255;
     }
-    
-    ctx.putImageData(imageData, 0, 0);
   }
 
   /**
@@ -548,7 +854,7 @@ export class FourierTransformAnalyzer {
       let val = ((phaseSpectrum[i] + Math.PI) / (2 * Math.PI)) * 255;
       val = Math.max(0, Math.min(255, val));
       
-      const color = this.applyColormap(val / 255, options.colormap);
+      const color = applyColormap(val / 255, options.colormap);
       const pixelIdx = i * 4;
       
       imageData.data[pixelIdx] = color.r;
@@ -665,117 +971,6 @@ export class FourierTransformAnalyzer {
     ctx.font = '12px Arial';
     ctx.fillText('Radial Frequency Profile', 10, startY + 15);
   }
-
-  /**
-   * Apply colormap to normalized value [0, 1]
-   */
-  private applyColormap(value: number, colormap: string): { r: number; g: number; b: number } {
-    value = Math.max(0, Math.min(1, value));
-    
-    switch (colormap) {
-      case 'jet':
-        return this.jetColormap(value);
-      case 'hot':
-        return this.hotColormap(value);
-      case 'cool':
-        return this.coolColormap(value);
-      case 'gray':
-        const gray = Math.floor(value * 255);
-        return { r: gray, g: gray, b: gray };
-      case 'hsv':
-        return this.hsvColormap(value);
-      default:
-        return this.jetColormap(value);
-    }
-  }
-
-  /**
-   * Jet colormap
-   */
-  private jetColormap(value: number): { r: number; g: number; b: number } {
-    const r = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 3)));
-    const g = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 2)));
-    const b = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 1)));
-    
-    return {
-      r: Math.floor(r * 255),
-      g: Math.floor(g * 255),
-      b: Math.floor(b * 255)
-    };
-  }
-
-  /**
-   * Hot colormap
-   */
-  private hotColormap(value: number): { r: number; g: number; b: number } {
-    let r, g, b;
-    
-    if (value < 1/3) {
-      r = value * 3;
-      g = 0;
-      b = 0;
-    } else if (value < 2/3) {
-      r = 1;
-      g = (value - 1/3) * 3;
-      b = 0;
-    } else {
-      r = 1;
-      g = 1;
-      b = (value - 2/3) * 3;
-    }
-    
-    return {
-      r: Math.floor(r * 255),
-      g: Math.floor(g * 255),
-      b: Math.floor(b * 255)
-    };
-  }
-
-  /**
-   * Cool colormap
-   */
-  private coolColormap(value: number): { r: number; g: number; b: number } {
-    return {
-      r: Math.floor(value * 255),
-      g: Math.floor((1 - value) * 255),
-      b: 255
-    };
-  }
-
-  /**
-   * HSV colormap
-   */
-  private hsvColormap(value: number): { r: number; g: number; b: number } {
-    const hue = value * 360;
-    const saturation = 1;
-    const brightness = 1;
-    
-    const c = brightness * saturation;
-    const x = c * (1 - Math.abs((hue / 60) % 2 - 1));
-    const m = brightness - c;
-    
-    let r, g, b;
-    
-    if (hue < 60) {
-      r = c; g = x; b = 0;
-    } else if (hue < 120) {
-      r = x; g = c; b = 0;
-    } else if (hue < 180) {
-      r = 0; g = c; b = x;
-    } else if (hue < 240) {
-      r = 0; g = x; b = c;
-    } else if (hue < 300) {
-      r = x; g = 0; b = c;
-    } else {
-      r = c; g = 0; b = x;
-    }
-    
-    return {
-      r: Math.floor((r + m) * 255),
-      g: Math.floor((g + m) * 255),
-      b: Math.floor((b + m) * 255)
-    };
-  }
 }
 
 // Export singleton instance - following same pattern as HistogramAnalyzer
@@ -0,0 +1,398 @@
+/**
+ * Image Quality Analyzer
+ * Full-reference metrics of a test image against a reference: MSE, PSNR,
+ * SSIM and MS-SSIM (Wang et al.), with the errors of each colour channel,
+ * the local SSIM map and the absolute difference per pixel
+ */
+import { applyColormap } from '../utils/colormaps';
+
+export interface ChannelError {
+  mse: number;
+  // Infinity when the channels are identical
+  psnr: number;
+  // Mean absolute error
+  mae: number;
+  maxError: number;
+}
+
+export interface ImageQualityData {
+  width: number;
+  height: number;
+  // Over the three colour channels together
+  mse: number;
+  psnr: number;
+  ssim: number;
+  msssim: number;
+  // Scales MS-SSIM used; small images have room for fewer than five
+  msssimScales: number;
+  // Image SSIM is computed on: the luminance, or each RGB channel averaged
+  ssimChannel: 'luminance' | 'rgb';
+  channels: {
+    red: ChannelError;
+    green: ChannelError;
+    blue: ChannelError;
+  };
+  // Local SSIM per pixel, 1 where the images agree
+  ssimMap: Float32Array;
+  // Absolute difference per pixel, averaged over R, G and B
+  differenceMap: Float32Array;
+  maxDifference: number;
+}
+
+export interface ImageQualityOptions {
+  ssimChannel?: 'luminance' | 'rgb';
+  // Standard deviation of the Gaussian window of SSIM (1.5 in the original paper)
+  windowSigma?: number;
+}
+
+// Dynamic range of 8-bit images and the SSIM stabilising constants
+const DATA_RANGE = 255;
+const C1 = (0.01 * DATA_RANGE) ** 2;
+const C2 = (0.03 * DATA_RANGE) ** 2;
+
+// Weight of each scale in MS-SSIM, finest first
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
+
+const computePsnr = (mse: number): number => mse > 0 ? 10 * Math.log10(DATA_RANGE * DATA_RANGE / mse) : Infinity;
+
+// Normalised Gaussian window of radius 3σ
+const createGaussianKernel = (sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(3 * sigma));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    sum += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+  return kernel;
+};
+
+// Mirror an index that falls outside [0, size)
+const reflect = (index: number, size: number): number => {
+  if (size === 1) return 0;
+  while (index < 0 || index >= size) {
+    index = index < 0 ? -index - 1 : 2 * size - index - 1;
+  }
+  return index;
+};
+
+// Separable Gaussian filter with mirrored borders
+const gaussianFilter = (source: Float32Array, width: number, height: number, kernel: Float32Array): Float32Array => {
+  const radius = (kernel.length - 1) / 2;
+  const temp = new Float32Array(source.length);
+  const output = new Float32Array(source.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += source[y * width + reflect(x + k, width)] * kernel[k + radius];
+      }
+      temp[y * width + x] = sum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += temp[reflect(y + k, height) * width + x] * kernel[k + radius];
+      }
+      output[y * width + x] = sum;
+    }
+  }
+
+  return output;
+};
+
+// Halve an image by averaging 2×2 blocks
+const downsample = (source: Float32Array, width: number, height: number): Float32Array => {
+  const halfWidth = Math.floor(width / 2);
+  const halfHeight = Math.floor(height / 2);
+  const output = new Float32Array(halfWidth * halfHeight);
+  for (let y = 0; y < halfHeight; y++) {
+    for (let x = 0; x < halfWidth; x++) {
+      const index = 2 * y * width + 2 * x;
+      output[y * halfWidth + x] = (source[index] + source[index + 1] + source[index + width] + source[index + width + 1]) / 4;
+    }
+  }
+  return output;
+};
+
+/**
+ * SSIM of two single-channel images: the map, its mean and the mean of the
+ * contrast-structure term MS-SSIM combines across scales. The means leave
+ * out a border of one window radius, where the window is mirrored.
+ */
+const computeSsim = (
+  x: Float32Array,
+  y: Float32Array,
+  width: number,
+  height: number,
+  kernel: Float32Array
+): { map: Float32Array; ssim: number; contrastStructure: number } => {
+  const size = width * height;
+  const xx = new Float32Array(size);
+  const yy = new Float32Array(size);
+  const xy = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    xx[i] = x[i] * x[i];
+    yy[i] = y[i] * y[i];
+    xy[i] = x[i] * y[i];
+  }
+
+  const muX = gaussianFilter(x, width, height, kernel);
+  const muY = gaussianFilter(y, width, height, kernel);
+  const sigmaXX = gaussianFilter(xx, width, height, kernel);
+  const sigmaYY = gaussianFilter(yy, width, height, kernel);
+  const sigmaXY = gaussianFilter(xy, width, height, kernel);
+
+  const radius = (kernel.length - 1) / 2;
+  const crop = width > 2 * radius && height > 2 * radius ? radius : 0;
+  const map = new Float32Array(size);
+  let ssimSum = 0;
+  let csSum = 0;
+  let count = 0;
+
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const i = row * width + column;
+      const varianceX = Math.max(0, sigmaXX[i] - muX[i] * muX[i]);
+      const varianceY = Math.max(0, sigmaYY[i] - muY[i] * muY[i]);
+      const covariance = sigmaXY[i] - muX[i] * muY[i];
+      const contrastStructure = (2 * covariance + C2) / (varianceX + varianceY + C2);
+      const luminance = (2 * muX[i] * muY[i] + C1) / (muX[i] * muX[i] + muY[i] * muY[i] + C1);
+      map[i] = luminance * contrastStructure;
+
+      if (row >= crop && row < height - crop && column >= crop && column < width - crop) {
+        ssimSum += map[i];
+        csSum += contrastStructure;
+        count++;
+      }
+    }
+  }
+
+  return { map, ssim: ssimSum / count, contrastStructure: csSum / count };
+};
+
+/**
+ * MS-SSIM: the contrast-structure term at each scale and the full SSIM at
+ * the coarsest, weighted. Negative terms are clamped to zero, and when the
+ * image is too small for five scales the weights of the scales that fit are
+ * renormalised.
+ */
+const computeMsSsim = (
+  x: Float32Array,
+  y: Float32Array,
+  width: number,
+  height: number,
+  kernel: Float32Array
+): { msssim: number; scales: number } => {
+  let scales = MS_SSIM_WEIGHTS.length;
+  while (scales > 1 && Math.min(width, height) / 2 ** (scales - 1) < kernel.length) {
+    scales--;
+  }
+  const weights = MS_SSIM_WEIGHTS.slice(0, scales);
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let result = 1;
+  let currentX = x;
+  let currentY = y;
+  let currentWidth = width;
+  let currentHeight = height;
+
+  for (let scale = 0; scale < scales; scale++) {
+    const { ssim, contrastStructure } = computeSsim(currentX, currentY, currentWidth, currentHeight, kernel);
+    const value = scale === scales - 1 ? ssim : contrastStructure;
+    result *= Math.max(0, value) ** (weights[scale] / weightSum);
+
+    if (scale < scales - 1) {
+      currentX = downsample(currentX, currentWidth, currentHeight);
+      currentY = downsample(currentY, currentWidth, currentHeight);
+      currentWidth = Math.floor(currentWidth / 2);
+      currentHeight = Math.floor(currentHeight / 2);
+    }
+  }
+
+  return { msssim: result, scales };
+};
+
+export class ImageQualityAnalyzer {
+  /**
+   * Compare a test image with a reference of the same size
+   */
+  public compare(reference: ImageData, test: ImageData, options: ImageQualityOptions = {}): ImageQualityData {
+    const { ssimChannel = 'luminance', windowSigma = 1.5 } = options;
+
+    if (reference.width !== test.width || reference.height !== test.height) {
+      throw new Error(
+        `Reference is ${reference.width}×${reference.height} but the test image is ${test.width}×${test.height}; ` +
+        'resize one of them so the pixels line up'
+      );
+    }
+
+    const { width, height } = reference;
+    const size = width * height;
+    const differenceMap = new Float32Array(size);
+    let maxDifference = 0;
+    const squaredSums = [0, 0, 0];
+    const absoluteSums = [0, 0, 0];
+    const maxErrors = [0, 0, 0];
+
+    for (let i = 0; i < size; i++) {
+      let pixelDifference = 0;
+      for (let c = 0; c < 3; c++) {
+        const difference = Math.abs(reference.data[i * 4 + c] - test.data[i * 4 + c]);
+        squaredSums[c] += difference * difference;
+        absoluteSums[c] += difference;
+        if (difference > maxErrors[c]) maxErrors[c] = difference;
+        pixelDifference += difference;
+      }
+      differenceMap[i] = pixelDifference / 3;
+      if (differenceMap[i] > maxDifference) maxDifference = differenceMap[i];
+    }
+
+    const channelError = (c: number): ChannelError => ({
+      mse: squaredSums[c] / size,
+      psnr: computePsnr(squaredSums[c] / size),
+      mae: absoluteSums[c] / size,
+      maxError: maxErrors[c]
+    });
+    const mse = (squaredSums[0] + squaredSums[1] + squaredSums[2]) / (3 * size);
+
+    // SSIM of the luminance, or the average over R, G and B
+    const planes: [Float32Array, Float32Array][] = ssimChannel === 'rgb'
+      ? [0, 1, 2].map(c => [this.extractChannel(reference, c), this.extractChannel(test, c)] as [Float32Array, Float32Array])
+      : [[this.extractLuminance(reference), this.extractLuminance(test)]];
+    const kernel = createGaussianKernel(windowSigma);
+
+    const ssimMap = new Float32Array(size);
+    let ssim = 0;
+    let msssim = 0;
+    let msssimScales = 0;
+    planes.forEach(([referencePlane, testPlane]) => {
+      const planeSsim = computeSsim(referencePlane, testPlane, width, height, kernel);
+      for (let i = 0; i < size; i++) ssimMap[i] += planeSsim.map[i] / planes.length;
+      ssim += planeSsim.ssim / planes.length;
+
+      const planeMsSsim = computeMsSsim(referencePlane, testPlane, width, height, kernel);
+      msssim += planeMsSsim.msssim / planes.length;
+      msssimScales = planeMsSsim.scales;
+    });
+
+    return {
+      width,
+      height,
+      mse,
+      psnr: computePsnr(mse),
+      ssim,
+      msssim,
+      msssimScales,
+      ssimChannel,
+      channels: {
+        red: channelError(0),
+        green: channelError(1),
+        blue: channelError(2)
+      },
+      ssimMap,
+      differenceMap,
+      maxDifference
+    };
+  }
+
+  /**
+   * Create visualization canvas: the SSIM map (white where the images agree,
+   * black where they differ) and the absolute difference heatmap, alone or
+   * side by side
+   */
+  public createVisualization(
+    qualityData: ImageQualityData,
+    options: {
+      view?: 'both' | 'ssim' | 'difference';
+      colormap?: string;
+      // Stretch the differences so the largest one gets the top colour, instead of 255
+      normalizeDifference?: boolean;
+    } = {}
+  ): HTMLCanvasElement {
+    const {
+      view = 'both',
+      colormap = 'hot',
+      normalizeDifference = true
+    } = options;
+
+    const { width, height, ssimMap, differenceMap, maxDifference } = qualityData;
+    const gap = view === 'both' ? Math.max(4, Math.round(width / 50)) : 0;
+    const canvas = document.createElement('canvas');
+    canvas.width = view === 'both' ? width * 2 + gap : width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    const output = ctx.createImageData(canvas.width, height);
+    // Slate background, left showing in the gap between the two maps
+    for (let i = 0; i < output.data.length; i += 4) {
+      output.data[i] = 30;
+      output.data[i + 1] = 41;
+      output.data[i + 2] = 59;
+      output.data[i + 3] = 255;
+    }
+    const differenceScale = normalizeDifference && maxDifference > 0 ? maxDifference : DATA_RANGE;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+
+        if (view !== 'difference') {
+          const value = Math.round(Math.max(0, Math.min(1, ssimMap[i])) * 255);
+          const idx = (y * canvas.width + x) * 4;
+          output.data[idx] = value;
+          output.data[idx + 1] = value;
+          output.data[idx + 2] = value;
+          output.data[idx + 3] = 255;
+        }
+
+        if (view !== 'ssim') {
+          const color = applyColormap(differenceMap[i] / differenceScale, colormap, 'hot');
+          const offset = view === 'both' ? width + gap : 0;
+          const idx = (y * canvas.width + x + offset) * 4;
+          output.data[idx] = color.r;
+          output.data[idx + 1] = color.g;
+          output.data[idx + 2] = color.b;
+          output.data[idx + 3] = 255;
+        }
+      }
+    }
+    ctx.putImageData(output, 0, 0);
+
+    if (view === 'both') {
+      const fontSize = Math.max(10, Math.round(height / 20));
+      ctx.font = `${fontSize}px sans-serif`;
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = '#22d3ee';
+      ctx.fillText('SSIM', 4, 4);
+      ctx.fillText('|difference|', width + gap + 4, 4);
+    }
+
+    return canvas;
+  }
+
+  private extractChannel(imageData: ImageData, channel: number): Float32Array {
+    const plane = new Float32Array(imageData.width * imageData.height);
+    for (let i = 0; i < plane.length; i++) {
+      plane[i] = imageData.data[i * 4 + channel];
+    }
+    return plane;
+  }
+
+  private extractLuminance(imageData: ImageData): Float32Array {
+    const { data } = imageData;
+    const plane = new Float32Array(imageData.width * imageData.height);
+    for (let i = 0; i < plane.length; i++) {
+      plane[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return plane;
+  }
+}
+
+export const imageQualityAnalyzer = new ImageQualityAnalyzer();
@@ -0,0 +1,235 @@
+import type { SavedProject } from '../utils/types';
+import { toProjectListItem } from './ProjectStorage';
+import type { ProjectStorage, ProjectListItem, StoredProject, StorageInfo } from './ProjectStorage';
+
+const DB_NAME = 'image_transform_lab';
+const DB_VERSION = 1;
+// Project JSON, small enough to list without touching image data
+const PROJECTS_STORE = 'projects';
+// Input image blobs per project
+const IMAGES_STORE = 'projectImages';
+
+// Used when the browser does not report a quota
+const FALLBACK_QUOTA = 512 * 1024 * 1024;
+// Keep headroom for a project with several large images
+const MIN_FREE_SPACE = 64 * 1024 * 1024;
+
+interface ProjectImagesRecord {
+  projectId: string;
+  images: Record<string, Blob>;
+}
+
+// Resolve an IndexedDB request as a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+  });
+};
+
+// Resolve once a transaction has committed
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error || new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+};
+
+/**
+ * IndexedDB backend.
+ * Images are stored as the original lossless blobs, and the quota is the
+ * browser's origin quota rather than the few megabytes of localStorage.
+ */
+export class IndexedDBProjectStorage implements ProjectStorage {
+  public readonly name = 'IndexedDB';
+  public readonly lossless = true;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  public async isAvailable(): Promise<boolean> {
+    if (typeof indexedDB === 'undefined') return false;
+
+    try {
+      await this.openDatabase();
+      return true;
+    } catch (error) {
+      // e.g. private browsing modes that disable IndexedDB
+      console.warn('⚠️ IndexedDB is not available:', error);
+      return false;
+    }
+  }
+
+  public async listProjects(): Promise<ProjectListItem[]> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(PROJECTS_STORE, 'readonly');
+    const projects = await requestToPromise(
+      transaction.objectStore(PROJECTS_STORE).getAll() as IDBRequest<SavedProject[]>
+    );
+    return projects.map(toProjectListItem);
+  }
+
+  public async loadProject(projectId: string): Promise<StoredProject | null> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readonly');
+
+    const [project, imagesRecord] = await Promise.all([
+      requestToPromise(transaction.objectStore(PROJECTS_STORE).get(projectId) as IDBRequest<SavedProject | undefined>),
+      requestToPromise(transaction.objectStore(IMAGES_STORE).get(projectId) as IDBRequest<ProjectImagesRecord | undefined>)
+    ]);
+
+    if (!project) return null;
+
+    return {
+      project,
+      images: imagesRecord?.images || {}
+    };
+  }
+
+  public async saveProject(record: StoredProject): Promise<void> {
+    const { project, images } = record;
+
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+      const done = transactionToPromise(transaction);
+
+      // Structured clone rejects functions (e.g. parameter showIf), so store the JSON form
+      const projectJson: SavedProject = JSON.parse(JSON.stringify({
+        ...project,
+        state: { ...project.state, inputImages: {} }
+      }));
+      transaction.objectStore(PROJECTS_STORE).put(projectJson);
+      transaction.objectStore(IMAGES_STORE).put({ projectId: project.id, images } as ProjectImagesRecord);
+
+      await done;
+
+      const imageBytes = Object.values(images).reduce((sum, blob) => sum + blob.size, 0);
+      console.log(`💾 Project saved to IndexedDB (${(imageBytes / 1024).toFixed(2)}KB of images)`);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'QuotaExceededError') {
+        throw new Error('Storage quota exceeded. Please delete some projects or clear browser data.');
+      }
+
+      console.error('❌ Error saving project to IndexedDB:', error);
+      throw new Error(`Failed to save project to storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  public async deleteProject(projectId: string): Promise<boolean> {
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+      const done = transactionToPromise(transaction);
+
+      transaction.objectStore(PROJECTS_STORE).delete(projectId);
+      transaction.objectStore(IMAGES_STORE).delete(projectId);
+
+      await done;
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting project from IndexedDB:', error);
+      return false;
+    }
+  }
+
+  public async getStorageInfo(): Promise<StorageInfo> {
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(PROJECTS_STORE, 'readonly');
+      const totalProjects = await requestToPromise(transaction.objectStore(PROJECTS_STORE).count());
+
+      let usedSpace: number;
+      let quota: number;
+
+      const estimate = typeof navigator !== 'undefined' && navigator.storage?.estimate
+        ? await navigator.storage.estimate()
+        : null;
+
+      if (estimate && typeof estimate.usage === 'number' && typeof estimate.quota === 'number') {
+        // Origin-wide figures, which is what the browser enforces
+        usedSpace = estimate.usage;
+        quota = estimate.quota;
+      } else {
+        usedSpace = await this.measureUsedSpace(db);
+        quota = FALLBACK_QUOTA;
+      }
+
+      const availableSpace = Math.max(0, quota - usedSpace);
+
+      return {
+        backend: this.name,
+        usedSpace,
+        totalProjects,
+        availableSpace,
+        canSave: availableSpace > MIN_FREE_SPACE
+      };
+    } catch (error) {
+      console.error('❌ Error calculating storage info:', error);
+      return {
+        backend: this.name,
+        usedSpace: 0,
+        totalProjects: 0,
+        availableSpace: 0,
+        canSave: false
+      };
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+            db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+            db.createObjectStore(IMAGES_STORE, { keyPath: 'projectId' });
+          }
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let a newer tab upgrade the schema instead of blocking it
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error || new Error('Failed to open IndexedDB'));
+        request.onblocked = () => {
+          console.warn('⚠️ IndexedDB upgrade is waiting for another open tab to close');
+        };
+      });
+
+      // Allow a later retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  // Approximate usage from stored data when the browser gives no estimate
+  private async measureUsedSpace(db: IDBDatabase): Promise<number> {
+    const transaction = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readonly');
+    const [projects, imageRecords] = await Promise.all([
+      requestToPromise(transaction.objectStore(PROJECTS_STORE).getAll() as IDBRequest<SavedProject[]>),
+      requestToPromise(transaction.objectStore(IMAGES_STORE).getAll() as IDBRequest<ProjectImagesRecord[]>)
+    ]);
+
+    let usedSpace = 0;
+    projects.forEach(project => {
+      usedSpace += new Blob([JSON.stringify(project)]).size;
+    });
+    imageRecords.forEach(record => {
+      Object.values(record.images).forEach(blob => {
+        usedSpace += blob.size;
+      });
+    });
+    return usedSpace;
+  }
+}
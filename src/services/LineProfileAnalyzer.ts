@@ -0,0 +1,316 @@
+/**
+ * Line Profile Analyzer
+ * Samples an image along a line or polyline, one sample per pixel of length,
+ * optionally averaged across a band around the line, and reports each colour
+ * channel, the gray level and its derivative along the line
+ */
+import type { PointValue } from '../utils/types';
+
+export type ProfileInterpolation = 'bilinear' | 'nearest';
+
+export interface LineProfileData {
+  imageWidth: number;
+  imageHeight: number;
+  // Vertices in pixel coordinates (pixel centres are whole numbers), clamped to the image
+  points: PointValue[];
+  // Distance of each vertex from the start of the line
+  vertexDistances: number[];
+  length: number;
+  averagingWidth: number;
+  // Per sample; sample i lies at distance i from the start
+  red: Float32Array;
+  green: Float32Array;
+  blue: Float32Array;
+  gray: Float32Array;
+  // Derivative of the gray level along the line, in levels per pixel
+  gradient: Float32Array;
+  // R, G and B agree at every sample
+  isGrayscale: boolean;
+  statistics: {
+    minGray: number;
+    maxGray: number;
+    meanGray: number;
+    // Steepest slope (signed) and where it is
+    maxGradient: number;
+    maxGradientDistance: number;
+    // Distance over which the steepest edge rises from 10% to 90% of the gray range,
+    // null when the profile has no edge to measure
+    edgeWidth: number | null;
+  };
+}
+
+export interface LineProfileOptions {
+  // Pixels across the line averaged into each sample
+  averagingWidth?: number;
+  interpolation?: ProfileInterpolation;
+}
+
+interface Segment {
+  start: PointValue;
+  // Unit direction
+  dx: number;
+  dy: number;
+  length: number;
+  // Distance of the segment start from the start of the line
+  offset: number;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Default line: horizontally through the middle of the image
+ */
+export const getDefaultProfilePoints = (width: number, height: number): PointValue[] => [
+  { x: 0, y: Math.floor(height / 2) },
+  { x: width - 1, y: Math.floor(height / 2) }
+];
+
+// Position where the profile crosses a level, searching segment by segment from an index
+const findCrossing = (values: Float32Array, from: number, direction: 1 | -1, level: number): number | null => {
+  for (let i = from; i + direction >= 0 && i + direction < values.length; i += direction) {
+    const a = values[i];
+    const b = values[i + direction];
+    if (a !== b && (a - level) * (b - level) <= 0) {
+      return i + direction * (level - a) / (b - a);
+    }
+  }
+  return null;
+};
+
+export class LineProfileAnalyzer {
+  /**
+   * Sample an image along a polyline of at least two points
+   */
+  public analyze(imageData: ImageData, points: PointValue[], options: LineProfileOptions = {}): LineProfileData {
+    if (points.length < 2) {
+      throw new Error('A line profile needs at least two points');
+    }
+
+    const { width, height } = imageData;
+    const averagingWidth = Math.max(1, Math.round(options.averagingWidth || 1));
+    const interpolation = options.interpolation || 'bilinear';
+    const vertices = points.map(point => ({ x: clamp(point.x, 0, width - 1), y: clamp(point.y, 0, height - 1) }));
+
+    const segments: Segment[] = [];
+    const vertexDistances = [0];
+    let length = 0;
+    for (let i = 1; i < vertices.length; i++) {
+      const start = vertices[i - 1];
+      const segmentLength = Math.hypot(vertices[i].x - start.x, vertices[i].y - start.y);
+      if (segmentLength > 0) {
+        segments.push({
+          start,
+          dx: (vertices[i].x - start.x) / segmentLength,
+          dy: (vertices[i].y - start.y) / segmentLength,
+          length: segmentLength,
+          offset: length
+        });
+      }
+      length += segmentLength;
+      vertexDistances.push(length);
+    }
+    // All points on one spot: a single sample there
+    if (segments.length === 0) {
+      segments.push({ start: vertices[0], dx: 1, dy: 0, length: 0, offset: 0 });
+    }
+
+    const count = Math.floor(length) + 1;
+    const red = new Float32Array(count);
+    const green = new Float32Array(count);
+    const blue = new Float32Array(count);
+    const gray = new Float32Array(count);
+    const color = [0, 0, 0];
+    let segmentIndex = 0;
+
+    for (let i = 0; i < count; i++) {
+      while (segmentIndex < segments.length - 1 && i > segments[segmentIndex].offset + segments[segmentIndex].length) {
+        segmentIndex++;
+      }
+      const segment = segments[segmentIndex];
+      const along = i - segment.offset;
+      const cx = segment.start.x + segment.dx * along;
+      const cy = segment.start.y + segment.dy * along;
+
+      // Average across the line, along the segment's normal
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let k = 0; k < averagingWidth; k++) {
+        const across = k - (averagingWidth - 1) / 2;
+        this.sample(imageData, cx - segment.dy * across, cy + segment.dx * across, interpolation, color);
+        r += color[0];
+        g += color[1];
+        b += color[2];
+      }
+      red[i] = r / averagingWidth;
+      green[i] = g / averagingWidth;
+      blue[i] = b / averagingWidth;
+      gray[i] = 0.299 * red[i] + 0.587 * green[i] + 0.114 * blue[i];
+    }
+
+    // Central differences, one-sided at the ends
+    const gradient = new Float32Array(count);
+    for (let i = 0; i < count && count > 1; i++) {
+      const before = gray[Math.max(0, i - 1)];
+      const after = gray[Math.min(count - 1, i + 1)];
+      gradient[i] = (after - before) / (Math.min(count - 1, i + 1) - Math.max(0, i - 1));
+    }
+
+    let isGrayscale = true;
+    for (let i = 0; i < count && isGrayscale; i++) {
+      isGrayscale = Math.abs(red[i] - green[i]) < 0.5 && Math.abs(green[i] - blue[i]) < 0.5;
+    }
+
+    return {
+      imageWidth: width,
+      imageHeight: height,
+      points: vertices,
+      vertexDistances,
+      length,
+      averagingWidth,
+      red,
+      green,
+      blue,
+      gray,
+      gradient,
+      isGrayscale,
+      statistics: this.computeStatistics(gray, gradient)
+    };
+  }
+
+  /**
+   * Image with the profile line drawn on top: the averaging band, the line
+   * with its start (green) and end (red), and the steepest point (yellow)
+   */
+  public createVisualization(imageData: ImageData, data: LineProfileData): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    ctx.putImageData(imageData, 0, 0);
+    const lineWidth = Math.max(1, Math.max(canvas.width, canvas.height) / 300);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    const tracePath = () => {
+      ctx.beginPath();
+      data.points.forEach((point, index) => {
+        if (index === 0) ctx.moveTo(point.x + 0.5, point.y + 0.5);
+        else ctx.lineTo(point.x + 0.5, point.y + 0.5);
+      });
+    };
+
+    if (data.averagingWidth > 1) {
+      tracePath();
+      ctx.strokeStyle = 'rgba(244, 63, 94, 0.3)';
+      ctx.lineWidth = data.averagingWidth;
+      ctx.stroke();
+    }
+    tracePath();
+    ctx.strokeStyle = '#f43f5e';
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+
+    const drawDot = (point: PointValue, color: string) => {
+      ctx.beginPath();
+      ctx.arc(point.x + 0.5, point.y + 0.5, lineWidth * 2.5, 0, Math.PI * 2);
+      ctx.fillStyle = color;
+      ctx.fill();
+    };
+    drawDot(data.points[0], '#22c55e');
+    drawDot(data.points[data.points.length - 1], '#ef4444');
+    if (data.statistics.maxGradient !== 0) {
+      drawDot(this.pointAt(data, data.statistics.maxGradientDistance), '#facc15');
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Position on the line at a distance from its start
+   */
+  public pointAt(data: LineProfileData, distance: number): PointValue {
+    const { points, vertexDistances } = data;
+    for (let i = 1; i < points.length; i++) {
+      if (distance <= vertexDistances[i] || i === points.length - 1) {
+        const segmentLength = vertexDistances[i] - vertexDistances[i - 1];
+        const t = segmentLength > 0 ? clamp((distance - vertexDistances[i - 1]) / segmentLength, 0, 1) : 0;
+        return {
+          x: points[i - 1].x + (points[i].x - points[i - 1].x) * t,
+          y: points[i - 1].y + (points[i].y - points[i - 1].y) * t
+        };
+      }
+    }
+    return points[0];
+  }
+
+  /**
+   * Read a pixel value at a fractional position, clamped to the image
+   */
+  private sample(imageData: ImageData, x: number, y: number, interpolation: ProfileInterpolation, out: number[]): void {
+    const { data, width, height } = imageData;
+    const px = clamp(x, 0, width - 1);
+    const py = clamp(y, 0, height - 1);
+
+    if (interpolation === 'nearest') {
+      const index = (Math.round(py) * width + Math.round(px)) * 4;
+      out[0] = data[index];
+      out[1] = data[index + 1];
+      out[2] = data[index + 2];
+      return;
+    }
+
+    const x0 = Math.floor(px);
+    const y0 = Math.floor(py);
+    const x1 = Math.min(x0 + 1, width - 1);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fx = px - x0;
+    const fy = py - y0;
+    for (let c = 0; c < 3; c++) {
+      const top = data[(y0 * width + x0) * 4 + c] * (1 - fx) + data[(y0 * width + x1) * 4 + c] * fx;
+      const bottom = data[(y1 * width + x0) * 4 + c] * (1 - fx) + data[(y1 * width + x1) * 4 + c] * fx;
+      out[c] = top * (1 - fy) + bottom * fy;
+    }
+  }
+
+  private computeStatistics(gray: Float32Array, gradient: Float32Array): LineProfileData['statistics'] {
+    let minGray = Infinity;
+    let maxGray = -Infinity;
+    let sum = 0;
+    let peak = 0;
+    for (let i = 0; i < gray.length; i++) {
+      minGray = Math.min(minGray, gray[i]);
+      maxGray = Math.max(maxGray, gray[i]);
+      sum += gray[i];
+      if (Math.abs(gradient[i]) > Math.abs(gradient[peak])) peak = i;
+    }
+
+    // 10–90% rise of the steepest edge: the crossings on either side of the steepest point
+    let edgeWidth: number | null = null;
+    const range = maxGray - minGray;
+    if (range >= 1 && gradient[peak] !== 0) {
+      const rising = gradient[peak] > 0;
+      const low = minGray + 0.1 * range;
+      const high = minGray + 0.9 * range;
+      const before = findCrossing(gray, Math.min(peak + 1, gray.length - 1), -1, rising ? low : high);
+      const after = findCrossing(gray, Math.max(peak - 1, 0), 1, rising ? high : low);
+      if (before !== null && after !== null && after > before) {
+        edgeWidth = after - before;
+      }
+    }
+
+    return {
+      minGray,
+      maxGray,
+      meanGray: sum / gray.length,
+      maxGradient: gradient[peak],
+      maxGradientDistance: peak,
+      edgeWidth
+    };
+  }
+}
+
+// Export singleton instance
+export const lineProfileAnalyzer = new LineProfileAnalyzer();
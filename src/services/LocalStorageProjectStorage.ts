@@ -0,0 +1,204 @@
+import type { SavedProject } from '../utils/types';
+import { toProjectListItem, blobToDataUrl, dataUrlToBlob } from './ProjectStorage';
+import type { ProjectStorage, ProjectListItem, StoredProject, StorageInfo } from './ProjectStorage';
+
+// Keys shared with projects saved before pluggable storage existed
+const STORAGE_KEY_PREFIX = 'image_transform_lab_project_';
+const PROJECTS_LIST_KEY = 'image_transform_lab_projects';
+
+const MAX_PROJECT_SIZE = 3 * 1024 * 1024; // 3MB limit per project
+const MAX_TOTAL_STORAGE = 8 * 1024 * 1024; // 8MB total storage limit
+
+/**
+ * localStorage backend.
+ * Projects are stored as JSON with images inlined as data URLs, within a
+ * small fixed budget, so images handed to it should already be downscaled.
+ * Used when IndexedDB is unavailable and as the source of the one-time
+ * migration to IndexedDB.
+ */
+export class LocalStorageProjectStorage implements ProjectStorage {
+  public readonly name = 'localStorage';
+  public readonly lossless = false;
+
+  public async isAvailable(): Promise<boolean> {
+    try {
+      const probeKey = `${STORAGE_KEY_PREFIX}__probe__`;
+      localStorage.setItem(probeKey, '1');
+      localStorage.removeItem(probeKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async listProjects(): Promise<ProjectListItem[]> {
+    return this.readProjectsList();
+  }
+
+  public async loadProject(projectId: string): Promise<StoredProject | null> {
+    try {
+      const projectJson = localStorage.getItem(`${STORAGE_KEY_PREFIX}${projectId}`);
+      if (!projectJson) {
+        return null;
+      }
+
+      const project = JSON.parse(projectJson) as SavedProject;
+
+      // Basic structure validation
+      if (!project.id || !project.name || !project.state) {
+        console.warn(`⚠️ Invalid project structure for ID "${projectId}"`);
+        return null;
+      }
+
+      const images: Record<string, Blob> = {};
+      Object.entries(project.state.inputImages || {}).forEach(([nodeId, dataUrl]) => {
+        try {
+          images[nodeId] = dataUrlToBlob(dataUrl);
+        } catch (error) {
+          console.warn(`⚠️ Skipping unreadable input image for node ${nodeId}:`, error);
+        }
+      });
+
+      return {
+        project: { ...project, state: { ...project.state, inputImages: {} } },
+        images
+      };
+    } catch (error) {
+      console.error('❌ Error parsing project:', error);
+      return null;
+    }
+  }
+
+  public async saveProject(record: StoredProject): Promise<void> {
+    const { project } = record;
+
+    try {
+      const inputImages: Record<string, string> = {};
+      for (const [nodeId, blob] of Object.entries(record.images)) {
+        inputImages[nodeId] = await blobToDataUrl(blob);
+      }
+
+      const projectJson = JSON.stringify({ ...project, state: { ...project.state, inputImages } });
+
+      // Check if the serialized project is too large
+      const sizeInBytes = new Blob([projectJson]).size;
+      if (sizeInBytes > MAX_PROJECT_SIZE) {
+        throw new Error(`Project too large for storage (${(sizeInBytes / 1024 / 1024).toFixed(2)}MB > ${(MAX_PROJECT_SIZE / 1024 / 1024).toFixed(2)}MB). Consider reducing image sizes or simplifying the pipeline.`);
+      }
+
+      // Check total storage usage, not counting the copy being replaced
+      const existingData = localStorage.getItem(`${STORAGE_KEY_PREFIX}${project.id}`);
+      const existingSize = existingData ? new Blob([existingData]).size : 0;
+      const usedSpace = this.measureUsedSpace() - existingSize;
+      if (usedSpace + sizeInBytes > MAX_TOTAL_STORAGE) {
+        throw new Error(`Storage quota exceeded. Used: ${(usedSpace / 1024 / 1024).toFixed(2)}MB, Need: ${(sizeInBytes / 1024 / 1024).toFixed(2)}MB, Limit: ${(MAX_TOTAL_STORAGE / 1024 / 1024).toFixed(2)}MB. Please delete some projects manually.`);
+      }
+
+      localStorage.setItem(`${STORAGE_KEY_PREFIX}${project.id}`, projectJson);
+      this.writeListItem(toProjectListItem(project));
+
+      console.log(`💾 Project saved to localStorage (${(sizeInBytes / 1024).toFixed(2)}KB)`);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'QuotaExceededError') {
+        throw new Error('Storage quota exceeded. Please delete some projects or clear browser data.');
+      }
+
+      console.error('❌ Error saving project to localStorage:', error);
+      throw new Error(`Failed to save project to storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  public async deleteProject(projectId: string): Promise<boolean> {
+    try {
+      localStorage.removeItem(`${STORAGE_KEY_PREFIX}${projectId}`);
+
+      const projectsList = this.readProjectsList().filter(p => p.id !== projectId);
+      localStorage.setItem(PROJECTS_LIST_KEY, JSON.stringify(projectsList));
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting project from localStorage:', error);
+      return false;
+    }
+  }
+
+  public async getStorageInfo(): Promise<StorageInfo> {
+    try {
+      const usedSpace = this.measureUsedSpace();
+      const availableSpace = MAX_TOTAL_STORAGE - usedSpace;
+
+      return {
+        backend: this.name,
+        usedSpace,
+        totalProjects: this.readProjectsList().length,
+        availableSpace,
+        canSave: availableSpace > MAX_PROJECT_SIZE
+      };
+    } catch (error) {
+      console.error('❌ Error calculating storage info:', error);
+      return {
+        backend: this.name,
+        usedSpace: 0,
+        totalProjects: 0,
+        availableSpace: MAX_TOTAL_STORAGE,
+        canSave: false
+      };
+    }
+  }
+
+  // Size of all stored projects plus the projects list
+  private measureUsedSpace(): number {
+    let usedSpace = 0;
+
+    for (const project of this.readProjectsList()) {
+      const projectData = localStorage.getItem(`${STORAGE_KEY_PREFIX}${project.id}`);
+      if (projectData) {
+        usedSpace += new Blob([projectData]).size;
+      }
+    }
+
+    const projectsListData = localStorage.getItem(PROJECTS_LIST_KEY);
+    if (projectsListData) {
+      usedSpace += new Blob([projectsListData]).size;
+    }
+
+    return usedSpace;
+  }
+
+  private readProjectsList(): ProjectListItem[] {
+    try {
+      const projectsListJson = localStorage.getItem(PROJECTS_LIST_KEY);
+      if (!projectsListJson) return [];
+
+      const projectsList = JSON.parse(projectsListJson);
+
+      // Validate the projects list structure
+      if (!Array.isArray(projectsList)) {
+        console.warn('⚠️ Invalid projects list structure, resetting...');
+        localStorage.removeItem(PROJECTS_LIST_KEY);
+        return [];
+      }
+
+      return projectsList.filter(project =>
+        project && typeof project === 'object' && project.id && project.name
+      );
+    } catch (error) {
+      console.error('❌ Error parsing projects list:', error);
+      // Reset corrupted projects list
+      localStorage.removeItem(PROJECTS_LIST_KEY);
+      return [];
+    }
+  }
+
+  private writeListItem(item: ProjectListItem): void {
+    const projectsList = this.readProjectsList();
+    const existingIndex = projectsList.findIndex(p => p.id === item.id);
+
+    if (existingIndex >= 0) {
+      projectsList[existingIndex] = item;
+    } else {
+      projectsList.push(item);
+    }
+
+    localStorage.setItem(PROJECTS_LIST_KEY, JSON.stringify(projectsList));
+  }
+}
@@ -1,4 +1,5 @@
 import type { InspectionResult } from '../utils/types';
+import { applyColormap } from '../utils/colormaps';
 
 export interface ModuleData {
   magnitudeMap: Float32Array;
@@ -378,7 +379,7 @@ export class ModuleCalculator {
     // Apply colormap
     for (let i = 0; i < magnitudeMap.length; i++) {
       const value = magnitudeMap[i];
-      const color = this.applyColormap(value / 255, colormap);
+      const color = applyColormap(value / 255, colormap);
       
       const idx = i * 4;
       data[idx] = color.r;
@@ -390,54 +391,4 @@ export class ModuleCalculator {
     ctx.putImageData(imageData, 0, 0);
     return canvas;
   }
-
-  /**
-   * Apply colormap to value (0-1 range)
-   */
-  private applyColormap(value: number, colormap: string): { r: number, g: number, b: number } {
-    value = Math.max(0, Math.min(1, value)); // Clamp to [0,1]
-
-    switch (colormap) {
-      case 'jet':
-        return this.jetColormap(value);
-      case 'hot':
-        return this.hotColormap(value);
-      case 'cool':
-        return this.coolColormap(value);
-      default:
-        return this.jetColormap(value);
-    }
-  }
-
-  private jetColormap(value: number): { r: number, g: number, b: number } {
-    const r = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 3)));
-    const g = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 2)));
-    const b = Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 1)));
-    
-    return {
-      r: Math.round(r * 255),
-      g: Math.round(g * 255),
-      b: Math.round(b * 255)
-    };
-  }
-
-  private hotColormap(value: number): { r: number, g: number, b: number } {
-    const r = value < 0.33 ? value * 3 : 1;
-    const g = value < 0.33 ? 0 : value < 0.66 ? (value - 0.33) * 3 : 1;
-    const b = value < 0.66 ? 0 : (value - 0.66) * 3;
-    
-    return {
-      r: Math.round(r * 255),
-      g: Math.round(g * 255),
-      b: Math.round(b * 255)
-    };
-  }
-
-  private coolColormap(value: number): { r: number, g: number, b: number } {
-    return {
-      r: Math.round((1 - value) * 255),
-      g: Math.round(value * 255),
-      b: 255
-    };
-  }
 } 
\ No newline at end of file
@@ -5,9 +5,25 @@ import type {
   Transformation,
   Inspection,
   TransformationParameter,
-  InspectionParameter
+  InspectionParameter,
+  TransformationAnalysis,
+  InputPort
 } from '../utils/types';
-import { processImage } from '../utils/imageProcessing';
+import { 
+  processImage, 
+  processMultiInputImage, 
+  getTransformationInputPorts, 
+  isMultiInputTransformation,
+  isSourceTransformation,
+  getTransformationOutputPorts,
+  isMultiOutputTransformation
+} from '../utils/imageProcessing';
+import type { IntermediateResult } from '../utils/imageProcessing';
+import { getInspectionInputPorts, isMultiInputInspection } from '../utils/inspectionTemplates';
+import { workerPool, isAbortError } from './WorkerPool';
+import { ResultCache } from './ResultCache';
+import type { CachedResult, ResultCacheStats } from './ResultCache';
+import { hashBytes, hashString, stableStringify } from '../utils/hashing';
 
 /**
  * Event types for pipeline processing
@@ -21,6 +37,9 @@ export const PipelineEventType = {
   PROCESSING_STARTED: 'processing_started',
   PROCESSING_COMPLETED: 'processing_completed',
   PROCESSING_FAILED: 'processing_failed',
+  PROCESSING_PROGRESS: 'processing_progress',
+  PROCESSING_CANCELLED: 'processing_cancelled',
+  PROCESSING_BLOCKED: 'processing_blocked',
   PIPELINE_RESET: 'pipeline_reset',
   PIPELINE_INVALIDATED: 'pipeline_invalidated'
 } as const;
@@ -51,9 +70,35 @@ export interface NodeProcessingResult {
   canvas: HTMLCanvasElement | null;
   error: Error | null;
   processingTime: number;
-  status: 'success' | 'error' | 'pending' | 'idle';
+  // 'blocked': an upstream node failed, so this node could not run
+  status: 'success' | 'error' | 'pending' | 'idle' | 'blocked';
+  intermediates?: IntermediateResult[];
+  // Images of the named output ports of multi-output nodes (e.g. split channels)
+  outputs?: Record<string, HTMLCanvasElement>;
+  // Non-image data reported by the transformation, e.g. before/after histograms
+  analysis?: TransformationAnalysis;
+  // Content hash of the result: the pixels for input nodes, otherwise derived
+  // from the node's parameters and its inputs' hashes (the result cache key)
+  hash?: string;
+  // Progress of the current run while status is 'pending'
+  progress?: {
+    value: number;
+    stage: string;
+  };
 }
 
+/**
+ * Get the image an edge carries: the named output its source handle refers
+ * to, or the source node's result image
+ */
+export const getEdgeSourceCanvas = (
+  result: NodeProcessingResult | undefined,
+  edge: Pick<ImageProcessingEdge, 'sourceHandle'>
+): HTMLCanvasElement | null => {
+  if (!result || result.status !== 'success') return null;
+  return edge.sourceHandle ? result.outputs?.[edge.sourceHandle] || null : result.canvas;
+};
+
 /**
  * Main Pipeline Manager class
  * Manages the image processing pipeline including nodes, edges, and processing state
@@ -65,9 +110,15 @@ export class PipelineManager {
   private edges: Map<string, ImageProcessingEdge> = new Map();
   private observers: Set<PipelineObserver> = new Set();
   private processingResults: Map<string, NodeProcessingResult> = new Map();
-  private processingQueue: Set<string> = new Set();
+  private dirtyNodes: Set<string> = new Set(); // nodes waiting to be (re)processed
   private dependencyGraph: Map<string, Set<string>> = new Map(); // nodeId -> Set of dependent node IDs
   private inputImages: Map<string, HTMLImageElement> = new Map(); // nodeId -> input image
+  private activeRuns: Map<string, AbortController> = new Map(); // nodeId -> cancellation handle of the current run
+  private runningNodes: Map<string, Promise<NodeProcessingResult | null>> = new Map(); // nodeId -> in-flight run
+  private pipelineRun: Promise<void> | null = null;
+  private pipelineRerunRequested = false;
+  private processingScheduled = false;
+  private resultCache = new ResultCache();
 
   /**
    * Initialize the pipeline manager
@@ -80,10 +131,13 @@ export class PipelineManager {
    * Reset the entire pipeline
    */
   public resetPipeline(): void {
+    Array.from(this.activeRuns.keys()).forEach(nodeId => this.cancelNodeProcessing(nodeId));
+    
     this.nodes.clear();
     this.edges.clear();
     this.processingResults.clear();
-    this.processingQueue.clear();
+    this.dirtyNodes.clear();
+    this.resultCache.clear();
     this.dependencyGraph.clear();
     this.inputImages.clear();
 
@@ -210,6 +264,11 @@ export class PipelineManager {
       timestamp: Date.now()
     });
     
+    // Generators do not wait for an input, so produce their image right away
+    if (nodeTransformation && isSourceTransformation(nodeTransformation.type)) {
+      this.invalidateNodeAndDownstream(id);
+    }
+    
     return id;
   }
 
@@ -484,6 +543,8 @@ export class PipelineManager {
     const node = this.nodes.get(nodeId);
     if (!node) return false;
     
+    this.cancelNodeProcessing(nodeId);
+    
     // Remove all edges connected to this node
     const edgesToRemove = Array.from(this.edges.values())
       .filter(edge => edge.source === nodeId || edge.target === nodeId);
@@ -496,6 +557,7 @@ export class PipelineManager {
     this.nodes.delete(nodeId);
     this.processingResults.delete(nodeId);
     this.dependencyGraph.delete(nodeId);
+    this.dirtyNodes.delete(nodeId);
     
     // Remove the node from all dependency lists
     this.dependencyGraph.forEach((deps, _) => {
@@ -513,8 +575,16 @@ export class PipelineManager {
 
   /**
    * Add an edge to the pipeline
+   * @param targetHandle Input port on a multi-input target (ignored otherwise)
+   * @param sourceHandle Output port on a multi-output source (ignored otherwise)
    */
-  public addEdge(sourceId: string, targetId: string, edgeId?: string): string | null {
+  public addEdge(
+    sourceId: string,
+    targetId: string,
+    edgeId?: string,
+    targetHandle?: string,
+    sourceHandle?: string
+  ): string | null {
     // Get nodes from IDs
     const sourceNode = this.nodes.get(sourceId);
     const targetNode = this.nodes.get(targetId);
@@ -525,8 +595,26 @@ export class PipelineManager {
       return null;
     }
     
+    // Multi-input nodes need every edge bound to one of their named input ports
+    let port: string | undefined;
+    if (this.getNamedInputPorts(targetNode)) {
+      port = this.resolveInputPort(targetNode, targetHandle);
+      if (!port) {
+        console.warn(`Cannot create edge: no free input port on ${targetId}${targetHandle ? ` for "${targetHandle}"` : ''}`);
+        return null;
+      }
+    }
+    
+    // Multi-output nodes need every edge bound to one of their named output ports
+    let outputPort: string | undefined;
+    if (sourceNode.type === 'transformation' && sourceNode.transformation &&
+        isMultiOutputTransformation(sourceNode.transformation.type)) {
+      const outputPorts = getTransformationOutputPorts(sourceNode.transformation);
+      outputPort = (outputPorts.find(output => output.id === sourceHandle) || outputPorts[0])?.id;
+    }
+    
     // Check if connection already exists
-    if (this.edgeExists(sourceId, targetId)) {
+    if (this.edgeExists(sourceId, targetId, port, outputPort)) {
       console.warn(`Edge already exists between ${sourceId} and ${targetId}`);
       return null;
     }
@@ -538,13 +626,15 @@ export class PipelineManager {
     }
     
     // Create edge ID if not provided
-    const id = edgeId || `edge-${sourceId}-${targetId}`;
+    const id = edgeId || ['edge', sourceId, outputPort, targetId, port].filter(Boolean).join('-');
     
     // Create edge
     const edge: ImageProcessingEdge = {
       id,
       source: sourceId,
-      target: targetId
+      target: targetId,
+      ...(outputPort ? { sourceHandle: outputPort } : {}),
+      ...(port ? { targetHandle: port } : {})
     };
     
     // Add to edges map
@@ -604,8 +694,16 @@ export class PipelineManager {
     // Get the target node
     const targetNode = this.nodes.get(edge.target);
     
+    // The same source may still feed another input port of the target
+    const sourceStillConnected = Array.from(this.edges.values()).some(other => 
+      other.id !== edgeId && other.source === edge.source && other.target === edge.target
+    );
+    
     // Update the target node's inputNodes if it's a transformation
-    if (targetNode?.type === 'transformation' && targetNode.transformation) {
+    if (sourceStillConnected) {
+      // Keep inputNodes and the dependency graph as they are
+    }
+    else if (targetNode?.type === 'transformation' && targetNode.transformation) {
       const updatedInputNodes = targetNode.transformation.inputNodes.filter(
         id => id !== edge.source
       );
@@ -633,7 +731,7 @@ export class PipelineManager {
     
     // Update dependency graph
     const deps = this.dependencyGraph.get(edge.source);
-    if (deps) {
+    if (deps && !sourceStillConnected) {
       deps.delete(edge.target);
     }
     
@@ -653,11 +751,99 @@ export class PipelineManager {
   }
 
   /**
-   * Check if an edge already exists between two nodes
+   * Check if an edge already exists between two nodes (on the same ports)
+   */
+  private edgeExists(sourceId: string, targetId: string, targetHandle?: string, sourceHandle?: string): boolean {
+    return Array.from(this.edges.values()).some(edge => 
+      edge.source === sourceId && 
+      edge.target === targetId && 
+      edge.targetHandle === targetHandle &&
+      edge.sourceHandle === sourceHandle
+    );
+  }
+
+  /**
+   * Pick the input port for a new edge into a multi-input node.
+   * Uses the requested handle if it names a free port, otherwise the first free port.
    */
-  private edgeExists(sourceId: string, targetId: string): boolean {
-    const edgeId = `${sourceId}-${targetId}`;
-    return this.edges.has(edgeId);
+  private resolveInputPort(targetNode: ImageProcessingNode, targetHandle?: string): string | undefined {
+    const ports = this.getNamedInputPorts(targetNode) || [];
+    const occupied = new Set(
+      Array.from(this.edges.values())
+        .filter(edge => edge.target === targetNode.id && edge.targetHandle)
+        .map(edge => edge.targetHandle)
+    );
+    
+    const requested = ports.find(port => port.id === targetHandle);
+    if (requested) {
+      return occupied.has(requested.id) ? undefined : requested.id;
+    }
+    
+    return ports.find(port => !occupied.has(port.id))?.id;
+  }
+
+  /**
+   * Named input ports of a transformation or inspection that combines several
+   * images, or null for single-input nodes
+   */
+  private getNamedInputPorts(node: ImageProcessingNode): InputPort[] | null {
+    if (node.type === 'transformation' && node.transformation &&
+        isMultiInputTransformation(node.transformation.type)) {
+      return getTransformationInputPorts(node.transformation.type);
+    }
+    if (node.type === 'inspection' && node.inspection &&
+        isMultiInputInspection(node.inspection.type)) {
+      return getInspectionInputPorts(node.inspection.type);
+    }
+    return null;
+  }
+
+  /**
+   * Get the canvas connected to each input port of a multi-input node
+   */
+  private getPortInputCanvases(nodeId: string): Record<string, HTMLCanvasElement> {
+    const canvases: Record<string, HTMLCanvasElement> = {};
+    
+    Array.from(this.edges.values())
+      .filter(edge => edge.target === nodeId && edge.targetHandle)
+      .forEach(edge => {
+        canvases[edge.targetHandle!] = this.getEdgeCanvas(edge);
+      });
+    
+    return canvases;
+  }
+
+  /**
+   * Get the canvas an edge delivers to its target
+   */
+  private getEdgeCanvas(edge: ImageProcessingEdge): HTMLCanvasElement {
+    const canvas = getEdgeSourceCanvas(this.processingResults.get(edge.source), edge);
+    
+    // Double-check that input is successful
+    if (!canvas) {
+      throw new Error(edge.sourceHandle
+        ? `Output "${edge.sourceHandle}" of the input node is not available`
+        : 'Input node has not been successfully processed');
+    }
+    
+    return canvas;
+  }
+
+  /**
+   * Content hash of the image an edge carries; each named output of a
+   * multi-output node hashes differently
+   */
+  private getEdgeHash(edge: ImageProcessingEdge): string | undefined {
+    const hash = this.processingResults.get(edge.source)?.hash;
+    if (!hash) return undefined;
+    return edge.sourceHandle ? hashString(`${hash}:${edge.sourceHandle}`) : hash;
+  }
+
+  /**
+   * Get the edges feeding a node
+   */
+  private getInputEdges(nodeId: string): ImageProcessingEdge[] {
+    return Array.from(this.edges.values()).filter(edge => edge.target === nodeId);
   }
 
   /**
@@ -701,28 +887,22 @@ export class PipelineManager {
     if (ctx) {
       ctx.drawImage(image, 0, 0);
       
+      // Content-address the pixels so downstream results can be memoized
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const hash = hashString(`${canvas.width}x${canvas.height}:${hashBytes(pixels.data)}`);
+      
       // Store the result
       this.processingResults.set(nodeId, {
         nodeId,
         canvas,
         error: null,
         processingTime: 0,
-        status: 'success'
+        status: 'success',
+        hash
       });
       
-      // Invalidate downstream nodes
-      this.invalidateDownstreamNodes(nodeId);
-      
-      // Process downstream nodes directly after successful processing (similar to processNode method)
-      const downstreamNodes = this.getDirectDependents(nodeId);
-      if (downstreamNodes.length > 0) {
-        // Use a small timeout to prevent stack overflow with deep pipelines
-        setTimeout(() => {
-          downstreamNodes.forEach(dependentId => {
-            this.processNode(dependentId);
-          });
-        }, 50);
-      }
+      // Invalidate downstream nodes and let the scheduler process them
+      this.invalidateNodeAndDownstream(nodeId);
       
       return true;
     }
@@ -770,133 +950,244 @@ export class PipelineManager {
     
     console.log(`Invalidating node ${nodeId} and downstream nodes`);
     
-    // Clear the processing queue for this node
-    this.processingQueue.delete(nodeId);
+    // Input nodes keep their image, only what is computed from it is stale
+    if (node.type !== 'input') {
+      this.markDirty(nodeId);
+    }
+    
+    // Invalidate all downstream nodes recursively
+    this.invalidateDownstreamNodes(nodeId);
+    
+    // Automatically start processing the pipeline
+    this.scheduleProcessing();
+  }
+
+  /**
+   * Invalidate all downstream nodes of a given node
+   */
+  private invalidateDownstreamNodes(nodeId: string): void {
+    const downstreamNodes = this.getAllDownstreamNodes(nodeId);
     
-    // Reset the processing result for this node
-    const currentResult = this.processingResults.get(nodeId);
-    if (currentResult) {
+    console.log(`Invalidating downstream nodes of ${nodeId}:`, downstreamNodes);
+    
+    downstreamNodes.forEach(id => this.markDirty(id));
+  }
+
+  /**
+   * Flag a node for reprocessing: cancel its current run and clear its result
+   */
+  private markDirty(nodeId: string): void {
+    // Its inputs or parameters changed, so any running work is stale
+    this.cancelNodeProcessing(nodeId);
+    this.dirtyNodes.add(nodeId);
+    
+    const result = this.processingResults.get(nodeId);
+    if (result) {
       this.processingResults.set(nodeId, {
-        ...currentResult,
+        ...result,
         status: 'idle',
         error: null,
         // Clear the canvas to force complete reprocessing
-        canvas: null
+        canvas: null,
+        progress: undefined
       });
     }
     
-    // Notify that the node has been invalidated
     this.notifyObservers({
       type: PipelineEventType.PIPELINE_INVALIDATED,
       payload: { nodeId },
       timestamp: Date.now()
     });
+  }
+
+  /**
+   * Start a pipeline run shortly, coalescing bursts of invalidations
+   * (e.g. a slider being dragged) into a single run
+   */
+  private scheduleProcessing(): void {
+    if (this.processingScheduled) return;
+    this.processingScheduled = true;
     
-    // Invalidate all downstream nodes recursively
-    this.invalidateDownstreamNodes(nodeId);
-    
-    // Automatically start processing the pipeline
     setTimeout(() => {
+      this.processingScheduled = false;
       this.processPipeline();
     }, 50);
   }
 
   /**
-   * Invalidate all downstream nodes of a given node
+   * Cancel the in-flight run of a node, if any.
+   * Worker jobs are stopped immediately; main-thread runs finish but their
+   * result is discarded.
    */
-  private invalidateDownstreamNodes(nodeId: string): void {
-    const downstreamNodes = this.getAllDownstreamNodes(nodeId);
+  public cancelNodeProcessing(nodeId: string): boolean {
+    const controller = this.activeRuns.get(nodeId);
+    if (!controller) return false;
     
-    console.log(`Invalidating downstream nodes of ${nodeId}:`, downstreamNodes);
+    this.activeRuns.delete(nodeId);
+    this.runningNodes.delete(nodeId);
+    controller.abort();
     
-    // Mark all downstream nodes as invalidated
-    downstreamNodes.forEach(id => {
-      // Clear the processing queue for this node
-      this.processingQueue.delete(id);
-      
-      const result = this.processingResults.get(id);
-      if (result) {
-        this.processingResults.set(id, {
-          ...result,
-          status: 'idle',
-          error: null,
-          // Clear the canvas to force complete reprocessing
-          canvas: null
-        });
-        
-        // Notify that this downstream node has been invalidated
-        this.notifyObservers({
-          type: PipelineEventType.PIPELINE_INVALIDATED,
-          payload: { nodeId: id },
-          timestamp: Date.now()
+    this.notifyObservers({
+      type: PipelineEventType.PROCESSING_CANCELLED,
+      payload: { nodeId },
+      timestamp: Date.now()
+    });
+    
+    return true;
+  }
+
+  /**
+   * Run a transformation in the worker pool, or on the main thread when
+   * workers are unavailable. The worker takes over the pixel buffers it is
+   * given, so the inputs are read again for a main-thread retry.
+   */
+  private async runTransformation(
+    nodeId: string,
+    transformation: Transformation,
+    readInputs: () => Record<string, ImageData>,
+    signal: AbortSignal
+  ): Promise<{
+    result: ImageData;
+    intermediates: IntermediateResult[];
+    outputs?: Record<string, ImageData>;
+    analysis?: TransformationAnalysis;
+  }> {
+    const multiInput = isMultiInputTransformation(transformation.type);
+    
+    if (workerPool.isSupported()) {
+      try {
+        return await workerPool.run(transformation, readInputs(), {
+          multiInput,
+          includeIntermediates: true,
+          signal,
+          onProgress: (value, stage) => this.reportProgress(nodeId, value, stage, signal)
         });
+      } catch (error) {
+        // Only fall back when the pool itself broke down, not on processing errors
+        if (isAbortError(error) || workerPool.isSupported()) {
+          throw error;
+        }
+        console.warn('Worker pool unavailable, processing on the main thread:', error);
       }
+    }
+    
+    const inputs = readInputs();
+    const processResult = multiInput
+      ? await processMultiInputImage(inputs, transformation, true)
+      : await processImage(inputs.input, transformation, true);
+    
+    return {
+      result: processResult.result,
+      intermediates: processResult.intermediates || [],
+      outputs: processResult.outputs,
+      analysis: processResult.analysis
+    };
+  }
+
+  /**
+   * Record and broadcast the progress of a running node
+   */
+  private reportProgress(nodeId: string, value: number, stage: string, signal: AbortSignal): void {
+    const result = this.processingResults.get(nodeId);
+    if (signal.aborted || !result || result.status !== 'pending') return;
+    
+    this.processingResults.set(nodeId, {
+      ...result,
+      progress: { value, stage }
     });
+    
+    this.notifyObservers({
+      type: PipelineEventType.PROCESSING_PROGRESS,
+      payload: { nodeId, progress: value, stage },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Get the IDs of the nodes feeding a node, in edge order
+   */
+  private getInputNodeIds(nodeId: string): string[] {
+    const inputIds = Array.from(this.edges.values())
+      .filter(edge => edge.target === nodeId)
+      .map(edge => edge.source);
+    
+    return Array.from(new Set(inputIds));
   }
 
   /**
-   * Process a specific node in the pipeline
+   * Process a single node whose inputs have already been processed.
+   * Concurrent requests for the same node share one run. Dependency ordering
+   * is the scheduler's job (see processPipeline), so a node whose inputs are
+   * not ready is left idle, and one whose inputs failed is marked blocked.
    */
-  public async processNode(nodeId: string): Promise<NodeProcessingResult | null> {
+  public processNode(nodeId: string): Promise<NodeProcessingResult | null> {
+    const running = this.runningNodes.get(nodeId);
+    if (running) return running;
+    
+    const run = this.runNode(nodeId);
+    this.runningNodes.set(nodeId, run);
+    
+    const cleanUp = () => {
+      if (this.runningNodes.get(nodeId) === run) {
+        this.runningNodes.delete(nodeId);
+      }
+    };
+    run.then(cleanUp, cleanUp);
+    
+    return run;
+  }
+
+  private async runNode(nodeId: string): Promise<NodeProcessingResult | null> {
     const node = this.nodes.get(nodeId);
     if (!node) return null;
     
-    // If the node is already in the processing queue, mark it for reprocessing
-    // but don't start a new processing operation yet
-    if (this.processingQueue.has(nodeId)) {
-      // Mark the node as needing reprocessing once the current processing is done
-      const currentResult = this.processingResults.get(nodeId);
-      if (currentResult && currentResult.status === 'pending') {
-        this.processingResults.set(nodeId, {
-          ...currentResult,
-          status: 'idle'  // Will be picked up for reprocessing once current processing completes
-        });
-      }
+    // Input nodes are "processed" when their image is set
+    if (node.type === 'input') {
+      this.dirtyNodes.delete(nodeId);
+      return this.processingResults.get(nodeId) || null;
+    }
+    
+    const inputNodeIds = this.getInputNodeIds(nodeId);
+    const inputResults = inputNodeIds.map(id => this.processingResults.get(id));
+    
+    // A failed or blocked input means this node cannot produce a result
+    const failedInputs = inputNodeIds.filter((_, index) => {
+      const status = inputResults[index]?.status;
+      return status === 'error' || status === 'blocked';
+    });
+    if (failedInputs.length > 0) {
+      this.dirtyNodes.delete(nodeId);
+      this.markBlocked(nodeId, failedInputs);
+      return this.processingResults.get(nodeId) || null;
+    }
+    
+    // Unconnected nodes, or inputs without data yet (e.g. no image loaded): stay dirty and wait.
+    // Generators have no inputs and run on their parameters alone.
+    const isSource = node.type === 'transformation' && !!node.transformation &&
+      isSourceTransformation(node.transformation.type);
+    if ((inputNodeIds.length === 0 && !isSource) || inputResults.some(result => !result || result.status !== 'success')) {
       return null;
     }
     
-    // For transformation nodes, ensure all input nodes are processed first
-    if ((node.type === 'transformation' && node.transformation) || 
-        (node.type === 'inspection' && node.inspection)) {
-      const inputNodeIds = node.type === 'transformation' 
-        ? node.transformation!.inputNodes 
-        : node.inspection!.inputNodes;
-      
-      // Check if any input nodes are still processing
-      const pendingInputs = inputNodeIds.filter(id => {
-        const inputResult = this.processingResults.get(id);
-        return !inputResult || inputResult.status === 'pending' || inputResult.status === 'idle';
-      });
-      
-      if (pendingInputs.length > 0) {
-        // Mark this node as idle so it will be processed once inputs are done
-        const currentResult = this.processingResults.get(nodeId) || {
-          nodeId,
-          canvas: null,
-          error: null,
-          processingTime: 0,
-          status: 'idle'
-        };
-        
-        this.processingResults.set(nodeId, {
-          ...currentResult,
-          status: 'idle'
-        });
-        
-        // Schedule this node to be processed again after a short delay
-        setTimeout(() => {
-          this.processNode(nodeId);
-        }, 50);
-        
-        return null;
-      }
+    this.dirtyNodes.delete(nodeId);
+    
+    // Transformations are memoized on their parameters and input content, so
+    // returning to earlier settings is served from the cache
+    const cacheKey = node.type === 'transformation' && node.transformation
+      ? this.getResultCacheKey(nodeId, node.transformation)
+      : null;
+    const cached = cacheKey ? this.resultCache.get(cacheKey) : undefined;
+    if (cacheKey && cached) {
+      this.applyCachedResult(nodeId, cacheKey, cached);
+      return this.processingResults.get(nodeId) || null;
     }
     
-    // Add the node to the processing queue
-    this.processingQueue.add(nodeId);
+    // Handle used to cancel this run when the node is invalidated mid-run
+    const controller = new AbortController();
+    this.activeRuns.set(nodeId, controller);
     
     // Update the node's processing status
-    let result = this.processingResults.get(nodeId) || {
+    const result = this.processingResults.get(nodeId) || {
       nodeId,
       canvas: null,
       error: null,
@@ -906,7 +1197,8 @@ export class PipelineManager {
     
     this.processingResults.set(nodeId, {
       ...result,
-      status: 'pending'
+      status: 'pending',
+      progress: undefined
     });
     
     this.notifyObservers({
@@ -917,47 +1209,39 @@ export class PipelineManager {
     
     try {
       let canvas: HTMLCanvasElement | null = null;
+      let intermediates: IntermediateResult[] = [];
+      let outputs: Record<string, HTMLCanvasElement> | undefined;
+      let analysis: TransformationAnalysis | undefined;
       const startTime = performance.now();
       
+      // Single-input nodes read the first edge into them
+      const inputEdge = this.getInputEdges(nodeId)[0];
+      
       // Process based on node type
-      if (node.type === 'input') {
-        // Input nodes use their set image
-        const inputResult = this.processingResults.get(nodeId);
-        canvas = inputResult?.canvas || null;
-      } 
-      else if (node.type === 'transformation' && node.transformation) {
-        // Ensure all input nodes have been processed
-        const inputNodeIds = node.transformation.inputNodes;
-        
-        // If no input nodes, can't process
-        if (inputNodeIds.length === 0) {
-          throw new Error('Transformation node has no input nodes');
-        }
-        
-        // Get the first input node's result (for now we only support one input)
-        const inputNodeId = inputNodeIds[0];
-        const inputResult = this.processingResults.get(inputNodeId);
-        
-        // Double-check that input is successful
-        if (!inputResult || inputResult.status !== 'success' || !inputResult.canvas) {
-          throw new Error('Input node has not been successfully processed');
-        }
-        
-        // Get image data from the input canvas
-        const ctx = inputResult.canvas.getContext('2d', { willReadFrequently: true });
-        if (!ctx) {
-          throw new Error('Failed to get context from input canvas');
-        }
+      if (node.type === 'transformation' && node.transformation) {
+        // Multi-input nodes read one image per named input port, the others their first input node
+        const inputCanvases = isMultiInputTransformation(node.transformation.type)
+          ? this.getPortInputCanvases(nodeId)
+          : { input: this.getEdgeCanvas(inputEdge) };
         
-        const imageData = ctx.getImageData(
-          0, 0, inputResult.canvas.width, inputResult.canvas.height
-        );
+        const readInputs = () => {
+          const inputImageData: Record<string, ImageData> = {};
+          Object.entries(inputCanvases).forEach(([portId, inputCanvas]) => {
+            const ctx = inputCanvas.getContext('2d', { willReadFrequently: true });
+            if (!ctx) {
+              throw new Error('Failed to get context from input canvas');
+            }
+            inputImageData[portId] = ctx.getImageData(0, 0, inputCanvas.width, inputCanvas.height);
+          });
+          return inputImageData;
+        };
         
         // Process the image
-        const processResult = await processImage(
-          imageData,
+        const processResult = await this.runTransformation(
+          nodeId,
           node.transformation,
-          true // Include intermediate results
+          readInputs,
+          controller.signal
         );
         
         // Create a canvas with the result
@@ -971,131 +1255,110 @@ export class PipelineManager {
         }
         
         resultCtx.putImageData(processResult.result, 0, 0);
-      }
-      else if (node.type === 'inspection' && node.inspection) {
-        // Inspection nodes analyze the input image without transforming it
-        const inputNodeIds = node.inspection.inputNodes;
-        
-        // If no input nodes, can't process
-        if (inputNodeIds.length === 0) {
-          throw new Error('Inspection node has no input nodes');
-        }
         
-        // Get the first input node's result (for now we only support one input)
-        const inputNodeId = inputNodeIds[0];
-        const inputResult = this.processingResults.get(inputNodeId);
+        // Keep the intermediate stages so the node can show its processing steps
+        intermediates = processResult.intermediates;
+        analysis = processResult.analysis;
         
-        // Double-check that input is successful
-        if (!inputResult || inputResult.status !== 'success' || !inputResult.canvas) {
-          throw new Error('Input node has not been successfully processed');
+        // Multi-output transformations (single- or multi-input) deliver one image per named output port
+        if (processResult.outputs) {
+          outputs = {};
+          for (const [portId, imageData] of Object.entries(processResult.outputs)) {
+            const outputCanvas = document.createElement('canvas');
+            outputCanvas.width = imageData.width;
+            outputCanvas.height = imageData.height;
+            outputCanvas.getContext('2d', { willReadFrequently: true })?.putImageData(imageData, 0, 0);
+            outputs[portId] = outputCanvas;
+          }
         }
-        
+      }
+      else if (node.type === 'inspection' && node.inspection) {
+        // Inspection nodes analyze the input image without transforming it.
         // For inspection nodes, we don't create a new canvas - we use the input canvas
         // The inspection results are stored in the node's metadata or handled by the UI
-        canvas = inputResult.canvas;
-        
-        // Here you could add specific inspection analysis logic
-        // For now, we just pass through the input canvas
-        // The actual inspection analysis would be done in the InspectionNode component
+        canvas = this.getEdgeCanvas(inputEdge);
       }
       else if (node.type === 'output') {
         // Output nodes just pass through their input
-        const inputEdges = Array.from(this.edges.values())
-          .filter(edge => edge.target === nodeId);
+        const inputCanvas = this.getEdgeCanvas(inputEdge);
         
-        if (inputEdges.length > 0) {
-          const inputNodeId = inputEdges[0].source;
-          const inputResult = this.processingResults.get(inputNodeId);
-          
-          if (inputResult && inputResult.status === 'success' && inputResult.canvas) {
-            // Create a new canvas instead of using the reference directly
-            canvas = document.createElement('canvas');
-            canvas.width = inputResult.canvas.width;
-            canvas.height = inputResult.canvas.height;
-            
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-              // Draw the input canvas onto the new canvas
-              ctx.drawImage(inputResult.canvas, 0, 0);
-            }
-          } else {
-            // If input isn't ready, schedule this node to be processed later
-            setTimeout(() => {
-              this.processNode(nodeId);
-            }, 50);
-            throw new Error('Input node not yet processed, retrying later');
-          }
+        // Create a new canvas instead of using the reference directly
+        canvas = document.createElement('canvas');
+        canvas.width = inputCanvas.width;
+        canvas.height = inputCanvas.height;
+        
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          // Draw the input canvas onto the new canvas
+          ctx.drawImage(inputCanvas, 0, 0);
         }
       }
       
+      // The node was invalidated while running, the next run owns its state now
+      if (controller.signal.aborted) {
+        return null;
+      }
+      
       const processingTime = performance.now() - startTime;
       
+      // Pass-through nodes (inspection, output) share their input's content hash
+      const hash = cacheKey ?? this.getEdgeHash(inputEdge);
+      if (cacheKey && canvas) {
+        this.resultCache.set(cacheKey, { canvas, intermediates, outputs, analysis, processingTime });
+      }
+      
       // Update the processing result
       this.processingResults.set(nodeId, {
         nodeId,
         canvas,
         error: null,
         processingTime,
-        status: canvas ? 'success' : 'error'
+        status: canvas ? 'success' : 'error',
+        intermediates,
+        outputs,
+        analysis,
+        hash
       });
       
       // Notify that processing completed successfully
       this.notifyObservers({
         type: PipelineEventType.PROCESSING_COMPLETED,
-        payload: { 
-          nodeId, 
+        payload: {
+          nodeId,
           processingTime,
           hasResult: !!canvas
         },
         timestamp: Date.now()
       });
-      
-      // Process downstream nodes immediately after successful processing
-      const downstreamNodes = this.getDirectDependents(nodeId);
-      if (downstreamNodes.length > 0) {
-        // Use a small timeout to prevent stack overflow with deep pipelines
-        setTimeout(() => {
-          downstreamNodes.forEach(dependentId => {
-            this.processNode(dependentId);
-          });
-        }, 0);
-      }
-    } 
+    }
     catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) {
+        return null;
+      }
+      
       const error = err instanceof Error ? err : new Error(String(err));
       
-      // Only update as error if it's not a retry-able error
-      if (error.message !== 'Input node not yet processed, retrying later') {
-        // Update the processing result with the error
-        this.processingResults.set(nodeId, {
+      // Update the processing result with the error
+      this.processingResults.set(nodeId, {
+        nodeId,
+        canvas: null,
+        error,
+        processingTime: 0,
+        status: 'error'
+      });
+      
+      this.notifyObservers({
+        type: PipelineEventType.PROCESSING_FAILED,
+        payload: {
           nodeId,
-          canvas: null,
-          error,
-          processingTime: 0,
-          status: 'error'
-        });
-        
-        this.notifyObservers({
-          type: PipelineEventType.PROCESSING_FAILED,
-          payload: { 
-            nodeId, 
-            error: error.message
-          },
-          timestamp: Date.now()
-        });
-      }
+          error: error.message
+        },
+        timestamp: Date.now()
+      });
     }
     finally {
-      // Remove the node from the processing queue
-      this.processingQueue.delete(nodeId);
-      
-      // Check if the node needs to be reprocessed (marked as idle during processing)
-      const currentResult = this.processingResults.get(nodeId);
-      if (currentResult && currentResult.status === 'idle') {
-        // Schedule reprocessing in the next tick to avoid recursion
-        setTimeout(() => {
-          this.processNode(nodeId);
-        }, 0);
+      if (this.activeRuns.get(nodeId) === controller) {
+        this.activeRuns.delete(nodeId);
       }
     }
     
@@ -1103,21 +1366,154 @@ export class PipelineManager {
   }
 
   /**
-   * Process the entire pipeline, starting from input nodes
+   * Build the result cache key of a transformation node from its type,
+   * parameters and the content hashes of its inputs
+   */
+  private getResultCacheKey(nodeId: string, transformation: Transformation): string | null {
+    const inputHashes: Record<string, string> = {};
+    const inputEdges = this.getInputEdges(nodeId);
+    
+    if (isMultiInputTransformation(transformation.type)) {
+      for (const edge of inputEdges) {
+        if (!edge.targetHandle) continue;
+        const hash = this.getEdgeHash(edge);
+        if (!hash) return null;
+        inputHashes[edge.targetHandle] = hash;
+      }
+    } else {
+      const hash = inputEdges.length > 0 ? this.getEdgeHash(inputEdges[0]) : undefined;
+      if (!hash) return null;
+      inputHashes.input = hash;
+    }
+    
+    return hashString(stableStringify({
+      type: transformation.type,
+      parameters: transformation.parameters.map(param => [param.name, param.value]),
+      advancedParameters: transformation.metadata?.advancedParameters,
+      inputs: inputHashes
+    }));
+  }
+
+  /**
+   * Complete a node from the result cache without reprocessing
+   */
+  private applyCachedResult(nodeId: string, hash: string, cached: CachedResult): void {
+    this.processingResults.set(nodeId, {
+      nodeId,
+      canvas: cached.canvas,
+      error: null,
+      processingTime: cached.processingTime,
+      status: 'success',
+      intermediates: cached.intermediates,
+      outputs: cached.outputs,
+      analysis: cached.analysis,
+      hash
+    });
+    
+    this.notifyObservers({
+      type: PipelineEventType.PROCESSING_COMPLETED,
+      payload: {
+        nodeId,
+        processingTime: 0,
+        hasResult: true,
+        cached: true
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Get result cache usage
+   */
+  public getResultCacheStats(): ResultCacheStats {
+    return this.resultCache.getStats();
+  }
+
+  /**
+   * Change the result cache limits (entry count and RGBA bytes)
+   */
+  public setResultCacheLimits(maxEntries: number, maxBytes: number): void {
+    this.resultCache.setLimits(maxEntries, maxBytes);
+  }
+
+  /**
+   * Drop all memoized results
    */
-  public async processPipeline(): Promise<void> {
-    // Find all input nodes
-    const inputNodes = Array.from(this.nodes.values())
-      .filter(node => node.type === 'input');
-    
-    // Process each input node
-    for (const node of inputNodes) {
-      await this.processNode(node.id);
+  public clearResultCache(): void {
+    this.resultCache.clear();
+  }
+
+  /**
+   * Mark a node as blocked by failed upstream nodes
+   */
+  private markBlocked(nodeId: string, failedInputIds: string[]): void {
+    const error = new Error(
+      `Upstream node${failedInputIds.length > 1 ? 's' : ''} failed: ${failedInputIds.join(', ')}`
+    );
+    
+    this.processingResults.set(nodeId, {
+      nodeId,
+      canvas: null,
+      error,
+      processingTime: 0,
+      status: 'blocked'
+    });
+    
+    this.notifyObservers({
+      type: PipelineEventType.PROCESSING_BLOCKED,
+      payload: { nodeId, blockedBy: failedInputIds },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Process every dirty node in topological order.
+   * Independent branches run concurrently, each node starting as soon as its
+   * inputs have settled. Calls made while a run is in progress are merged
+   * into it: the run repeats until no dirty node can make progress, and every
+   * caller's promise resolves once the whole pipeline has settled.
+   */
+  public processPipeline(): Promise<void> {
+    if (this.pipelineRun) {
+      this.pipelineRerunRequested = true;
+      return this.pipelineRun;
+    }
+    
+    this.pipelineRun = (async () => {
+      try {
+        do {
+          this.pipelineRerunRequested = false;
+          await this.runScheduledPass();
+        } while (this.pipelineRerunRequested);
+      } finally {
+        this.pipelineRun = null;
+      }
+    })();
+    
+    return this.pipelineRun;
+  }
+
+  /**
+   * One pass over the graph: chain every node behind the runs of its inputs
+   */
+  private async runScheduledPass(): Promise<void> {
+    const order = this.getTopologicalOrder();
+    const runs = new Map<string, Promise<unknown>>();
+    
+    for (const nodeId of order) {
+      const inputRuns = this.getInputNodeIds(nodeId).map(id => runs.get(id));
+      runs.set(nodeId, Promise.all(inputRuns).then(() => {
+        if (!this.dirtyNodes.has(nodeId)) return null;
+        return this.processNode(nodeId);
+      }));
     }
+    
+    await Promise.all(runs.values());
   }
 
   /**
-   * Get a topologically sorted list of nodes (for ordered processing)
+   * Get a topologically sorted list of nodes (for ordered processing).
+   * Every node comes after all of its inputs; ties keep insertion order.
    */
   public getTopologicalOrder(): string[] {
     const result: string[] = [];
@@ -1135,12 +1531,9 @@ export class PipelineManager {
       
       temp.add(nodeId);
       
-      // Visit all nodes that this node depends on
-      const node = this.nodes.get(nodeId);
-      if (node && node.type === 'transformation' && node.transformation) {
-        for (const inputId of node.transformation.inputNodes) {
-          visit(inputId);
-        }
+      // Visit all nodes that this node depends on first
+      for (const inputId of this.getInputNodeIds(nodeId)) {
+        visit(inputId);
       }
       
       temp.delete(nodeId);
@@ -1155,7 +1548,7 @@ export class PipelineManager {
       }
     }
     
-    return result.reverse(); // Reverse to get correct order
+    return result;
   }
 
   // Add the method to the PipelineManager class
@@ -1236,6 +1629,11 @@ export class PipelineManager {
       timestamp: Date.now()
     });
     
+    // Generators are regenerated from their saved parameters
+    if (node.transformation && isSourceTransformation(node.transformation.type)) {
+      this.invalidateNodeAndDownstream(id);
+    }
+    
     return node;
   }
 
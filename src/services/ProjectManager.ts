@@ -1,8 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { 
-  SavedProject, 
-  SerializedPipelineState, 
-  SerializedNode, 
+import type {
+  SavedProject,
+  SerializedPipelineState,
+  SerializedNode,
   SerializedEdge,
   ImageProcessingNode,
   ImageProcessingEdge,
@@ -10,18 +10,28 @@ import type {
   Transformation
 } from '../utils/types';
 import { pipelineManager } from './PipelineManager';
+import { createZip, readZip } from '../utils/zipArchive';
+import { dataUrlToBlob } from './ProjectStorage';
+import type { ProjectStorage, ProjectListItem, StoredProject, StorageInfo } from './ProjectStorage';
+import { LocalStorageProjectStorage } from './LocalStorageProjectStorage';
+import { IndexedDBProjectStorage } from './IndexedDBProjectStorage';
 
 // Constants
-const STORAGE_KEY_PREFIX = 'image_transform_lab_project_';
-const PROJECTS_LIST_KEY = 'image_transform_lab_projects';
 const CURRENT_PROJECT_KEY = 'image_transform_lab_current_project';
+const MIGRATION_KEY = 'image_transform_lab_indexeddb_migrated';
 const APP_VERSION = '1.0.0'; // Update when making breaking changes to the schema
 
-// Storage optimization constants
+// Storage optimization constants (lossy backends only)
 const MAX_IMAGE_SIZE = 512; // Max dimension for stored images
 const IMAGE_QUALITY = 0.8; // JPEG quality for compression
-const MAX_PROJECT_SIZE = 3 * 1024 * 1024; // 3MB limit per project
-const MAX_TOTAL_STORAGE = 8 * 1024 * 1024; // 8MB total storage limit
+
+// Project bundle (.itlab) constants
+const BUNDLE_FORMAT = 'itlab';
+const BUNDLE_FORMAT_VERSION = 1; // Update when changing the bundle layout
+const BUNDLE_EXTENSION = '.itlab';
+const BUNDLE_MIME_TYPE = 'application/zip';
+const BUNDLE_MANIFEST_PATH = 'manifest.json';
+const BUNDLE_IMAGES_DIR = 'images/';
 
 // Migration and validation
 interface ProjectValidationResult {
@@ -31,157 +41,99 @@ interface ProjectValidationResult {
   migratedData?: SerializedPipelineState;
 }
 
-// Storage utilities
-interface StorageInfo {
-  usedSpace: number;
-  totalProjects: number;
-  availableSpace: number;
-  canSave: boolean;
+// Bundle manifest; state.inputImages holds archive paths instead of data URLs
+interface ProjectBundleManifest {
+  format: string;
+  formatVersion: number;
+  exportedAt: number;
+  project: SavedProject;
 }
 
 /**
- * ProjectManager handles saving and loading projects from localStorage
+ * ProjectManager handles saving and loading projects through a pluggable storage backend.
+ * IndexedDB is used when available, keeping input images at full resolution;
+ * otherwise projects fall back to localStorage with downscaled images.
  * Uses proper error handling, validation, compression, and storage optimization
  */
 export class ProjectManager {
+  // Resolved once, on first use, together with the localStorage migration
+  private storageReady: Promise<ProjectStorage> | null = null;
+  
+  constructor(storage?: ProjectStorage) {
+    if (storage) {
+      this.storageReady = Promise.resolve(storage);
+    }
+  }
+  
   /**
    * Get current storage information
    */
-  public getStorageInfo(): StorageInfo {
-    try {
-      let usedSpace = 0;
-      const projectsList = this.getProjectsList();
-      
-      // Calculate total used space
-      for (const project of projectsList) {
-        const projectData = localStorage.getItem(`${STORAGE_KEY_PREFIX}${project.id}`);
-        if (projectData) {
-          usedSpace += new Blob([projectData]).size;
-        }
-      }
-      
-      // Add projects list size
-      const projectsListData = localStorage.getItem(PROJECTS_LIST_KEY);
-      if (projectsListData) {
-        usedSpace += new Blob([projectsListData]).size;
-      }
-      
-      const availableSpace = MAX_TOTAL_STORAGE - usedSpace;
-      
-      return {
-        usedSpace,
-        totalProjects: projectsList.length,
-        availableSpace,
-        canSave: availableSpace > MAX_PROJECT_SIZE
-      };
-    } catch (error) {
-      console.error('❌ Error calculating storage info:', error);
-      return {
-        usedSpace: 0,
-        totalProjects: 0,
-        availableSpace: MAX_TOTAL_STORAGE,
-        canSave: false
-      };
-    }
+  public async getStorageInfo(): Promise<StorageInfo> {
+    const storage = await this.getStorage();
+    return storage.getStorageInfo();
   }
   
   /**
-   * Clean up old projects to free space
+   * Suggest projects to delete when storage runs low: the least recently
+   * updated ones, never the current project. Nothing is deleted here; the
+   * caller asks the user to confirm and deletes the chosen projects.
    */
-  public cleanupStorage(targetFreeSpace: number = MAX_PROJECT_SIZE): boolean {
-    try {
-      const storageInfo = this.getStorageInfo();
-      if (storageInfo.availableSpace >= targetFreeSpace) {
-        return true; // Already enough space
-      }
-      
-      const projectsList = this.getProjectsList();
-      
-      // Sort projects by last updated (oldest first)
-      const sortedProjects = [...projectsList].sort((a, b) => a.updatedAt - b.updatedAt);
-      
-      let freedSpace = 0;
-      const deletedProjects: string[] = [];
-      
-      for (const project of sortedProjects) {
-        if (storageInfo.availableSpace + freedSpace >= targetFreeSpace) {
-          break;
-        }
-        
-        const projectData = localStorage.getItem(`${STORAGE_KEY_PREFIX}${project.id}`);
-        if (projectData) {
-          const projectSize = new Blob([projectData]).size;
-          this.deleteProject(project.id);
-          freedSpace += projectSize;
-          deletedProjects.push(project.name);
-        }
-      }
-      
-      if (deletedProjects.length > 0) {
-        console.log(`🧹 Cleaned up ${deletedProjects.length} old projects: ${deletedProjects.join(', ')}`);
-        return true;
-      }
-      
-      return false;
-    } catch (error) {
-      console.error('❌ Error during storage cleanup:', error);
-      return false;
-    }
+  public async getCleanupCandidates(count: number = 3): Promise<ProjectListItem[]> {
+    const storage = await this.getStorage();
+    const projectsList = await storage.listProjects();
+    const currentProjectId = localStorage.getItem(CURRENT_PROJECT_KEY);
+    
+    return projectsList
+      .filter(project => project.id !== currentProjectId)
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, count);
   }
   
   /**
    * Save the current pipeline state as a project
    */
-  public saveProject(name: string): SavedProject {
+  public async saveProject(name: string): Promise<SavedProject> {
     try {
-      // Check storage space before attempting to save
-      const storageInfo = this.getStorageInfo();
+      const storage = await this.getStorage();
+      
+      // Check storage space before attempting to save; projects are only ever deleted by the user
+      const storageInfo = await storage.getStorageInfo();
       if (!storageInfo.canSave) {
-        console.log('⚠️ Low storage space, attempting cleanup...');
-        const cleanupSuccess = this.cleanupStorage();
-        if (!cleanupSuccess) {
-          throw new Error('Insufficient storage space. Please delete some projects manually.');
-        }
+        throw new Error('Insufficient storage space. Please delete some projects manually.');
       }
       
-    // Generate unique ID if not updating an existing project
-    const projectId = uuidv4();
-    const timestamp = Date.now();
-    
-      // Serialize the current state with compression
-    const state = this.serializeCurrentState();
-    
-    // Generate thumbnail from the output node if available
-    const thumbnailDataUrl = this.generateThumbnail();
-    
-    // Create the project object
-    const project: SavedProject = {
-      id: projectId,
-      name,
-      createdAt: timestamp,
-      updatedAt: timestamp,
-      version: APP_VERSION,
-      thumbnailDataUrl,
-      state
-    };
-    
+      // Generate unique ID for the new project
+      const projectId = uuidv4();
+      const timestamp = Date.now();
+      
+      // Serialize the current state (node configuration only, images are collected separately)
+      const state = this.serializeCurrentState(storage.lossless);
+      const images = await this.collectInputImages(storage.lossless);
+      
+      // Create the project object
+      const project: SavedProject = {
+        id: projectId,
+        name,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        version: APP_VERSION,
+        thumbnailDataUrl: this.generateThumbnail(),
+        state
+      };
+      
       // Validate the project before saving
       const validation = this.validateProject(project);
       if (!validation.isValid) {
         throw new Error(`Project validation failed: ${validation.errors.join(', ')}`);
       }
       
-      // Save to localStorage with proper error handling
-    this.saveProjectToStorage(project);
-    
-    // Update the projects list
-    this.addProjectToList(project);
-    
-    // Set as current project
-    localStorage.setItem(CURRENT_PROJECT_KEY, projectId);
-    
+      await storage.saveProject({ project, images });
+      
+      // Set as current project
+      localStorage.setItem(CURRENT_PROJECT_KEY, projectId);
+      
       console.log(`✅ Project "${name}" saved successfully with ID: ${projectId}`);
-    return project;
+      return project;
     } catch (error) {
       console.error('❌ Failed to save project:', error);
       throw new Error(`Failed to save project "${name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -191,50 +143,45 @@ export class ProjectManager {
   /**
    * Update an existing project with the current state
    */
-  public updateProject(projectId: string, name?: string): SavedProject | null {
+  public async updateProject(projectId: string, name?: string): Promise<SavedProject | null> {
     try {
-    // Check if project exists
-    const existingProject = this.getProject(projectId);
-      if (!existingProject) {
+      const storage = await this.getStorage();
+      
+      // Check if project exists
+      const existingRecord = await storage.loadProject(projectId);
+      if (!existingRecord) {
         throw new Error(`Project with ID "${projectId}" not found`);
       }
       
       // Check storage space for the update
-      const storageInfo = this.getStorageInfo();
+      const storageInfo = await storage.getStorageInfo();
       if (!storageInfo.canSave) {
-        console.log('⚠️ Low storage space, attempting cleanup...');
-        const cleanupSuccess = this.cleanupStorage();
-        if (!cleanupSuccess) {
-          throw new Error('Insufficient storage space. Please delete some projects to continue.');
-        }
+        throw new Error('Insufficient storage space. Please delete some projects to continue.');
       }
-    
-    // Serialize the current state
-    const state = this.serializeCurrentState();
-    
-    // Generate thumbnail from the output node if available
-    const thumbnailDataUrl = this.generateThumbnail();
-    
-    // Create the updated project
-    const updatedProject: SavedProject = {
-      ...existingProject,
-      name: name || existingProject.name,
-      updatedAt: Date.now(),
-      thumbnailDataUrl,
-      state
-    };
+      
+      // Serialize the current state
+      const state = this.serializeCurrentState(storage.lossless);
+      const images = await this.collectInputImages(storage.lossless);
+      
+      // Create the updated project
+      const updatedProject: SavedProject = {
+        ...existingRecord.project,
+        name: name || existingRecord.project.name,
+        updatedAt: Date.now(),
+        thumbnailDataUrl: this.generateThumbnail(),
+        state
+      };
       
       // Validate the updated project
       const validation = this.validateProject(updatedProject);
       if (!validation.isValid) {
         throw new Error(`Project validation failed: ${validation.errors.join(', ')}`);
       }
-    
-    // Save to localStorage
-    this.saveProjectToStorage(updatedProject);
-    
+      
+      await storage.saveProject({ project: updatedProject, images });
+      
       console.log(`✅ Project "${updatedProject.name}" updated successfully`);
-    return updatedProject;
+      return updatedProject;
     } catch (error) {
       console.error('❌ Failed to update project:', error);
       throw new Error(`Failed to update project: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -242,40 +189,26 @@ export class ProjectManager {
   }
   
   /**
-   * Load a project from localStorage and apply to the current pipeline
+   * Load a project from storage and apply to the current pipeline.
+   * The returned project does not carry image data (state.inputImages is empty).
    */
-  public loadProject(projectId: string): SavedProject | null {
+  public async loadProject(projectId: string): Promise<SavedProject | null> {
     try {
-    const project = this.getProject(projectId);
-      if (!project) {
+      const storage = await this.getStorage();
+      const record = await storage.loadProject(projectId);
+      if (!record) {
         throw new Error(`Project with ID "${projectId}" not found`);
       }
       
-      console.log(`🔄 Loading project "${project.name}"...`);
+      console.log(`🔄 Loading project "${record.project.name}"...`);
       
-      // Validate the project data before applying
-      const validation = this.validateProject(project);
-      if (!validation.isValid) {
-        console.warn('⚠️ Project validation issues:', validation.warnings);
-        if (validation.errors.length > 0) {
-          throw new Error(`Project validation failed: ${validation.errors.join(', ')}`);
-        }
-      }
+      this.applyStoredProject(record);
       
-      // Use migrated data if available, otherwise use original
-      const stateToLoad = validation.migratedData || project.state;
+      // Set as current project
+      localStorage.setItem(CURRENT_PROJECT_KEY, projectId);
       
-      // Deserialize and apply the state with comprehensive error handling
-      const success = this.deserializeAndApplyState(stateToLoad);
-      if (!success) {
-        throw new Error('Failed to apply project state to pipeline');
-      }
-    
-    // Set as current project
-    localStorage.setItem(CURRENT_PROJECT_KEY, projectId);
-    
-      console.log(`✅ Project "${project.name}" loaded successfully`);
-    return project;
+      console.log(`✅ Project "${record.project.name}" loaded successfully`);
+      return record.project;
     } catch (error) {
       console.error('❌ Failed to load project:', error);
       throw new Error(`Failed to load project: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -283,26 +216,15 @@ export class ProjectManager {
   }
   
   /**
-   * Get a project by ID with error handling
+   * Get a project by ID, without image data
    */
-  public getProject(projectId: string): SavedProject | null {
+  public async getProject(projectId: string): Promise<SavedProject | null> {
     try {
-      const projectJson = localStorage.getItem(`${STORAGE_KEY_PREFIX}${projectId}`);
-      if (!projectJson) {
-        return null;
-      }
-      
-      const project = JSON.parse(projectJson) as SavedProject;
-      
-      // Basic structure validation
-      if (!project.id || !project.name || !project.state) {
-        console.warn(`⚠️ Invalid project structure for ID "${projectId}"`);
-        return null;
-      }
-      
-      return project;
+      const storage = await this.getStorage();
+      const record = await storage.loadProject(projectId);
+      return record ? record.project : null;
     } catch (error) {
-      console.error('❌ Error parsing project:', error);
+      console.error('❌ Error reading project:', error);
       return null;
     }
   }
@@ -310,12 +232,13 @@ export class ProjectManager {
   /**
    * Get the current project if one is active
    */
-  public getCurrentProject(): SavedProject | null {
+  public async getCurrentProject(): Promise<ProjectListItem | null> {
     try {
-    const currentProjectId = localStorage.getItem(CURRENT_PROJECT_KEY);
-    if (!currentProjectId) return null;
-    
-    return this.getProject(currentProjectId);
+      const currentProjectId = localStorage.getItem(CURRENT_PROJECT_KEY);
+      if (!currentProjectId) return null;
+      
+      const projectsList = await this.getProjectsList();
+      return projectsList.find(project => project.id === currentProjectId) || null;
     } catch (error) {
       console.error('❌ Error getting current project:', error);
       return null;
@@ -325,51 +248,33 @@ export class ProjectManager {
   /**
    * Get a list of all saved projects with error handling
    */
-  public getProjectsList(): { id: string; name: string; updatedAt: number; thumbnailDataUrl?: string }[] {
+  public async getProjectsList(): Promise<ProjectListItem[]> {
     try {
-    const projectsListJson = localStorage.getItem(PROJECTS_LIST_KEY);
-    if (!projectsListJson) return [];
-    
-      const projectsList = JSON.parse(projectsListJson);
-      
-      // Validate the projects list structure
-      if (!Array.isArray(projectsList)) {
-        console.warn('⚠️ Invalid projects list structure, resetting...');
-        localStorage.removeItem(PROJECTS_LIST_KEY);
-        return [];
-      }
-      
-      return projectsList.filter(project => 
-        project && typeof project === 'object' && project.id && project.name
-      );
+      const storage = await this.getStorage();
+      return await storage.listProjects();
     } catch (error) {
-      console.error('❌ Error parsing projects list:', error);
-      // Reset corrupted projects list
-      localStorage.removeItem(PROJECTS_LIST_KEY);
+      console.error('❌ Error reading projects list:', error);
       return [];
     }
   }
   
   /**
-   * Delete a project from localStorage
+   * Delete a project from storage
    */
-  public deleteProject(projectId: string): boolean {
+  public async deleteProject(projectId: string): Promise<boolean> {
     try {
-    // Remove the project
-    localStorage.removeItem(`${STORAGE_KEY_PREFIX}${projectId}`);
-    
-    // Update the projects list
-    const projectsList = this.getProjectsList().filter(p => p.id !== projectId);
-    localStorage.setItem(PROJECTS_LIST_KEY, JSON.stringify(projectsList));
-    
-    // Clear current project if it's the deleted one
-    const currentProjectId = localStorage.getItem(CURRENT_PROJECT_KEY);
-    if (currentProjectId === projectId) {
-      localStorage.removeItem(CURRENT_PROJECT_KEY);
-    }
-    
+      const storage = await this.getStorage();
+      const deleted = await storage.deleteProject(projectId);
+      if (!deleted) return false;
+      
+      // Clear current project if it's the deleted one
+      const currentProjectId = localStorage.getItem(CURRENT_PROJECT_KEY);
+      if (currentProjectId === projectId) {
+        localStorage.removeItem(CURRENT_PROJECT_KEY);
+      }
+      
       console.log(`✅ Project "${projectId}" deleted successfully`);
-    return true;
+      return true;
     } catch (error) {
       console.error('❌ Error deleting project:', error);
       return false;
@@ -381,11 +286,11 @@ export class ProjectManager {
    */
   public createNewProject(): void {
     try {
-    // Reset the pipeline
-    pipelineManager.resetPipeline();
-    
-    // Clear current project
-    localStorage.removeItem(CURRENT_PROJECT_KEY);
+      // Reset the pipeline
+      pipelineManager.resetPipeline();
+      
+      // Clear current project
+      localStorage.removeItem(CURRENT_PROJECT_KEY);
       
       console.log('✅ New project created');
     } catch (error) {
@@ -394,6 +299,284 @@ export class ProjectManager {
     }
   }
   
+  /**
+   * Export the current pipeline as a .itlab bundle: a ZIP archive holding a JSON
+   * manifest and the input images as full-resolution PNGs. Nothing is
+   * downscaled or stripped, so importing the bundle restores the pipeline exactly.
+   */
+  public async exportProjectBundle(name?: string): Promise<Blob> {
+    try {
+      const currentId = localStorage.getItem(CURRENT_PROJECT_KEY);
+      const currentProject = currentId ? await this.getProject(currentId) : null;
+      const timestamp = Date.now();
+      
+      console.log('🔄 Exporting project bundle...');
+      
+      const state = this.serializeCurrentState(true);
+      const images = await this.collectInputImages(true);
+      
+      // Reference the lossless images by archive path
+      const entries: { path: string; data: Uint8Array }[] = [];
+      for (const [nodeId, blob] of Object.entries(images)) {
+        const path = `${BUNDLE_IMAGES_DIR}${encodeURIComponent(nodeId)}.png`;
+        entries.push({ path, data: new Uint8Array(await blob.arrayBuffer()) });
+        state.inputImages[nodeId] = path;
+      }
+      
+      const project: SavedProject = {
+        id: currentProject?.id || uuidv4(),
+        name: name || currentProject?.name || 'Untitled Project',
+        createdAt: currentProject?.createdAt || timestamp,
+        updatedAt: timestamp,
+        version: APP_VERSION,
+        thumbnailDataUrl: this.generateThumbnail(),
+        state
+      };
+      
+      const validation = this.validateProject(project);
+      if (!validation.isValid) {
+        throw new Error(`Project validation failed: ${validation.errors.join(', ')}`);
+      }
+      
+      const manifest: ProjectBundleManifest = {
+        format: BUNDLE_FORMAT,
+        formatVersion: BUNDLE_FORMAT_VERSION,
+        exportedAt: timestamp,
+        project
+      };
+      entries.unshift({
+        path: BUNDLE_MANIFEST_PATH,
+        data: new TextEncoder().encode(JSON.stringify(manifest, null, 2))
+      });
+      
+      const bundle = createZip(entries, BUNDLE_MIME_TYPE);
+      console.log(`✅ Project "${project.name}" exported (${(bundle.size / 1024).toFixed(2)}KB)`);
+      return bundle;
+    } catch (error) {
+      console.error('❌ Failed to export project:', error);
+      throw new Error(`Failed to export project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  /**
+   * Export the current pipeline and trigger a download of the .itlab file
+   */
+  public async downloadProjectBundle(name?: string): Promise<void> {
+    const bundle = await this.exportProjectBundle(name);
+    const currentProject = await this.getCurrentProject();
+    const baseName = (name || currentProject?.name || 'project')
+      .trim()
+      .replace(/[^a-z0-9-_]+/gi, '_') || 'project';
+    
+    const url = URL.createObjectURL(bundle);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}${BUNDLE_EXTENSION}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+  
+  /**
+   * Import a .itlab bundle and apply it to the current pipeline.
+   * The imported project is not added to the saved projects list; it becomes
+   * unsaved work that can be saved like any new project. The returned project
+   * does not carry image data (state.inputImages is empty).
+   */
+  public async importProjectBundle(file: Blob): Promise<SavedProject> {
+    try {
+      console.log('🔄 Importing project bundle...');
+      
+      let files: Map<string, Uint8Array>;
+      try {
+        files = await readZip(await file.arrayBuffer());
+      } catch (error) {
+        throw new Error(`Not a valid project bundle (${error instanceof Error ? error.message : 'unreadable archive'})`);
+      }
+      
+      const manifestData = files.get(BUNDLE_MANIFEST_PATH);
+      if (!manifestData) {
+        throw new Error(`Bundle is missing ${BUNDLE_MANIFEST_PATH}`);
+      }
+      
+      let manifest: ProjectBundleManifest;
+      try {
+        manifest = JSON.parse(new TextDecoder().decode(manifestData)) as ProjectBundleManifest;
+      } catch {
+        throw new Error('Bundle manifest is not valid JSON');
+      }
+      
+      if (!manifest || manifest.format !== BUNDLE_FORMAT || !manifest.project) {
+        throw new Error('Bundle manifest is not an Image Transform Lab project');
+      }
+      if (typeof manifest.formatVersion !== 'number' || manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+        throw new Error(`Unsupported bundle format version: ${manifest.formatVersion}`);
+      }
+      
+      const project = manifest.project;
+      if (!project.state || typeof project.state.inputImages !== 'object' || project.state.inputImages === null) {
+        throw new Error('Bundle manifest is missing the pipeline state');
+      }
+      
+      // Resolve archive paths to image blobs
+      const images: Record<string, Blob> = {};
+      for (const [nodeId, path] of Object.entries(project.state.inputImages)) {
+        const imageData = files.get(path);
+        if (!imageData) {
+          throw new Error(`Bundle is missing image "${path}" for node ${nodeId}`);
+        }
+        images[nodeId] = new Blob([imageData as BlobPart], { type: 'image/png' });
+      }
+      
+      const importedProject: SavedProject = {
+        ...project,
+        state: { ...project.state, inputImages: {} }
+      };
+      
+      this.applyStoredProject({ project: importedProject, images });
+      
+      // The pipeline no longer matches any stored project
+      localStorage.removeItem(CURRENT_PROJECT_KEY);
+      
+      console.log(`✅ Project "${importedProject.name}" imported successfully`);
+      return importedProject;
+    } catch (error) {
+      console.error('❌ Failed to import project:', error);
+      throw new Error(`Failed to import project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  /**
+   * Resolve the storage backend, migrating localStorage projects on first launch
+   */
+  private getStorage(): Promise<ProjectStorage> {
+    if (!this.storageReady) {
+      this.storageReady = this.initializeStorage();
+    }
+    return this.storageReady;
+  }
+  
+  private async initializeStorage(): Promise<ProjectStorage> {
+    const indexedDBStorage = new IndexedDBProjectStorage();
+    if (await indexedDBStorage.isAvailable()) {
+      await this.migrateLegacyProjects(indexedDBStorage);
+      return indexedDBStorage;
+    }
+    
+    console.warn('⚠️ IndexedDB unavailable, projects will be saved to localStorage with downscaled images');
+    return new LocalStorageProjectStorage();
+  }
+  
+  /**
+   * Move projects saved by earlier versions from localStorage into the given storage.
+   * Projects that fail to migrate stay in localStorage and are retried on the next launch.
+   */
+  private async migrateLegacyProjects(target: ProjectStorage): Promise<void> {
+    if (localStorage.getItem(MIGRATION_KEY)) return;
+    
+    const legacyStorage = new LocalStorageProjectStorage();
+    const legacyProjects = await legacyStorage.listProjects();
+    let failed = 0;
+    
+    for (const item of legacyProjects) {
+      try {
+        const record = await legacyStorage.loadProject(item.id);
+        if (!record) continue;
+        
+        await target.saveProject(record);
+        await legacyStorage.deleteProject(item.id);
+        console.log(`📦 Migrated project "${item.name}" to ${target.name}`);
+      } catch (error) {
+        failed++;
+        console.warn(`⚠️ Failed to migrate project "${item.name}":`, error);
+      }
+    }
+    
+    if (failed === 0) {
+      localStorage.setItem(MIGRATION_KEY, String(Date.now()));
+    }
+    
+    if (legacyProjects.length > 0) {
+      console.log(`✅ Migrated ${legacyProjects.length - failed} of ${legacyProjects.length} projects to ${target.name}`);
+    }
+  }
+  
+  /**
+   * Validate a stored project and apply it to the pipeline
+   */
+  private applyStoredProject(record: StoredProject): void {
+    const { project, images } = record;
+    
+    // Validate the project data before applying
+    const validation = this.validateProject(project);
+    if (validation.warnings.length > 0) {
+      console.warn('⚠️ Project validation issues:', validation.warnings);
+    }
+    if (!validation.isValid) {
+      throw new Error(`Project validation failed: ${validation.errors.join(', ')}`);
+    }
+    
+    // Use migrated data if available, otherwise use original
+    const stateToLoad = validation.migratedData || project.state;
+    
+    // Image blobs are loaded through object URLs, released once decoded
+    const inputImages: Record<string, string> = {};
+    Object.entries(images).forEach(([nodeId, blob]) => {
+      inputImages[nodeId] = URL.createObjectURL(blob);
+    });
+    
+    // Deserialize and apply the state with comprehensive error handling
+    const success = this.deserializeAndApplyState({ ...stateToLoad, inputImages });
+    if (!success) {
+      Object.values(inputImages).forEach(url => URL.revokeObjectURL(url));
+      throw new Error('Failed to apply project state to pipeline');
+    }
+  }
+  
+  /**
+   * Encode the images of all input nodes, keyed by node ID.
+   * Lossless storage gets PNGs at full resolution, otherwise downscaled JPEGs.
+   */
+  private async collectInputImages(lossless: boolean): Promise<Record<string, Blob>> {
+    const images: Record<string, Blob> = {};
+    
+    for (const node of pipelineManager.getNodes()) {
+      if (node.type !== 'input') continue;
+      
+      const canvas = pipelineManager.getNodeResult(node.id)?.canvas;
+      if (!canvas) continue;
+      
+      try {
+        images[node.id] = lossless
+          ? await this.canvasToPngBlob(canvas)
+          : dataUrlToBlob(this.optimizeImageForStorage(canvas));
+        console.log(`📸 Serialized input image for node ${node.id}`);
+      } catch (error) {
+        console.warn(`⚠️ Failed to serialize input image for node ${node.id}:`, error);
+      }
+    }
+    
+    return images;
+  }
+  
+  /**
+   * Encode a canvas as a lossless PNG blob
+   */
+  private canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to encode image as PNG'));
+        }
+      }, 'image/png');
+    });
+  }
+  
   /**
    * Optimize and compress image data for storage
    */
@@ -489,9 +672,11 @@ export class ProjectManager {
   }
   
   /**
-   * Serialize the current pipeline state with comprehensive optimization
+   * Serialize the current pipeline state with comprehensive optimization.
+   * Input images are not included; see collectInputImages.
+   * @param lossless Keep node configurations intact instead of trimming metadata
    */
-  private serializeCurrentState(): SerializedPipelineState {
+  private serializeCurrentState(lossless: boolean = false): SerializedPipelineState {
     try {
       console.log('🔄 Serializing pipeline state with optimization...');
       
@@ -501,9 +686,6 @@ export class ProjectManager {
     
       console.log(`📊 Serializing ${nodes.length} nodes and ${edges.length} edges`);
       
-      // Collect input images with optimization
-    const inputImages: Record<string, string> = {};
-    
       // Convert nodes to serializable format with enhanced validation and optimization
     const serializedNodes: SerializedNode[] = nodes.map(node => {
         try {
@@ -512,32 +694,22 @@ export class ProjectManager {
             throw new Error(`Invalid node structure: missing required fields`);
           }
           
-      // If this is an input node, we need to grab the image data
-      if (node.type === 'input') {
-        const canvas = pipelineManager.getNodeResult(node.id)?.canvas;
-        if (canvas) {
-          try {
-                // Optimize and compress the image data
-                inputImages[node.id] = this.optimizeImageForStorage(canvas);
-                console.log(`📸 Optimized and serialized input image for node ${node.id}`);
-          } catch (error) {
-                console.warn(`⚠️ Failed to serialize input image for node ${node.id}:`, error);
-              }
-            }
-          }
-          
           // Validate and clean transformation if present
           let cleanedTransformation: Transformation | undefined;
           if (node.type === 'transformation' && node.transformation) {
             this.validateTransformation(node.transformation);
-            cleanedTransformation = this.cleanNodeData(node.transformation);
+            cleanedTransformation = lossless
+              ? this.deepClone(node.transformation)
+              : this.cleanNodeData(node.transformation);
           }
           
           // Validate and clean inspection if present
           let cleanedInspection: Inspection | undefined;
           if (node.type === 'inspection' && node.inspection) {
             this.validateInspection(node.inspection);
-            cleanedInspection = this.cleanNodeData(node.inspection);
+            cleanedInspection = lossless
+              ? this.deepClone(node.inspection)
+              : this.cleanNodeData(node.inspection);
           }
           
           // Return serialized node with optimized data
@@ -568,7 +740,9 @@ export class ProjectManager {
           return {
       id: edge.id,
       source: edge.source,
-      target: edge.target
+      target: edge.target,
+      ...(edge.sourceHandle ? { sourceHandle: edge.sourceHandle } : {}),
+      ...(edge.targetHandle ? { targetHandle: edge.targetHandle } : {})
           };
         } catch (error) {
           console.error(`❌ Failed to serialize edge ${edge.id}:`, error);
@@ -579,7 +753,7 @@ export class ProjectManager {
       const state: SerializedPipelineState = {
       nodes: serializedNodes,
       edges: serializedEdges,
-      inputImages
+      inputImages: {}
     };
       
       // Log the final size
@@ -675,7 +849,13 @@ export class ProjectManager {
             throw new Error(`Target node not found: ${serializedEdge.target}`);
           }
           
-          const edgeId = pipelineManager.addEdge(serializedEdge.source, serializedEdge.target, serializedEdge.id);
+          const edgeId = pipelineManager.addEdge(
+            serializedEdge.source, 
+            serializedEdge.target, 
+            serializedEdge.id, 
+            serializedEdge.targetHandle,
+            serializedEdge.sourceHandle
+          );
           if (edgeId) {
             createdEdgeIds.add(edgeId);
             console.log(`✅ Created edge: ${serializedEdge.source} → ${serializedEdge.target}`);
@@ -691,9 +871,15 @@ export class ProjectManager {
       // Third pass: load input images with error handling
       if (state.inputImages) {
     for (const [nodeId, imageDataUrl] of Object.entries(state.inputImages)) {
+      // Object URLs of stored image blobs are released once the image is decoded
+      const releaseImageUrl = () => {
+        if (imageDataUrl.startsWith('blob:')) URL.revokeObjectURL(imageDataUrl);
+      };
+      
       try {
             if (!createdNodeIds.has(nodeId)) {
               console.warn(`⚠️ Skipping input image for non-existent node: ${nodeId}`);
+              releaseImageUrl();
               continue;
             }
             
@@ -701,6 +887,7 @@ export class ProjectManager {
         const img = new Image();
         img.onload = () => {
               const success = pipelineManager.setInputImage(nodeId, img);
+              releaseImageUrl();
               if (success) {
                 console.log(`✅ Loaded input image for node: ${nodeId}`);
               } else {
@@ -708,6 +895,7 @@ export class ProjectManager {
               }
             };
             img.onerror = () => {
+              releaseImageUrl();
               console.warn(`⚠️ Failed to load input image for node: ${nodeId}`);
         };
         img.src = imageDataUrl;
@@ -751,6 +939,11 @@ export class ProjectManager {
       if (project.state) {
         if (!Array.isArray(project.state.nodes)) errors.push('Invalid nodes array');
         if (!Array.isArray(project.state.edges)) errors.push('Invalid edges array');
+        if (errors.length > 0) {
+          return { isValid: false, errors, warnings };
+        }
+        
+        const nodeIds = new Set<string>();
         
         // Node validation
         project.state.nodes.forEach((node, index) => {
@@ -758,6 +951,14 @@ export class ProjectManager {
           if (!node.type) errors.push(`Node ${index}: missing type`);
           if (!node.position) errors.push(`Node ${index}: missing position`);
           
+          if (node.id) {
+            if (nodeIds.has(node.id)) errors.push(`Node ${index}: duplicate ID ${node.id}`);
+            nodeIds.add(node.id);
+          }
+          if (node.position && (!Number.isFinite(node.position.x) || !Number.isFinite(node.position.y))) {
+            errors.push(`Node ${node.id || index}: invalid position`);
+          }
+          
           // Type-specific validation
           if (node.type === 'transformation' && !node.transformation) {
             errors.push(`Transformation node ${node.id}: missing transformation config`);
@@ -772,6 +973,14 @@ export class ProjectManager {
           if (!edge.id) errors.push(`Edge ${index}: missing ID`);
           if (!edge.source) errors.push(`Edge ${index}: missing source`);
           if (!edge.target) errors.push(`Edge ${index}: missing target`);
+          if (edge.source && !nodeIds.has(edge.source)) errors.push(`Edge ${edge.id || index}: unknown source ${edge.source}`);
+          if (edge.target && !nodeIds.has(edge.target)) errors.push(`Edge ${edge.id || index}: unknown target ${edge.target}`);
+        });
+        
+        // Input image validation
+        Object.entries(project.state.inputImages || {}).forEach(([nodeId, image]) => {
+          if (typeof image !== 'string' || !image) errors.push(`Input image for ${nodeId}: invalid image reference`);
+          if (!nodeIds.has(nodeId)) warnings.push(`Input image for unknown node ${nodeId} will be ignored`);
         });
       }
       
@@ -891,82 +1100,7 @@ export class ProjectManager {
       return undefined;
     }
   }
-  
-  /**
-   * Save a project to localStorage with comprehensive error handling and size management
-   */
-  private saveProjectToStorage(project: SavedProject): void {
-    try {
-      const projectJson = JSON.stringify(project);
-      
-      // Check if the serialized project is too large
-      const sizeInBytes = new Blob([projectJson]).size;
-      
-      if (sizeInBytes > MAX_PROJECT_SIZE) {
-        throw new Error(`Project too large for storage (${(sizeInBytes / 1024 / 1024).toFixed(2)}MB > ${(MAX_PROJECT_SIZE / 1024 / 1024).toFixed(2)}MB). Consider reducing image sizes or simplifying the pipeline.`);
-      }
-      
-      // Check total storage usage
-      const storageInfo = this.getStorageInfo();
-      if (storageInfo.usedSpace + sizeInBytes > MAX_TOTAL_STORAGE) {
-        // Try to clean up space
-        const cleanupSuccess = this.cleanupStorage(sizeInBytes);
-        if (!cleanupSuccess) {
-          throw new Error(`Storage quota exceeded. Used: ${(storageInfo.usedSpace / 1024 / 1024).toFixed(2)}MB, Need: ${(sizeInBytes / 1024 / 1024).toFixed(2)}MB, Limit: ${(MAX_TOTAL_STORAGE / 1024 / 1024).toFixed(2)}MB. Please delete some projects manually.`);
-        }
-      }
-      
-      localStorage.setItem(
-        `${STORAGE_KEY_PREFIX}${project.id}`,
-        projectJson
-      );
-      
-      console.log(`💾 Project saved to localStorage (${(sizeInBytes / 1024).toFixed(2)}KB)`);
-    } catch (error) {
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        throw new Error('Storage quota exceeded. Please delete some projects or clear browser data.');
-      }
-      
-      console.error('❌ Error saving project to localStorage:', error);
-      throw new Error(`Failed to save project to storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-  
-  /**
-   * Add a project to the projects list with error handling
-   */
-  private addProjectToList(project: SavedProject): void {
-    try {
-    const projectsList = this.getProjectsList();
-    
-    // Check if project already exists in list
-    const existingIndex = projectsList.findIndex(p => p.id === project.id);
-    
-      const projectListItem = {
-        id: project.id,
-        name: project.name,
-        updatedAt: project.updatedAt,
-        thumbnailDataUrl: project.thumbnailDataUrl
-      };
-      
-      if (existingIndex >= 0) {
-        // Update existing entry
-        projectsList[existingIndex] = projectListItem;
-    } else {
-      // Add new entry
-        projectsList.push(projectListItem);
-    }
-    
-    // Save updated list
-    localStorage.setItem(PROJECTS_LIST_KEY, JSON.stringify(projectsList));
-      
-      console.log(`📝 Updated projects list`);
-    } catch (error) {
-      console.error('❌ Error updating projects list:', error);
-      throw new Error(`Failed to update projects list: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 }
 
 // Export a singleton instance
-export const projectManager = new ProjectManager(); 
\ No newline at end of file
+export const projectManager = new ProjectManager();
\ No newline at end of file
@@ -0,0 +1,95 @@
+import type { SavedProject } from '../utils/types';
+
+/**
+ * Summary of a saved project, as shown in project lists
+ */
+export interface ProjectListItem {
+  id: string;
+  name: string;
+  updatedAt: number;
+  thumbnailDataUrl?: string;
+}
+
+/**
+ * A project as handed to and from storage backends.
+ * Input images travel separately as blobs keyed by node ID, so
+ * project.state.inputImages is left empty.
+ */
+export interface StoredProject {
+  project: SavedProject;
+  images: Record<string, Blob>;
+}
+
+/**
+ * Storage usage and quota
+ */
+export interface StorageInfo {
+  backend: string;
+  usedSpace: number;
+  totalProjects: number;
+  availableSpace: number;
+  canSave: boolean;
+}
+
+/**
+ * Backend that persists projects.
+ * Implementations must not alter the project JSON; they are free to choose
+ * how image blobs are stored.
+ */
+export interface ProjectStorage {
+  // Display name of the backend
+  readonly name: string;
+  // Whether images are kept at full resolution; lossy backends get downscaled JPEGs
+  readonly lossless: boolean;
+
+  isAvailable(): Promise<boolean>;
+  listProjects(): Promise<ProjectListItem[]>;
+  loadProject(projectId: string): Promise<StoredProject | null>;
+  saveProject(record: StoredProject): Promise<void>;
+  deleteProject(projectId: string): Promise<boolean>;
+  getStorageInfo(): Promise<StorageInfo>;
+}
+
+/**
+ * Build the list entry for a project
+ */
+export const toProjectListItem = (project: SavedProject): ProjectListItem => ({
+  id: project.id,
+  name: project.name,
+  updatedAt: project.updatedAt,
+  thumbnailDataUrl: project.thumbnailDataUrl
+});
+
+/**
+ * Read a blob as a data URL
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('Failed to read image data'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Decode a base64 data URL into a blob
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error('Invalid data URL');
+  }
+
+  const [, mimeType, isBase64, payload] = match;
+  if (!isBase64) {
+    return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  }
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
@@ -0,0 +1,137 @@
+import type { IntermediateResult } from '../utils/imageProcessing';
+import type { TransformationAnalysis } from '../utils/types';
+
+/**
+ * A memoized transformation result
+ */
+export interface CachedResult {
+  canvas: HTMLCanvasElement;
+  intermediates: IntermediateResult[];
+  outputs?: Record<string, HTMLCanvasElement>;
+  analysis?: TransformationAnalysis;
+  processingTime: number;
+}
+
+/**
+ * Cache usage snapshot
+ */
+export interface ResultCacheStats {
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry {
+  result: CachedResult;
+  bytes: number;
+}
+
+/**
+ * Least-recently-used cache of transformation results, keyed by content hash.
+ * Memory is accounted as RGBA bytes of the result, its intermediates and its
+ * named outputs; the oldest entries are evicted once either limit is
+ * exceeded. Cached canvases are shared with the pipeline and must be
+ * treated as read-only.
+ */
+export class ResultCache {
+  // Map iteration order doubles as recency order (oldest first)
+  private entries: Map<string, CacheEntry> = new Map();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private maxEntries: number;
+  private maxBytes: number;
+
+  constructor(maxEntries: number = 64, maxBytes: number = 256 * 1024 * 1024) {
+    this.maxEntries = maxEntries;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Look up a result, marking it as most recently used
+   */
+  public get(key: string): CachedResult | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.result;
+  }
+
+  /**
+   * Store a result. Results larger than the whole budget are not cached.
+   */
+  public set(key: string, result: CachedResult): void {
+    const bytes = this.measure(result);
+    if (bytes > this.maxBytes) return;
+
+    this.delete(key);
+    this.entries.set(key, { result, bytes });
+    this.totalBytes += bytes;
+    this.evict();
+  }
+
+  public has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  public delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Change the limits, evicting immediately if the cache is now over budget
+   */
+  public setLimits(maxEntries: number, maxBytes: number): void {
+    this.maxEntries = maxEntries;
+    this.maxBytes = maxBytes;
+    this.evict();
+  }
+
+  public getStats(): ResultCacheStats {
+    return {
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+
+  // Drop least recently used entries until both limits hold
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) break;
+      this.delete(key);
+    }
+  }
+
+  private measure(result: CachedResult): number {
+    let bytes = result.canvas.width * result.canvas.height * 4;
+    result.intermediates.forEach(intermediate => {
+      bytes += intermediate.imageData.data.byteLength;
+    });
+    Object.values(result.outputs || {}).forEach(output => {
+      bytes += output.width * output.height * 4;
+    });
+    return bytes;
+  }
+}
@@ -0,0 +1,725 @@
+/**
+ * Texture Analyzer
+ * Computes texture descriptors (GLCM, LBP, Gabor, Haar wavelet) globally and
+ * over sliding windows, producing per-window feature maps
+ */
+import { fourierTransformAnalyzer } from './FourierTransformAnalyzer';
+import { applyColormap } from '../utils/colormaps';
+
+export type TextureDirection = 'horizontal' | 'vertical' | 'diagonal' | 'all';
+
+export interface TextureAnalysisData {
+  method: string;
+  featureNames: string[];
+  globalFeatures: Record<string, number>;
+  featureMaps: Record<string, Float32Array>;
+  gridWidth: number;
+  gridHeight: number;
+  windowSize: number;
+  step: number;
+  imageWidth: number;
+  imageHeight: number;
+  histogram?: { labels: string[]; values: number[] };
+  statistics: Record<string, { mean: number; min: number; max: number }>;
+}
+
+export interface TextureDescriptorStrategy {
+  getName(): string;
+  getFeatureNames(): string[];
+  // Per-pixel preprocessing shared by all windows (quantization, codes, filter responses)
+  prepare(gray: Float32Array, width: number, height: number): void;
+  // Features of the region [startX, endX) x [startY, endY)
+  computeRegion(startX: number, startY: number, endX: number, endY: number): Record<string, number>;
+  // Optional normalized histogram describing the whole image
+  getHistogram?(): { labels: string[]; values: number[] };
+}
+
+/**
+ * Gray-Level Co-occurrence Matrix strategy (Haralick features)
+ */
+export class GLCMTextureStrategy implements TextureDescriptorStrategy {
+  private quantized: Uint8Array = new Uint8Array(0);
+  private width = 0;
+  private offsets: Array<[number, number]>;
+  private distance: number;
+  private levels: number;
+
+  constructor(distance: number = 1, direction: TextureDirection = 'all', levels: number = 16) {
+    this.distance = distance;
+    this.levels = levels;
+    const d = Math.max(1, Math.round(distance));
+    const horizontal: [number, number] = [d, 0];
+    const vertical: [number, number] = [0, d];
+    const diagonal45: [number, number] = [d, -d];
+    const diagonal135: [number, number] = [d, d];
+
+    switch (direction) {
+      case 'horizontal':
+        this.offsets = [horizontal];
+        break;
+      case 'vertical':
+        this.offsets = [vertical];
+        break;
+      case 'diagonal':
+        this.offsets = [diagonal45, diagonal135];
+        break;
+      default:
+        this.offsets = [horizontal, diagonal45, vertical, diagonal135];
+    }
+  }
+
+  getName(): string {
+    return `GLCM (d=${this.distance}, ${this.levels} levels)`;
+  }
+
+  getFeatureNames(): string[] {
+    return ['Contrast', 'Homogeneity', 'Energy', 'Entropy', 'Correlation'];
+  }
+
+  prepare(gray: Float32Array, width: number): void {
+    this.width = width;
+    this.quantized = new Uint8Array(gray.length);
+    const scale = this.levels / 256;
+    for (let i = 0; i < gray.length; i++) {
+      this.quantized[i] = Math.min(this.levels - 1, Math.floor(gray[i] * scale));
+    }
+  }
+
+  computeRegion(startX: number, startY: number, endX: number, endY: number): Record<string, number> {
+    const features = { Contrast: 0, Homogeneity: 0, Energy: 0, Entropy: 0, Correlation: 0 };
+    const matrix = new Float64Array(this.levels * this.levels);
+    let directionsUsed = 0;
+
+    for (const [dx, dy] of this.offsets) {
+      matrix.fill(0);
+      let pairs = 0;
+
+      for (let y = startY; y < endY; y++) {
+        const ny = y + dy;
+        if (ny < startY || ny >= endY) continue;
+        for (let x = startX; x < endX; x++) {
+          const nx = x + dx;
+          if (nx < startX || nx >= endX) continue;
+          const i = this.quantized[y * this.width + x];
+          const j = this.quantized[ny * this.width + nx];
+          // Symmetric matrix: count both (i, j) and (j, i)
+          matrix[i * this.levels + j]++;
+          matrix[j * this.levels + i]++;
+          pairs += 2;
+        }
+      }
+
+      if (pairs === 0) continue;
+      directionsUsed++;
+
+      const directionFeatures = this.computeHaralickFeatures(matrix, pairs);
+      features.Contrast += directionFeatures.contrast;
+      features.Homogeneity += directionFeatures.homogeneity;
+      features.Energy += directionFeatures.energy;
+      features.Entropy += directionFeatures.entropy;
+      features.Correlation += directionFeatures.correlation;
+    }
+
+    // Average over the analyzed directions
+    if (directionsUsed > 0) {
+      features.Contrast /= directionsUsed;
+      features.Homogeneity /= directionsUsed;
+      features.Energy /= directionsUsed;
+      features.Entropy /= directionsUsed;
+      features.Correlation /= directionsUsed;
+    }
+
+    return features;
+  }
+
+  private computeHaralickFeatures(matrix: Float64Array, total: number) {
+    const levels = this.levels;
+    let contrast = 0, homogeneity = 0, asm = 0, entropy = 0;
+    let meanI = 0, meanJ = 0;
+
+    for (let i = 0; i < levels; i++) {
+      for (let j = 0; j < levels; j++) {
+        const p = matrix[i * levels + j] / total;
+        if (p === 0) continue;
+        const diff = i - j;
+        contrast += p * diff * diff;
+        homogeneity += p / (1 + diff * diff);
+        asm += p * p;
+        entropy -= p * Math.log2(p);
+        meanI += i * p;
+        meanJ += j * p;
+      }
+    }
+
+    let varI = 0, varJ = 0, covariance = 0;
+    for (let i = 0; i < levels; i++) {
+      for (let j = 0; j < levels; j++) {
+        const p = matrix[i * levels + j] / total;
+        if (p === 0) continue;
+        varI += p * (i - meanI) * (i - meanI);
+        varJ += p * (j - meanJ) * (j - meanJ);
+        covariance += p * (i - meanI) * (j - meanJ);
+      }
+    }
+
+    // A constant region is perfectly correlated by convention
+    const correlation = varI > 1e-12 && varJ > 1e-12 ? covariance / Math.sqrt(varI * varJ) : 1;
+
+    return { contrast, homogeneity, energy: Math.sqrt(asm), entropy, correlation };
+  }
+}
+
+/**
+ * Local Binary Pattern strategy (rotation-invariant uniform patterns, 8 neighbours)
+ */
+export class LBPTextureStrategy implements TextureDescriptorStrategy {
+  private static readonly NEIGHBORS = 8;
+  private codes: Uint8Array = new Uint8Array(0);
+  private width = 0;
+  private height = 0;
+  private radius: number;
+
+  constructor(radius: number = 1) {
+    this.radius = radius;
+  }
+
+  getName(): string {
+    return `LBP (P=${LBPTextureStrategy.NEIGHBORS}, R=${this.radius})`;
+  }
+
+  getFeatureNames(): string[] {
+    return ['LBP Entropy', 'Uniform Ratio', 'Edge Patterns', 'Flat Patterns'];
+  }
+
+  prepare(gray: Float32Array, width: number, height: number): void {
+    const P = LBPTextureStrategy.NEIGHBORS;
+    this.width = width;
+    this.height = height;
+    this.codes = new Uint8Array(width * height);
+
+    // Sampling offsets on the circle of the given radius
+    const sampleX: number[] = [];
+    const sampleY: number[] = [];
+    for (let p = 0; p < P; p++) {
+      const angle = (2 * Math.PI * p) / P;
+      // Round so axis-aligned samples land exactly on pixels
+      sampleX.push(Math.round(this.radius * Math.cos(angle) * 1e5) / 1e5);
+      sampleY.push(Math.round(-this.radius * Math.sin(angle) * 1e5) / 1e5);
+    }
+
+    const bits = new Array<number>(P);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const center = gray[y * width + x];
+
+        for (let p = 0; p < P; p++) {
+          // Small tolerance so interpolation round-off does not flip bits in flat areas
+          bits[p] = this.sampleBilinear(gray, x + sampleX[p], y + sampleY[p]) >= center - 1e-4 ? 1 : 0;
+        }
+
+        // Count 0/1 transitions around the circle
+        let transitions = 0;
+        let ones = 0;
+        for (let p = 0; p < P; p++) {
+          if (bits[p] !== bits[(p + 1) % P]) transitions++;
+          ones += bits[p];
+        }
+
+        // riu2 mapping: uniform patterns are labelled by their number of ones, the rest share label P + 1
+        this.codes[y * width + x] = transitions <= 2 ? ones : P + 1;
+      }
+    }
+  }
+
+  computeRegion(startX: number, startY: number, endX: number, endY: number): Record<string, number> {
+    const P = LBPTextureStrategy.NEIGHBORS;
+    const histogram = this.regionHistogram(startX, startY, endX, endY);
+
+    let entropy = 0;
+    for (const p of histogram) {
+      if (p > 0) entropy -= p * Math.log2(p);
+    }
+
+    // Codes around P / 2 are straight edges, 0 and P are spots / flat areas
+    let edges = 0;
+    for (let code = P / 2 - 1; code <= P / 2 + 1; code++) {
+      edges += histogram[code];
+    }
+
+    return {
+      'LBP Entropy': entropy,
+      'Uniform Ratio': 1 - histogram[P + 1],
+      'Edge Patterns': edges,
+      'Flat Patterns': histogram[0] + histogram[P]
+    };
+  }
+
+  getHistogram(): { labels: string[]; values: number[] } {
+    const P = LBPTextureStrategy.NEIGHBORS;
+    const labels = Array.from({ length: P + 1 }, (_, i) => `${i}`);
+    labels.push('NU');
+    return {
+      labels,
+      values: this.regionHistogram(0, 0, this.width, this.height)
+    };
+  }
+
+  private regionHistogram(startX: number, startY: number, endX: number, endY: number): number[] {
+    const histogram = new Array(LBPTextureStrategy.NEIGHBORS + 2).fill(0);
+    let count = 0;
+
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        histogram[this.codes[y * this.width + x]]++;
+        count++;
+      }
+    }
+
+    return histogram.map(value => (count > 0 ? value / count : 0));
+  }
+
+  private sampleBilinear(gray: Float32Array, x: number, y: number): number {
+    const cx = Math.max(0, Math.min(this.width - 1, x));
+    const cy = Math.max(0, Math.min(this.height - 1, y));
+    const x0 = Math.floor(cx);
+    const y0 = Math.floor(cy);
+    const x1 = Math.min(x0 + 1, this.width - 1);
+    const y1 = Math.min(y0 + 1, this.height - 1);
+    const fx = cx - x0;
+    const fy = cy - y0;
+
+    const top = gray[y0 * this.width + x0] * (1 - fx) + gray[y0 * this.width + x1] * fx;
+    const bottom = gray[y1 * this.width + x0] * (1 - fx) + gray[y1 * this.width + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  }
+}
+
+/**
+ * Gabor filter bank strategy.
+ * Filters are applied in the frequency domain: each Gabor filter is a Gaussian
+ * centred on its tuning frequency (one-octave bandwidth), so the inverse FFT
+ * gives the complex response whose magnitude is the local texture energy.
+ */
+export class GaborTextureStrategy implements TextureDescriptorStrategy {
+  private responses: Float32Array[] = [];
+  private orientations: number[];
+  private width = 0;
+  private frequency: number;
+
+  constructor(frequency: number = 0.1, direction: TextureDirection = 'all') {
+    this.frequency = frequency;
+    switch (direction) {
+      case 'horizontal':
+        this.orientations = [0];
+        break;
+      case 'vertical':
+        this.orientations = [90];
+        break;
+      case 'diagonal':
+        this.orientations = [45, 135];
+        break;
+      default:
+        this.orientations = [0, 45, 90, 135];
+    }
+  }
+
+  getName(): string {
+    return `Gabor bank (f=${this.frequency}, ${this.orientations.length} orientations)`;
+  }
+
+  getFeatureNames(): string[] {
+    const names = this.orientations.map(angle => `Energy ${angle}°`);
+    if (this.orientations.length > 1) {
+      names.push('Mean Energy', 'Anisotropy');
+    }
+    return names;
+  }
+
+  prepare(gray: Float32Array, width: number, height: number): void {
+    this.width = width;
+    const padded = fourierTransformAnalyzer.padToPowerOfTwo(gray, width, height);
+    const spectrum = fourierTransformAnalyzer.fft2D(padded.data, padded.width, padded.height);
+
+    // Radial bandwidth of one octave: sigma_f ≈ 0.283 * f
+    const sigmaF = 0.283 * this.frequency;
+    const coeff = -0.5 / (sigmaF * sigmaF);
+
+    this.responses = this.orientations.map(angle => {
+      const theta = (angle * Math.PI) / 180;
+      const u0 = this.frequency * Math.cos(theta);
+      const v0 = -this.frequency * Math.sin(theta); // Image y axis points down
+      const real = new Float32Array(spectrum.real.length);
+      const imaginary = new Float32Array(spectrum.imaginary.length);
+
+      for (let ky = 0; ky < padded.height; ky++) {
+        const v = (ky < padded.height / 2 ? ky : ky - padded.height) / padded.height;
+        for (let kx = 0; kx < padded.width; kx++) {
+          const u = (kx < padded.width / 2 ? kx : kx - padded.width) / padded.width;
+          const gain = Math.exp(((u - u0) * (u - u0) + (v - v0) * (v - v0)) * coeff);
+          const idx = ky * padded.width + kx;
+          real[idx] = spectrum.real[idx] * gain;
+          imaginary[idx] = spectrum.imaginary[idx] * gain;
+        }
+      }
+
+      const filtered = fourierTransformAnalyzer.ifft2D(real, imaginary, padded.width, padded.height);
+      const magnitude = new Float32Array(width * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const idx = y * padded.width + x;
+          magnitude[y * width + x] = Math.sqrt(
+            filtered.real[idx] * filtered.real[idx] + filtered.imaginary[idx] * filtered.imaginary[idx]
+          );
+        }
+      }
+      return magnitude;
+    });
+  }
+
+  computeRegion(startX: number, startY: number, endX: number, endY: number): Record<string, number> {
+    const features: Record<string, number> = {};
+    const count = Math.max(1, (endX - startX) * (endY - startY));
+    const energies = this.responses.map(response => {
+      let sum = 0;
+      for (let y = startY; y < endY; y++) {
+        for (let x = startX; x < endX; x++) {
+          sum += response[y * this.width + x];
+        }
+      }
+      return sum / count;
+    });
+
+    this.orientations.forEach((angle, index) => {
+      features[`Energy ${angle}°`] = energies[index];
+    });
+
+    if (this.orientations.length > 1) {
+      const maxEnergy = Math.max(...energies);
+      const minEnergy = Math.min(...energies);
+      features['Mean Energy'] = energies.reduce((sum, value) => sum + value, 0) / energies.length;
+      features['Anisotropy'] = maxEnergy + minEnergy > 0 ? (maxEnergy - minEnergy) / (maxEnergy + minEnergy) : 0;
+    }
+
+    return features;
+  }
+}
+
+/**
+ * Single-level Haar wavelet strategy (RMS energy of the detail sub-bands)
+ */
+export class WaveletTextureStrategy implements TextureDescriptorStrategy {
+  private horizontal: Float32Array = new Float32Array(0);
+  private vertical: Float32Array = new Float32Array(0);
+  private diagonal: Float32Array = new Float32Array(0);
+  private halfWidth = 0;
+  private halfHeight = 0;
+
+  getName(): string {
+    return 'Haar wavelet (1 level)';
+  }
+
+  getFeatureNames(): string[] {
+    return ['Horizontal Detail', 'Vertical Detail', 'Diagonal Detail', 'Total Detail'];
+  }
+
+  prepare(gray: Float32Array, width: number, height: number): void {
+    this.halfWidth = Math.max(1, Math.floor(width / 2));
+    this.halfHeight = Math.max(1, Math.floor(height / 2));
+    const size = this.halfWidth * this.halfHeight;
+    this.horizontal = new Float32Array(size);
+    this.vertical = new Float32Array(size);
+    this.diagonal = new Float32Array(size);
+
+    for (let y = 0; y < this.halfHeight; y++) {
+      const y0 = Math.min(2 * y, height - 1);
+      const y1 = Math.min(2 * y + 1, height - 1);
+      for (let x = 0; x < this.halfWidth; x++) {
+        const x0 = Math.min(2 * x, width - 1);
+        const x1 = Math.min(2 * x + 1, width - 1);
+        const a = gray[y0 * width + x0];
+        const b = gray[y0 * width + x1];
+        const c = gray[y1 * width + x0];
+        const d = gray[y1 * width + x1];
+        const idx = y * this.halfWidth + x;
+
+        this.horizontal[idx] = (a + b - c - d) / 2; // Responds to horizontal edges
+        this.vertical[idx] = (a - b + c - d) / 2;   // Responds to vertical edges
+        this.diagonal[idx] = (a - b - c + d) / 2;
+      }
+    }
+  }
+
+  computeRegion(startX: number, startY: number, endX: number, endY: number): Record<string, number> {
+    // Map the region to the half-resolution sub-bands
+    const x0 = Math.floor(startX / 2);
+    const y0 = Math.floor(startY / 2);
+    const x1 = Math.max(x0 + 1, Math.min(this.halfWidth, Math.ceil(endX / 2)));
+    const y1 = Math.max(y0 + 1, Math.min(this.halfHeight, Math.ceil(endY / 2)));
+    let sumH = 0, sumV = 0, sumD = 0, count = 0;
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const idx = y * this.halfWidth + x;
+        sumH += this.horizontal[idx] * this.horizontal[idx];
+        sumV += this.vertical[idx] * this.vertical[idx];
+        sumD += this.diagonal[idx] * this.diagonal[idx];
+        count++;
+      }
+    }
+
+    const n = Math.max(1, count);
+    return {
+      'Horizontal Detail': Math.sqrt(sumH / n),
+      'Vertical Detail': Math.sqrt(sumV / n),
+      'Diagonal Detail': Math.sqrt(sumD / n),
+      'Total Detail': Math.sqrt((sumH + sumV + sumD) / n)
+    };
+  }
+}
+
+/**
+ * Texture Analyzer
+ */
+export class TextureAnalyzer {
+  private strategy: TextureDescriptorStrategy;
+
+  constructor(strategy: TextureDescriptorStrategy) {
+    this.strategy = strategy;
+  }
+
+  /**
+   * Compute global texture features and per-window feature maps
+   */
+  public analyzeTexture(
+    imageData: ImageData,
+    options: {
+      windowSize?: number;
+      overlapRatio?: number;
+    } = {}
+  ): TextureAnalysisData {
+    const { overlapRatio = 0.5 } = options;
+    const { width, height, data } = imageData;
+
+    // Convert to grayscale
+    const gray = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+      const idx = i * 4;
+      gray[i] = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+    }
+
+    this.strategy.prepare(gray, width, height);
+
+    // Window grid, same layout as the edge density analyzer
+    const windowSize = Math.max(2, Math.min(options.windowSize || 32, width, height));
+    const step = Math.max(1, Math.round(windowSize * (1 - overlapRatio)));
+    const gridWidth = Math.ceil((width - windowSize) / step) + 1;
+    const gridHeight = Math.ceil((height - windowSize) / step) + 1;
+
+    const featureNames = this.strategy.getFeatureNames();
+    const featureMaps: Record<string, Float32Array> = {};
+    featureNames.forEach(name => {
+      featureMaps[name] = new Float32Array(gridWidth * gridHeight);
+    });
+
+    for (let gy = 0; gy < gridHeight; gy++) {
+      for (let gx = 0; gx < gridWidth; gx++) {
+        const startX = Math.min(gx * step, width - windowSize);
+        const startY = Math.min(gy * step, height - windowSize);
+        const features = this.strategy.computeRegion(startX, startY, startX + windowSize, startY + windowSize);
+
+        featureNames.forEach(name => {
+          featureMaps[name][gy * gridWidth + gx] = features[name];
+        });
+      }
+    }
+
+    const globalFeatures = this.strategy.computeRegion(0, 0, width, height);
+
+    return {
+      method: this.strategy.getName(),
+      featureNames,
+      globalFeatures,
+      featureMaps,
+      gridWidth,
+      gridHeight,
+      windowSize,
+      step,
+      imageWidth: width,
+      imageHeight: height,
+      histogram: this.strategy.getHistogram ? this.strategy.getHistogram() : undefined,
+      statistics: this.calculateStatistics(featureMaps)
+    };
+  }
+
+  /**
+   * Calculate mean / min / max of every feature map
+   */
+  private calculateStatistics(featureMaps: Record<string, Float32Array>): TextureAnalysisData['statistics'] {
+    const statistics: TextureAnalysisData['statistics'] = {};
+
+    Object.entries(featureMaps).forEach(([name, map]) => {
+      let sum = 0, min = Infinity, max = -Infinity;
+      for (let i = 0; i < map.length; i++) {
+        sum += map[i];
+        min = Math.min(min, map[i]);
+        max = Math.max(max, map[i]);
+      }
+      statistics[name] = { mean: map.length > 0 ? sum / map.length : 0, min, max };
+    });
+
+    return statistics;
+  }
+
+  /**
+   * Render feature maps as heatmaps (one tile per feature) plus the LBP histogram if available
+   */
+  public createVisualization(
+    textureData: TextureAnalysisData,
+    options: {
+      colormap?: string;
+      showFeatures?: boolean;
+      tileWidth?: number;
+    } = {}
+  ): HTMLCanvasElement {
+    const { colormap = 'jet', showFeatures = true, tileWidth = 240 } = options;
+    const featureNames = showFeatures ? textureData.featureNames : textureData.featureNames.slice(0, 1);
+    const tileCount = featureNames.length + (showFeatures && textureData.histogram ? 1 : 0);
+    const columns = Math.min(3, tileCount);
+    const rows = Math.ceil(tileCount / columns);
+    const tileHeight = Math.max(60, Math.round(tileWidth * textureData.imageHeight / textureData.imageWidth));
+    const gap = 4;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = columns * tileWidth + (columns - 1) * gap;
+    canvas.height = rows * tileHeight + (rows - 1) * gap;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    featureNames.forEach((name, index) => {
+      const x = (index % columns) * (tileWidth + gap);
+      const y = Math.floor(index / columns) * (tileHeight + gap);
+      this.drawHeatmap(ctx, textureData, name, x, y, tileWidth, tileHeight, colormap);
+    });
+
+    if (showFeatures && textureData.histogram) {
+      const index = featureNames.length;
+      const x = (index % columns) * (tileWidth + gap);
+      const y = Math.floor(index / columns) * (tileHeight + gap);
+      this.drawHistogram(ctx, textureData.histogram, x, y, tileWidth, tileHeight);
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Draw one feature map, normalized to its own range and smoothly upscaled
+   */
+  private drawHeatmap(
+    ctx: CanvasRenderingContext2D,
+    textureData: TextureAnalysisData,
+    feature: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    colormap: string
+  ): void {
+    const { gridWidth, gridHeight } = textureData;
+    const map = textureData.featureMaps[feature];
+    const { min, max } = textureData.statistics[feature];
+    const range = max - min > 1e-12 ? max - min : 1;
+
+    const gridCanvas = document.createElement('canvas');
+    gridCanvas.width = gridWidth;
+    gridCanvas.height = gridHeight;
+    const gridCtx = gridCanvas.getContext('2d');
+    if (!gridCtx) throw new Error('Could not get canvas context');
+
+    const gridImage = gridCtx.createImageData(gridWidth, gridHeight);
+    for (let i = 0; i < map.length; i++) {
+      const color = applyColormap((map[i] - min) / range, colormap);
+      gridImage.data[i * 4] = color.r;
+      gridImage.data[i * 4 + 1] = color.g;
+      gridImage.data[i * 4 + 2] = color.b;
+      gridImage.data[i * 4 + 3] = 255;
+    }
+    gridCtx.putImageData(gridImage, 0, 0);
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(gridCanvas, x, y, width, height);
+
+    // Label with the feature name and its global value
+    const label = `${feature}: ${this.formatValue(textureData.globalFeatures[feature])}`;
+    ctx.font = '11px Arial';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(x, y, ctx.measureText(label).width + 8, 16);
+    ctx.fillStyle = 'white';
+    ctx.fillText(label, x + 4, y + 12);
+  }
+
+  /**
+   * Draw a normalized histogram as a bar chart
+   */
+  private drawHistogram(
+    ctx: CanvasRenderingContext2D,
+    histogram: { labels: string[]; values: number[] },
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    const { labels, values } = histogram;
+    const maxValue = Math.max(...values, 1e-12);
+    const chartTop = y + 20;
+    const chartHeight = height - 36;
+    const barWidth = width / values.length;
+
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(x, y, width, height);
+
+    values.forEach((value, index) => {
+      const barHeight = (value / maxValue) * chartHeight;
+      ctx.fillStyle = '#34d399';
+      ctx.fillRect(x + index * barWidth + 1, chartTop + chartHeight - barHeight, barWidth - 2, barHeight);
+
+      ctx.fillStyle = '#d1d5db';
+      ctx.font = '9px Arial';
+      ctx.fillText(labels[index], x + index * barWidth + 2, y + height - 4);
+    });
+
+    ctx.fillStyle = 'white';
+    ctx.font = '11px Arial';
+    ctx.fillText('LBP histogram (riu2)', x + 4, y + 12);
+  }
+
+  private formatValue(value: number): string {
+    if (value === undefined || !isFinite(value)) return '-';
+    return Math.abs(value) >= 100 ? value.toFixed(1) : value.toFixed(3);
+  }
+}
+
+/**
+ * Factory for creating texture descriptor strategies
+ */
+export class TextureStrategyFactory {
+  static create(
+    method: string,
+    params: { direction?: TextureDirection; distance?: number; radius?: number; gaborFrequency?: number } = {}
+  ): TextureDescriptorStrategy {
+    switch (method.toLowerCase()) {
+      case 'lbp':
+        return new LBPTextureStrategy(params.radius || 1);
+      case 'gabor':
+        return new GaborTextureStrategy(params.gaborFrequency || 0.1, params.direction || 'all');
+      case 'wavelet':
+        return new WaveletTextureStrategy();
+      case 'glcm':
+      default:
+        return new GLCMTextureStrategy(params.distance || 1, params.direction || 'all');
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import type { Transformation, TransformationAnalysis } from '../utils/types';
+import type { IntermediateResult } from '../utils/imageProcessing';
+import {
+  toTransferableImage,
+  fromTransferableImage,
+  collectTransferList,
+  toWorkerTransformation
+} from '../workers/workerProtocol';
+import type {
+  ProcessJobMessage,
+  WorkerResponseMessage,
+  TransferableImage
+} from '../workers/workerProtocol';
+
+/**
+ * Options for a single pool job
+ */
+export interface WorkerJobOptions {
+  multiInput: boolean;
+  includeIntermediates: boolean;
+  // Aborting rejects the job with an AbortError and stops the worker running it
+  signal?: AbortSignal;
+  onProgress?: (progress: number, stage: string) => void;
+}
+
+/**
+ * Result of a pool job, rebuilt on the main thread
+ */
+export interface WorkerJobResult {
+  result: ImageData;
+  intermediates: IntermediateResult[];
+  // Keyed by output port id (multi-output transformations only)
+  outputs?: Record<string, ImageData>;
+  analysis?: TransformationAnalysis;
+}
+
+interface PoolJob {
+  id: number;
+  message: ProcessJobMessage;
+  transfer: ArrayBuffer[];
+  options: WorkerJobOptions;
+  resolve: (result: WorkerJobResult) => void;
+  reject: (error: Error) => void;
+  detachSignal: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PoolJob | null;
+  // Set once the worker has posted a message, i.e. its script loaded
+  started: boolean;
+}
+
+const createAbortError = (): Error => {
+  const error = new Error('Processing cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Check whether an error comes from a cancelled job
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+/**
+ * Fixed-size pool of pipeline workers.
+ * Jobs are queued FIFO and dispatched to the first idle worker. Pixel buffers
+ * are transferred in both directions, so callers must not reuse the ImageData
+ * they pass in. A running job cannot be interrupted from the outside, so
+ * cancelling it terminates its worker and a fresh one is spawned on demand.
+ */
+export class WorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: PoolJob[] = [];
+  private nextJobId = 1;
+  private maxWorkers: number;
+  private disabled = false;
+
+  constructor(maxWorkers?: number) {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    // Leave one core for the UI thread, and cap memory use (each worker loads OpenCV)
+    this.maxWorkers = maxWorkers ?? Math.max(1, Math.min(4, cores - 1));
+  }
+
+  /**
+   * Whether jobs can run in workers in this environment
+   */
+  public isSupported(): boolean {
+    return !this.disabled &&
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined';
+  }
+
+  /**
+   * Run a transformation in a worker
+   * @param transformation Transformation to apply
+   * @param inputs Input images keyed by port id ('input' for single-input nodes)
+   * @param options Job options
+   * @returns Promise with the processed image and its intermediate stages
+   */
+  public run(
+    transformation: Transformation,
+    inputs: Record<string, ImageData>,
+    options: WorkerJobOptions
+  ): Promise<WorkerJobResult> {
+    if (!this.isSupported()) {
+      return Promise.reject(new Error('Web Workers with OffscreenCanvas are not supported'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise<WorkerJobResult>((resolve, reject) => {
+      const id = this.nextJobId++;
+      const transferableInputs: Record<string, TransferableImage> = {};
+      Object.entries(inputs).forEach(([portId, imageData]) => {
+        transferableInputs[portId] = toTransferableImage(imageData);
+      });
+
+      const onAbort = () => this.cancel(id);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const job: PoolJob = {
+        id,
+        message: {
+          type: 'process',
+          jobId: id,
+          transformation: toWorkerTransformation(transformation),
+          inputs: transferableInputs,
+          multiInput: options.multiInput,
+          includeIntermediates: options.includeIntermediates
+        },
+        transfer: collectTransferList(Object.values(transferableInputs)),
+        options,
+        resolve,
+        reject,
+        detachSignal: () => options.signal?.removeEventListener('abort', onAbort)
+      };
+
+      this.queue.push(job);
+      options.onProgress?.(0, 'Queued');
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Cancel a queued or running job. Running jobs lose their worker.
+   */
+  private cancel(jobId: number): void {
+    const queuedIndex = this.queue.findIndex(job => job.id === jobId);
+    if (queuedIndex >= 0) {
+      const [job] = this.queue.splice(queuedIndex, 1);
+      this.settle(job, createAbortError());
+      return;
+    }
+
+    const poolWorker = this.workers.find(entry => entry.job?.id === jobId);
+    if (poolWorker && poolWorker.job) {
+      const job = poolWorker.job;
+      this.removeWorker(poolWorker);
+      this.settle(job, createAbortError());
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Terminate all workers and reject every pending job
+   */
+  public dispose(): void {
+    const pending = [...this.queue, ...this.workers.map(entry => entry.job)];
+    this.queue = [];
+    this.workers.forEach(entry => entry.worker.terminate());
+    this.workers = [];
+    pending.forEach(job => {
+      if (job) this.settle(job, createAbortError());
+    });
+  }
+
+  // Hand queued jobs to idle workers, spawning workers up to the pool size
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let poolWorker: PoolWorker | null = this.workers.find(entry => entry.job === null) || null;
+      if (!poolWorker) {
+        if (this.workers.length >= this.maxWorkers) return;
+        poolWorker = this.spawnWorker();
+        if (!poolWorker) return;
+      }
+
+      const job = this.queue.shift()!;
+      try {
+        poolWorker.worker.postMessage(job.message, job.transfer);
+      } catch (error) {
+        // Nothing was sent, so the worker stays idle for the next job
+        this.settle(job, error instanceof Error ? error : new Error(String(error)));
+        continue;
+      }
+      poolWorker.job = job;
+      job.options.onProgress?.(0.05, 'Starting');
+    }
+  }
+
+  private spawnWorker(): PoolWorker | null {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/pipelineWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      this.disablePool(error);
+      return null;
+    }
+
+    const poolWorker: PoolWorker = { worker, job: null, started: false };
+    worker.onmessage = (event: MessageEvent<WorkerResponseMessage>) => {
+      poolWorker.started = true;
+      this.handleMessage(poolWorker, event.data);
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      // Uncaught worker errors (including a worker script that fails to load)
+      event.preventDefault();
+      const job = poolWorker.job;
+      this.removeWorker(poolWorker);
+      if (!poolWorker.started) {
+        this.disablePool(event.message || 'Worker failed to start');
+      }
+      if (job) {
+        this.settle(job, new Error(event.message || 'Worker crashed'));
+      }
+      this.dispatch();
+    };
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private handleMessage(poolWorker: PoolWorker, message: WorkerResponseMessage): void {
+    const job = poolWorker.job;
+    // Ignore messages for jobs that were cancelled in the meantime
+    if (!job || job.id !== message.jobId) return;
+
+    switch (message.type) {
+      case 'progress':
+        job.options.onProgress?.(message.progress, message.stage);
+        break;
+      case 'result': {
+        poolWorker.job = null;
+        const intermediates: IntermediateResult[] = message.intermediates.map(intermediate => ({
+          stage: intermediate.stage,
+          description: intermediate.description,
+          imageData: fromTransferableImage(intermediate.image)
+        }));
+        const outputs = message.outputs
+          ? Object.fromEntries(
+              Object.entries(message.outputs).map(([portId, image]) => [portId, fromTransferableImage(image)])
+            )
+          : undefined;
+        job.options.onProgress?.(1, 'Complete');
+        this.settle(job, {
+          result: fromTransferableImage(message.result),
+          intermediates,
+          outputs,
+          analysis: message.analysis
+        });
+        this.dispatch();
+        break;
+      }
+      case 'error':
+        poolWorker.job = null;
+        this.settle(job, new Error(message.message));
+        this.dispatch();
+        break;
+    }
+  }
+
+  private settle(job: PoolJob, outcome: WorkerJobResult | Error): void {
+    job.detachSignal();
+    if (outcome instanceof Error) {
+      job.reject(outcome);
+    } else {
+      job.resolve(outcome);
+    }
+  }
+
+  private removeWorker(poolWorker: PoolWorker): void {
+    poolWorker.worker.terminate();
+    this.workers = this.workers.filter(entry => entry !== poolWorker);
+  }
+
+  // Stop using workers for the rest of the session; callers fall back to the main thread
+  private disablePool(reason: unknown): void {
+    console.warn('Worker pool disabled, processing will run on the main thread:', reason);
+    this.disabled = true;
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(job => this.settle(job, new Error('Worker pool unavailable')));
+  }
+}
+
+// Export singleton instance
+export const workerPool = new WorkerPool();
@@ -0,0 +1,202 @@
+/**
+ * Pure JavaScript tonal and colour adjustments for the colorAdjust
+ * transformation. Levels, gamma, brightness/contrast and the tone curve are
+ * folded into one 256-entry lookup table applied to R, G and B; hue,
+ * saturation and lightness shifts are then applied per pixel in HSL.
+ * The alpha channel is left untouched.
+ */
+import type { PointValue } from './types';
+import { rgbToHsl, hslToRgb } from './colorSpaces';
+
+export interface ColorAdjustOptions {
+  // -100..100: offset added to every channel (100 adds 255)
+  brightness: number;
+  // -100..100: slope around mid grey, from 1/4 (-100) to 4 (100)
+  contrast: number;
+  // Midtone gamma of the levels adjustment; > 1 brightens the midtones
+  gamma: number;
+  // Input values mapped to black and white by the levels adjustment
+  inputBlack: number;
+  inputWhite: number;
+  // Output range the levels adjustment maps onto
+  outputBlack: number;
+  outputWhite: number;
+  // Tone curve control points in 0-255 (input x, output y); fewer than 2 means identity
+  curve: PointValue[];
+  // -180..180 degrees
+  hue: number;
+  // -100..100: -100 removes all colour, 100 doubles the saturation
+  saturation: number;
+  // -100..100: blend towards black (-100) or white (100)
+  lightness: number;
+  // Keep each pixel's luminance through the HSL shifts
+  preserveLuminance: boolean;
+}
+
+export const IDENTITY_CURVE: PointValue[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const luminance = (r: number, g: number, b: number): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Sort control points by input value and drop points sharing an input value
+ * with an earlier one
+ */
+export const normalizeCurvePoints = (points: PointValue[]): PointValue[] => {
+  const sorted = points
+    .map(point => ({ x: clamp(Math.round(point.x), 0, 255), y: clamp(Math.round(point.y), 0, 255) }))
+    .sort((a, b) => a.x - b.x);
+  return sorted.filter((point, index) => index === 0 || point.x !== sorted[index - 1].x);
+};
+
+/**
+ * Evaluate a tone curve at every input value with a monotone cubic spline
+ * (Fritsch-Carlson), which passes through every control point without
+ * overshooting between them. Inputs outside the first and last point are
+ * held at their output values.
+ */
+export const createCurveLut = (points: PointValue[]): Float64Array => {
+  const lut = new Float64Array(256);
+  const curve = normalizeCurvePoints(points);
+
+  if (curve.length < 2) {
+    for (let i = 0; i < 256; i++) lut[i] = curve.length === 1 ? curve[0].y : i;
+    return lut;
+  }
+
+  const n = curve.length;
+  const slopes: number[] = [];
+  for (let k = 0; k < n - 1; k++) {
+    slopes.push((curve[k + 1].y - curve[k].y) / (curve[k + 1].x - curve[k].x));
+  }
+
+  // Tangents: averaged secant slopes, zero at local extrema
+  const tangents = new Array<number>(n);
+  tangents[0] = slopes[0];
+  tangents[n - 1] = slopes[n - 2];
+  for (let k = 1; k < n - 1; k++) {
+    tangents[k] = slopes[k - 1] * slopes[k] <= 0 ? 0 : (slopes[k - 1] + slopes[k]) / 2;
+  }
+
+  // Limit the tangents so every segment stays monotone
+  for (let k = 0; k < n - 1; k++) {
+    if (slopes[k] === 0) {
+      tangents[k] = 0;
+      tangents[k + 1] = 0;
+      continue;
+    }
+    const alpha = tangents[k] / slopes[k];
+    const beta = tangents[k + 1] / slopes[k];
+    const magnitude = alpha * alpha + beta * beta;
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude);
+      tangents[k] = scale * alpha * slopes[k];
+      tangents[k + 1] = scale * beta * slopes[k];
+    }
+  }
+
+  let segment = 0;
+  for (let i = 0; i < 256; i++) {
+    if (i <= curve[0].x) {
+      lut[i] = curve[0].y;
+      continue;
+    }
+    if (i >= curve[n - 1].x) {
+      lut[i] = curve[n - 1].y;
+      continue;
+    }
+    while (i > curve[segment + 1].x) segment++;
+
+    const start = curve[segment];
+    const end = curve[segment + 1];
+    const h = end.x - start.x;
+    const t = (i - start.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    lut[i] = (2 * t3 - 3 * t2 + 1) * start.y
+      + (t3 - 2 * t2 + t) * h * tangents[segment]
+      + (-2 * t3 + 3 * t2) * end.y
+      + (t3 - t2) * h * tangents[segment + 1];
+  }
+
+  return lut;
+};
+
+/**
+ * Lookup table for the tonal part of the adjustment, applied in order:
+ * levels (input range, gamma, output range), brightness/contrast, tone curve
+ */
+export const createToneLut = (options: ColorAdjustOptions): Uint8Array => {
+  const inputBlack = clamp(options.inputBlack, 0, 254);
+  const inputWhite = clamp(options.inputWhite, inputBlack + 1, 255);
+  const gamma = Math.max(0.01, options.gamma);
+  const contrast = Math.pow(2, clamp(options.contrast, -100, 100) / 50);
+  const brightness = clamp(options.brightness, -100, 100) * 2.55;
+  const curve = createCurveLut(options.curve);
+
+  const lut = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    const normalized = clamp((i - inputBlack) / (inputWhite - inputBlack), 0, 1);
+    let value = options.outputBlack + Math.pow(normalized, 1 / gamma) * (options.outputWhite - options.outputBlack);
+    value = (value - 128) * contrast + 128 + brightness;
+    value = clamp(value, 0, 255);
+
+    // Interpolate the curve between the integer entries
+    const lower = Math.floor(value);
+    const upper = Math.min(255, lower + 1);
+    value = curve[lower] + (curve[upper] - curve[lower]) * (value - lower);
+    lut[i] = clamp(Math.round(value), 0, 255);
+  }
+  return lut;
+};
+
+/**
+ * Apply a colour adjustment to an image
+ * @param imageData Source image
+ * @param options Tonal and HSL settings
+ * @returns New ImageData with the adjusted colours
+ */
+export const applyColorAdjustment = (imageData: ImageData, options: ColorAdjustOptions): ImageData => {
+  const { width, height, data } = imageData;
+  const lut = createToneLut(options);
+  const output = new Uint8ClampedArray(data.length);
+
+  const hueShift = clamp(options.hue, -180, 180);
+  const saturationScale = 1 + clamp(options.saturation, -100, 100) / 100;
+  const lightnessShift = clamp(options.lightness, -100, 100) / 100;
+  const shiftsColour = hueShift !== 0 || saturationScale !== 1 || lightnessShift !== 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = lut[data[i]];
+    let g = lut[data[i + 1]];
+    let b = lut[data[i + 2]];
+
+    if (shiftsColour) {
+      const [hue, saturation, lightness] = rgbToHsl(r, g, b);
+      const shiftedLightness = lightnessShift > 0
+        ? lightness + (1 - lightness) * lightnessShift
+        : lightness * (1 + lightnessShift);
+      const [nr, ng, nb] = hslToRgb(hue + hueShift, clamp(saturation * saturationScale, 0, 1), shiftedLightness);
+
+      if (options.preserveLuminance && lightnessShift === 0) {
+        // Same offset on every channel restores the luminance the tonal pass produced
+        const offset = luminance(r, g, b) - luminance(nr, ng, nb);
+        r = nr + offset;
+        g = ng + offset;
+        b = nb + offset;
+      } else {
+        r = nr;
+        g = ng;
+        b = nb;
+      }
+    }
+
+    output[i] = r;
+    output[i + 1] = g;
+    output[i + 2] = b;
+    output[i + 3] = data[i + 3];
+  }
+
+  return new ImageData(output, width, height);
+};
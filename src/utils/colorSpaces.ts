@@ -0,0 +1,259 @@
+/**
+ * Pure JavaScript colour space conversions with OpenCV's 8-bit channel
+ * encodings, so a converted image looks the same as the result of
+ * cv.cvtColor on an 8-bit RGB image:
+ *
+ * - HSV / HLS: hue in degrees / 2 (0-180), saturation and value/lightness 0-255
+ * - Lab: L * 255 / 100, a + 128, b + 128 (sRGB, D65 white point)
+ * - YCrCb: Y, Cr and Cb offset by 128
+ * - XYZ: the RGB values through the sRGB -> XYZ matrix
+ *
+ * Converted images are stored in the R, G and B slots of ordinary RGBA
+ * ImageData, which is how they travel along the pipeline.
+ *
+ * The per-pixel conversions behind them are also exported in their natural
+ * units (hue in degrees, saturation 0-1, L* 0-100) for the colour analysis
+ * and adjustment code.
+ */
+import type { ColorSpace } from './types';
+
+type Triplet = [number, number, number];
+
+// Channel names of each colour space, in the order they are stored
+export const COLOR_SPACE_CHANNELS: Record<ColorSpace, [string, string, string]> = {
+  rgb: ['Red', 'Green', 'Blue'],
+  hsv: ['Hue', 'Saturation', 'Value'],
+  hls: ['Hue', 'Lightness', 'Saturation'],
+  lab: ['L*', 'a*', 'b*'],
+  ycrcb: ['Y', 'Cr', 'Cb'],
+  xyz: ['X', 'Y', 'Z']
+};
+
+const clampByte = (value: number): number => Math.min(255, Math.max(0, Math.round(value)));
+
+// sRGB -> XYZ (D65) and its inverse, the matrices OpenCV uses
+const RGB_TO_XYZ = [
+  0.412453, 0.357580, 0.180423,
+  0.212671, 0.715160, 0.072169,
+  0.019334, 0.119193, 0.950227
+];
+const XYZ_TO_RGB = [
+  3.240479, -1.53715, -0.498535,
+  -0.969256, 1.875991, 0.041556,
+  0.055648, -0.204043, 1.057311
+];
+const WHITE_X = 0.950456;
+const WHITE_Z = 1.088754;
+
+const multiply = (m: number[], a: number, b: number, c: number): Triplet => [
+  m[0] * a + m[1] * b + m[2] * c,
+  m[3] * a + m[4] * b + m[5] * c,
+  m[6] * a + m[7] * b + m[8] * c
+];
+
+// sRGB gamma expansion of the 8-bit channel values
+const SRGB_TO_LINEAR = (() => {
+  const table = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const c = i / 255;
+    table[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  }
+  return table;
+})();
+
+const fromLinear = (value: number): number =>
+  value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+
+const LAB_EPSILON = 0.008856;
+const labF = (t: number): number => t > LAB_EPSILON ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+const labFInverse = (f: number): number => f * f * f > LAB_EPSILON ? f * f * f : (f - 16 / 116) / 7.787;
+
+/**
+ * RGB (0-255) to hue (0-360), saturation and value (0-1)
+ */
+export const rgbToHsv = (r: number, g: number, b: number): Triplet => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = 60 * (g - b) / delta;
+    else if (max === g) h = 120 + 60 * (b - r) / delta;
+    else h = 240 + 60 * (r - g) / delta;
+    if (h < 0) h += 360;
+  }
+  return [h, max === 0 ? 0 : delta / max, max / 255];
+};
+
+/**
+ * RGB (0-255) to hue (0-360), saturation and lightness (0-1)
+ */
+export const rgbToHsl = (r: number, g: number, b: number): Triplet => {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const delta = max - min;
+  const lightness = (max + min) / 2;
+  if (delta === 0) return [0, 0, lightness];
+
+  const [hue] = rgbToHsv(r, g, b);
+  return [hue, delta / (1 - Math.abs(2 * lightness - 1)), lightness];
+};
+
+// Hue in degrees, chroma-based sector formula shared by the HSV and HSL inverses
+const hueToRgb = (hue: number, chroma: number, m: number): Triplet => {
+  const sector = (((hue % 360) + 360) % 360) / 60;
+  const x = chroma * (1 - Math.abs((sector % 2) - 1));
+  let rgb: Triplet;
+  if (sector < 1) rgb = [chroma, x, 0];
+  else if (sector < 2) rgb = [x, chroma, 0];
+  else if (sector < 3) rgb = [0, chroma, x];
+  else if (sector < 4) rgb = [0, x, chroma];
+  else if (sector < 5) rgb = [x, 0, chroma];
+  else rgb = [chroma, 0, x];
+  return [rgb[0] + m, rgb[1] + m, rgb[2] + m];
+};
+
+/**
+ * Hue (degrees), saturation and lightness (0-1) to RGB (0-255, unrounded)
+ */
+export const hslToRgb = (hue: number, saturation: number, lightness: number): Triplet => {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const [r, g, b] = hueToRgb(hue, chroma, lightness - chroma / 2);
+  return [r * 255, g * 255, b * 255];
+};
+
+/**
+ * RGB (0-255) to CIE XYZ (D65), white at Y = 1
+ */
+export const rgbToXyz = (r: number, g: number, b: number): Triplet =>
+  multiply(RGB_TO_XYZ, SRGB_TO_LINEAR[r], SRGB_TO_LINEAR[g], SRGB_TO_LINEAR[b]);
+
+/**
+ * CIE XYZ (D65, white at Y = 1) to L* (0-100), a* and b*
+ */
+export const xyzToLab = (x: number, y: number, z: number): Triplet => {
+  const fx = labF(x / WHITE_X);
+  const fy = labF(y);
+  const fz = labF(z / WHITE_Z);
+  const lightness = y > LAB_EPSILON ? 116 * fy - 16 : 903.3 * y;
+  return [lightness, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const rgbToHsv8 = (r: number, g: number, b: number): Triplet => {
+  const [h, s, v] = rgbToHsv(r, g, b);
+  return [h / 2, s * 255, v * 255];
+};
+
+const hsvToRgb = (h: number, s: number, v: number): Triplet => {
+  const chroma = v * s / 255;
+  return hueToRgb(h * 2, chroma, v - chroma);
+};
+
+const rgbToHls = (r: number, g: number, b: number): Triplet => {
+  const [h, s, l] = rgbToHsl(r, g, b);
+  return [h / 2, l * 255, s * 255];
+};
+
+const hlsToRgb = (h: number, l: number, s: number): Triplet => hslToRgb(h * 2, s / 255, l / 255);
+
+const rgbToLab = (r: number, g: number, b: number): Triplet => {
+  const [lightness, a, bStar] = xyzToLab(...rgbToXyz(r, g, b));
+  return [lightness * 255 / 100, a + 128, bStar + 128];
+};
+
+const labToRgb = (l: number, a: number, b: number): Triplet => {
+  const lightness = l * 100 / 255;
+  const fy = (lightness + 16) / 116;
+  const y = lightness > 903.3 * LAB_EPSILON ? fy * fy * fy : lightness / 903.3;
+  const x = labFInverse((a - 128) / 500 + fy) * WHITE_X;
+  const z = labFInverse(fy - (b - 128) / 200) * WHITE_Z;
+  const linear = multiply(XYZ_TO_RGB, x, y, z);
+  return linear.map(value => fromLinear(Math.min(1, Math.max(0, value))) * 255) as Triplet;
+};
+
+const rgbToYCrCb = (r: number, g: number, b: number): Triplet => {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  return [y, (r - y) * 0.713 + 128, (b - y) * 0.564 + 128];
+};
+
+const yCrCbToRgb = (y: number, cr: number, cb: number): Triplet => [
+  y + 1.403 * (cr - 128),
+  y - 0.714 * (cr - 128) - 0.344 * (cb - 128),
+  y + 1.773 * (cb - 128)
+];
+
+const converters: Record<Exclude<ColorSpace, 'rgb'>, {
+  fromRgb: (a: number, b: number, c: number) => Triplet;
+  toRgb: (a: number, b: number, c: number) => Triplet;
+}> = {
+  hsv: { fromRgb: rgbToHsv8, toRgb: hsvToRgb },
+  hls: { fromRgb: rgbToHls, toRgb: hlsToRgb },
+  lab: { fromRgb: rgbToLab, toRgb: labToRgb },
+  ycrcb: { fromRgb: rgbToYCrCb, toRgb: yCrCbToRgb },
+  xyz: {
+    fromRgb: (r, g, b) => multiply(RGB_TO_XYZ, r, g, b),
+    toRgb: (x, y, z) => multiply(XYZ_TO_RGB, x, y, z)
+  }
+};
+
+/**
+ * Convert an image between RGB and another colour space
+ * @param direction 'fromRgb' packs the colour space channels into R, G and B;
+ *   'toRgb' reads them from there and converts back
+ * @returns New ImageData; the alpha channel is kept
+ */
+export const convertColorSpace = (
+  imageData: ImageData,
+  space: ColorSpace,
+  direction: 'fromRgb' | 'toRgb'
+): ImageData => {
+  const { data, width, height } = imageData;
+  const output = new Uint8ClampedArray(data);
+  if (space === 'rgb') return new ImageData(output, width, height);
+
+  const convert = converters[space][direction];
+  for (let i = 0; i < data.length; i += 4) {
+    const [a, b, c] = convert(data[i], data[i + 1], data[i + 2]);
+    output[i] = clampByte(a);
+    output[i + 1] = clampByte(b);
+    output[i + 2] = clampByte(c);
+  }
+  return new ImageData(output, width, height);
+};
+
+/**
+ * Split an RGBA image into four 8-bit planes: the three colour channels
+ * (after converting to the given colour space) and alpha
+ */
+export const splitChannels = (imageData: ImageData, space: ColorSpace): Uint8Array[] => {
+  const converted = convertColorSpace(imageData, space, 'fromRgb');
+  const pixelCount = imageData.width * imageData.height;
+  const planes = [0, 1, 2, 3].map(() => new Uint8Array(pixelCount));
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    planes[0][p] = converted.data[i];
+    planes[1][p] = converted.data[i + 1];
+    planes[2][p] = converted.data[i + 2];
+    planes[3][p] = converted.data[i + 3];
+  }
+  return planes;
+};
+
+/**
+ * Combine three channel planes of a colour space (and optionally alpha)
+ * into an RGBA image
+ */
+export const mergeChannels = (
+  planes: Uint8Array[],
+  width: number,
+  height: number,
+  space: ColorSpace
+): ImageData => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0, i = 0; p < width * height; p++, i += 4) {
+    pixels[i] = planes[0][p];
+    pixels[i + 1] = planes[1][p];
+    pixels[i + 2] = planes[2][p];
+    pixels[i + 3] = planes[3] ? planes[3][p] : 255;
+  }
+  return convertColorSpace(new ImageData(pixels, width, height), space, 'toRgb');
+};
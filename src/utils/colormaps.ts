@@ -0,0 +1,81 @@
+/**
+ * Colormaps for heatmap visualizations. Values are normalized to [0, 1]
+ * and mapped to 8-bit RGB.
+ */
+
+export type ColormapName = 'jet' | 'hot' | 'cool' | 'gray' | 'hsv';
+
+export interface ColormapColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const toColor = (r: number, g: number, b: number): ColormapColor => ({
+  r: Math.round(r * 255),
+  g: Math.round(g * 255),
+  b: Math.round(b * 255)
+});
+
+/**
+ * Jet: blue through cyan, yellow to red
+ */
+export const jetColormap = (value: number): ColormapColor => toColor(
+  Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 3))),
+  Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 2))),
+  Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - 1)))
+);
+
+/**
+ * Hot: black through red and yellow to white
+ */
+export const hotColormap = (value: number): ColormapColor => toColor(
+  Math.min(1, value * 3),
+  Math.min(1, Math.max(0, value * 3 - 1)),
+  Math.min(1, Math.max(0, value * 3 - 2))
+);
+
+/**
+ * Cool: magenta to cyan
+ */
+export const coolColormap = (value: number): ColormapColor => toColor(1 - value, value, 1);
+
+/**
+ * Gray: black to white
+ */
+export const grayColormap = (value: number): ColormapColor => toColor(value, value, value);
+
+/**
+ * HSV: full hue circle at full saturation and brightness
+ */
+export const hsvColormap = (value: number): ColormapColor => {
+  const hue = (value * 6) % 6;
+  const x = 1 - Math.abs((hue % 2) - 1);
+  switch (Math.floor(hue)) {
+    case 0: return toColor(1, x, 0);
+    case 1: return toColor(x, 1, 0);
+    case 2: return toColor(0, 1, x);
+    case 3: return toColor(0, x, 1);
+    case 4: return toColor(x, 0, 1);
+    default: return toColor(1, 0, x);
+  }
+};
+
+const colormaps: Record<ColormapName, (value: number) => ColormapColor> = {
+  jet: jetColormap,
+  hot: hotColormap,
+  cool: coolColormap,
+  gray: grayColormap,
+  hsv: hsvColormap
+};
+
+/**
+ * Map a value in [0, 1] (clamped) through a named colormap
+ * @param value Normalized value
+ * @param colormap Colormap name; unknown names use the fallback
+ * @param fallback Colormap of the caller's default setting
+ */
+export const applyColormap = (value: number, colormap: string, fallback: ColormapName = 'jet'): ColormapColor => {
+  const map = colormaps[colormap as ColormapName] || colormaps[fallback];
+  return map(Math.max(0, Math.min(1, value)));
+};
@@ -0,0 +1,267 @@
+/**
+ * Pure JavaScript implementations of the smoothing / sharpening filters.
+ * Used when OpenCV is unavailable (fallback Mats) so the filter nodes still
+ * produce a meaningful result instead of passing the input through.
+ *
+ * All functions operate on RGBA ImageData, leave the alpha channel untouched
+ * and replicate edge pixels at the image border.
+ */
+
+// Clamp a coordinate to the valid [0, size - 1] range (border replicate)
+const clampIndex = (value: number, size: number): number =>
+  value < 0 ? 0 : value >= size ? size - 1 : value;
+
+/**
+ * Creates a normalized 1D Gaussian kernel for the given sigma
+ * @param sigma Standard deviation of the Gaussian
+ * @returns Kernel weights, length 2 * ceil(3 * sigma) + 1
+ */
+export const createGaussianKernel1D = (sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  const twoSigmaSq = 2 * sigma * sigma;
+  let sum = 0;
+
+  for (let i = -radius; i <= radius; i++) {
+    const weight = Math.exp(-(i * i) / twoSigmaSq);
+    kernel[i + radius] = weight;
+    sum += weight;
+  }
+
+  for (let i = 0; i < kernel.length; i++) {
+    kernel[i] /= sum;
+  }
+
+  return kernel;
+};
+
+/**
+ * Separable Gaussian blur of the RGB channels
+ * @param imageData Source image
+ * @param sigma Standard deviation of the Gaussian
+ * @returns New blurred ImageData
+ */
+export const gaussianBlurImageData = (imageData: ImageData, sigma: number): ImageData => {
+  const { width, height, data } = imageData;
+  const kernel = createGaussianKernel1D(sigma);
+  const radius = (kernel.length - 1) / 2;
+  const temp = new Float32Array(data.length);
+  const output = new Uint8ClampedArray(data.length);
+
+  // Horizontal pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const offset = (y * width + clampIndex(x + k, width)) * 4;
+        const weight = kernel[k + radius];
+        r += data[offset] * weight;
+        g += data[offset + 1] * weight;
+        b += data[offset + 2] * weight;
+      }
+      const offset = (y * width + x) * 4;
+      temp[offset] = r;
+      temp[offset + 1] = g;
+      temp[offset + 2] = b;
+    }
+  }
+
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const offset = (clampIndex(y + k, height) * width + x) * 4;
+        const weight = kernel[k + radius];
+        r += temp[offset] * weight;
+        g += temp[offset + 1] * weight;
+        b += temp[offset + 2] * weight;
+      }
+      const offset = (y * width + x) * 4;
+      output[offset] = r;
+      output[offset + 1] = g;
+      output[offset + 2] = b;
+      output[offset + 3] = data[offset + 3];
+    }
+  }
+
+  return new ImageData(output, width, height);
+};
+
+/**
+ * Unsharp mask: result = src + strength * (src - gaussian(src, radius))
+ * @param imageData Source image
+ * @param strength Amount of detail added back (0 = no change)
+ * @param radius Sigma of the Gaussian used to extract the detail layer
+ * @returns Object with the sharpened image and the blurred base layer
+ */
+export const sharpenImageData = (
+  imageData: ImageData,
+  strength: number,
+  radius: number
+): { result: ImageData; blurred: ImageData } => {
+  const blurred = gaussianBlurImageData(imageData, radius);
+  const { data } = imageData;
+  const output = new Uint8ClampedArray(data.length);
+
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      output[i + c] = data[i + c] + strength * (data[i + c] - blurred.data[i + c]);
+    }
+    output[i + 3] = data[i + 3];
+  }
+
+  return {
+    result: new ImageData(output, imageData.width, imageData.height),
+    blurred
+  };
+};
+
+/**
+ * Median filter using a sliding 256-bin histogram per channel (Huang's algorithm)
+ * @param imageData Source image
+ * @param kernelSize Odd window size
+ * @returns New filtered ImageData
+ */
+export const medianFilterImageData = (imageData: ImageData, kernelSize: number): ImageData => {
+  const { width, height, data } = imageData;
+  const radius = Math.floor(kernelSize / 2);
+  const output = new Uint8ClampedArray(data.length);
+  const windowArea = kernelSize * kernelSize;
+  const medianRank = Math.floor(windowArea / 2);
+  const histograms = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+
+  // Find the value whose cumulative count first exceeds the median rank
+  const findMedian = (histogram: Uint32Array): number => {
+    let count = 0;
+    for (let v = 0; v < 256; v++) {
+      count += histogram[v];
+      if (count > medianRank) return v;
+    }
+    return 255;
+  };
+
+  // Add (sign = 1) or remove (sign = -1) one window column
+  const updateColumn = (x: number, y: number, sign: number) => {
+    const col = clampIndex(x, width);
+    for (let k = -radius; k <= radius; k++) {
+      const offset = (clampIndex(y + k, height) * width + col) * 4;
+      histograms[0][data[offset]] += sign;
+      histograms[1][data[offset + 1]] += sign;
+      histograms[2][data[offset + 2]] += sign;
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    histograms.forEach(histogram => histogram.fill(0));
+
+    // Initialize the window for the first pixel of the row
+    for (let k = -radius; k <= radius; k++) {
+      updateColumn(k, y, 1);
+    }
+
+    for (let x = 0; x < width; x++) {
+      if (x > 0) {
+        updateColumn(x - radius - 1, y, -1);
+        updateColumn(x + radius, y, 1);
+      }
+
+      const offset = (y * width + x) * 4;
+      output[offset] = findMedian(histograms[0]);
+      output[offset + 1] = findMedian(histograms[1]);
+      output[offset + 2] = findMedian(histograms[2]);
+      output[offset + 3] = data[offset + 3];
+    }
+  }
+
+  return new ImageData(output, width, height);
+};
+
+/**
+ * Brute-force bilateral filter matching OpenCV's weighting:
+ * spatial weight from the Euclidean pixel distance, range weight from the
+ * sum of absolute RGB differences.
+ * @param imageData Source image
+ * @param diameter Neighbourhood diameter in pixels
+ * @param sigmaColor Range sigma
+ * @param sigmaSpace Spatial sigma
+ * @returns New filtered ImageData
+ */
+export const bilateralFilterImageData = (
+  imageData: ImageData,
+  diameter: number,
+  sigmaColor: number,
+  sigmaSpace: number
+): ImageData => {
+  const { width, height, data } = imageData;
+  const radius = Math.max(1, Math.floor(diameter / 2));
+  const output = new Uint8ClampedArray(data.length);
+
+  // Precompute spatial weights for the circular neighbourhood
+  const offsetsX: number[] = [];
+  const offsetsY: number[] = [];
+  const spaceWeights: number[] = [];
+  const spaceCoeff = -0.5 / (sigmaSpace * sigmaSpace);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const distSq = dx * dx + dy * dy;
+      if (distSq > radius * radius) continue;
+      offsetsX.push(dx);
+      offsetsY.push(dy);
+      spaceWeights.push(Math.exp(distSq * spaceCoeff));
+    }
+  }
+
+  // Lookup table for range weights (max L1 distance across RGB is 3 * 255)
+  const colorCoeff = -0.5 / (sigmaColor * sigmaColor);
+  const colorWeights = new Float32Array(256 * 3);
+  for (let i = 0; i < colorWeights.length; i++) {
+    colorWeights[i] = Math.exp(i * i * colorCoeff);
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = (y * width + x) * 4;
+      const r0 = data[center], g0 = data[center + 1], b0 = data[center + 2];
+      let sumR = 0, sumG = 0, sumB = 0, sumWeight = 0;
+
+      for (let k = 0; k < spaceWeights.length; k++) {
+        const offset = (clampIndex(y + offsetsY[k], height) * width + clampIndex(x + offsetsX[k], width)) * 4;
+        const r = data[offset], g = data[offset + 1], b = data[offset + 2];
+        const weight = spaceWeights[k] * colorWeights[Math.abs(r - r0) + Math.abs(g - g0) + Math.abs(b - b0)];
+        sumR += r * weight;
+        sumG += g * weight;
+        sumB += b * weight;
+        sumWeight += weight;
+      }
+
+      output[center] = sumR / sumWeight;
+      output[center + 1] = sumG / sumWeight;
+      output[center + 2] = sumB / sumWeight;
+      output[center + 3] = data[center + 3];
+    }
+  }
+
+  return new ImageData(output, width, height);
+};
+
+/**
+ * Absolute per-channel difference between two images of the same size,
+ * with an optional gain so small differences remain visible
+ * @param a First image
+ * @param b Second image
+ * @param gain Multiplier applied to the difference
+ * @returns Opaque difference image
+ */
+export const differenceImageData = (a: ImageData, b: ImageData, gain: number = 1): ImageData => {
+  const output = new Uint8ClampedArray(a.data.length);
+
+  for (let i = 0; i < a.data.length; i += 4) {
+    output[i] = Math.abs(a.data[i] - b.data[i]) * gain;
+    output[i + 1] = Math.abs(a.data[i + 1] - b.data[i + 1]) * gain;
+    output[i + 2] = Math.abs(a.data[i + 2] - b.data[i + 2]) * gain;
+    output[i + 3] = 255;
+  }
+
+  return new ImageData(output, a.width, a.height);
+};
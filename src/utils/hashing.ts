@@ -0,0 +1,87 @@
+/**
+ * Fast non-cryptographic hashing used to content-address pipeline results.
+ * Based on cyrb53 (public domain): two independent 32-bit lanes combined
+ * into a 53-bit value, which keeps accidental collisions negligible for the
+ * few thousand results a session produces.
+ */
+
+// Mix the two lanes into the final 53-bit hash, encoded as hex
+const finalize = (h1: number, h2: number): string => {
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, '0');
+};
+
+/**
+ * Hash a string
+ * @param value String to hash
+ * @param seed Optional seed to derive independent hashes
+ * @returns 14-character hex hash
+ */
+export const hashString = (value: string, seed: number = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  return finalize(h1, h2);
+};
+
+/**
+ * Hash raw bytes, e.g. ImageData pixels. Whole 32-bit words are consumed at a
+ * time, so a 12-megapixel image hashes in a few tens of milliseconds.
+ * @param bytes Bytes to hash
+ * @param seed Optional seed to derive independent hashes
+ * @returns 14-character hex hash
+ */
+export const hashBytes = (bytes: Uint8Array | Uint8ClampedArray, seed: number = 0): string => {
+  let h1 = 0xdeadbeef ^ seed ^ bytes.length;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  // Unaligned views fall back to the byte-by-byte loop below
+  const wordCount = bytes.byteOffset % 4 === 0 ? Math.floor(bytes.length / 4) : 0;
+  const words = wordCount > 0 ? new Uint32Array(bytes.buffer, bytes.byteOffset, wordCount) : new Uint32Array(0);
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    h1 = Math.imul(h1 ^ word, 2654435761);
+    h2 = Math.imul(h2 ^ word, 1597334677);
+  }
+
+  // Trailing bytes that do not fill a whole word
+  for (let i = wordCount * 4; i < bytes.length; i++) {
+    h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+    h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+  }
+
+  return finalize(h1, h2);
+};
+
+/**
+ * JSON serialization with object keys sorted, so equal values always produce
+ * the same string regardless of key insertion order
+ */
+export const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+};
@@ -0,0 +1,267 @@
+/**
+ * Pure JavaScript histogram operations: global equalization, CLAHE and
+ * histogram matching. Working on lookup tables keeps the results identical
+ * with or without OpenCV, in the pipeline workers and on the main thread.
+ *
+ * Colour images are processed either on their luminance (the chroma is kept
+ * by shifting R, G and B by the same amount) or on each RGB channel
+ * independently. The alpha channel is left untouched.
+ */
+import type { HistogramMethod, HistogramChannelMode } from './types';
+
+export interface HistogramOperationOptions {
+  method: HistogramMethod;
+  mode: HistogramChannelMode;
+  // CLAHE: contrast limit relative to a uniform histogram (0 disables clipping)
+  clipLimit: number;
+  // CLAHE: number of tiles along each axis
+  tileGridSize: number;
+}
+
+// Luminance with the same weights as the grayscale histogram strategy
+const luminance = (r: number, g: number, b: number): number =>
+  Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+
+/**
+ * Split an image into the 8-bit planes a histogram operation works on
+ * @returns [luminance] or [red, green, blue]
+ */
+export const getHistogramPlanes = (imageData: ImageData, mode: HistogramChannelMode): Uint8Array[] => {
+  const { data } = imageData;
+  const pixelCount = imageData.width * imageData.height;
+
+  if (mode === 'luminance') {
+    const luma = new Uint8Array(pixelCount);
+    for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+      luma[p] = luminance(data[i], data[i + 1], data[i + 2]);
+    }
+    return [luma];
+  }
+
+  const planes = [new Uint8Array(pixelCount), new Uint8Array(pixelCount), new Uint8Array(pixelCount)];
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    planes[0][p] = data[i];
+    planes[1][p] = data[i + 1];
+    planes[2][p] = data[i + 2];
+  }
+  return planes;
+};
+
+const countValues = (plane: Uint8Array): Uint32Array => {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < plane.length; i++) {
+    histogram[plane[i]]++;
+  }
+  return histogram;
+};
+
+const applyLut = (plane: Uint8Array, lut: Uint8Array): Uint8Array => {
+  const output = new Uint8Array(plane.length);
+  for (let i = 0; i < plane.length; i++) {
+    output[i] = lut[plane[i]];
+  }
+  return output;
+};
+
+/**
+ * Lookup table that spreads a histogram over the full 0-255 range
+ * (same mapping as cv.equalizeHist)
+ */
+export const createEqualizationLut = (histogram: ArrayLike<number>): Uint8Array => {
+  const lut = new Uint8Array(256);
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += histogram[i];
+
+  let first = 0;
+  while (first < 255 && histogram[first] === 0) first++;
+
+  // A single-valued image has nothing to spread
+  if (histogram[first] === total) {
+    for (let i = 0; i < 256; i++) lut[i] = i;
+    return lut;
+  }
+
+  const scale = 255 / (total - histogram[first]);
+  let cumulative = 0;
+  for (let i = first + 1; i < 256; i++) {
+    cumulative += histogram[i];
+    lut[i] = Math.round(cumulative * scale);
+  }
+  return lut;
+};
+
+/**
+ * Lookup table that maps the source distribution onto the reference one:
+ * each value goes to the first reference value whose cumulative share is at
+ * least the source value's cumulative share
+ */
+export const createMatchingLut = (source: ArrayLike<number>, reference: ArrayLike<number>): Uint8Array => {
+  const toCdf = (histogram: ArrayLike<number>): Float64Array => {
+    const cdf = new Float64Array(256);
+    let cumulative = 0;
+    for (let i = 0; i < 256; i++) {
+      cumulative += histogram[i];
+      cdf[i] = cumulative;
+    }
+    const total = cumulative || 1;
+    for (let i = 0; i < 256; i++) cdf[i] /= total;
+    return cdf;
+  };
+
+  const sourceCdf = toCdf(source);
+  const referenceCdf = toCdf(reference);
+  const lut = new Uint8Array(256);
+
+  let target = 0;
+  for (let i = 0; i < 256; i++) {
+    // Both CDFs are non-decreasing, so the search resumes where it stopped
+    while (target < 255 && referenceCdf[target] < sourceCdf[i] - 1e-12) target++;
+    lut[i] = target;
+  }
+  return lut;
+};
+
+/**
+ * Contrast Limited Adaptive Histogram Equalization of one plane.
+ * Each tile gets its own clipped equalization table and every pixel blends
+ * the tables of the four nearest tile centres, which hides the tile seams.
+ */
+export const applyClahe = (
+  plane: Uint8Array,
+  width: number,
+  height: number,
+  clipLimit: number,
+  tileGridSize: number
+): Uint8Array => {
+  const tilesX = Math.max(1, Math.min(Math.round(tileGridSize), width));
+  const tilesY = Math.max(1, Math.min(Math.round(tileGridSize), height));
+  const tileStart = (index: number, tiles: number, size: number) => Math.floor(index * size / tiles);
+
+  const luts: Uint8Array[] = [];
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = tileStart(tx, tilesX, width);
+      const x1 = tileStart(tx + 1, tilesX, width);
+      const y0 = tileStart(ty, tilesY, height);
+      const y1 = tileStart(ty + 1, tilesY, height);
+      const area = (x1 - x0) * (y1 - y0);
+
+      const histogram = new Uint32Array(256);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          histogram[plane[y * width + x]]++;
+        }
+      }
+
+      // Clip the peaks and hand the excess back evenly to all bins
+      if (clipLimit > 0) {
+        const limit = Math.max(1, Math.floor(clipLimit * area / 256));
+        let excess = 0;
+        for (let i = 0; i < 256; i++) {
+          if (histogram[i] > limit) {
+            excess += histogram[i] - limit;
+            histogram[i] = limit;
+          }
+        }
+
+        const increment = Math.floor(excess / 256);
+        let remainder = excess - increment * 256;
+        for (let i = 0; i < 256; i++) histogram[i] += increment;
+        const step = remainder > 0 ? Math.max(1, Math.floor(256 / remainder)) : 256;
+        for (let i = 0; i < 256 && remainder > 0; i += step, remainder--) histogram[i]++;
+      }
+
+      const lut = new Uint8Array(256);
+      const scale = 255 / Math.max(1, area);
+      let cumulative = 0;
+      for (let i = 0; i < 256; i++) {
+        cumulative += histogram[i];
+        lut[i] = Math.min(255, Math.round(cumulative * scale));
+      }
+      luts.push(lut);
+    }
+  }
+
+  // Position of a pixel between tile centres: lower tile index and blend weight
+  const neighbours = (position: number, tiles: number, size: number) => {
+    const scaled = (position + 0.5) * tiles / size - 0.5;
+    const lower = Math.max(0, Math.min(tiles - 1, Math.floor(scaled)));
+    const upper = Math.min(tiles - 1, lower + 1);
+    const weight = Math.max(0, Math.min(1, scaled - lower));
+    return { lower, upper, weight };
+  };
+
+  const columns = Array.from({ length: width }, (_, x) => neighbours(x, tilesX, width));
+  const output = new Uint8Array(plane.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = neighbours(y, tilesY, height);
+    for (let x = 0; x < width; x++) {
+      const column = columns[x];
+      const value = plane[y * width + x];
+      const topLeft = luts[row.lower * tilesX + column.lower][value];
+      const topRight = luts[row.lower * tilesX + column.upper][value];
+      const bottomLeft = luts[row.upper * tilesX + column.lower][value];
+      const bottomRight = luts[row.upper * tilesX + column.upper][value];
+
+      const top = topLeft + (topRight - topLeft) * column.weight;
+      const bottom = bottomLeft + (bottomRight - bottomLeft) * column.weight;
+      output[y * width + x] = Math.round(top + (bottom - top) * row.weight);
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Apply a histogram operation to an image
+ * @param imageData Source image
+ * @param options Method, channel mode and CLAHE settings
+ * @param reference Image whose histogram is matched (required for 'match')
+ * @returns New ImageData with the redistributed intensities
+ */
+export const applyHistogramOperation = (
+  imageData: ImageData,
+  options: HistogramOperationOptions,
+  reference?: ImageData
+): ImageData => {
+  const { width, height, data } = imageData;
+  const planes = getHistogramPlanes(imageData, options.mode);
+
+  let referencePlanes: Uint8Array[] | null = null;
+  if (options.method === 'match') {
+    if (!reference) {
+      throw new Error('Histogram matching needs an image connected to the Reference input');
+    }
+    referencePlanes = getHistogramPlanes(reference, options.mode);
+  }
+
+  const processed = planes.map((plane, index) => {
+    switch (options.method) {
+      case 'adaptive':
+        return applyClahe(plane, width, height, options.clipLimit, options.tileGridSize);
+      case 'match':
+        return applyLut(plane, createMatchingLut(countValues(plane), countValues(referencePlanes![index])));
+      default:
+        return applyLut(plane, createEqualizationLut(countValues(plane)));
+    }
+  });
+
+  const output = new Uint8ClampedArray(data.length);
+  for (let p = 0, i = 0; p < planes[0].length; p++, i += 4) {
+    if (options.mode === 'luminance') {
+      // Same shift on every channel keeps the chroma (Cr, Cb) unchanged
+      const shift = processed[0][p] - planes[0][p];
+      output[i] = data[i] + shift;
+      output[i + 1] = data[i + 1] + shift;
+      output[i + 2] = data[i + 2] + shift;
+    } else {
+      output[i] = processed[0][p];
+      output[i + 1] = processed[1][p];
+      output[i + 2] = processed[2][p];
+    }
+    output[i + 3] = data[i + 3];
+  }
+
+  return new ImageData(output, width, height);
+};
@@ -0,0 +1,220 @@
+/**
+ * JavaScript side of the Hough detection transformation. OpenCV finds the
+ * lines and circles, but does not expose its accumulators, so the votes are
+ * recomputed here to visualise the parameter space the detections come from.
+ */
+import type { PointValue } from './types';
+
+// Votes in a parameter space, stored row-major
+export interface HoughAccumulator {
+  votes: Uint32Array;
+  width: number;
+  height: number;
+}
+
+// Line accumulator: columns are theta bins over [0, π), rows are rho bins
+export interface LineAccumulator extends HoughAccumulator {
+  rhoStep: number;
+  thetaStep: number;
+  // Row of rho = 0
+  rhoOffset: number;
+}
+
+/**
+ * Parse a #rrggbb colour
+ */
+export const parseHexColor = (hex: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return [255, 0, 0];
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Accumulate the votes of every non-zero pixel for the lines
+ * x·cos θ + y·sin θ = ρ through it, the space searched by cv.HoughLines
+ * @param mask One value per pixel; non-zero pixels vote
+ * @param rhoStep Distance resolution in pixels
+ * @param thetaStep Angle resolution in radians
+ */
+export const computeLineAccumulator = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  rhoStep: number,
+  thetaStep: number
+): LineAccumulator => {
+  const thetaBins = Math.max(1, Math.round(Math.PI / thetaStep));
+  const rhoOffset = Math.ceil(Math.hypot(width, height) / rhoStep);
+  const rhoBins = rhoOffset * 2 + 1;
+  const votes = new Uint32Array(thetaBins * rhoBins);
+
+  const cosines = new Float64Array(thetaBins);
+  const sines = new Float64Array(thetaBins);
+  for (let t = 0; t < thetaBins; t++) {
+    cosines[t] = Math.cos(t * thetaStep) / rhoStep;
+    sines[t] = Math.sin(t * thetaStep) / rhoStep;
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] === 0) continue;
+      for (let t = 0; t < thetaBins; t++) {
+        const row = Math.round(x * cosines[t] + y * sines[t]) + rhoOffset;
+        votes[row * thetaBins + t]++;
+      }
+    }
+  }
+
+  return { votes, width: thetaBins, height: rhoBins, rhoStep, thetaStep, rhoOffset };
+};
+
+/**
+ * Accumulate votes for circle centres the way the Hough gradient method does:
+ * every edge pixel votes along its gradient direction, both ways, at every
+ * distance in the radius range
+ * @param edges Edge mask, non-zero on edges
+ * @param dx Horizontal gradient per pixel
+ * @param dy Vertical gradient per pixel
+ * @param dp Inverse accumulator resolution (2 halves the accumulator size)
+ */
+export const computeCircleCenterAccumulator = (
+  edges: Uint8Array,
+  dx: ArrayLike<number>,
+  dy: ArrayLike<number>,
+  width: number,
+  height: number,
+  minRadius: number,
+  maxRadius: number,
+  dp: number
+): HoughAccumulator => {
+  const scale = Math.max(1, dp);
+  const accumulatorWidth = Math.max(1, Math.ceil(width / scale));
+  const accumulatorHeight = Math.max(1, Math.ceil(height / scale));
+  const votes = new Uint32Array(accumulatorWidth * accumulatorHeight);
+  const lowest = Math.max(1, minRadius);
+  const highest = maxRadius > 0 ? maxRadius : Math.max(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (edges[index] === 0) continue;
+      const magnitude = Math.hypot(dx[index], dy[index]);
+      if (magnitude === 0) continue;
+
+      const ux = dx[index] / magnitude;
+      const uy = dy[index] / magnitude;
+      for (const direction of [1, -1]) {
+        for (let r = lowest; r <= highest; r++) {
+          const cx = Math.floor((x + direction * ux * r) / scale);
+          const cy = Math.floor((y + direction * uy * r) / scale);
+          if (cx < 0 || cy < 0 || cx >= accumulatorWidth || cy >= accumulatorHeight) break;
+          votes[cy * accumulatorWidth + cx]++;
+        }
+      }
+    }
+  }
+
+  return { votes, width: accumulatorWidth, height: accumulatorHeight };
+};
+
+// Black -> red -> yellow -> white
+const hotColor = (value: number): [number, number, number] => [
+  Math.round(Math.min(1, value * 3) * 255),
+  Math.round(Math.min(1, Math.max(0, value * 3 - 1)) * 255),
+  Math.round(Math.min(1, Math.max(0, value * 3 - 2)) * 255)
+];
+
+/**
+ * Render an accumulator as a heatmap, with the square root of the votes so
+ * weak structure stays visible next to the peaks, and outline the cells of
+ * the detections
+ * @param marks Accumulator cells (column, row) to outline
+ * @param scaleX Width of each accumulator column in output pixels
+ */
+export const renderAccumulator = (
+  accumulator: HoughAccumulator,
+  marks: PointValue[] = [],
+  scaleX: number = 1
+): ImageData => {
+  const { votes, width, height } = accumulator;
+  const columnWidth = Math.max(1, Math.round(scaleX));
+  const outputWidth = width * columnWidth;
+  const pixels = new Uint8ClampedArray(outputWidth * height * 4);
+
+  let peak = 0;
+  for (let i = 0; i < votes.length; i++) {
+    if (votes[i] > peak) peak = votes[i];
+  }
+  const normalizer = peak > 0 ? Math.sqrt(peak) : 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < outputWidth; x++) {
+      const [r, g, b] = hotColor(Math.sqrt(votes[y * width + Math.floor(x / columnWidth)]) / normalizer);
+      const offset = (y * outputWidth + x) * 4;
+      pixels[offset] = r;
+      pixels[offset + 1] = g;
+      pixels[offset + 2] = b;
+      pixels[offset + 3] = 255;
+    }
+  }
+
+  // Cyan square outlines around the detected cells
+  const radius = Math.max(3, Math.round(Math.min(outputWidth, height) / 80));
+  marks.forEach(mark => {
+    const cx = Math.round((mark.x + 0.5) * columnWidth);
+    const cy = Math.round(mark.y);
+    for (let d = -radius; d <= radius; d++) {
+      [[cx + d, cy - radius], [cx + d, cy + radius], [cx - radius, cy + d], [cx + radius, cy + d]].forEach(([x, y]) => {
+        if (x < 0 || y < 0 || x >= outputWidth || y >= height) return;
+        const offset = (y * outputWidth + x) * 4;
+        pixels[offset] = 34;
+        pixels[offset + 1] = 211;
+        pixels[offset + 2] = 238;
+      });
+    }
+  });
+
+  return new ImageData(pixels, outputWidth, height);
+};
+
+/**
+ * Where the infinite line x·cos θ + y·sin θ = ρ enters and leaves the image
+ * @returns The two end points, or null if the line misses the image
+ */
+export const clipLineToImage = (
+  rho: number,
+  theta: number,
+  width: number,
+  height: number
+): { start: PointValue; end: PointValue } | null => {
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const points: PointValue[] = [];
+  const addPoint = (x: number, y: number) => {
+    if (x < -1e-6 || y < -1e-6 || x > width - 1 + 1e-6 || y > height - 1 + 1e-6) return;
+    if (points.some(point => Math.abs(point.x - x) < 1e-6 && Math.abs(point.y - y) < 1e-6)) return;
+    points.push({ x, y });
+  };
+
+  if (Math.abs(sin) > 1e-9) {
+    addPoint(0, rho / sin);
+    addPoint(width - 1, (rho - (width - 1) * cos) / sin);
+  }
+  if (Math.abs(cos) > 1e-9) {
+    addPoint(rho / cos, 0);
+    addPoint((rho - (height - 1) * sin) / cos, height - 1);
+  }
+
+  return points.length >= 2 ? { start: points[0], end: points[1] } : null;
+};
+
+/**
+ * Normal form (ρ, θ with θ in [0, π)) of the line through a segment
+ */
+export const segmentToNormalForm = (start: PointValue, end: PointValue): { rho: number; theta: number } => {
+  let theta = Math.atan2(end.x - start.x, -(end.y - start.y));
+  if (theta < 0) theta += Math.PI;
+  if (theta >= Math.PI) theta -= Math.PI;
+  return { rho: start.x * Math.cos(theta) + start.y * Math.sin(theta), theta };
+};
@@ -1,7 +1,74 @@
 // Import OpenCV
 import cv from 'opencv-ts';
-import type { Transformation } from './types';
+import type {
+  Transformation,
+  TransformationType,
+  InputPort,
+  OutputPort,
+  SizeMismatchPolicy,
+  TransformationAnalysis,
+  HistogramTransformAnalysis,
+  ThresholdType,
+  ThresholdSelection,
+  MatrixValue,
+  PointValue,
+  QuadCorners,
+  PerspectiveMode,
+  PerspectiveAnalysis,
+  ColorSpace,
+  ContourRetrieval,
+  ContourAnalysis,
+  ObjectMeasurement,
+  HoughMode,
+  HoughLine,
+  HoughCircle,
+  HoughAnalysis,
+  DistanceMetric,
+  WatershedAnalysis,
+  NoiseType,
+  TestPatternType
+} from './types';
 import { createStructuringElementMat } from './morphologyUtils';
+import {
+  sharpenImageData,
+  medianFilterImageData,
+  bilateralFilterImageData,
+  differenceImageData
+} from './filterFallbacks';
+import { fourierTransformAnalyzer } from '../services/FourierTransformAnalyzer';
+import type { FrequencyFilterOptions } from '../services/FourierTransformAnalyzer';
+import { HistogramAnalyzer } from '../services/HistogramAnalyzer';
+import { applyHistogramOperation, getHistogramPlanes } from './histogramOperations';
+import type { HistogramOperationOptions } from './histogramOperations';
+import {
+  computeOtsuThreshold,
+  computeTriangleThreshold,
+  applyThresholdType,
+  computeLocalMeans
+} from './thresholding';
+import {
+  QUAD_CORNER_NAMES,
+  orderQuadCorners,
+  getQuadOutputSize,
+  computeHomography,
+  warpPerspectiveImageData
+} from './perspective';
+import { applyColorAdjustment, IDENTITY_CURVE } from './colorAdjustment';
+import type { ColorAdjustOptions } from './colorAdjustment';
+import { COLOR_SPACE_CHANNELS, convertColorSpace, splitChannels, mergeChannels } from './colorSpaces';
+import { computeHuMoments, computeCircularity, getLabelColor } from './objectMeasurements';
+import {
+  parseHexColor,
+  computeLineAccumulator,
+  computeCircleCenterAccumulator,
+  renderAccumulator,
+  clipLineToImage,
+  segmentToNormalForm
+} from './hough';
+import { addNoise } from './noise';
+import type { NoiseOptions } from './noise';
+import { generateTestPattern } from './testPatterns';
+import type { TestPatternOptions } from './testPatterns';
 
 // Ensure OpenCV is initialized
 let isOpenCVInitialized = false;
@@ -16,6 +83,27 @@ export interface IntermediateResult {
   description: string;
 }
 
+type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Create a 2D drawing context of the given size. Inside the pipeline workers
+ * there is no document, so an OffscreenCanvas is used instead of a DOM canvas.
+ */
+const createCanvasContext = (width: number, height: number): Canvas2DContext => {
+  if (typeof document === 'undefined') {
+    const context = new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Could not get OffscreenCanvas context');
+    return context;
+  }
+  
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Could not get canvas context');
+  return context;
+};
+
 /**
  * Verify if local OpenCV is available and ready
  */
@@ -173,6 +261,27 @@ export const initOpenCV = (): Promise<void> => {
             // Don't resolve here, let the timeout handle it
           }
         }, 250);
+      } else if (cv) {
+        // Worker scope: there is no script tag, so wait for the bundled npm build
+        const opencv = cv as any;
+        const markReady = () => {
+          console.log('Bundled OpenCV runtime ready');
+          isOpenCVInitialized = true;
+          clearTimeout(timeoutId);
+          resolve();
+        };
+        
+        if (typeof opencv.Mat === 'function') {
+          markReady();
+        } else {
+          const originalCallback = opencv.onRuntimeInitialized;
+          opencv.onRuntimeInitialized = () => {
+            if (typeof originalCallback === 'function') {
+              originalCallback();
+            }
+            markReady();
+          };
+        }
       } else {
         // OpenCV not available at all (no window object)
         const error = new Error('OpenCV is not available (no window object)');
@@ -222,6 +331,11 @@ export const imageDataToMat = (imageData: ImageData): any => {
       return createFallbackMat(imageData);
     }
     
+    // Workers have no DOM canvas for imread, build the Mat from the pixels directly
+    if (typeof document === 'undefined' && typeof opencv.matFromImageData === 'function') {
+      return opencv.matFromImageData(imageData);
+    }
+    
     // Use direct OpenCV.js approach - create temporary canvas
     const canvas = document.createElement('canvas');
     canvas.width = imageData.width;
@@ -286,14 +400,18 @@ export const matToImageData = (mat: any): ImageData => {
       );
     }
     
-    const canvas = document.createElement('canvas');
-    canvas.width = mat.cols;
-    canvas.height = mat.rows;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    // Method 0: Outside the main thread imshow has no canvas to draw on, so
+    // replicate its conversion to RGBA and read the pixels directly
+    if (typeof document === 'undefined' && typeof opencv.cvtColor === 'function' && typeof mat.type === 'function') {
+      return matToRGBAImageData(mat, opencv);
+    }
+    
+    const ctx = createCanvasContext(mat.cols, mat.rows);
+    const canvas = ctx.canvas;
     const imgData = ctx.createImageData(mat.cols, mat.rows);
     
     // Method 1: Direct OpenCV.js approach
-    if (typeof opencv.imshow === 'function') {
+    if (typeof opencv.imshow === 'function' && typeof document !== 'undefined') {
       try {
         // Try to use imshow to render the Mat to canvas
         opencv.imshow(canvas, mat);
@@ -377,6 +495,33 @@ export const matToImageData = (mat: any): ImageData => {
   }
 };
 
+// Convert any 8/16/32-bit Mat to RGBA ImageData the same way cv.imshow does
+const matToRGBAImageData = (mat: any, opencv: any): ImageData => {
+  const depth = mat.type() % 8;
+  const scale = depth <= opencv.CV_8S ? 1 : depth <= opencv.CV_32S ? 1 / 256 : 255;
+  const shift = depth === opencv.CV_8S || depth === opencv.CV_16S ? 128 : 0;
+  const rgba = new opencv.Mat();
+  
+  try {
+    mat.convertTo(rgba, opencv.CV_8U, scale, shift);
+    switch (rgba.type()) {
+      case opencv.CV_8UC1:
+        opencv.cvtColor(rgba, rgba, opencv.COLOR_GRAY2RGBA);
+        break;
+      case opencv.CV_8UC3:
+        opencv.cvtColor(rgba, rgba, opencv.COLOR_RGB2RGBA);
+        break;
+      case opencv.CV_8UC4:
+        break;
+      default:
+        throw new Error('Bad number of channels (Source image must have 1, 3 or 4 channels)');
+    }
+    return new ImageData(new Uint8ClampedArray(rgba.data), rgba.cols, rgba.rows);
+  } finally {
+    rgba.delete();
+  }
+};
+
 // Apply grayscale transformation
 export const applyGrayscale = (src: any): any => {
   const opencv = getOpenCV();
@@ -540,67 +685,168 @@ export const applyBlur = (src: any, ksize: number, advancedParams?: Record<strin
   }
 };
 
+// Grayscale values of a fallback Mat's RGBA data
+const fallbackMatToGrayPlane = (src: any): Uint8Array => {
+  const pixelCount = src.rows * src.cols;
+  const gray = new Uint8Array(pixelCount);
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    // Standard grayscale conversion
+    gray[p] = Math.round(0.299 * src.data[i] + 0.587 * src.data[i + 1] + 0.114 * src.data[i + 2]);
+  }
+  return gray;
+};
+
+// Write grayscale values into a new fallback Mat of the source's size
+const grayPlaneToFallbackMat = (plane: Uint8Array, src: any): any => {
+  const result = createFallbackMat(new ImageData(new Uint8ClampedArray(src.data), src.cols, src.rows));
+  for (let p = 0, i = 0; p < plane.length; p++, i += 4) {
+    result.data[i] = result.data[i + 1] = result.data[i + 2] = plane[p];
+  }
+  return result;
+};
+
+// OpenCV flags of the threshold types
+const getThresholdFlag = (opencv: any, type: ThresholdType): number => {
+  switch (type) {
+    case 'binaryInverse': return opencv.THRESH_BINARY_INV;
+    case 'truncate': return opencv.THRESH_TRUNC;
+    case 'toZero': return opencv.THRESH_TOZERO;
+    case 'toZeroInverse': return opencv.THRESH_TOZERO_INV;
+    default: return opencv.THRESH_BINARY;
+  }
+};
+
+/**
+ * Choose a global threshold from the grayscale histogram of an image
+ * (the value cv.threshold would pick with THRESH_OTSU / THRESH_TRIANGLE)
+ */
+export const computeAutomaticThreshold = (imageData: ImageData, selection: Exclude<ThresholdSelection, 'manual'>): number => {
+  const histogram = new HistogramAnalyzer('grayscale').analyze(imageData).gray!;
+  return selection === 'otsu' ? computeOtsuThreshold(histogram) : computeTriangleThreshold(histogram);
+};
+
 // Apply threshold transformation
-export const applyThreshold = (src: any, threshold: number): any => {
+export const applyThreshold = (src: any, threshold: number, type: ThresholdType = 'binary'): any => {
   const opencv = getOpenCV();
   
   // Handle fallback Mat
   if (src.isFallback) {
-    const result = createFallbackMat(new ImageData(
-      new Uint8ClampedArray(src.data), 
-      src.cols, 
-      src.rows
-    ));
-    
-    // Convert to grayscale first if needed
+    const gray = fallbackMatToGrayPlane(src);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = applyThresholdType(gray[i], threshold, 255, type);
+    }
+    return grayPlaneToFallbackMat(gray, src);
+  }
+  
+  // Use OpenCV if available
+  const dst = new opencv.Mat();
+  const gray = new opencv.Mat();
+  try {
+    // Convert to grayscale if needed
     if (src.channels() > 1) {
-      for (let i = 0; i < result.rows; i++) {
-        for (let j = 0; j < result.cols; j++) {
-          const offset = (i * result.cols + j) * 4;
-          const r = result.data[offset];
-          const g = result.data[offset + 1];
-          const b = result.data[offset + 2];
-          // Standard grayscale conversion
-          const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-          result.data[offset] = gray;
-          result.data[offset + 1] = gray;
-          result.data[offset + 2] = gray;
-        }
-      }
+      opencv.cvtColor(src, gray, opencv.COLOR_RGBA2GRAY);
+    } else {
+      src.copyTo(gray);
     }
     
-    // Apply threshold
-    for (let i = 0; i < result.rows; i++) {
-      for (let j = 0; j < result.cols; j++) {
-        const offset = (i * result.cols + j) * 4;
-        const value = result.data[offset] > threshold ? 255 : 0;
-        result.data[offset] = value;
-        result.data[offset + 1] = value;
-        result.data[offset + 2] = value;
-      }
+    opencv.threshold(gray, dst, threshold, 255, getThresholdFlag(opencv, type));
+    
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw new Error(`Threshold transformation failed: ${error}`);
+  } finally {
+    gray.delete();
+  }
+};
+
+// Apply adaptive threshold: each pixel is compared with the (Gaussian-weighted) mean of its block minus C
+export const applyAdaptiveThreshold = (
+  src: any,
+  method: 'mean' | 'gaussian',
+  blockSize: number,
+  c: number,
+  type: ThresholdType = 'binary',
+  intermediates?: IntermediateResult[]
+): any => {
+  if (!Number.isInteger(blockSize) || blockSize < 3 || blockSize % 2 === 0) {
+    throw new Error(`Invalid block size: ${blockSize} (must be an odd integer of at least 3)`);
+  }
+  if (type !== 'binary' && type !== 'binaryInverse') {
+    throw new Error(`Adaptive thresholding supports binary and binaryInverse types only, got ${type}`);
+  }
+  
+  // Local threshold surface (block mean minus C), shown as a processing step
+  const pushThresholdSurface = (means: Uint8Array, width: number, height: number) => {
+    if (!intermediates) return;
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let p = 0, i = 0; p < means.length; p++, i += 4) {
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = means[p] - c;
+      pixels[i + 3] = 255;
     }
+    intermediates.push({
+      stage: 'local_threshold',
+      imageData: new ImageData(pixels, width, height),
+      description: `Local threshold: ${method === 'gaussian' ? 'Gaussian-weighted mean' : 'mean'} of ${blockSize}×${blockSize} block − ${c}`
+    });
+  };
+  
+  // Handle fallback Mat
+  if (src.isFallback) {
+    const gray = fallbackMatToGrayPlane(src);
+    const means = computeLocalMeans(gray, src.cols, src.rows, blockSize, method);
+    pushThresholdSurface(means, src.cols, src.rows);
     
-    return result;
+    // Same integer comparison as cv.adaptiveThreshold
+    const delta = type === 'binary' ? Math.ceil(c) : Math.floor(c);
+    for (let i = 0; i < gray.length; i++) {
+      const above = gray[i] - means[i] > -delta;
+      gray[i] = above === (type === 'binary') ? 255 : 0;
+    }
+    return grayPlaneToFallbackMat(gray, src);
   }
   
-  // Use OpenCV if available
+  const opencv = getOpenCV();
+  const gray = new opencv.Mat();
   const dst = new opencv.Mat();
   try {
-    // Convert to grayscale if needed
-    const gray = new opencv.Mat();
     if (src.channels() > 1) {
       opencv.cvtColor(src, gray, opencv.COLOR_RGBA2GRAY);
     } else {
       src.copyTo(gray);
     }
     
-    opencv.threshold(gray, dst, threshold, 255, opencv.THRESH_BINARY);
+    opencv.adaptiveThreshold(
+      gray,
+      dst,
+      255,
+      method === 'gaussian' ? opencv.ADAPTIVE_THRESH_GAUSSIAN_C : opencv.ADAPTIVE_THRESH_MEAN_C,
+      getThresholdFlag(opencv, type),
+      blockSize,
+      c
+    );
+    
+    if (intermediates) {
+      const means = new opencv.Mat();
+      try {
+        const ksize = new opencv.Size(blockSize, blockSize);
+        if (method === 'gaussian') {
+          opencv.GaussianBlur(gray, means, ksize, 0, 0, opencv.BORDER_REPLICATE);
+        } else {
+          opencv.blur(gray, means, ksize, new opencv.Point(-1, -1), opencv.BORDER_REPLICATE);
+        }
+        pushThresholdSurface(new Uint8Array(means.data), means.cols, means.rows);
+      } finally {
+        means.delete();
+      }
+    }
     
-    gray.delete();
     return dst;
   } catch (error) {
     dst.delete();
-    throw new Error(`Threshold transformation failed: ${error}`);
+    throw new Error(`Adaptive threshold transformation failed: ${error}`);
+  } finally {
+    gray.delete();
   }
 };
 
@@ -871,6 +1117,9 @@ export const processImage = async (
   result: ImageData;
   intermediates?: IntermediateResult[];
   diagnosticInfo?: any;
+  analysis?: TransformationAnalysis;
+  // Images of the named output ports of multi-output transformations
+  outputs?: Record<string, ImageData>;
 }> => {
   const intermediates: IntermediateResult[] = [];
   const diagnosticInfo: any = {
@@ -881,6 +1130,91 @@ export const processImage = async (
     steps: []
   };
   
+  // Frequency-domain filtering only uses the JavaScript FFT, no OpenCV required
+  if (transformation.type === 'frequencyFilter') {
+    diagnosticInfo.steps.push({ name: 'frequency_filter', startTime: Date.now() });
+    const result = applyFrequencyFilter(
+      imageData,
+      getFrequencyFilterOptions(transformation),
+      includeIntermediateResults ? intermediates : undefined
+    );
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
+    
+    return {
+      result,
+      intermediates,
+      diagnosticInfo
+    };
+  }
+  
+  // Colour adjustment is a lookup table plus HSL shifts in JavaScript, no OpenCV required
+  if (transformation.type === 'colorAdjust') {
+    diagnosticInfo.steps.push({ name: 'color_adjust', startTime: Date.now() });
+    const result = applyColorAdjust(
+      imageData,
+      getColorAdjustOptions(transformation),
+      includeIntermediateResults ? intermediates : undefined
+    );
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
+    
+    return {
+      result,
+      intermediates,
+      diagnosticInfo
+    };
+  }
+  
+  // Noise comes from a seeded JavaScript generator so projects reproduce exactly, no OpenCV required
+  if (transformation.type === 'noise') {
+    diagnosticInfo.steps.push({ name: 'noise', startTime: Date.now() });
+    const result = addNoise(imageData, getNoiseOptions(transformation));
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
+    
+    return {
+      result,
+      intermediates,
+      diagnosticInfo
+    };
+  }
+  
+  // Colour space conversion and channel splitting are pure JavaScript, no OpenCV required
+  if (transformation.type === 'colorConvert' || transformation.type === 'splitChannels') {
+    diagnosticInfo.steps.push({ name: transformation.type, startTime: Date.now() });
+    const colorSpace = getParameterValue<ColorSpace>(transformation, 'colorSpace', 'hsv');
+    let result: ImageData;
+    let outputs: Record<string, ImageData> | undefined;
+    if (transformation.type === 'colorConvert') {
+      const direction = getParameterValue<'fromRgb' | 'toRgb'>(transformation, 'direction', 'fromRgb');
+      result = convertColorSpace(imageData, colorSpace, direction);
+    } else {
+      ({ result, outputs } = applySplitChannels(imageData, colorSpace));
+    }
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
+    
+    return {
+      result,
+      intermediates,
+      diagnosticInfo,
+      outputs
+    };
+  }
+  
   // Initialize OpenCV if needed
   let initSuccess = true;
   try {
@@ -904,10 +1238,7 @@ export const processImage = async (
   
   // Create a fallback in case OpenCV processing fails
   const createFallbackImageData = () => {
-    const canvas = document.createElement('canvas');
-    canvas.width = imageData.width;
-    canvas.height = imageData.height;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    const ctx = createCanvasContext(imageData.width, imageData.height);
     if (ctx) {
       const imgData = ctx.createImageData(imageData.width, imageData.height);
       imgData.data.set(imageData.data);
@@ -983,6 +1314,28 @@ export const processImage = async (
         }
       }
       
+      // For the smoothing / sharpening filters, use the pure JavaScript implementations
+      if (transformation.type === 'sharpen' || transformation.type === 'median' || transformation.type === 'bilateral') {
+        diagnosticInfo.steps.push({ name: `fallback_${transformation.type}`, startTime: Date.now() });
+        
+        const filtered = applyFilterWithoutOpenCV(imgData, transformation);
+        imgData.data.set(filtered.data);
+        
+        diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+        
+        if (includeIntermediateResults) {
+          intermediates.push({
+            stage: `fallback_${transformation.type}`,
+            imageData: new ImageData(
+              new Uint8ClampedArray(imgData.data), 
+              imgData.width, 
+              imgData.height
+            ),
+            description: `Fallback JavaScript ${transformation.name.toLowerCase()} (OpenCV unavailable)`
+          });
+        }
+      }
+      
       return imgData;
     }
     return imageData;
@@ -1007,6 +1360,16 @@ export const processImage = async (
         const kernelSize = transformation.parameters?.find(p => p.name === 'kernelSize')?.value as number || 3;
         complexityFactor = Math.max(1, kernelSize / 10); // Larger kernel = more time
         break;
+      case 'median': {
+        const medianSize = transformation.parameters?.find(p => p.name === 'kernelSize')?.value as number || 3;
+        complexityFactor = Math.max(1, medianSize / 10);
+        break;
+      }
+      case 'bilateral': {
+        const diameter = transformation.parameters?.find(p => p.name === 'diameter')?.value as number || 9;
+        complexityFactor = Math.max(2, diameter / 5); // Cost grows with the neighbourhood area
+        break;
+      }
     }
     
     return Math.min(15000, baseTimeout * sizeMultiplier * complexityFactor); // Cap at 15 seconds
@@ -1033,6 +1396,7 @@ export const processImage = async (
       let src: any = null;
       let dst: any = null;
       let result: any = null;
+      let analysis: TransformationAnalysis | undefined;
       const opencv = getOpenCV();
       
       try {
@@ -1082,10 +1446,26 @@ export const processImage = async (
             break;
           }
             
-          case 'threshold':
-            const thresholdValue = transformation.parameters?.find(p => p.name === 'threshold')?.value as number;
-            dst = applyThreshold(src, thresholdValue);
+          case 'threshold': {
+            const selection = getParameterValue<ThresholdSelection>(transformation, 'method', 'manual');
+            const thresholdType = getParameterValue<ThresholdType>(transformation, 'thresholdType', 'binary');
+            // Otsu / triangle pick the value from the histogram; report it so the user sees the choice
+            const thresholdValue = selection === 'manual'
+              ? getParameterValue(transformation, 'threshold', 128)
+              : computeAutomaticThreshold(imageData, selection);
+            dst = applyThreshold(src, thresholdValue, thresholdType);
+            analysis = { threshold: { selection, type: thresholdType, value: thresholdValue } };
+            break;
+          }
+            
+          case 'adaptiveThreshold': {
+            const adaptiveMethod = getParameterValue<'mean' | 'gaussian'>(transformation, 'method', 'gaussian');
+            const blockSize = getParameterValue(transformation, 'blockSize', 11);
+            const c = getParameterValue(transformation, 'c', 2);
+            const thresholdType = getParameterValue<ThresholdType>(transformation, 'thresholdType', 'binary');
+            dst = applyAdaptiveThreshold(src, adaptiveMethod, blockSize, c, thresholdType, includeIntermediateResults ? intermediates : undefined);
             break;
+          }
             
           case 'laplacian':
             const laplaceKernelSize = transformation.parameters?.find(p => p.name === 'kernelSize')?.value as number;
@@ -1183,6 +1563,36 @@ export const processImage = async (
             dst = applyResize(src, method, scaleX, scaleY, resizeWidth, resizeHeight, interpolation);
             break;
             
+          case 'perspective': {
+            const perspective = applyPerspective(
+              src,
+              getPerspectiveOptions(transformation),
+              includeIntermediateResults ? intermediates : undefined
+            );
+            dst = perspective.dst;
+            analysis = { perspective: perspective.analysis };
+            break;
+          }
+            
+          case 'contours': {
+            const contourResult = applyContourAnalysis(
+              src,
+              getContourOptions(transformation),
+              includeIntermediateResults ? intermediates : undefined
+            );
+            dst = contourResult.dst;
+            analysis = { contours: contourResult.analysis };
+            break;
+          }
+            
+          case 'distanceTransform':
+            dst = applyDistanceTransform(
+              src,
+              getDistanceTransformOptions(transformation),
+              includeIntermediateResults ? intermediates : undefined
+            );
+            break;
+            
           case 'flip':
             const direction = transformation.parameters?.find(p => p.name === 'direction')?.value as string || 'horizontal';
             dst = applyFlip(src, direction);
@@ -1198,6 +1608,36 @@ export const processImage = async (
             dst = applyCrop(src, cropMethod, cropX, cropY, cropWidth, cropHeight, aspectRatio);
             break;
             
+          case 'sharpen': {
+            const strengthParam = transformation.parameters.find(p => p.name === 'strength');
+            const strength = strengthParam ? strengthParam.value as number : 0.5;
+            const radiusParam = transformation.parameters.find(p => p.name === 'radius');
+            const radius = radiusParam ? radiusParam.value as number : 1;
+            
+            dst = applySharpen(src, strength, radius, includeIntermediateResults ? intermediates : undefined);
+            break;
+          }
+            
+          case 'median': {
+            const medianKernelSizeParam = transformation.parameters.find(p => p.name === 'kernelSize');
+            const medianKernelSize = medianKernelSizeParam ? medianKernelSizeParam.value as number : 3;
+            
+            dst = applyMedian(src, medianKernelSize, includeIntermediateResults ? intermediates : undefined);
+            break;
+          }
+            
+          case 'bilateral': {
+            const diameterParam = transformation.parameters.find(p => p.name === 'diameter');
+            const diameter = diameterParam ? diameterParam.value as number : 9;
+            const sigmaColorParam = transformation.parameters.find(p => p.name === 'sigmaColor');
+            const sigmaColor = sigmaColorParam ? sigmaColorParam.value as number : 75;
+            const sigmaSpaceParam = transformation.parameters.find(p => p.name === 'sigmaSpace');
+            const sigmaSpace = sigmaSpaceParam ? sigmaSpaceParam.value as number : 75;
+            
+            dst = applyBilateral(src, diameter, sigmaColor, sigmaSpace, includeIntermediateResults ? intermediates : undefined);
+            break;
+          }
+            
           default:
             throw new Error(`Transformation type ${transformation.type} not implemented`);
         }
@@ -1223,7 +1663,8 @@ export const processImage = async (
         return {
           result: outputImageData,
           intermediates,
-          diagnosticInfo
+          diagnosticInfo,
+          analysis
         };
       } catch (error) {
         // Free memory in case of error
@@ -1424,6 +1865,15 @@ function applyTransformationWithoutOpenCV(
       newCtx.drawImage(resTempCanvas, 0, 0, resTempCanvas.width, resTempCanvas.height, 0, 0, newWidth, newHeight);
       break;
       
+    case 'sharpen':
+    case 'median':
+    case 'bilateral': {
+      // Smoothing / sharpening filters have pure JavaScript implementations
+      const filterImageData = ctx.getImageData(0, 0, outputCanvas.width, outputCanvas.height);
+      ctx.putImageData(applyFilterWithoutOpenCV(filterImageData, transformation), 0, 0);
+      break;
+    }
+      
     // For other transformations, we'll just return the original image
     // with a message that OpenCV is required
     default:
@@ -1441,6 +1891,37 @@ function applyTransformationWithoutOpenCV(
   return { canvas: outputCanvas, intermediates: [] };
 }
 
+// Run the pure JavaScript version of the sharpen / median / bilateral filters
+function applyFilterWithoutOpenCV(imageData: ImageData, transformation: Transformation): ImageData {
+  const getParam = (name: string, defaultValue: number): number => {
+    const param = transformation.parameters?.find(p => p.name === name);
+    return param ? param.value as number : defaultValue;
+  };
+  
+  switch (transformation.type) {
+    case 'sharpen':
+      return sharpenImageData(
+        imageData,
+        validateFilterParameter(getParam('strength', 0.5), 'strength', 0, true),
+        validateFilterParameter(getParam('radius', 1), 'radius', 0)
+      ).result;
+      
+    case 'median':
+      return medianFilterImageData(imageData, validateOddKernelSize(getParam('kernelSize', 3), 'Median kernel size'));
+      
+    case 'bilateral':
+      return bilateralFilterImageData(
+        imageData,
+        Math.round(validateFilterParameter(getParam('diameter', 9), 'diameter', 1, true)),
+        validateFilterParameter(getParam('sigmaColor', 75), 'sigma color', 0),
+        validateFilterParameter(getParam('sigmaSpace', 75), 'sigma space', 0)
+      );
+      
+    default:
+      return imageData;
+  }
+}
+
 // Fix the custom blur handler function to avoid normalize variable issue
 function handleCustomBlur(
   cv: any,
@@ -1689,6 +2170,41 @@ export function applyTransformation(
         dst = applyCrop(src, cropMethod, cropX, cropY, cropWidth, cropHeight, aspectRatio);
         break;
         
+      case 'sharpen':
+        dst = applySharpen(
+          src,
+          paramMap.strength !== undefined ? paramMap.strength as number : 0.5,
+          paramMap.radius !== undefined ? paramMap.radius as number : 1,
+          intermediates
+        );
+        break;
+        
+      case 'median':
+        dst = applyMedian(src, paramMap.kernelSize as number || 3, intermediates);
+        break;
+        
+      case 'bilateral':
+        dst = applyBilateral(
+          src,
+          paramMap.diameter as number || 9,
+          paramMap.sigmaColor as number || 75,
+          paramMap.sigmaSpace as number || 75,
+          intermediates
+        );
+        break;
+        
+      case 'frequencyFilter': {
+        const filtered = applyFrequencyFilter(matToImageData(src), getFrequencyFilterOptions(transformation), intermediates);
+        dst = imageDataToMat(filtered);
+        break;
+      }
+        
+      case 'colorAdjust': {
+        const adjusted = applyColorAdjust(imgData, getColorAdjustOptions(transformation), intermediates);
+        dst = imageDataToMat(adjusted);
+        break;
+      }
+        
       default:
         throw new Error(`Transformation type ${transformation.type} not implemented`);
     }
@@ -2044,54 +2560,991 @@ function parseAspectRatio(aspectRatio: string): number {
   return width / height;
 }
 
-// Helper function to adjust an image channel for color adjustments
-function adjustChannel(channel: any, adjustment: number, maxValue: number, cv: any) {
-  const factor = adjustment / 100;
-  
-  if (factor > 0) {
-    // Increase value (make brighter)
-    cv.addWeighted(channel, 1, channel, 0, maxValue * factor, channel);
-  } else if (factor < 0) {
-    // Decrease value (make darker)
-    cv.addWeighted(channel, 1 + factor, channel, 0, 0, channel);
-  }
-} 
+export interface PerspectiveOptions {
+  mode: PerspectiveMode;
+  // Source corners in input pixels (points mode)
+  corners: QuadCorners;
+  // Row-major 3×3 homography (matrix mode)
+  matrix: number[];
+  outputSize: 'fromCorners' | 'input' | 'custom';
+  outputWidth: number;
+  outputHeight: number;
+  interpolation: string;
+}
 
-// Apply morphological operations (opening, closing, gradient, tophat, blackhat)
-export const applyMorphology = (src: any, operation: string, kernelSize: number, iterations: number = 1, advancedParams?: Record<string, any>): any => {
+/**
+ * Find the outline of a document: the largest convex four-sided contour
+ * covering at least a tenth of the image
+ * @returns The ordered corners, or null if no such contour exists
+ */
+export const detectDocumentQuad = (src: any, intermediates?: IntermediateResult[]): QuadCorners | null => {
+  if (src.isFallback) {
+    throw new Error('Document detection requires OpenCV');
+  }
+  
   const cv = getOpenCV();
+  const mats: any[] = [];
+  const track = <T>(mat: T): T => {
+    mats.push(mat);
+    return mat;
+  };
+  
   try {
-    // Create destination matrix
-    const dst = new cv.Mat();
+    const gray = track(new cv.Mat());
+    if (src.channels() > 1) {
+      cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+    } else {
+      src.copyTo(gray);
+    }
     
-    // Map border type
-    const borderType = advancedParams?.borderType === 'reflect' ? cv.BORDER_REFLECT :
-                      advancedParams?.borderType === 'replicate' ? cv.BORDER_REPLICATE :
-                      advancedParams?.borderType === 'wrap' ? cv.BORDER_WRAP :
-                      cv.BORDER_DEFAULT; // Default border handling
+    // Smooth away texture, find strong edges and close small gaps in the outline
+    const blurred = track(new cv.Mat());
+    cv.GaussianBlur(gray, blurred, new cv.Size(5, 5), 0);
+    const edges = track(new cv.Mat());
+    cv.Canny(blurred, edges, 75, 200);
+    const kernel = track(cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(3, 3)));
+    cv.dilate(edges, edges, kernel);
     
-    // Create structuring element
-    let kernel: any;
+    if (intermediates) {
+      intermediates.push({
+        stage: 'document_edges',
+        imageData: matToImageData(edges),
+        description: 'Canny edges used to find the document outline'
+      });
+    }
     
-    if (advancedParams?.useCustomElement && advancedParams?.structuringElement) {
-      // Use the custom structuring element
-      kernel = createStructuringElementMat(cv, advancedParams.structuringElement);
-    } else {
-      // Use standard OpenCV structuring element
-      const shape = advancedParams?.shape === 'ellipse' ? cv.MORPH_ELLIPSE :
-                    advancedParams?.shape === 'cross' ? cv.MORPH_CROSS :
-                    cv.MORPH_RECT;
-      
-      kernel = cv.getStructuringElement(
-        shape,
-        new cv.Size(kernelSize, kernelSize)
-      );
+    const contours = track(new cv.MatVector());
+    const hierarchy = track(new cv.Mat());
+    cv.findContours(edges, contours, hierarchy, cv.RETR_LIST, cv.CHAIN_APPROX_SIMPLE);
+    
+    const minArea = src.rows * src.cols * 0.1;
+    let best: PointValue[] | null = null;
+    let bestArea = minArea;
+    
+    for (let i = 0; i < contours.size(); i++) {
+      const contour = contours.get(i);
+      const approx = new cv.Mat();
+      try {
+        cv.approxPolyDP(contour, approx, 0.02 * cv.arcLength(contour, true), true);
+        const area = Math.abs(cv.contourArea(approx));
+        if (approx.rows === 4 && area > bestArea && cv.isContourConvex(approx)) {
+          bestArea = area;
+          best = [];
+          for (let j = 0; j < 4; j++) {
+            best.push({ x: approx.data32S[j * 2], y: approx.data32S[j * 2 + 1] });
+          }
+        }
+      } finally {
+        approx.delete();
+        contour.delete();
+      }
     }
     
-    // Map morphological operation to OpenCV constant
-    let morphOp: number;
-    switch (operation) {
-      case 'open':
+    return best ? orderQuadCorners(best) : null;
+  } finally {
+    mats.forEach(mat => mat.delete());
+  }
+};
+
+// Draw a quadrilateral over a copy of the image
+const drawQuadOverlay = (imageData: ImageData, corners: QuadCorners): ImageData => {
+  const ctx = createCanvasContext(imageData.width, imageData.height);
+  ctx.putImageData(imageData, 0, 0);
+  ctx.strokeStyle = '#22c55e';
+  ctx.lineWidth = Math.max(2, Math.round(Math.min(imageData.width, imageData.height) / 200));
+  ctx.beginPath();
+  QUAD_CORNER_NAMES.forEach((name, index) => {
+    const { x, y } = corners[name];
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+  ctx.stroke();
+  return ctx.getImageData(0, 0, imageData.width, imageData.height);
+};
+
+// Warp the image so a quadrilateral becomes an upright rectangle, or apply a given homography
+export const applyPerspective = (
+  src: any,
+  options: PerspectiveOptions,
+  intermediates?: IntermediateResult[]
+): { dst: any; analysis: PerspectiveAnalysis } => {
+  let corners: QuadCorners | undefined;
+  let matrix: number[];
+  let width: number;
+  let height: number;
+  
+  if (options.mode === 'matrix') {
+    if (options.matrix.length !== 9 || options.matrix.some(value => !isFinite(value))) {
+      throw new Error('Perspective matrix must be a 3×3 matrix of numbers');
+    }
+    matrix = options.matrix;
+    width = options.outputSize === 'custom' ? options.outputWidth : src.cols;
+    height = options.outputSize === 'custom' ? options.outputHeight : src.rows;
+  } else {
+    if (options.mode === 'autoDocument') {
+      const detected = detectDocumentQuad(src, intermediates);
+      if (!detected) {
+        throw new Error('No document outline found (no large four-sided contour); set the corners manually');
+      }
+      corners = detected;
+    } else {
+      corners = options.corners;
+    }
+    
+    const quadSize = getQuadOutputSize(corners);
+    width = options.outputSize === 'custom' ? options.outputWidth : options.outputSize === 'input' ? src.cols : quadSize.width;
+    height = options.outputSize === 'custom' ? options.outputHeight : options.outputSize === 'input' ? src.rows : quadSize.height;
+    matrix = computeHomography(
+      QUAD_CORNER_NAMES.map(name => corners![name]),
+      [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }]
+    );
+  }
+  
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error(`Invalid output size: ${width}×${height}`);
+  }
+  
+  const analysis: PerspectiveAnalysis = {
+    mode: options.mode,
+    corners,
+    sourceWidth: src.cols,
+    sourceHeight: src.rows,
+    outputWidth: width,
+    outputHeight: height
+  };
+  
+  // Handle fallback Mat
+  if (src.isFallback) {
+    const input = new ImageData(new Uint8ClampedArray(src.data), src.cols, src.rows);
+    if (intermediates && corners) {
+      intermediates.push({
+        stage: 'source_quad',
+        imageData: drawQuadOverlay(input, corners),
+        description: 'Source quadrilateral mapped to the output rectangle'
+      });
+    }
+    const warped = warpPerspectiveImageData(
+      input,
+      matrix,
+      width,
+      height,
+      options.interpolation === 'nearest' ? 'nearest' : 'linear'
+    );
+    return { dst: createFallbackMat(warped), analysis };
+  }
+  
+  const cv = getOpenCV();
+  const dst = new cv.Mat();
+  const transform = cv.matFromArray(3, 3, cv.CV_64F, matrix);
+  try {
+    if (intermediates && corners) {
+      intermediates.push({
+        stage: 'source_quad',
+        imageData: drawQuadOverlay(matToImageData(src), corners),
+        description: 'Source quadrilateral mapped to the output rectangle'
+      });
+    }
+    
+    let interpMode: number;
+    switch (options.interpolation) {
+      case 'nearest': interpMode = cv.INTER_NEAREST; break;
+      case 'cubic': interpMode = cv.INTER_CUBIC; break;
+      default: interpMode = cv.INTER_LINEAR;
+    }
+    
+    cv.warpPerspective(src, dst, transform, new cv.Size(width, height), interpMode, cv.BORDER_CONSTANT, new cv.Scalar(0, 0, 0, 255));
+    return { dst, analysis };
+  } catch (error) {
+    dst.delete();
+    throw new Error(`Perspective transformation failed: ${error}`);
+  } finally {
+    transform.delete();
+  }
+};
+
+// Read the perspective options from the transformation parameters
+const getPerspectiveOptions = (transformation: Transformation): PerspectiveOptions => {
+  const corners = {} as QuadCorners;
+  QUAD_CORNER_NAMES.forEach(name => {
+    corners[name] = getParameterValue<PointValue>(transformation, name, { x: 0, y: 0 });
+  });
+  const matrix = getParameterValue<MatrixValue | null>(transformation, 'matrix', null);
+  
+  return {
+    mode: getParameterValue<PerspectiveMode>(transformation, 'mode', 'points'),
+    corners,
+    matrix: matrix ? matrix.values.flat() : [1, 0, 0, 0, 1, 0, 0, 0, 1],
+    outputSize: getParameterValue<PerspectiveOptions['outputSize']>(transformation, 'outputSize', 'fromCorners'),
+    outputWidth: getParameterValue(transformation, 'outputWidth', 640),
+    outputHeight: getParameterValue(transformation, 'outputHeight', 480),
+    interpolation: getParameterValue(transformation, 'interpolation', 'linear')
+  };
+};
+
+export interface ContourOptions {
+  retrieval: ContourRetrieval;
+  connectivity: 4 | 8;
+  // Treat dark pixels as the objects instead of bright ones
+  invert: boolean;
+  // Contours enclosing less area are dropped
+  minArea: number;
+  showLabels: boolean;
+  showContours: boolean;
+  showBoxes: boolean;
+  showCentroids: boolean;
+}
+
+/**
+ * Find the objects of a binary image: label its connected components, trace
+ * their contours and measure each contour. The input is binarised at 128, so
+ * it should already be thresholded.
+ * @returns An RGBA overlay of the labels, contours, bounding boxes and
+ *   centroids, and the measurements
+ */
+export const applyContourAnalysis = (
+  src: any,
+  options: ContourOptions,
+  intermediates?: IntermediateResult[]
+): { dst: any; analysis: ContourAnalysis } => {
+  if (src.isFallback) {
+    throw new Error('Contour analysis requires OpenCV');
+  }
+  
+  const cv = getOpenCV();
+  const mats: any[] = [];
+  const track = <T>(mat: T): T => {
+    mats.push(mat);
+    return mat;
+  };
+  // Output Mat, freed with the others unless it is handed to the caller
+  let unreturnedDst: { delete(): void } | null = null;
+  
+  try {
+    const gray = track(new cv.Mat());
+    if (src.channels() > 1) {
+      cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+    } else {
+      src.copyTo(gray);
+    }
+    
+    const binary = track(new cv.Mat());
+    cv.threshold(gray, binary, 127, 255, options.invert ? cv.THRESH_BINARY_INV : cv.THRESH_BINARY);
+    
+    if (intermediates) {
+      intermediates.push({
+        stage: 'contour_binary',
+        imageData: matToImageData(binary),
+        description: options.invert ? 'Objects: dark pixels of the input' : 'Objects: bright pixels of the input'
+      });
+    }
+    
+    const labels = track(new cv.Mat());
+    const stats = track(new cv.Mat());
+    const centroids = track(new cv.Mat());
+    const labelCount = cv.connectedComponentsWithStats(binary, labels, stats, centroids, options.connectivity, cv.CV_32S);
+    
+    const contours = track(new cv.MatVector());
+    const hierarchy = track(new cv.Mat());
+    const mode = options.retrieval === 'external' ? cv.RETR_EXTERNAL : cv.RETR_CCOMP;
+    cv.findContours(binary, contours, hierarchy, mode, cv.CHAIN_APPROX_SIMPLE);
+    
+    // Overlay background: each component in its own colour, or the binary image
+    const dst = new cv.Mat(src.rows, src.cols, cv.CV_8UC4);
+    unreturnedDst = dst;
+    const labelData = labels.data32S;
+    const pixels = dst.data;
+    const labelColors = [[0, 0, 0], ...Array.from({ length: labelCount - 1 }, (_, index) => getLabelColor(index + 1))];
+    for (let p = 0, i = 0; p < labelData.length; p++, i += 4) {
+      const label = labelData[p];
+      if (options.showLabels) {
+        const [r, g, b] = labelColors[label];
+        pixels[i] = r;
+        pixels[i + 1] = g;
+        pixels[i + 2] = b;
+      } else {
+        pixels[i] = pixels[i + 1] = pixels[i + 2] = label > 0 ? 160 : 0;
+      }
+      pixels[i + 3] = 255;
+    }
+    
+    const thickness = Math.max(1, Math.round(Math.min(src.rows, src.cols) / 300));
+    const outlineColor = new cv.Scalar(250, 204, 21, 255);
+    const holeColor = new cv.Scalar(34, 211, 238, 255);
+    const boxColor = new cv.Scalar(239, 68, 68, 255);
+    const centroidColor = new cv.Scalar(255, 255, 255, 255);
+    const objects: ObjectMeasurement[] = [];
+    
+    for (let i = 0; i < contours.size(); i++) {
+      const contour = contours.get(i);
+      try {
+        const area = Math.abs(cv.contourArea(contour));
+        if (area < options.minArea) {
+          continue;
+        }
+        
+        const perimeter = cv.arcLength(contour, true);
+        const rect = cv.boundingRect(contour);
+        const moments = cv.moments(contour, false);
+        const centroid = moments.m00 !== 0
+          ? { x: moments.m10 / moments.m00, y: moments.m01 / moments.m00 }
+          : { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+        // Contour points lie on object pixels, so the first one names the component
+        const label = labelData[contour.data32S[1] * src.cols + contour.data32S[0]];
+        const isHole = options.retrieval === 'all' && hierarchy.data32S[i * 4 + 3] >= 0;
+        
+        objects.push({
+          id: objects.length + 1,
+          label,
+          area,
+          pixelArea: stats.data32S[label * stats.cols + cv.CC_STAT_AREA],
+          perimeter,
+          circularity: computeCircularity(area, perimeter),
+          aspectRatio: rect.height > 0 ? rect.width / rect.height : 0,
+          centroid,
+          boundingBox: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+          huMoments: computeHuMoments(moments),
+          isHole
+        });
+        
+        if (options.showContours) {
+          cv.drawContours(dst, contours, i, isHole ? holeColor : outlineColor, thickness, cv.LINE_8);
+        }
+        if (options.showBoxes) {
+          cv.rectangle(
+            dst,
+            new cv.Point(rect.x, rect.y),
+            new cv.Point(rect.x + rect.width - 1, rect.y + rect.height - 1),
+            boxColor,
+            thickness
+          );
+        }
+        if (options.showCentroids) {
+          const center = new cv.Point(Math.round(centroid.x), Math.round(centroid.y));
+          cv.circle(dst, center, thickness + 2, centroidColor, -1);
+          cv.putText(
+            dst,
+            String(objects.length),
+            new cv.Point(center.x + thickness + 4, center.y - thickness - 2),
+            cv.FONT_HERSHEY_SIMPLEX,
+            0.4 * thickness,
+            centroidColor,
+            thickness
+          );
+        }
+      } finally {
+        contour.delete();
+      }
+    }
+    
+    unreturnedDst = null;
+    return {
+      dst,
+      analysis: {
+        retrieval: options.retrieval,
+        componentCount: labelCount - 1,
+        objects
+      }
+    };
+  } finally {
+    mats.forEach(mat => mat.delete());
+    unreturnedDst?.delete();
+  }
+};
+
+// Read the contour analysis options from the transformation parameters
+const getContourOptions = (transformation: Transformation): ContourOptions => ({
+  retrieval: getParameterValue<ContourRetrieval>(transformation, 'retrieval', 'external'),
+  connectivity: getParameterValue<string>(transformation, 'connectivity', '8') === '4' ? 4 : 8,
+  invert: getParameterValue(transformation, 'invert', false),
+  minArea: getParameterValue(transformation, 'minArea', 10),
+  showLabels: getParameterValue(transformation, 'showLabels', true),
+  showContours: getParameterValue(transformation, 'showContours', true),
+  showBoxes: getParameterValue(transformation, 'showBoxes', true),
+  showCentroids: getParameterValue(transformation, 'showCentroids', true)
+});
+
+export interface HoughOptions {
+  mode: HoughMode;
+  // Distance and angle (degrees) resolution of the line accumulator
+  rho: number;
+  theta: number;
+  // Minimum votes for a line
+  threshold: number;
+  // Probabilistic lines only
+  minLineLength: number;
+  maxLineGap: number;
+  // Circles only
+  dp: number;
+  minDist: number;
+  cannyThreshold: number;
+  accumulatorThreshold: number;
+  minRadius: number;
+  maxRadius: number;
+  maxResults: number;
+  color: string;
+  thickness: number;
+}
+
+const HOUGH_OUTPUT_PORTS: OutputPort[] = [
+  { id: 'overlay', label: 'Overlay', description: 'Detections drawn over the image' },
+  { id: 'accumulator', label: 'Accumulator', description: 'Votes in the Hough parameter space, detections outlined' }
+];
+
+/**
+ * Detect lines or circles with the Hough transform and draw them over an
+ * image. Lines are searched among the non-zero pixels of the source (an edge
+ * map such as Canny output); circles use the Hough gradient method on the
+ * source as a grayscale image.
+ * @param background Image to draw on; the source when not given
+ * @returns The overlay, a heatmap of the accumulator and the detections
+ */
+export const applyHoughDetection = (
+  source: ImageData,
+  background: ImageData | undefined,
+  options: HoughOptions,
+  intermediates?: IntermediateResult[]
+): { result: ImageData; accumulator: ImageData; analysis: HoughAnalysis } => {
+  const cv = getOpenCV();
+  const mats: any[] = [];
+  const track = <T>(mat: T): T => {
+    mats.push(mat);
+    return mat;
+  };
+  
+  try {
+    const { width, height } = source;
+    const rgba = track(imageDataToMat(source));
+    if (rgba.isFallback) {
+      throw new Error('Hough detection requires OpenCV');
+    }
+    const gray = track(new cv.Mat());
+    cv.cvtColor(rgba, gray, cv.COLOR_RGBA2GRAY);
+    
+    const overlay = track(imageDataToMat(background || source));
+    const [r, g, b] = parseHexColor(options.color);
+    const color = new cv.Scalar(r, g, b, 255);
+    const thickness = Math.max(1, Math.round(options.thickness));
+    const maxResults = Math.max(1, Math.round(options.maxResults));
+    const lines: HoughLine[] = [];
+    const circles: HoughCircle[] = [];
+    let truncated = false;
+    let accumulator: ImageData;
+    
+    if (options.mode === 'circles') {
+      const found = track(new cv.Mat());
+      cv.HoughCircles(
+        gray,
+        found,
+        cv.HOUGH_GRADIENT,
+        options.dp,
+        Math.max(1, options.minDist),
+        options.cannyThreshold,
+        options.accumulatorThreshold,
+        options.minRadius,
+        options.maxRadius
+      );
+      
+      const count = found.cols;
+      truncated = count > maxResults;
+      for (let i = 0; i < Math.min(count, maxResults); i++) {
+        const circle = {
+          center: { x: found.data32F[i * 3], y: found.data32F[i * 3 + 1] },
+          radius: found.data32F[i * 3 + 2]
+        };
+        circles.push(circle);
+        const center = new cv.Point(Math.round(circle.center.x), Math.round(circle.center.y));
+        cv.circle(overlay, center, Math.round(circle.radius), color, thickness, cv.LINE_AA);
+        cv.circle(overlay, center, thickness + 1, color, -1);
+      }
+      
+      // Recreate the centre votes from the same edges and gradients HoughCircles uses internally
+      const edges = track(new cv.Mat());
+      cv.Canny(gray, edges, Math.max(1, options.cannyThreshold / 2), options.cannyThreshold);
+      const dx = track(new cv.Mat());
+      const dy = track(new cv.Mat());
+      cv.Sobel(gray, dx, cv.CV_16S, 1, 0, 3);
+      cv.Sobel(gray, dy, cv.CV_16S, 0, 1, 3);
+      
+      if (intermediates) {
+        intermediates.push({
+          stage: 'hough_edges',
+          imageData: matToImageData(edges),
+          description: `Canny edges (high threshold ${options.cannyThreshold}) voting for circle centres`
+        });
+      }
+      
+      const centers = computeCircleCenterAccumulator(
+        edges.data,
+        dx.data16S,
+        dy.data16S,
+        width,
+        height,
+        options.minRadius,
+        options.maxRadius,
+        options.dp
+      );
+      const scale = Math.max(1, options.dp);
+      accumulator = renderAccumulator(
+        centers,
+        circles.map(circle => ({ x: Math.floor(circle.center.x / scale), y: Math.floor(circle.center.y / scale) }))
+      );
+    } else {
+      const thetaStep = (Math.max(0.1, options.theta) * Math.PI) / 180;
+      const rhoStep = Math.max(0.1, options.rho);
+      const found = track(new cv.Mat());
+      
+      if (options.mode === 'standard') {
+        cv.HoughLines(gray, found, rhoStep, thetaStep, options.threshold, 0, 0, 0, Math.PI);
+        truncated = found.rows > maxResults;
+        for (let i = 0; i < Math.min(found.rows, maxResults); i++) {
+          const rho = found.data32F[i * 2];
+          const theta = found.data32F[i * 2 + 1];
+          const clipped = clipLineToImage(rho, theta, width, height);
+          if (!clipped) continue;
+          lines.push({ rho, theta, ...clipped });
+        }
+      } else {
+        cv.HoughLinesP(gray, found, rhoStep, thetaStep, options.threshold, options.minLineLength, options.maxLineGap);
+        truncated = found.rows > maxResults;
+        for (let i = 0; i < Math.min(found.rows, maxResults); i++) {
+          const start = { x: found.data32S[i * 4], y: found.data32S[i * 4 + 1] };
+          const end = { x: found.data32S[i * 4 + 2], y: found.data32S[i * 4 + 3] };
+          lines.push({ ...segmentToNormalForm(start, end), start, end });
+        }
+      }
+      
+      lines.forEach(line => {
+        cv.line(
+          overlay,
+          new cv.Point(Math.round(line.start.x), Math.round(line.start.y)),
+          new cv.Point(Math.round(line.end.x), Math.round(line.end.y)),
+          color,
+          thickness,
+          cv.LINE_AA
+        );
+      });
+      
+      const votes = computeLineAccumulator(gray.data, width, height, rhoStep, thetaStep);
+      // Widen the theta columns so the plot is not a thin strip
+      accumulator = renderAccumulator(
+        votes,
+        lines.map(line => ({
+          x: Math.round(line.theta / thetaStep) % votes.width,
+          y: Math.round(line.rho / rhoStep) + votes.rhoOffset
+        })),
+        Math.max(1, Math.floor(votes.height / votes.width))
+      );
+    }
+    
+    return {
+      result: matToImageData(overlay),
+      accumulator,
+      analysis: { mode: options.mode, lines, circles, truncated }
+    };
+  } finally {
+    mats.forEach(mat => mat.delete());
+  }
+};
+
+// Read the Hough detection options from the transformation parameters
+const getHoughOptions = (transformation: Transformation): HoughOptions => ({
+  mode: getParameterValue<HoughMode>(transformation, 'mode', 'standard'),
+  rho: getParameterValue(transformation, 'rho', 1),
+  theta: getParameterValue(transformation, 'theta', 1),
+  threshold: getParameterValue(transformation, 'threshold', 100),
+  minLineLength: getParameterValue(transformation, 'minLineLength', 30),
+  maxLineGap: getParameterValue(transformation, 'maxLineGap', 10),
+  dp: getParameterValue(transformation, 'dp', 1),
+  minDist: getParameterValue(transformation, 'minDist', 20),
+  cannyThreshold: getParameterValue(transformation, 'cannyThreshold', 100),
+  accumulatorThreshold: getParameterValue(transformation, 'accumulatorThreshold', 30),
+  minRadius: getParameterValue(transformation, 'minRadius', 0),
+  maxRadius: getParameterValue(transformation, 'maxRadius', 0),
+  maxResults: getParameterValue(transformation, 'maxResults', 50),
+  color: getParameterValue(transformation, 'color', '#ff0000'),
+  thickness: getParameterValue(transformation, 'thickness', 2)
+});
+
+export interface DistanceTransformOptions {
+  metric: DistanceMetric;
+  // 3, 5, or 0 for the exact Euclidean distance; only used by L2
+  maskSize: number;
+  // Measure from the dark pixels instead of the bright ones
+  invert: boolean;
+  // Stretch the distances to 0-255; otherwise one grey level per pixel of distance
+  normalize: boolean;
+}
+
+const DISTANCE_METRICS: Record<DistanceMetric, string> = {
+  L1: 'DIST_L1',
+  L2: 'DIST_L2',
+  chessboard: 'DIST_C'
+};
+
+// Binarise an RGBA or grayscale Mat at 128, keeping the bright (or, inverted, the dark) pixels
+const toBinaryMask = (src: any, invert: boolean, otsu: boolean = false): any => {
+  const cv = getOpenCV();
+  const gray = new cv.Mat();
+  try {
+    if (src.channels() > 1) {
+      cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+    } else {
+      src.copyTo(gray);
+    }
+    const binary = new cv.Mat();
+    const type = (invert ? cv.THRESH_BINARY_INV : cv.THRESH_BINARY) | (otsu ? cv.THRESH_OTSU : 0);
+    cv.threshold(gray, binary, 127, 255, type);
+    return binary;
+  } finally {
+    gray.delete();
+  }
+};
+
+/**
+ * Distance of every object pixel to the nearest background pixel. The input
+ * is binarised at 128, so the distance grows towards the middle of each
+ * bright region and peaks at the centres of round objects.
+ * @returns A single-channel 8-bit image of the distances
+ */
+export const applyDistanceTransform = (
+  src: any,
+  options: DistanceTransformOptions,
+  intermediates?: IntermediateResult[]
+): any => {
+  if (src.isFallback) {
+    throw new Error('Distance transform requires OpenCV');
+  }
+  
+  const cv = getOpenCV();
+  const binary = toBinaryMask(src, options.invert);
+  const distance = new cv.Mat();
+  
+  try {
+    if (intermediates) {
+      intermediates.push({
+        stage: 'distance_binary',
+        imageData: matToImageData(binary),
+        description: options.invert ? 'Objects: dark pixels of the input' : 'Objects: bright pixels of the input'
+      });
+    }
+    
+    // L1 and chessboard distances are exact with a 3×3 mask
+    const maskSize = options.metric === 'L2' ? options.maskSize : 3;
+    cv.distanceTransform(binary, distance, cv[DISTANCE_METRICS[options.metric]], maskSize);
+    
+    const dst = new cv.Mat();
+    if (options.normalize) {
+      cv.normalize(distance, distance, 0, 255, cv.NORM_MINMAX);
+    }
+    distance.convertTo(dst, cv.CV_8U);
+    return dst;
+  } finally {
+    binary.delete();
+    distance.delete();
+  }
+};
+
+// Read the distance transform options from the transformation parameters
+const getDistanceTransformOptions = (transformation: Transformation): DistanceTransformOptions => {
+  const maskSize = getParameterValue<string>(transformation, 'maskSize', '5');
+  return {
+    metric: getParameterValue<DistanceMetric>(transformation, 'metric', 'L2'),
+    maskSize: maskSize === 'precise' ? 0 : Number(maskSize),
+    invert: getParameterValue(transformation, 'invert', false),
+    normalize: getParameterValue(transformation, 'normalize', true)
+  };
+};
+
+export interface WatershedOptions {
+  // Treat dark pixels as the objects instead of bright ones
+  invert: boolean;
+  // Automatic markers: peaks must reach this fraction of the largest distance
+  peakThreshold: number;
+  // Automatic markers: peaks closer than this (pixels) merge into the strongest
+  minPeakDistance: number;
+  // Seed the pixels well away from every object as one background region
+  backgroundMarker: boolean;
+  fillRegions: boolean;
+  color: string;
+  thickness: number;
+}
+
+/**
+ * Separate touching objects with a marker-based watershed. Every seed grows
+ * into a region over the image gradient until it meets another; the lines
+ * where regions meet are drawn over the image. Seeds are the bright blobs of
+ * the markers image, or, without one, the peaks of the distance transform of
+ * the Otsu-thresholded image (roughly one per object centre).
+ * @param markers Marker image; each connected bright blob seeds one region
+ * @returns The image with region boundaries (and optionally region colours)
+ */
+export const applyWatershed = (
+  image: ImageData,
+  markers: ImageData | undefined,
+  options: WatershedOptions,
+  intermediates?: IntermediateResult[]
+): { result: ImageData; analysis: WatershedAnalysis } => {
+  const cv = getOpenCV();
+  const mats: any[] = [];
+  const track = <T>(mat: T): T => {
+    mats.push(mat);
+    return mat;
+  };
+  
+  try {
+    const { width, height } = image;
+    const rgba = track(imageDataToMat(image));
+    if (rgba.isFallback) {
+      throw new Error('Watershed segmentation requires OpenCV');
+    }
+    
+    const foreground = track(toBinaryMask(rgba, options.invert, true));
+    if (intermediates) {
+      intermediates.push({
+        stage: 'watershed_foreground',
+        imageData: matToImageData(foreground),
+        description: 'Objects found by Otsu thresholding of the image'
+      });
+    }
+    
+    // Seed pixels: one connected blob per region
+    const seeds = track(new cv.Mat());
+    if (markers) {
+      const markerMat = track(imageDataToMat(markers));
+      const markerMask = track(toBinaryMask(markerMat, false));
+      markerMask.copyTo(seeds);
+    } else {
+      const distance = track(new cv.Mat());
+      cv.distanceTransform(foreground, distance, cv.DIST_L2, 5);
+      
+      // Local maxima within the peak distance that are high enough
+      const dilated = track(new cv.Mat());
+      const radius = Math.max(1, Math.round(options.minPeakDistance));
+      const kernel = track(cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(radius * 2 + 1, radius * 2 + 1)));
+      cv.dilate(distance, dilated, kernel);
+      const maxDistance = cv.minMaxLoc(distance).maxVal;
+      const minimum = Math.max(1e-6, maxDistance * options.peakThreshold);
+      
+      seeds.create(height, width, cv.CV_8UC1);
+      const distances = distance.data32F;
+      const maxima = dilated.data32F;
+      const seedData = seeds.data;
+      for (let p = 0; p < distances.length; p++) {
+        seedData[p] = distances[p] >= minimum && distances[p] >= maxima[p] ? 255 : 0;
+      }
+      
+      if (intermediates) {
+        const normalized = track(new cv.Mat());
+        cv.normalize(distance, normalized, 0, 255, cv.NORM_MINMAX);
+        normalized.convertTo(normalized, cv.CV_8U);
+        intermediates.push({
+          stage: 'watershed_distance',
+          imageData: matToImageData(normalized),
+          description: `Distance transform of the objects; peaks above ${Math.round(options.peakThreshold * 100)}% of the maximum seed regions`
+        });
+      }
+    }
+    
+    const labels = track(new cv.Mat());
+    const seedCount = cv.connectedComponents(seeds, labels, 8, cv.CV_32S) - 1;
+    
+    // Watershed labels: 0 unknown, 1 background, 2.. one per seed
+    const labelData = labels.data32S;
+    for (let p = 0; p < labelData.length; p++) {
+      if (labelData[p] > 0) labelData[p] += 1;
+    }
+    if (options.backgroundMarker) {
+      const background = track(new cv.Mat());
+      const kernel = track(cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(3, 3)));
+      cv.dilate(foreground, background, kernel, new cv.Point(-1, -1), 3);
+      const backgroundData = background.data;
+      for (let p = 0; p < labelData.length; p++) {
+        if (labelData[p] === 0 && backgroundData[p] === 0) labelData[p] = 1;
+      }
+    }
+    
+    if (intermediates) {
+      const seedImage = new ImageData(width, height);
+      for (let p = 0, i = 0; p < labelData.length; p++, i += 4) {
+        const [r, g, b] = labelData[p] > 1 ? getLabelColor(labelData[p] - 1) : labelData[p] === 1 ? [64, 64, 64] : [0, 0, 0];
+        seedImage.data[i] = r;
+        seedImage.data[i + 1] = g;
+        seedImage.data[i + 2] = b;
+        seedImage.data[i + 3] = 255;
+      }
+      intermediates.push({
+        stage: 'watershed_markers',
+        imageData: seedImage,
+        description: `${seedCount} seeds from ${markers ? 'the markers input' : 'distance-transform peaks'}${options.backgroundMarker ? ', background in gray' : ''}`
+      });
+    }
+    
+    const rgb = track(new cv.Mat());
+    cv.cvtColor(rgba, rgb, cv.COLOR_RGBA2RGB);
+    cv.watershed(rgb, labels);
+    
+    // Boundaries are labelled -1; the image border is always -1 and is skipped
+    const boundary = track(cv.Mat.zeros(height, width, cv.CV_8UC1));
+    const boundaryData = boundary.data;
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        if (labelData[y * width + x] === -1) boundaryData[y * width + x] = 255;
+      }
+    }
+    const thickness = Math.max(1, Math.round(options.thickness));
+    if (thickness > 1) {
+      const kernel = track(cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(thickness, thickness)));
+      cv.dilate(boundary, boundary, kernel);
+    }
+    
+    const result = new ImageData(new Uint8ClampedArray(image.data), width, height);
+    const pixels = result.data;
+    const [lineR, lineG, lineB] = parseHexColor(options.color);
+    for (let p = 0, i = 0; p < labelData.length; p++, i += 4) {
+      if (boundaryData[p]) {
+        pixels[i] = lineR;
+        pixels[i + 1] = lineG;
+        pixels[i + 2] = lineB;
+        pixels[i + 3] = 255;
+      } else if (options.fillRegions && labelData[p] > 1) {
+        const [r, g, b] = getLabelColor(labelData[p] - 1);
+        pixels[i] = Math.round(pixels[i] * 0.6 + r * 0.4);
+        pixels[i + 1] = Math.round(pixels[i + 1] * 0.6 + g * 0.4);
+        pixels[i + 2] = Math.round(pixels[i + 2] * 0.6 + b * 0.4);
+      }
+    }
+    
+    return {
+      result,
+      analysis: { markerSource: markers ? 'input' : 'auto', regionCount: seedCount }
+    };
+  } finally {
+    mats.forEach(mat => mat.delete());
+  }
+};
+
+// Read the watershed options from the transformation parameters
+const getWatershedOptions = (transformation: Transformation): WatershedOptions => ({
+  invert: getParameterValue(transformation, 'invert', false),
+  peakThreshold: getParameterValue(transformation, 'peakThreshold', 0.5),
+  minPeakDistance: getParameterValue(transformation, 'minPeakDistance', 10),
+  backgroundMarker: getParameterValue(transformation, 'backgroundMarker', true),
+  fillRegions: getParameterValue(transformation, 'fillRegions', true),
+  color: getParameterValue(transformation, 'color', '#ff0000'),
+  thickness: getParameterValue(transformation, 'thickness', 2)
+});
+
+// Read the noise options from the transformation parameters
+const getNoiseOptions = (transformation: Transformation): NoiseOptions => ({
+  type: getParameterValue<NoiseType>(transformation, 'noiseType', 'gaussian'),
+  sigma: getParameterValue(transformation, 'sigma', 20),
+  density: getParameterValue(transformation, 'density', 0.05),
+  saltRatio: getParameterValue(transformation, 'saltRatio', 0.5),
+  photons: getParameterValue(transformation, 'photons', 50),
+  speckleSigma: getParameterValue(transformation, 'speckleSigma', 0.2),
+  monochrome: getParameterValue(transformation, 'monochrome', false),
+  seed: getParameterValue(transformation, 'seed', 42)
+});
+
+// Read the test pattern options from the transformation parameters
+const getTestPatternOptions = (transformation: Transformation): TestPatternOptions => ({
+  pattern: getParameterValue<TestPatternType>(transformation, 'pattern', 'checkerboard'),
+  width: getParameterValue(transformation, 'width', 512),
+  height: getParameterValue(transformation, 'height', 512),
+  low: getParameterValue(transformation, 'low', 0),
+  high: getParameterValue(transformation, 'high', 255),
+  cellSize: getParameterValue(transformation, 'cellSize', 32),
+  angle: getParameterValue(transformation, 'angle', 5),
+  maxFrequency: getParameterValue(transformation, 'maxFrequency', 0.5),
+  spokes: getParameterValue(transformation, 'spokes', 36),
+  shapeCount: getParameterValue(transformation, 'shapeCount', 20),
+  monochrome: getParameterValue(transformation, 'monochrome', true),
+  antialias: getParameterValue(transformation, 'antialias', true),
+  seed: getParameterValue(transformation, 'seed', 42)
+});
+
+// Adjust levels, gamma, brightness/contrast, the tone curve and HSL.
+// Runs on a lookup table in JavaScript, so it works the same with or without OpenCV.
+export const applyColorAdjust = (
+  imageData: ImageData,
+  options: ColorAdjustOptions,
+  intermediates?: IntermediateResult[]
+): ImageData => {
+  validateFilterParameter(options.gamma, 'gamma', 0);
+  if (options.inputWhite <= options.inputBlack) {
+    throw new Error(`Input white level (${options.inputWhite}) must be above the input black level (${options.inputBlack})`);
+  }
+  
+  const result = applyColorAdjustment(imageData, options);
+  
+  if (intermediates && (options.hue !== 0 || options.saturation !== 0 || options.lightness !== 0)) {
+    intermediates.push({
+      stage: 'tone_adjusted',
+      imageData: applyColorAdjustment(imageData, { ...options, hue: 0, saturation: 0, lightness: 0 }),
+      description: 'Levels, brightness/contrast and tone curve, before the HSL shifts'
+    });
+  }
+  
+  return result;
+};
+
+// Read the colour adjustment options from the transformation parameters;
+// the tone curve is edited in the configuration modal and kept with the advanced parameters
+export const getColorAdjustOptions = (transformation: Transformation): ColorAdjustOptions => {
+  const advancedParams = transformation.metadata?.advancedParameters || {};
+  
+  return {
+    brightness: getParameterValue(transformation, 'brightness', 0),
+    contrast: getParameterValue(transformation, 'contrast', 0),
+    gamma: getParameterValue(transformation, 'gamma', 1),
+    inputBlack: getParameterValue(transformation, 'inputBlack', 0),
+    inputWhite: getParameterValue(transformation, 'inputWhite', 255),
+    outputBlack: getParameterValue(transformation, 'outputBlack', 0),
+    outputWhite: getParameterValue(transformation, 'outputWhite', 255),
+    curve: Array.isArray(advancedParams.curve) ? advancedParams.curve : IDENTITY_CURVE,
+    hue: getParameterValue(transformation, 'hue', 0),
+    saturation: getParameterValue(transformation, 'saturation', 0),
+    lightness: getParameterValue(transformation, 'lightness', 0),
+    preserveLuminance: advancedParams.preserveLuminance !== false
+  };
+};
+
+// Apply morphological operations (opening, closing, gradient, tophat, blackhat)
+export const applyMorphology = (src: any, operation: string, kernelSize: number, iterations: number = 1, advancedParams?: Record<string, any>): any => {
+  const cv = getOpenCV();
+  try {
+    // Create destination matrix
+    const dst = new cv.Mat();
+    
+    // Map border type
+    const borderType = advancedParams?.borderType === 'reflect' ? cv.BORDER_REFLECT :
+                      advancedParams?.borderType === 'replicate' ? cv.BORDER_REPLICATE :
+                      advancedParams?.borderType === 'wrap' ? cv.BORDER_WRAP :
+                      cv.BORDER_DEFAULT; // Default border handling
+    
+    // Create structuring element
+    let kernel: any;
+    
+    if (advancedParams?.useCustomElement && advancedParams?.structuringElement) {
+      // Use the custom structuring element
+      kernel = createStructuringElementMat(cv, advancedParams.structuringElement);
+    } else {
+      // Use standard OpenCV structuring element
+      const shape = advancedParams?.shape === 'ellipse' ? cv.MORPH_ELLIPSE :
+                    advancedParams?.shape === 'cross' ? cv.MORPH_CROSS :
+                    cv.MORPH_RECT;
+      
+      kernel = cv.getStructuringElement(
+        shape,
+        new cv.Size(kernelSize, kernelSize)
+      );
+    }
+    
+    // Map morphological operation to OpenCV constant
+    let morphOp: number;
+    switch (operation) {
+      case 'open':
         morphOp = cv.MORPH_OPEN;
         break;
       case 'close':
@@ -2110,26 +3563,916 @@ export const applyMorphology = (src: any, operation: string, kernelSize: number,
         morphOp = cv.MORPH_OPEN; // Default to opening
     }
     
-    // Set up anchor point (center of kernel by default)
-    const anchor = new cv.Point(-1, -1);
+    // Set up anchor point (center of kernel by default)
+    const anchor = new cv.Point(-1, -1);
+    
+    // Apply morphological operation
+    cv.morphologyEx(
+      src,
+      dst,
+      morphOp,
+      kernel,
+      anchor,
+      iterations,
+      borderType
+    );
+    
+    // Clean up
+    kernel.delete();
+    
+    return dst;
+  } catch (error) {
+    console.error('Error in applyMorphology:', error);
+    throw error;
+  }
+};
+
+// Validate a filter kernel size: even sizes are bumped to the next odd value
+const validateOddKernelSize = (value: number, name: string, max: number = 31): number => {
+  if (typeof value !== 'number' || !isFinite(value) || value < 1) {
+    throw new Error(`Invalid ${name}: ${value} (must be a positive odd number)`);
+  }
+  
+  let size = Math.round(value);
+  if (size % 2 === 0) {
+    console.warn(`${name} must be odd, using ${size + 1} instead of ${size}`);
+    size += 1;
+  }
+  
+  return Math.min(size, max);
+};
+
+// Validate a numeric filter parameter against a lower bound
+const validateFilterParameter = (value: number, name: string, min: number, inclusive: boolean = false): number => {
+  if (typeof value !== 'number' || !isFinite(value) || (inclusive ? value < min : value <= min)) {
+    throw new Error(`Invalid ${name}: ${value} (must be ${inclusive ? 'at least' : 'greater than'} ${min})`);
+  }
+  return value;
+};
+
+// Apply unsharp-mask sharpening: dst = src + strength * (src - gaussian(src, radius))
+export const applySharpen = (src: any, strength: number, radius: number, intermediates?: IntermediateResult[]): any => {
+  const amount = validateFilterParameter(strength, 'strength', 0, true);
+  const sigma = validateFilterParameter(radius, 'radius', 0);
+  
+  // Handle fallback Mat
+  if (src.isFallback) {
+    const input = new ImageData(new Uint8ClampedArray(src.data), src.cols, src.rows);
+    const { result, blurred } = sharpenImageData(input, amount, sigma);
+    
+    if (intermediates) {
+      intermediates.push({
+        stage: 'sharpen_blurred',
+        imageData: blurred,
+        description: `Gaussian blur (σ = ${sigma}) used as the unsharp mask`
+      });
+      intermediates.push({
+        stage: 'sharpen_detail',
+        imageData: differenceImageData(input, blurred, 4),
+        description: 'Detail layer |original − blurred| (amplified ×4)'
+      });
+    }
+    
+    return createFallbackMat(result);
+  }
+  
+  const cv = getOpenCV();
+  const blurred = new cv.Mat();
+  const dst = new cv.Mat();
+  try {
+    // Kernel size is derived from sigma when it is (0, 0)
+    cv.GaussianBlur(src, blurred, new cv.Size(0, 0), sigma, sigma, cv.BORDER_DEFAULT);
+    cv.addWeighted(src, 1 + amount, blurred, -amount, 0, dst);
+    
+    if (intermediates) {
+      const blurredImageData = matToImageData(blurred);
+      intermediates.push({
+        stage: 'sharpen_blurred',
+        imageData: blurredImageData,
+        description: `Gaussian blur (σ = ${sigma}) used as the unsharp mask`
+      });
+      intermediates.push({
+        stage: 'sharpen_detail',
+        imageData: differenceImageData(matToImageData(src), blurredImageData, 4),
+        description: 'Detail layer |original − blurred| (amplified ×4)'
+      });
+    }
+    
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw new Error(`Sharpen transformation failed: ${error}`);
+  } finally {
+    blurred.delete();
+  }
+};
+
+// Apply median filtering for salt-and-pepper noise removal
+export const applyMedian = (src: any, kernelSize: number, intermediates?: IntermediateResult[]): any => {
+  const ksize = validateOddKernelSize(kernelSize, 'Median kernel size');
+  
+  // Handle fallback Mat
+  if (src.isFallback) {
+    const input = new ImageData(new Uint8ClampedArray(src.data), src.cols, src.rows);
+    const result = medianFilterImageData(input, ksize);
+    
+    if (intermediates) {
+      intermediates.push({
+        stage: 'median_removed',
+        imageData: differenceImageData(input, result, 4),
+        description: `Removed by the ${ksize}×${ksize} median |original − filtered| (amplified ×4)`
+      });
+    }
+    
+    return createFallbackMat(result);
+  }
+  
+  const cv = getOpenCV();
+  const dst = new cv.Mat();
+  try {
+    cv.medianBlur(src, dst, ksize);
+    
+    if (intermediates) {
+      intermediates.push({
+        stage: 'median_removed',
+        imageData: differenceImageData(matToImageData(src), matToImageData(dst), 4),
+        description: `Removed by the ${ksize}×${ksize} median |original − filtered| (amplified ×4)`
+      });
+    }
+    
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw new Error(`Median transformation failed: ${error}`);
+  }
+};
+
+// Apply edge-preserving bilateral filtering
+export const applyBilateral = (
+  src: any,
+  diameter: number,
+  sigmaColor: number,
+  sigmaSpace: number,
+  intermediates?: IntermediateResult[]
+): any => {
+  const d = Math.round(validateFilterParameter(diameter, 'diameter', 1, true));
+  const colorSigma = validateFilterParameter(sigmaColor, 'sigma color', 0);
+  const spaceSigma = validateFilterParameter(sigmaSpace, 'sigma space', 0);
+  
+  // Handle fallback Mat
+  if (src.isFallback) {
+    const input = new ImageData(new Uint8ClampedArray(src.data), src.cols, src.rows);
+    const result = bilateralFilterImageData(input, d, colorSigma, spaceSigma);
+    
+    if (intermediates) {
+      intermediates.push({
+        stage: 'bilateral_removed',
+        imageData: differenceImageData(input, result, 4),
+        description: 'Texture smoothed away |original − filtered| (amplified ×4)'
+      });
+    }
+    
+    return createFallbackMat(result);
+  }
+  
+  const cv = getOpenCV();
+  const rgb = new cv.Mat();
+  const filtered = new cv.Mat();
+  const dst = new cv.Mat();
+  try {
+    // bilateralFilter only accepts 1 or 3 channel images
+    if (src.channels() === 4) {
+      cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB);
+      cv.bilateralFilter(rgb, filtered, d, colorSigma, spaceSigma, cv.BORDER_DEFAULT);
+      cv.cvtColor(filtered, dst, cv.COLOR_RGB2RGBA);
+    } else {
+      cv.bilateralFilter(src, dst, d, colorSigma, spaceSigma, cv.BORDER_DEFAULT);
+    }
     
-    // Apply morphological operation
-    cv.morphologyEx(
-      src,
-      dst,
-      morphOp,
-      kernel,
-      anchor,
-      iterations,
-      borderType
+    if (intermediates) {
+      intermediates.push({
+        stage: 'bilateral_removed',
+        imageData: differenceImageData(matToImageData(src), matToImageData(dst), 4),
+        description: 'Texture smoothed away |original − filtered| (amplified ×4)'
+      });
+    }
+    
+    return dst;
+  } catch (error) {
+    dst.delete();
+    throw new Error(`Bilateral transformation failed: ${error}`);
+  } finally {
+    rgb.delete();
+    filtered.delete();
+  }
+};
+
+// Apply a lowpass / highpass / bandpass / notch filter in the frequency domain.
+// Runs on the JavaScript FFT, so it works the same with or without OpenCV.
+export const applyFrequencyFilter = (
+  imageData: ImageData,
+  options: FrequencyFilterOptions,
+  intermediates?: IntermediateResult[]
+): ImageData => {
+  const cutoffFrequency = validateFilterParameter(options.cutoffFrequency, 'cutoff frequency', 0);
+  if (options.filterType === 'bandpass' || options.filterType === 'notch') {
+    validateFilterParameter(options.bandwidth as number, 'bandwidth', 0);
+  }
+  if (options.filterShape === 'butterworth') {
+    validateFilterParameter(options.filterOrder as number, 'filter order', 1, true);
+  }
+  
+  try {
+    const filtered = fourierTransformAnalyzer.applyFrequencyFilter(imageData, { ...options, cutoffFrequency });
+    
+    if (intermediates) {
+      const { paddedWidth, paddedHeight } = filtered;
+      const maskImage = new Uint8ClampedArray(paddedWidth * paddedHeight * 4);
+      for (let i = 0; i < filtered.mask.length; i++) {
+        maskImage[i * 4] = maskImage[i * 4 + 1] = maskImage[i * 4 + 2] = filtered.mask[i] * 255;
+        maskImage[i * 4 + 3] = 255;
+      }
+      
+      intermediates.push({
+        stage: 'spectrum_before',
+        imageData: fourierTransformAnalyzer.createSpectrumImage(filtered.spectrumBefore, paddedWidth, paddedHeight),
+        description: 'Log magnitude spectrum of the input (DC centered)'
+      });
+      intermediates.push({
+        stage: 'filter_mask',
+        imageData: new ImageData(maskImage, paddedWidth, paddedHeight),
+        description: `${options.filterShape} ${options.filterType} transfer function (white = passed)`
+      });
+      intermediates.push({
+        stage: 'spectrum_after',
+        imageData: fourierTransformAnalyzer.createSpectrumImage(filtered.spectrumAfter, paddedWidth, paddedHeight),
+        description: 'Log magnitude spectrum after masking'
+      });
+    }
+    
+    return filtered.imageData;
+  } catch (error) {
+    throw new Error(`Frequency filter failed: ${error}`);
+  }
+};
+
+// Read the frequency filter options from the transformation parameters
+const getFrequencyFilterOptions = (transformation: Transformation): FrequencyFilterOptions => {
+  const filterTypeParam = transformation.parameters.find(p => p.name === 'filterType');
+  const filterShapeParam = transformation.parameters.find(p => p.name === 'filterShape');
+  const cutoffParam = transformation.parameters.find(p => p.name === 'cutoffFrequency');
+  const bandwidthParam = transformation.parameters.find(p => p.name === 'bandwidth');
+  const orderParam = transformation.parameters.find(p => p.name === 'filterOrder');
+  const normalizeParam = transformation.parameters.find(p => p.name === 'normalizeOutput');
+  
+  return {
+    filterType: filterTypeParam ? filterTypeParam.value as FrequencyFilterOptions['filterType'] : 'lowpass',
+    filterShape: filterShapeParam ? filterShapeParam.value as FrequencyFilterOptions['filterShape'] : 'butterworth',
+    cutoffFrequency: cutoffParam ? cutoffParam.value as number : 0.1,
+    bandwidth: bandwidthParam ? bandwidthParam.value as number : 0.05,
+    filterOrder: orderParam ? orderParam.value as number : 2,
+    normalizeOutput: normalizeParam ? normalizeParam.value as boolean : false
+  };
+};
+
+// Show an 8-bit plane as a grayscale image
+const planeToImageData = (plane: Uint8Array, width: number, height: number): ImageData => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0, i = 0; p < plane.length; p++, i += 4) {
+    pixels[i] = pixels[i + 1] = pixels[i + 2] = plane[p];
+    pixels[i + 3] = 255;
+  }
+  return new ImageData(pixels, width, height);
+};
+
+// Equalize (globally or with CLAHE) or match the histogram of a reference image.
+// Runs on lookup tables in JavaScript, so it works the same with or without OpenCV.
+export const applyHistogramTransform = (
+  imageData: ImageData,
+  options: HistogramOperationOptions,
+  reference?: ImageData,
+  intermediates?: IntermediateResult[]
+): { result: ImageData; analysis: HistogramTransformAnalysis } => {
+  if (options.method === 'adaptive') {
+    validateFilterParameter(options.clipLimit, 'clip limit', 0, true);
+    validateFilterParameter(options.tileGridSize, 'tile grid size', 1, true);
+  }
+  
+  const result = applyHistogramOperation(imageData, options, reference);
+  
+  // Luminance mode is summarized by the gray histogram, per-channel mode by R, G and B
+  const analyzer = new HistogramAnalyzer(options.mode === 'luminance' ? 'grayscale' : 'rgb');
+  const analysis: HistogramTransformAnalysis = {
+    method: options.method,
+    mode: options.mode,
+    before: analyzer.analyze(imageData),
+    after: analyzer.analyze(result)
+  };
+  if (options.method === 'match' && reference) {
+    analysis.reference = analyzer.analyze(reference);
+  }
+  
+  if (intermediates && options.mode === 'luminance') {
+    const { width, height } = imageData;
+    intermediates.push({
+      stage: 'luminance_before',
+      imageData: planeToImageData(getHistogramPlanes(imageData, 'luminance')[0], width, height),
+      description: 'Luminance of the input'
+    });
+    intermediates.push({
+      stage: 'luminance_after',
+      imageData: planeToImageData(getHistogramPlanes(result, 'luminance')[0], width, height),
+      description: 'Luminance after redistribution (chroma is kept)'
+    });
+  }
+  
+  return { result, analysis };
+};
+
+// Read the histogram options from the transformation parameters
+const getHistogramOptions = (transformation: Transformation): HistogramOperationOptions => ({
+  method: getParameterValue<HistogramOperationOptions['method']>(transformation, 'method', 'global'),
+  mode: getParameterValue<HistogramOperationOptions['mode']>(transformation, 'mode', 'luminance'),
+  clipLimit: getParameterValue(transformation, 'clipLimit', 2),
+  tileGridSize: getParameterValue(transformation, 'tileGridSize', 8)
+});
+
+// Output port ids of the channel split, in storage order
+const CHANNEL_PORT_IDS = ['channel1', 'channel2', 'channel3', 'alpha'];
+
+// Split an image into one grayscale image per channel of a colour space (plus alpha).
+// The result image shows the three colour channels side by side.
+export const applySplitChannels = (
+  imageData: ImageData,
+  colorSpace: ColorSpace
+): { result: ImageData; outputs: Record<string, ImageData> } => {
+  const { width, height } = imageData;
+  const planes = splitChannels(imageData, colorSpace);
+  
+  const outputs: Record<string, ImageData> = {};
+  planes.forEach((plane, index) => {
+    outputs[CHANNEL_PORT_IDS[index]] = planeToImageData(plane, width, height);
+  });
+  
+  const strip = new Uint8ClampedArray(width * 3 * height * 4);
+  for (let channel = 0; channel < 3; channel++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const value = planes[channel][y * width + x];
+        const offset = (y * width * 3 + channel * width + x) * 4;
+        strip[offset] = strip[offset + 1] = strip[offset + 2] = value;
+        strip[offset + 3] = 255;
+      }
+    }
+  }
+  
+  return { result: new ImageData(strip, width * 3, height), outputs };
+};
+
+// Combine three channel images (and an optional alpha image) of a colour space into RGB.
+// Each input contributes its luminance, so grayscale channel images pass through unchanged.
+export const applyMergeChannels = (
+  inputs: Record<string, ImageData>,
+  colorSpace: ColorSpace
+): ImageData => {
+  const { width, height } = inputs.channel1;
+  const planes = CHANNEL_PORT_IDS
+    .filter(portId => inputs[portId])
+    .map(portId => getHistogramPlanes(inputs[portId], 'luminance')[0]);
+  
+  return mergeChannels(planes, width, height, colorSpace);
+};
+
+// Named output ports of transformations that produce several images
+const multiOutputTransformations: TransformationType[] = ['splitChannels', 'hough'];
+
+/**
+ * Get the named output ports of a transformation, labelled after its current
+ * settings (e.g. the channels of the selected colour space)
+ */
+export const getTransformationOutputPorts = (transformation: Transformation): OutputPort[] => {
+  if (transformation.type === 'hough') return HOUGH_OUTPUT_PORTS;
+  if (transformation.type !== 'splitChannels') return [];
+  
+  const colorSpace = getParameterValue<ColorSpace>(transformation, 'colorSpace', 'rgb');
+  return [
+    ...COLOR_SPACE_CHANNELS[colorSpace].map((channel, index) => ({
+      id: CHANNEL_PORT_IDS[index],
+      label: channel,
+      description: `${channel} channel as a grayscale image`
+    })),
+    { id: 'alpha', label: 'Alpha', description: 'Alpha channel as a grayscale image' }
+  ];
+};
+
+/**
+ * Check whether a transformation type produces several output images
+ */
+export const isMultiOutputTransformation = (type: TransformationType): boolean => {
+  return multiOutputTransformations.includes(type);
+};
+
+// Named input ports for transformations that combine several images
+const multiInputPorts: Partial<Record<TransformationType, InputPort[]>> = {
+  add: [
+    { id: 'a', label: 'A' },
+    { id: 'b', label: 'B' }
+  ],
+  subtract: [
+    { id: 'a', label: 'A', description: 'Image to subtract from' },
+    { id: 'b', label: 'B', description: 'Image being subtracted' }
+  ],
+  absDiff: [
+    { id: 'a', label: 'A' },
+    { id: 'b', label: 'B' }
+  ],
+  blend: [
+    { id: 'a', label: 'A' },
+    { id: 'b', label: 'B' }
+  ],
+  bitwiseAnd: [
+    { id: 'a', label: 'A' },
+    { id: 'b', label: 'B' }
+  ],
+  bitwiseOr: [
+    { id: 'a', label: 'A' },
+    { id: 'b', label: 'B' }
+  ],
+  bitwiseXor: [
+    { id: 'a', label: 'A' },
+    { id: 'b', label: 'B' }
+  ],
+  maskedCopy: [
+    { id: 'source', label: 'Source', description: 'Pixels copied where the mask is set' },
+    { id: 'mask', label: 'Mask', description: 'Thresholded to decide which pixels are copied' },
+    { id: 'background', label: 'Background', description: 'Pixels kept where the mask is not set (black if unconnected)', optional: true }
+  ],
+  histogram: [
+    { id: 'input', label: 'Input' },
+    { id: 'reference', label: 'Reference', description: 'Histogram to match (only used by histogram matching)', optional: true }
+  ],
+  mergeChannels: [
+    { id: 'channel1', label: 'Channel 1', description: 'First channel of the colour space (e.g. Hue for HSV)' },
+    { id: 'channel2', label: 'Channel 2', description: 'Second channel of the colour space' },
+    { id: 'channel3', label: 'Channel 3', description: 'Third channel of the colour space' },
+    { id: 'alpha', label: 'Alpha', description: 'Opacity (fully opaque if unconnected)', optional: true }
+  ],
+  hough: [
+    { id: 'source', label: 'Source', description: 'Edge map for lines (e.g. Canny output), grayscale image for circles' },
+    { id: 'background', label: 'Background', description: 'Image the detections are drawn on (the source if unconnected)', optional: true }
+  ],
+  watershed: [
+    { id: 'image', label: 'Image', description: 'Image to segment; objects are separated from the background by Otsu thresholding' },
+    { id: 'markers', label: 'Markers', description: 'Each bright blob seeds one region (distance-transform peaks if unconnected)', optional: true }
+  ],
+  // Generators create their image from the parameters alone
+  testPattern: []
+};
+
+const defaultInputPorts: InputPort[] = [{ id: 'input', label: 'Input' }];
+
+/**
+ * Get the named input ports of a transformation type
+ */
+export const getTransformationInputPorts = (type: TransformationType): InputPort[] => {
+  return multiInputPorts[type] || defaultInputPorts;
+};
+
+/**
+ * Check whether a transformation type combines several input images
+ */
+export const isMultiInputTransformation = (type: TransformationType): boolean => {
+  return !!multiInputPorts[type];
+};
+
+/**
+ * Check whether a transformation type generates its image without any input
+ */
+export const isSourceTransformation = (type: TransformationType): boolean => {
+  return getTransformationInputPorts(type).length === 0;
+};
+
+// Draw ImageData onto a new canvas
+const imageDataToCanvas = (imageData: ImageData): HTMLCanvasElement | OffscreenCanvas => {
+  const ctx = createCanvasContext(imageData.width, imageData.height);
+  ctx.putImageData(imageData, 0, 0);
+  return ctx.canvas;
+};
+
+// Bring all connected inputs to a common size according to the size-mismatch policy
+const alignInputSizes = (
+  inputs: Record<string, ImageData>,
+  ports: InputPort[],
+  policy: SizeMismatchPolicy,
+  intermediates?: IntermediateResult[]
+): Record<string, ImageData> => {
+  const connected = ports.filter(port => inputs[port.id]);
+  const reference = inputs[connected[0].id];
+  
+  const mismatched = connected.filter(port => 
+    inputs[port.id].width !== reference.width || inputs[port.id].height !== reference.height
+  );
+  if (mismatched.length === 0) return inputs;
+  
+  if (policy === 'error') {
+    const sizes = connected
+      .map(port => `${port.label}: ${inputs[port.id].width}×${inputs[port.id].height}`)
+      .join(', ');
+    throw new Error(`Input sizes do not match (${sizes})`);
+  }
+  
+  // Resize to the first input's size, or crop every input to the common top-left region
+  const targetWidth = policy === 'crop' 
+    ? Math.min(...connected.map(port => inputs[port.id].width)) 
+    : reference.width;
+  const targetHeight = policy === 'crop' 
+    ? Math.min(...connected.map(port => inputs[port.id].height)) 
+    : reference.height;
+  
+  const aligned: Record<string, ImageData> = {};
+  connected.forEach(port => {
+    const input = inputs[port.id];
+    if (input.width === targetWidth && input.height === targetHeight) {
+      aligned[port.id] = input;
+      return;
+    }
+    
+    const ctx = createCanvasContext(targetWidth, targetHeight);
+    
+    if (policy === 'crop') {
+      ctx.putImageData(input, 0, 0);
+    } else {
+      ctx.drawImage(imageDataToCanvas(input), 0, 0, targetWidth, targetHeight);
+    }
+    aligned[port.id] = ctx.getImageData(0, 0, targetWidth, targetHeight);
+    
+    if (intermediates) {
+      intermediates.push({
+        stage: `align_${port.id}`,
+        imageData: aligned[port.id],
+        description: `Input ${port.label} ${policy === 'crop' ? 'cropped' : 'resized'} from ${input.width}×${input.height} to ${targetWidth}×${targetHeight}`
+      });
+    }
+  });
+  
+  return aligned;
+};
+
+// Read a numeric / boolean / string parameter with a default value
+const getParameterValue = <T>(transformation: Transformation, name: string, defaultValue: T): T => {
+  const param = transformation.parameters?.find(p => p.name === name);
+  return param ? param.value as T : defaultValue;
+};
+
+// Pure JavaScript implementation of the multi-input operations
+function combineImagesWithoutOpenCV(
+  transformation: Transformation,
+  inputs: Record<string, ImageData>,
+  intermediates?: IntermediateResult[]
+): ImageData {
+  const first = inputs.a || inputs.source;
+  const { width, height } = first;
+  const output = new Uint8ClampedArray(width * height * 4);
+  
+  if (transformation.type === 'maskedCopy') {
+    const threshold = getParameterValue(transformation, 'maskThreshold', 127);
+    const invert = getParameterValue(transformation, 'invertMask', false);
+    const source = inputs.source.data;
+    const mask = inputs.mask.data;
+    const background = inputs.background?.data;
+    const maskPreview = new Uint8ClampedArray(output.length);
+    
+    for (let i = 0; i < output.length; i += 4) {
+      const gray = 0.299 * mask[i] + 0.587 * mask[i + 1] + 0.114 * mask[i + 2];
+      const selected = (gray > threshold) !== invert;
+      for (let c = 0; c < 3; c++) {
+        output[i + c] = selected ? source[i + c] : background ? background[i + c] : 0;
+        maskPreview[i + c] = selected ? 255 : 0;
+      }
+      output[i + 3] = 255;
+      maskPreview[i + 3] = 255;
+    }
+    
+    if (intermediates) {
+      intermediates.push({
+        stage: 'binary_mask',
+        imageData: new ImageData(maskPreview, width, height),
+        description: `Binary mask (gray ${invert ? '≤' : '>'} ${threshold})`
+      });
+    }
+    
+    return new ImageData(output, width, height);
+  }
+  
+  const a = inputs.a.data;
+  const b = inputs.b.data;
+  const alpha = getParameterValue(transformation, 'alpha', 0.5);
+  const gamma = getParameterValue(transformation, 'gamma', 0);
+  
+  for (let i = 0; i < output.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const va = a[i + c];
+      const vb = b[i + c];
+      switch (transformation.type) {
+        case 'add': output[i + c] = va + vb; break;
+        case 'subtract': output[i + c] = va - vb; break;
+        case 'absDiff': output[i + c] = Math.abs(va - vb); break;
+        case 'blend': output[i + c] = (1 - alpha) * va + alpha * vb + gamma; break;
+        case 'bitwiseAnd': output[i + c] = va & vb; break;
+        case 'bitwiseOr': output[i + c] = va | vb; break;
+        case 'bitwiseXor': output[i + c] = va ^ vb; break;
+        default: throw new Error(`Transformation type ${transformation.type} not implemented`);
+      }
+    }
+    output[i + 3] = 255;
+  }
+  
+  return new ImageData(output, width, height);
+}
+
+// OpenCV implementation of the multi-input operations (works on RGB so alpha stays opaque)
+function combineImagesWithOpenCV(
+  cv: any,
+  transformation: Transformation,
+  inputs: Record<string, ImageData>,
+  intermediates?: IntermediateResult[]
+): ImageData {
+  const mats: any[] = [];
+  const toRgb = (imageData: ImageData): any => {
+    const rgba = imageDataToMat(imageData);
+    mats.push(rgba);
+    if (rgba.isFallback) {
+      throw new Error('OpenCV Mat unavailable');
+    }
+    const rgb = new cv.Mat();
+    mats.push(rgb);
+    cv.cvtColor(rgba, rgb, cv.COLOR_RGBA2RGB);
+    return rgb;
+  };
+  
+  try {
+    const dst = new cv.Mat();
+    mats.push(dst);
+    
+    if (transformation.type === 'maskedCopy') {
+      const threshold = getParameterValue(transformation, 'maskThreshold', 127);
+      const invert = getParameterValue(transformation, 'invertMask', false);
+      const source = toRgb(inputs.source);
+      const maskRgb = toRgb(inputs.mask);
+      
+      // Threshold the grayscale mask
+      const maskGray = new cv.Mat();
+      const mask = new cv.Mat();
+      mats.push(maskGray, mask);
+      cv.cvtColor(maskRgb, maskGray, cv.COLOR_RGB2GRAY);
+      cv.threshold(maskGray, mask, threshold, 255, invert ? cv.THRESH_BINARY_INV : cv.THRESH_BINARY);
+      
+      if (intermediates) {
+        intermediates.push({
+          stage: 'binary_mask',
+          imageData: matToImageData(mask),
+          description: `Binary mask (gray ${invert ? '≤' : '>'} ${threshold})`
+        });
+      }
+      
+      // Start from the background (or black) and copy the source through the mask
+      if (inputs.background) {
+        toRgb(inputs.background).copyTo(dst);
+      } else {
+        const zeros = cv.Mat.zeros(source.rows, source.cols, cv.CV_8UC3);
+        mats.push(zeros);
+        zeros.copyTo(dst);
+      }
+      source.copyTo(dst, mask);
+    } else {
+      const a = toRgb(inputs.a);
+      const b = toRgb(inputs.b);
+      
+      switch (transformation.type) {
+        case 'add':
+          cv.add(a, b, dst);
+          break;
+        case 'subtract':
+          cv.subtract(a, b, dst);
+          break;
+        case 'absDiff':
+          cv.absdiff(a, b, dst);
+          break;
+        case 'blend': {
+          const alpha = getParameterValue(transformation, 'alpha', 0.5);
+          const gamma = getParameterValue(transformation, 'gamma', 0);
+          cv.addWeighted(a, 1 - alpha, b, alpha, gamma, dst);
+          break;
+        }
+        case 'bitwiseAnd':
+          cv.bitwise_and(a, b, dst);
+          break;
+        case 'bitwiseOr':
+          cv.bitwise_or(a, b, dst);
+          break;
+        case 'bitwiseXor':
+          cv.bitwise_xor(a, b, dst);
+          break;
+        default:
+          throw new Error(`Transformation type ${transformation.type} not implemented`);
+      }
+    }
+    
+    const rgba = new cv.Mat();
+    mats.push(rgba);
+    cv.cvtColor(dst, rgba, cv.COLOR_RGB2RGBA);
+    return matToImageData(rgba);
+  } finally {
+    mats.forEach(mat => {
+      if (mat && typeof mat.delete === 'function') mat.delete();
+    });
+  }
+}
+
+// Process a multi-input transformation; inputs are keyed by input port id
+export const processMultiInputImage = async (
+  inputs: Record<string, ImageData>,
+  transformation: Transformation,
+  includeIntermediateResults: boolean = false
+): Promise<{
+  result: ImageData;
+  intermediates?: IntermediateResult[];
+  diagnosticInfo?: any;
+  analysis?: TransformationAnalysis;
+  outputs?: Record<string, ImageData>;
+}> => {
+  const intermediates: IntermediateResult[] = [];
+  const ports = getTransformationInputPorts(transformation.type);
+  const diagnosticInfo: any = {
+    startTime: Date.now(),
+    transformationType: transformation.type,
+    inputDimensions: Object.fromEntries(
+      Object.entries(inputs).map(([portId, imageData]) => [portId, { width: imageData.width, height: imageData.height }])
+    ),
+    parameters: transformation.parameters,
+    steps: []
+  };
+  
+  // Every required port must be connected
+  const missing = ports.filter(port => !port.optional && !inputs[port.id]);
+  if (missing.length > 0) {
+    throw new Error(`Missing input: ${missing.map(port => port.label).join(', ')}`);
+  }
+  
+  // Test patterns are generated in JavaScript from the parameters, no OpenCV required
+  if (transformation.type === 'testPattern') {
+    diagnosticInfo.steps.push({ name: 'test_pattern', startTime: Date.now() });
+    const result = generateTestPattern(getTestPatternOptions(transformation));
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
+    
+    return {
+      result,
+      intermediates,
+      diagnosticInfo
+    };
+  }
+  
+  // The reference only contributes its distribution, so the sizes may differ
+  if (transformation.type === 'histogram') {
+    diagnosticInfo.steps.push({ name: 'histogram', startTime: Date.now() });
+    const { result, analysis } = applyHistogramTransform(
+      inputs.input,
+      getHistogramOptions(transformation),
+      inputs.reference,
+      includeIntermediateResults ? intermediates : undefined
     );
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
     
-    // Clean up
-    kernel.delete();
+    return {
+      result,
+      intermediates,
+      diagnosticInfo,
+      analysis: { histogram: analysis }
+    };
+  }
+  
+  const policy = getParameterValue<SizeMismatchPolicy>(transformation, 'sizePolicy', 'resize');
+  const aligned = alignInputSizes(inputs, ports, policy, includeIntermediateResults ? intermediates : undefined);
+  
+  // Channel merging is pure JavaScript, no OpenCV required
+  if (transformation.type === 'mergeChannels') {
+    diagnosticInfo.steps.push({ name: 'merge_channels', startTime: Date.now() });
+    const result = applyMergeChannels(aligned, getParameterValue<ColorSpace>(transformation, 'colorSpace', 'rgb'));
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
     
-    return dst;
+    return {
+      result,
+      intermediates,
+      diagnosticInfo
+    };
+  }
+  
+  // Initialize OpenCV if needed, falling back to JavaScript when it is unavailable
+  let useOpenCV = true;
+  try {
+    await Promise.race([
+      initOpenCV(),
+      new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('OpenCV initialization timed out')), 5000)
+      )
+    ]);
   } catch (error) {
-    console.error('Error in applyMorphology:', error);
-    throw error;
+    console.warn('Proceeding with JavaScript implementation:', error);
+    useOpenCV = false;
+  }
+  
+  // Hough detection has no JavaScript implementation
+  if (transformation.type === 'hough') {
+    if (!useOpenCV) {
+      throw new Error('Hough detection requires OpenCV');
+    }
+    diagnosticInfo.steps.push({ name: 'hough', startTime: Date.now() });
+    const hough = applyHoughDetection(
+      aligned.source,
+      aligned.background,
+      getHoughOptions(transformation),
+      includeIntermediateResults ? intermediates : undefined
+    );
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
+    
+    return {
+      result: hough.result,
+      intermediates,
+      diagnosticInfo,
+      analysis: { hough: hough.analysis },
+      outputs: { overlay: hough.result, accumulator: hough.accumulator }
+    };
+  }
+  
+  // Watershed segmentation has no JavaScript implementation
+  if (transformation.type === 'watershed') {
+    if (!useOpenCV) {
+      throw new Error('Watershed segmentation requires OpenCV');
+    }
+    diagnosticInfo.steps.push({ name: 'watershed', startTime: Date.now() });
+    const watershed = applyWatershed(
+      aligned.image,
+      aligned.markers,
+      getWatershedOptions(transformation),
+      includeIntermediateResults ? intermediates : undefined
+    );
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].success = true;
+    diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+    diagnosticInfo.success = true;
+    diagnosticInfo.completed = true;
+    
+    return {
+      result: watershed.result,
+      intermediates,
+      diagnosticInfo,
+      analysis: { watershed: watershed.analysis }
+    };
+  }
+  
+  let result: ImageData | null = null;
+  if (useOpenCV) {
+    const intermediateCount = intermediates.length;
+    try {
+      diagnosticInfo.steps.push({ name: `opencv_${transformation.type}`, startTime: Date.now() });
+      result = combineImagesWithOpenCV(getOpenCV(), transformation, aligned, includeIntermediateResults ? intermediates : undefined);
+      diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+    } catch (error) {
+      console.warn(`OpenCV ${transformation.type} failed, using JavaScript implementation:`, error);
+      diagnosticInfo.steps[diagnosticInfo.steps.length - 1].error = error instanceof Error ? error.message : String(error);
+      intermediates.length = intermediateCount;
+    }
   }
-};
\ No newline at end of file
+  
+  if (!result) {
+    diagnosticInfo.steps.push({ name: `fallback_${transformation.type}`, startTime: Date.now() });
+    result = combineImagesWithoutOpenCV(transformation, aligned, includeIntermediateResults ? intermediates : undefined);
+    diagnosticInfo.steps[diagnosticInfo.steps.length - 1].endTime = Date.now();
+  }
+  
+  diagnosticInfo.totalTime = Date.now() - diagnosticInfo.startTime;
+  diagnosticInfo.success = true;
+  diagnosticInfo.completed = true;
+  
+  return {
+    result,
+    intermediates,
+    diagnosticInfo
+  };
+};
@@ -1,4 +1,4 @@
-import type { Inspection, InspectionType } from './types';
+import type { Inspection, InspectionType, InputPort } from './types';
 
 // Inspection templates for different types of analysis
 export const inspectionTemplates: Record<InspectionType, Omit<Inspection, 'id' | 'inputNodes'>> = {
@@ -611,5 +611,295 @@ export const inspectionTemplates: Record<InspectionType, Omit<Inspection, 'id' |
       complexity: 'advanced',
       computationalCost: 'high'
     }
+  },
+
+  featureDetection: {
+    type: 'featureDetection',
+    name: 'Feature Detector',
+    description: 'Detect keypoints and show their response map',
+    visualizationType: 'overlay',
+    isRealTime: false,
+    parameters: [
+      {
+        name: 'method',
+        type: 'select',
+        value: 'harris',
+        options: ['harris', 'shiTomasi', 'fast', 'orb'],
+        label: 'Detector',
+        description: 'Keypoint detection method'
+      },
+      {
+        name: 'maxKeypoints',
+        type: 'number',
+        value: 500,
+        min: 10,
+        max: 5000,
+        step: 10,
+        label: 'Max Keypoints',
+        description: 'Keep only the strongest keypoints'
+      },
+      {
+        name: 'qualityLevel',
+        type: 'number',
+        value: 0.01,
+        min: 0.001,
+        max: 0.5,
+        step: 0.001,
+        label: 'Quality Level',
+        description: 'Minimum response as a fraction of the strongest corner',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'harris' || params.method === 'shiTomasi'
+      },
+      {
+        name: 'minDistance',
+        type: 'number',
+        value: 10,
+        min: 0,
+        max: 100,
+        step: 1,
+        label: 'Min Distance',
+        description: 'Minimum distance between corners in pixels',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'shiTomasi'
+      },
+      {
+        name: 'fastThreshold',
+        type: 'number',
+        value: 20,
+        min: 1,
+        max: 100,
+        step: 1,
+        label: 'FAST Threshold',
+        description: 'Intensity difference between the centre and the circle pixels',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'fast' || params.method === 'orb'
+      },
+      {
+        name: 'nonmaxSuppression',
+        type: 'boolean',
+        value: true,
+        label: 'Non-max Suppression',
+        description: 'Keep only the local maxima of the FAST score',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'fast'
+      },
+      {
+        name: 'scaleFactor',
+        type: 'number',
+        value: 1.2,
+        min: 1.05,
+        max: 2,
+        step: 0.05,
+        label: 'Scale Factor',
+        description: 'Ratio between pyramid levels',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'orb'
+      },
+      {
+        name: 'nLevels',
+        type: 'number',
+        value: 8,
+        min: 1,
+        max: 12,
+        step: 1,
+        label: 'Pyramid Levels',
+        description: 'Number of pyramid levels searched',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'orb'
+      },
+      {
+        name: 'showKeypoints',
+        type: 'boolean',
+        value: true,
+        label: 'Show Keypoints',
+        description: 'Draw keypoints with their scale and orientation'
+      },
+      {
+        name: 'showHeatmap',
+        type: 'boolean',
+        value: true,
+        label: 'Show Response Heatmap',
+        description: 'Overlay the detector response map'
+      },
+      {
+        name: 'colormap',
+        type: 'select',
+        value: 'hot',
+        options: ['hot', 'jet', 'cool'],
+        label: 'Color Map',
+        description: 'Color mapping for the response heatmap'
+      },
+      {
+        name: 'blockSize',
+        type: 'number',
+        value: 3,
+        min: 2,
+        max: 15,
+        step: 1,
+        label: 'Block Size',
+        description: 'Neighbourhood of the structure tensor',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'harris' || params.method === 'shiTomasi',
+        advanced: true
+      },
+      {
+        name: 'harrisK',
+        type: 'number',
+        value: 0.04,
+        min: 0.01,
+        max: 0.2,
+        step: 0.01,
+        label: 'Harris k',
+        description: 'Trace weight of the Harris measure',
+        dependsOn: 'method',
+        showIf: (params) => params.method === 'harris' || params.method === 'orb',
+        advanced: true
+      }
+    ],
+    metadata: {
+      category: 'features',
+      complexity: 'advanced',
+      computationalCost: 'high'
+    }
+  },
+  imageQuality: {
+    type: 'imageQuality',
+    name: 'Image Quality',
+    description: 'Compare a test image with a reference (MSE, PSNR, SSIM, MS-SSIM)',
+    visualizationType: 'heatmap',
+    isRealTime: false,
+    parameters: [
+      {
+        name: 'ssimChannel',
+        type: 'select',
+        value: 'luminance',
+        options: ['luminance', 'rgb'],
+        label: 'SSIM Channel',
+        description: 'Compute SSIM on the luminance, or on R, G and B and average'
+      },
+      {
+        name: 'view',
+        type: 'select',
+        value: 'both',
+        options: ['both', 'ssim', 'difference'],
+        label: 'View',
+        description: 'SSIM map, absolute difference heatmap, or both side by side'
+      },
+      {
+        name: 'colormap',
+        type: 'select',
+        value: 'hot',
+        options: ['hot', 'jet', 'gray'],
+        label: 'Difference Colormap',
+        description: 'Color scheme of the difference heatmap',
+        dependsOn: 'view',
+        showIf: (params) => params.view !== 'ssim'
+      },
+      {
+        name: 'normalizeDifference',
+        type: 'boolean',
+        value: true,
+        label: 'Stretch Differences',
+        description: 'Give the largest difference the top color instead of 255, so small errors stay visible',
+        dependsOn: 'view',
+        showIf: (params) => params.view !== 'ssim'
+      },
+      {
+        name: 'windowSigma',
+        type: 'number',
+        value: 1.5,
+        min: 0.5,
+        max: 5,
+        step: 0.1,
+        label: 'Window Sigma',
+        description: 'Standard deviation of the Gaussian SSIM window (1.5 is the standard 11×11 window)',
+        advanced: true
+      }
+    ],
+    metadata: {
+      category: 'quality',
+      complexity: 'intermediate',
+      computationalCost: 'medium'
+    }
+  },
+  lineProfile: {
+    type: 'lineProfile',
+    name: 'Line Profile',
+    description: 'Intensity of each channel along a line or polyline drawn on the image',
+    visualizationType: 'chart',
+    isRealTime: false,
+    parameters: [
+      {
+        name: 'averagingWidth',
+        type: 'number',
+        value: 1,
+        min: 1,
+        max: 51,
+        step: 1,
+        label: 'Averaging Width',
+        description: 'Pixels across the line averaged into each sample, to smooth out noise'
+      },
+      {
+        name: 'channels',
+        type: 'select',
+        value: 'auto',
+        options: ['auto', 'rgb', 'gray', 'all'],
+        label: 'Channels',
+        description: 'Curves to plot; auto shows gray for grayscale images and R, G, B otherwise'
+      },
+      {
+        name: 'showGradient',
+        type: 'boolean',
+        value: true,
+        label: 'Show Gradient',
+        description: 'Overlay the derivative of the gray level along the line'
+      },
+      {
+        name: 'interpolation',
+        type: 'select',
+        value: 'bilinear',
+        options: ['bilinear', 'nearest'],
+        label: 'Interpolation',
+        description: 'How pixels between sample positions are read',
+        advanced: true
+      },
+      {
+        name: 'points',
+        type: 'vector',
+        value: { values: [] },
+        label: 'Line Points',
+        description: 'x, y pairs in image pixels, drawn on the node preview; empty for a horizontal line through the middle',
+        advanced: true
+      }
+    ],
+    metadata: {
+      category: 'profile',
+      complexity: 'basic',
+      computationalCost: 'low'
+    }
   }
-}; 
\ No newline at end of file
+};
+
+// Named input ports for inspections that compare several images
+const multiInputPorts: Partial<Record<InspectionType, InputPort[]>> = {
+  imageQuality: [
+    { id: 'reference', label: 'Reference', description: 'Original image the test image is measured against' },
+    { id: 'test', label: 'Test', description: 'Processed image whose quality is measured' }
+  ]
+};
+
+const defaultInputPorts: InputPort[] = [{ id: 'input', label: 'Input' }];
+
+/**
+ * Get the named input ports of an inspection type
+ */
+export const getInspectionInputPorts = (type: InspectionType): InputPort[] => {
+  return multiInputPorts[type] || defaultInputPorts;
+};
+
+/**
+ * Check whether an inspection type compares several input images
+ */
+export const isMultiInputInspection = (type: InspectionType): boolean => {
+  return !!multiInputPorts[type];
+};
@@ -0,0 +1,11 @@
+import type { ImageProcessingNode } from './types';
+
+/**
+ * Name of a node as shown in viewers and lists
+ */
+export const getNodeLabel = (node?: ImageProcessingNode): string => {
+  if (!node) return 'Missing node';
+  if (node.transformation) return node.transformation.name;
+  if (node.inspection) return node.inspection.name;
+  return node.type === 'input' ? 'Input Image' : 'Output';
+};
@@ -0,0 +1,104 @@
+/**
+ * Seeded noise for the noise transformation. Every random number comes from
+ * one generator seeded by the node, consumed in pixel order, so the same
+ * seed and settings add exactly the same noise every time a project is
+ * loaded. The alpha channel is left untouched.
+ */
+import type { NoiseType } from './types';
+import { createRandom } from './random';
+
+export interface NoiseOptions {
+  type: NoiseType;
+  // Gaussian: standard deviation in grey levels
+  sigma: number;
+  // Salt and pepper: fraction of pixels replaced, and the share of those turned white
+  density: number;
+  saltRatio: number;
+  // Poisson: photon count of a white pixel; fewer photons give more noise
+  photons: number;
+  // Speckle: standard deviation of the multiplicative noise, relative to the pixel value
+  speckleSigma: number;
+  // Same noise in R, G and B (luminance noise) instead of independent noise per channel
+  monochrome: boolean;
+  seed: number;
+}
+
+// Standard normal sample (Box-Muller)
+const gaussian = (random: () => number): number => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Poisson sample: Knuth's method for small means, the normal approximation above
+const poisson = (mean: number, random: () => number): number => {
+  if (mean <= 0) return 0;
+  if (mean > 30) return Math.max(0, Math.round(mean + Math.sqrt(mean) * gaussian(random)));
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+};
+
+/**
+ * Add noise to an image
+ * - Gaussian: value + N(0, sigma²)
+ * - Salt and pepper: whole pixels set to white or black
+ * - Poisson: photon counts drawn around value / 255 · photons
+ * - Speckle: value · (1 + N(0, speckleSigma²))
+ * @returns New ImageData
+ */
+export const addNoise = (imageData: ImageData, options: NoiseOptions): ImageData => {
+  const { data, width, height } = imageData;
+  const output = new Uint8ClampedArray(data);
+  const random = createRandom(options.seed);
+
+  if (options.type === 'saltPepper') {
+    const density = Math.min(1, Math.max(0, options.density));
+    for (let i = 0; i < data.length; i += 4) {
+      if (random() >= density) continue;
+      const value = random() < options.saltRatio ? 255 : 0;
+      output[i] = output[i + 1] = output[i + 2] = value;
+    }
+    return new ImageData(output, width, height);
+  }
+
+  const photons = Math.max(1, options.photons);
+  // Noisy value of one channel, given a standard normal sample for the additive types
+  const applyNoise = (value: number, sample: number): number => {
+    switch (options.type) {
+      case 'poisson':
+        return (poisson((value / 255) * photons, random) / photons) * 255;
+      case 'speckle':
+        return value * (1 + options.speckleSigma * sample);
+      case 'gaussian':
+      default:
+        return value + options.sigma * sample;
+    }
+  };
+  // Poisson noise draws its own samples; the others share one normal sample per channel
+  const needsSample = options.type !== 'poisson';
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (options.monochrome) {
+      // One sample per pixel, applied to every channel
+      const sample = needsSample ? gaussian(random) : 0;
+      if (options.type === 'poisson') {
+        const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        const offset = applyNoise(luminance, 0) - luminance;
+        for (let c = 0; c < 3; c++) output[i + c] = data[i + c] + offset;
+      } else {
+        for (let c = 0; c < 3; c++) output[i + c] = applyNoise(data[i + c], sample);
+      }
+    } else {
+      for (let c = 0; c < 3; c++) {
+        output[i + c] = applyNoise(data[i + c], needsSample ? gaussian(random) : 0);
+      }
+    }
+  }
+
+  return new ImageData(output, width, height);
+};
@@ -0,0 +1,148 @@
+/**
+ * Helpers for the per-object measurements of the contour analysis
+ * transformation: Hu moments, overlay colours, and the columns shared by the
+ * measurements table and its CSV export.
+ */
+import type { ObjectMeasurement } from './types';
+
+// Normalised central moments, as returned by cv.moments
+export interface NormalizedMoments {
+  nu20: number;
+  nu11: number;
+  nu02: number;
+  nu30: number;
+  nu21: number;
+  nu12: number;
+  nu03: number;
+}
+
+/**
+ * The seven Hu invariant moments, computed as cv.HuMoments does (the
+ * OpenCV.js build does not export that function)
+ */
+export const computeHuMoments = (m: NormalizedMoments): number[] => {
+  const t0 = m.nu30 + m.nu12;
+  const t1 = m.nu21 + m.nu03;
+  const q0 = t0 * t0;
+  const q1 = t1 * t1;
+  const n4 = 4 * m.nu11;
+  const s = m.nu20 + m.nu02;
+  const d = m.nu20 - m.nu02;
+  const a = m.nu30 - 3 * m.nu12;
+  const b = 3 * m.nu21 - m.nu03;
+
+  return [
+    s,
+    d * d + n4 * m.nu11,
+    a * a + b * b,
+    q0 + q1,
+    a * t0 * (q0 - 3 * q1) + b * t1 * (3 * q0 - q1),
+    d * (q0 - q1) + n4 * t0 * t1,
+    b * t0 * (q0 - 3 * q1) - a * t1 * (3 * q0 - q1)
+  ];
+};
+
+/**
+ * 4π·area / perimeter²: 1 for a circle, smaller for elongated or ragged shapes
+ */
+export const computeCircularity = (area: number, perimeter: number): number =>
+  perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0;
+
+/**
+ * Distinct colour for a connected-component label; neighbouring labels get
+ * hues far apart (golden angle) so adjacent objects stay distinguishable
+ */
+export const getLabelColor = (label: number): [number, number, number] => {
+  const hue = (label * 137.508) % 360;
+  const chroma = 0.7 * 255;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = 0.2 * 255;
+  const sector = Math.floor(hue / 60);
+  const rgb: [number, number, number][] = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x]
+  ];
+  const [r, g, b] = rgb[sector];
+  return [Math.round(r + m), Math.round(g + m), Math.round(b + m)];
+};
+
+export interface MeasurementColumn {
+  key: string;
+  label: string;
+  // Decimal places shown in the table; the CSV keeps full precision
+  digits: number;
+  value: (object: ObjectMeasurement) => number;
+}
+
+// Columns of the measurements table and the CSV export, in display order
+export const MEASUREMENT_COLUMNS: MeasurementColumn[] = [
+  { key: 'id', label: 'ID', digits: 0, value: object => object.id },
+  { key: 'area', label: 'Area', digits: 1, value: object => object.area },
+  { key: 'pixelArea', label: 'Pixels', digits: 0, value: object => object.pixelArea },
+  { key: 'perimeter', label: 'Perimeter', digits: 1, value: object => object.perimeter },
+  { key: 'circularity', label: 'Circularity', digits: 3, value: object => object.circularity },
+  { key: 'aspectRatio', label: 'Aspect ratio', digits: 3, value: object => object.aspectRatio },
+  { key: 'centroidX', label: 'Centroid X', digits: 1, value: object => object.centroid.x },
+  { key: 'centroidY', label: 'Centroid Y', digits: 1, value: object => object.centroid.y },
+  ...[0, 1, 2, 3, 4, 5, 6].map(index => ({
+    key: `hu${index + 1}`,
+    label: `Hu ${index + 1}`,
+    digits: 4,
+    value: (object: ObjectMeasurement) => object.huMoments[index]
+  }))
+];
+
+/**
+ * Sort objects by one measurement column
+ * @returns A new array; the input is left unchanged
+ */
+export const sortMeasurements = (
+  objects: ObjectMeasurement[],
+  columnKey: string,
+  direction: 'asc' | 'desc'
+): ObjectMeasurement[] => {
+  const column = MEASUREMENT_COLUMNS.find(candidate => candidate.key === columnKey) || MEASUREMENT_COLUMNS[0];
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...objects].sort((a, b) => sign * (column.value(a) - column.value(b)));
+};
+
+/**
+ * Format a measurement value for the table; Hu moments span many orders of
+ * magnitude, so tiny values are shown in exponent notation
+ */
+export const formatMeasurement = (value: number, digits: number): string => {
+  if (digits > 3 && value !== 0 && Math.abs(value) < 10 ** -digits) {
+    return value.toExponential(2);
+  }
+  return value.toFixed(digits);
+};
+
+/**
+ * CSV text of the measurements, one row per object plus a header row,
+ * including the bounding box and whether the contour outlines a hole
+ */
+export const measurementsToCsv = (objects: ObjectMeasurement[]): string => {
+  const header = [
+    ...MEASUREMENT_COLUMNS.map(column => column.label),
+    'Label',
+    'Box X',
+    'Box Y',
+    'Box width',
+    'Box height',
+    'Hole'
+  ];
+  const rows = objects.map(object => [
+    ...MEASUREMENT_COLUMNS.map(column => String(column.value(object))),
+    String(object.label),
+    String(object.boundingBox.x),
+    String(object.boundingBox.y),
+    String(object.boundingBox.width),
+    String(object.boundingBox.height),
+    object.isHole ? 'yes' : 'no'
+  ]);
+  return [header, ...rows].map(row => row.join(',')).join('\n');
+};
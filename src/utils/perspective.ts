@@ -0,0 +1,164 @@
+/**
+ * Perspective (homography) helpers for the perspective warp transformation.
+ * The pure JavaScript warp is used when OpenCV is unavailable; the corner
+ * helpers are shared by the warp and the on-preview corner editor.
+ */
+import type { PointValue, QuadCorners } from './types';
+
+export type QuadCornerName = keyof QuadCorners;
+
+// Clockwise from the top-left corner, the order expected by getPerspectiveTransform
+export const QUAD_CORNER_NAMES: QuadCornerName[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+
+const distance = (a: PointValue, b: PointValue): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Assign four unordered points to the quad corners: top-left has the
+ * smallest x + y, bottom-right the largest, top-right the largest x - y and
+ * bottom-left the smallest
+ */
+export const orderQuadCorners = (points: PointValue[]): QuadCorners => {
+  if (points.length !== 4) {
+    throw new Error(`A quadrilateral needs 4 corners, got ${points.length}`);
+  }
+
+  const bySum = [...points].sort((a, b) => (a.x + a.y) - (b.x + b.y));
+  const byDifference = [...points].sort((a, b) => (a.x - a.y) - (b.x - b.y));
+
+  return {
+    topLeft: bySum[0],
+    topRight: byDifference[3],
+    bottomRight: bySum[3],
+    bottomLeft: byDifference[0]
+  };
+};
+
+/**
+ * Output size that keeps the longer of each pair of opposite edges
+ */
+export const getQuadOutputSize = (quad: QuadCorners): { width: number; height: number } => ({
+  width: Math.max(1, Math.round(Math.max(
+    distance(quad.topLeft, quad.topRight),
+    distance(quad.bottomLeft, quad.bottomRight)
+  ))),
+  height: Math.max(1, Math.round(Math.max(
+    distance(quad.topLeft, quad.bottomLeft),
+    distance(quad.topRight, quad.bottomRight)
+  )))
+});
+
+/**
+ * Homography mapping four source points onto four destination points
+ * (the same matrix as cv.getPerspectiveTransform)
+ * @returns Row-major 3×3 matrix with h33 = 1
+ */
+export const computeHomography = (source: PointValue[], destination: PointValue[]): number[] => {
+  // 8 equations in h11..h32, solved by Gaussian elimination with partial pivoting
+  const system: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = source[i];
+    const { x: u, y: v } = destination[i];
+    system.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    system.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  }
+
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(system[row][column]) > Math.abs(system[pivot][column])) pivot = row;
+    }
+    if (Math.abs(system[pivot][column]) < 1e-10) {
+      throw new Error('Corner points are degenerate (three or more are collinear)');
+    }
+    [system[column], system[pivot]] = [system[pivot], system[column]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = system[row][column] / system[column][column];
+      for (let k = column; k < 9; k++) {
+        system[row][k] -= factor * system[column][k];
+      }
+    }
+  }
+
+  const h = system.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+};
+
+/**
+ * Inverse of a 3×3 matrix (row-major)
+ */
+export const invert3x3 = (m: number[]): number[] => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const determinant = a * A + b * B + c * C;
+  if (Math.abs(determinant) < 1e-12) {
+    throw new Error('Perspective matrix is not invertible');
+  }
+
+  return [
+    A / determinant, -(b * i - c * h) / determinant, (b * f - c * e) / determinant,
+    B / determinant, (a * i - c * g) / determinant, -(a * f - c * d) / determinant,
+    C / determinant, -(a * h - b * g) / determinant, (a * e - b * d) / determinant
+  ];
+};
+
+/**
+ * Warp an image with a homography, sampling the source at the inverse-mapped
+ * position of every output pixel. Pixels mapping outside the source are
+ * opaque black (constant border, as in the OpenCV path).
+ * @param matrix Row-major source -> destination homography
+ */
+export const warpPerspectiveImageData = (
+  imageData: ImageData,
+  matrix: number[],
+  width: number,
+  height: number,
+  interpolation: 'nearest' | 'linear' = 'linear'
+): ImageData => {
+  const inverse = invert3x3(matrix);
+  const { data, width: srcWidth, height: srcHeight } = imageData;
+  const output = new Uint8ClampedArray(width * height * 4);
+  for (let i = 3; i < output.length; i += 4) output[i] = 255;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = inverse[6] * x + inverse[7] * y + inverse[8];
+      if (Math.abs(w) < 1e-12) continue;
+      const sx = (inverse[0] * x + inverse[1] * y + inverse[2]) / w;
+      const sy = (inverse[3] * x + inverse[4] * y + inverse[5]) / w;
+      const out = (y * width + x) * 4;
+
+      if (interpolation === 'nearest') {
+        const nx = Math.round(sx);
+        const ny = Math.round(sy);
+        if (nx < 0 || ny < 0 || nx >= srcWidth || ny >= srcHeight) continue;
+        const offset = (ny * srcWidth + nx) * 4;
+        for (let c = 0; c < 4; c++) output[out + c] = data[offset + c];
+        continue;
+      }
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      if (x0 < -1 || y0 < -1 || x0 >= srcWidth || y0 >= srcHeight) continue;
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      // Neighbours outside the image contribute the constant (zero) border
+      const sample = (px: number, py: number, c: number) =>
+        px < 0 || py < 0 || px >= srcWidth || py >= srcHeight
+          ? (c === 3 ? 255 : 0)
+          : data[(py * srcWidth + px) * 4 + c];
+
+      for (let c = 0; c < 4; c++) {
+        const top = sample(x0, y0, c) * (1 - fx) + sample(x0 + 1, y0, c) * fx;
+        const bottom = sample(x0, y0 + 1, c) * (1 - fx) + sample(x0 + 1, y0 + 1, c) * fx;
+        output[out + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  return new ImageData(output, width, height);
+};
@@ -0,0 +1,73 @@
+/**
+ * Pixel reads for the pixel inspector. Result canvases are never drawn on
+ * after a run (a new run makes new canvases), so their pixels are read once
+ * and kept for as long as the canvas is.
+ */
+export interface PixelValue {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+  // Luma of the RGB values (BT.601 weights)
+  gray: number;
+}
+
+const pixelCache = new WeakMap<HTMLCanvasElement, ImageData>();
+
+/**
+ * Pixels of a canvas, read on first use
+ */
+export const getCanvasPixels = (canvas: HTMLCanvasElement): ImageData | null => {
+  const cached = pixelCache.get(canvas);
+  if (cached) return cached;
+  if (canvas.width === 0 || canvas.height === 0) return null;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  pixelCache.set(canvas, pixels);
+  return pixels;
+};
+
+/**
+ * Value of one pixel, or null outside the image
+ */
+export const samplePixel = (canvas: HTMLCanvasElement, x: number, y: number): PixelValue | null => {
+  if (x < 0 || y < 0 || x >= canvas.width || y >= canvas.height) return null;
+  const pixels = getCanvasPixels(canvas);
+  if (!pixels) return null;
+
+  const index = (y * pixels.width + x) * 4;
+  const [r, g, b, a] = pixels.data.slice(index, index + 4);
+  return { r, g, b, a, gray: Math.round(0.299 * r + 0.587 * g + 0.114 * b) };
+};
+
+/**
+ * Draw the neighbourhood of (x, y) magnified, one square of cellSize per pixel,
+ * with the top-left corner at (left, top). Pixels outside the image are left out.
+ */
+export const drawMagnifiedNeighbourhood = (
+  ctx: CanvasRenderingContext2D,
+  canvas: HTMLCanvasElement,
+  x: number,
+  y: number,
+  radius: number,
+  cellSize: number,
+  left: number,
+  top: number
+): void => {
+  const pixels = getCanvasPixels(canvas);
+  if (!pixels) return;
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const px = x + dx;
+      const py = y + dy;
+      if (px < 0 || py < 0 || px >= pixels.width || py >= pixels.height) continue;
+      const index = (py * pixels.width + px) * 4;
+      const data = pixels.data;
+      ctx.fillStyle = `rgba(${data[index]}, ${data[index + 1]}, ${data[index + 2]}, ${data[index + 3] / 255})`;
+      ctx.fillRect(left + (dx + radius) * cellSize, top + (dy + radius) * cellSize, cellSize, cellSize);
+    }
+  }
+};
@@ -0,0 +1,18 @@
+/**
+ * Seeded random numbers shared by everything that must be reproducible from
+ * a stored seed (colour clustering, noise, test patterns).
+ */
+
+/**
+ * Mulberry32 generator: uniform numbers in [0, 1), fully determined by the seed
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
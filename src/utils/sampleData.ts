@@ -93,6 +93,18 @@ const standardParameters = {
     max: 255,
     step: 1
   },
+  thresholdMethod: {
+    name: 'method',
+    type: 'select' as const,
+    value: 'manual',
+    options: ['manual', 'otsu', 'triangle']
+  },
+  thresholdType: {
+    name: 'thresholdType',
+    type: 'select' as const,
+    value: 'binary',
+    options: ['binary', 'binaryInverse', 'truncate', 'toZero', 'toZeroInverse']
+  },
   cannyThreshold1: {
     name: 'threshold1',
     type: 'number' as const,
@@ -458,7 +470,11 @@ export const sampleLessons: Lesson[] = [
     category: 'transformations',
     difficulty: 'advanced',
     tags: ['threshold', 'segmentation', 'adaptive', 'otsu'],
-    pipeline: createSingleTransformPipeline('threshold', [standardParameters.threshold])
+    pipeline: createSingleTransformPipeline('threshold', [
+      { ...standardParameters.thresholdMethod, value: 'otsu' },
+      standardParameters.threshold,
+      standardParameters.thresholdType
+    ])
   },
   {
     id: 'blur-techniques',
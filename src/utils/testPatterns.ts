@@ -0,0 +1,282 @@
+/**
+ * Synthetic test images for the test pattern generator. Every pattern is a
+ * function of its options only (random ones draw from a seeded generator),
+ * so a project stores the settings and the pixels are regenerated on load.
+ */
+import type { TestPatternType } from './types';
+import { createRandom } from './random';
+
+export interface TestPatternOptions {
+  pattern: TestPatternType;
+  width: number;
+  height: number;
+  // Grey levels of the dark and bright parts of the pattern
+  low: number;
+  high: number;
+  // Checkerboard: side of one square in pixels
+  cellSize: number;
+  // Linear gradient and step edge: direction from dark to bright, in degrees (0 = left to right, clockwise)
+  angle: number;
+  // Zone plate: frequency reached at the nearest image edge, in cycles per pixel (0.5 is the Nyquist limit)
+  maxFrequency: number;
+  // Siemens star: number of bright/dark spoke pairs
+  spokes: number;
+  // Random shapes: number of ellipses, rectangles and triangles
+  shapeCount: number;
+  // Uniform noise: same value in R, G and B instead of independent channels
+  monochrome: boolean;
+  // Average 4×4 samples per pixel, so edges get partial coverage instead of jagged steps
+  antialias: boolean;
+  seed: number;
+}
+
+// Largest side generated, to keep a typo from allocating gigabytes
+export const MAX_TEST_PATTERN_SIZE = 4096;
+
+// Samples per axis when anti-aliasing
+const SUPERSAMPLING = 4;
+
+// Side of the grid cells used to look up the shapes near a point
+const SHAPE_GRID_SIZE = 32;
+
+// Colour of the pattern at a point, written into out as RGB in [0, 255]
+type Sampler = (x: number, y: number, out: number[]) => void;
+
+interface Shape {
+  kind: 'ellipse' | 'rectangle' | 'triangle';
+  cx: number;
+  cy: number;
+  // Bounding radius around the centre, for a quick rejection
+  radius: number;
+  // Ellipse radii or rectangle half sizes, along the rotated axes
+  sizeX: number;
+  sizeY: number;
+  cos: number;
+  sin: number;
+  // Triangle corners
+  points: [number, number][];
+  color: [number, number, number];
+}
+
+// Seeded shapes, drawn in order so later ones cover earlier ones
+const createShapes = (options: TestPatternOptions): Shape[] => {
+  const random = createRandom(options.seed);
+  const shortSide = Math.min(options.width, options.height);
+  const shapes: Shape[] = [];
+  const kinds: Shape['kind'][] = ['ellipse', 'rectangle', 'triangle'];
+
+  for (let i = 0; i < Math.max(0, Math.round(options.shapeCount)); i++) {
+    const kind = kinds[Math.floor(random() * kinds.length)];
+    const cx = random() * options.width;
+    const cy = random() * options.height;
+    const sizeX = shortSide * (0.04 + random() * 0.16);
+    const sizeY = shortSide * (0.04 + random() * 0.16);
+    const rotation = random() * Math.PI;
+    const color: [number, number, number] = [
+      Math.round(random() * 255),
+      Math.round(random() * 255),
+      Math.round(random() * 255)
+    ];
+
+    const points: [number, number][] = [];
+    if (kind === 'triangle') {
+      // Three corners at increasing angles around the centre
+      let corner = rotation;
+      for (let k = 0; k < 3; k++) {
+        const distance = Math.max(sizeX, sizeY) * (0.6 + random() * 0.4);
+        points.push([cx + Math.cos(corner) * distance, cy + Math.sin(corner) * distance]);
+        corner += (2 * Math.PI) / 3 * (0.6 + random() * 0.8);
+      }
+    }
+
+    shapes.push({
+      kind,
+      cx,
+      cy,
+      radius: Math.hypot(sizeX, sizeY),
+      sizeX,
+      sizeY,
+      cos: Math.cos(rotation),
+      sin: Math.sin(rotation),
+      points,
+      color
+    });
+  }
+
+  return shapes;
+};
+
+const isInsideShape = (shape: Shape, x: number, y: number): boolean => {
+  const dx = x - shape.cx;
+  const dy = y - shape.cy;
+  if (Math.abs(dx) > shape.radius || Math.abs(dy) > shape.radius) return false;
+
+  if (shape.kind === 'triangle') {
+    const [[x1, y1], [x2, y2], [x3, y3]] = shape.points;
+    const d1 = (x - x2) * (y1 - y2) - (x1 - x2) * (y - y2);
+    const d2 = (x - x3) * (y2 - y3) - (x2 - x3) * (y - y3);
+    const d3 = (x - x1) * (y3 - y1) - (x3 - x1) * (y - y1);
+    const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+    const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+    return !(hasNegative && hasPositive);
+  }
+
+  // Coordinates along the shape's own axes
+  const u = dx * shape.cos + dy * shape.sin;
+  const v = -dx * shape.sin + dy * shape.cos;
+  if (shape.kind === 'ellipse') {
+    return (u / shape.sizeX) ** 2 + (v / shape.sizeY) ** 2 <= 1;
+  }
+  return Math.abs(u) <= shape.sizeX && Math.abs(v) <= shape.sizeY;
+};
+
+// Sampler of the deterministic patterns; coordinates are in pixels, (0, 0) the top-left corner
+const createSampler = (options: TestPatternOptions): Sampler => {
+  const { width, height, low, high } = options;
+  const cx = width / 2;
+  const cy = height / 2;
+  // Grey level at position t in [0, 1] between the dark and bright levels
+  const grey = (t: number, out: number[]) => {
+    out[0] = out[1] = out[2] = low + (high - low) * t;
+  };
+  const radians = (options.angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  switch (options.pattern) {
+    case 'checkerboard': {
+      const cell = Math.max(1, options.cellSize);
+      // The top-left square is bright
+      return (x, y, out) => grey((Math.floor(x / cell) + Math.floor(y / cell)) % 2 === 0 ? 1 : 0, out);
+    }
+    case 'linearGradient': {
+      // Reaches the dark and bright levels exactly at the furthest corners
+      const extent = Math.abs(cx * cos) + Math.abs(cy * sin) || 1;
+      return (x, y, out) => grey(Math.min(1, Math.max(0, ((x - cx) * cos + (y - cy) * sin) / extent / 2 + 0.5)), out);
+    }
+    case 'radialGradient': {
+      // Bright in the centre, dark at the corners
+      const extent = Math.hypot(cx, cy) || 1;
+      return (x, y, out) => grey(Math.max(0, 1 - Math.hypot(x - cx, y - cy) / extent), out);
+    }
+    case 'zonePlate': {
+      // Phase π·k·r², so the local frequency k·r grows linearly with the radius
+      const k = options.maxFrequency / (Math.min(cx, cy) || 1);
+      return (x, y, out) => {
+        const r2 = (x - cx) ** 2 + (y - cy) ** 2;
+        grey(0.5 + 0.5 * Math.cos(Math.PI * k * r2), out);
+      };
+    }
+    case 'siemensStar': {
+      // Spokes inside a circle filling the shorter side, mid grey around it
+      const radius = Math.min(cx, cy) * 0.95;
+      const spokes = Math.max(1, Math.round(options.spokes));
+      return (x, y, out) => {
+        if (Math.hypot(x - cx, y - cy) > radius) {
+          grey(0.5, out);
+          return;
+        }
+        grey(Math.sin(spokes * Math.atan2(y - cy, x - cx)) >= 0 ? 1 : 0, out);
+      };
+    }
+    case 'randomShapes': {
+      const shapes = createShapes(options);
+      // Each grid cell lists the shapes whose bounds overlap it, so a sample only tests nearby shapes
+      const columns = Math.ceil(width / SHAPE_GRID_SIZE);
+      const rows = Math.ceil(height / SHAPE_GRID_SIZE);
+      const grid: Shape[][] = Array.from({ length: columns * rows }, () => []);
+      shapes.forEach(shape => {
+        const left = Math.max(0, Math.floor((shape.cx - shape.radius) / SHAPE_GRID_SIZE));
+        const right = Math.min(columns - 1, Math.floor((shape.cx + shape.radius) / SHAPE_GRID_SIZE));
+        const top = Math.max(0, Math.floor((shape.cy - shape.radius) / SHAPE_GRID_SIZE));
+        const bottom = Math.min(rows - 1, Math.floor((shape.cy + shape.radius) / SHAPE_GRID_SIZE));
+        for (let row = top; row <= bottom; row++) {
+          for (let column = left; column <= right; column++) {
+            grid[row * columns + column].push(shape);
+          }
+        }
+      });
+      return (x, y, out) => {
+        const column = Math.min(columns - 1, Math.floor(x / SHAPE_GRID_SIZE));
+        const row = Math.min(rows - 1, Math.floor(y / SHAPE_GRID_SIZE));
+        const nearby = grid[row * columns + column];
+        for (let i = nearby.length - 1; i >= 0; i--) {
+          if (isInsideShape(nearby[i], x, y)) {
+            [out[0], out[1], out[2]] = nearby[i].color;
+            return;
+          }
+        }
+        grey(0, out);
+      };
+    }
+    case 'stepEdge':
+    default:
+      // One straight edge through the centre; the angle gives its normal
+      return (x, y, out) => grey((x - cx) * cos + (y - cy) * sin >= 0 ? 1 : 0, out);
+  }
+};
+
+/**
+ * Generate a test pattern
+ * - Checkerboard: squares of cellSize pixels
+ * - Linear gradient: ramp along the angle; radial gradient: ramp from the centre out
+ * - Zone plate: concentric rings whose frequency rises to maxFrequency at the edge
+ * - Siemens star: spokes whose frequency rises towards the centre
+ * - Random shapes: seeded coloured ellipses, rectangles and triangles
+ * - Uniform noise: seeded values spread evenly between the two levels
+ * - Step edge: a straight edge through the centre, at an angle
+ * @returns New opaque ImageData
+ */
+export const generateTestPattern = (options: TestPatternOptions): ImageData => {
+  const width = Math.round(options.width);
+  const height = Math.round(options.height);
+  if (!(width >= 1 && height >= 1 && width <= MAX_TEST_PATTERN_SIZE && height <= MAX_TEST_PATTERN_SIZE)) {
+    throw new Error(`Test pattern size must be between 1 and ${MAX_TEST_PATTERN_SIZE} pixels, got ${options.width}×${options.height}`);
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  // Noise has no continuous form to sample; values are drawn in pixel order
+  if (options.pattern === 'uniformNoise') {
+    const random = createRandom(options.seed);
+    const range = options.high - options.low;
+    for (let i = 0; i < data.length; i += 4) {
+      if (options.monochrome) {
+        data[i] = data[i + 1] = data[i + 2] = options.low + random() * range;
+      } else {
+        for (let c = 0; c < 3; c++) data[i + c] = options.low + random() * range;
+      }
+      data[i + 3] = 255;
+    }
+    return new ImageData(data, width, height);
+  }
+
+  const sample = createSampler({ ...options, width, height });
+  const samples = options.antialias ? SUPERSAMPLING : 1;
+  const sampleCount = samples * samples;
+  const color = [0, 0, 0];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      // Sample points spread evenly inside the pixel (its centre without anti-aliasing)
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          sample(x + (sx + 0.5) / samples, y + (sy + 0.5) / samples, color);
+          r += color[0];
+          g += color[1];
+          b += color[2];
+        }
+      }
+      const offset = (y * width + x) * 4;
+      data[offset] = r / sampleCount;
+      data[offset + 1] = g / sampleCount;
+      data[offset + 2] = b / sampleCount;
+      data[offset + 3] = 255;
+    }
+  }
+
+  return new ImageData(data, width, height);
+};
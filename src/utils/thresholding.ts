@@ -0,0 +1,188 @@
+/**
+ * Pure JavaScript thresholding helpers.
+ * The automatic threshold selection follows OpenCV's Otsu and triangle
+ * implementations so the reported value matches what cv.threshold would
+ * pick; the local threshold surface is the fallback for adaptive
+ * thresholding when OpenCV is unavailable.
+ */
+import type { ThresholdType } from './types';
+
+/**
+ * Otsu's method: the threshold that maximizes the between-class variance
+ * @param histogram 256-bin grayscale histogram
+ */
+export const computeOtsuThreshold = (histogram: ArrayLike<number>): number => {
+  let total = 0;
+  let mean = 0;
+  for (let i = 0; i < 256; i++) {
+    total += histogram[i];
+    mean += i * histogram[i];
+  }
+  if (total === 0) return 0;
+  mean /= total;
+
+  let q1 = 0;
+  let mu1 = 0;
+  let maxSigma = 0;
+  let threshold = 0;
+
+  for (let i = 0; i < 256; i++) {
+    const p = histogram[i] / total;
+    mu1 *= q1;
+    q1 += p;
+    const q2 = 1 - q1;
+
+    if (Math.min(q1, q2) < Number.EPSILON || Math.max(q1, q2) > 1 - Number.EPSILON) continue;
+
+    mu1 = (mu1 + i * p) / q1;
+    const mu2 = (mean - q1 * mu1) / q2;
+    const sigma = q1 * q2 * (mu1 - mu2) * (mu1 - mu2);
+    if (sigma > maxSigma) {
+      maxSigma = sigma;
+      threshold = i;
+    }
+  }
+
+  return threshold;
+};
+
+/**
+ * Triangle method: the value furthest from the line joining the histogram
+ * peak to the far end of its longer tail. Suited to unimodal histograms,
+ * e.g. a few dark objects on a large bright background.
+ * @param histogram 256-bin grayscale histogram
+ */
+export const computeTriangleThreshold = (histogram: ArrayLike<number>): number => {
+  const h = Array.from({ length: 256 }, (_, i) => histogram[i]);
+
+  let leftBound = 0;
+  let rightBound = 0;
+  for (let i = 0; i < 256; i++) {
+    if (h[i] > 0) {
+      leftBound = i;
+      break;
+    }
+  }
+  if (leftBound > 0) leftBound--;
+
+  for (let i = 255; i > 0; i--) {
+    if (h[i] > 0) {
+      rightBound = i;
+      break;
+    }
+  }
+  if (rightBound < 255) rightBound++;
+
+  let peak = 0;
+  let peakIndex = 0;
+  for (let i = 0; i < 256; i++) {
+    if (h[i] > peak) {
+      peak = h[i];
+      peakIndex = i;
+    }
+  }
+
+  // Always walk the longer tail from the left
+  let flipped = false;
+  if (peakIndex - leftBound < rightBound - peakIndex) {
+    flipped = true;
+    h.reverse();
+    leftBound = 255 - rightBound;
+    peakIndex = 255 - peakIndex;
+  }
+
+  let threshold = leftBound;
+  const a = peak;
+  const b = leftBound - peakIndex;
+  let maxDistance = 0;
+  for (let i = leftBound + 1; i <= peakIndex; i++) {
+    const distance = a * i + b * h[i];
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      threshold = i;
+    }
+  }
+  threshold--;
+
+  return flipped ? 255 - threshold : threshold;
+};
+
+/**
+ * Apply a threshold type to a single value
+ */
+export const applyThresholdType = (
+  value: number,
+  threshold: number,
+  maxValue: number,
+  type: ThresholdType
+): number => {
+  const above = value > threshold;
+  switch (type) {
+    case 'binaryInverse':
+      return above ? 0 : maxValue;
+    case 'truncate':
+      return above ? threshold : value;
+    case 'toZero':
+      return above ? value : 0;
+    case 'toZeroInverse':
+      return above ? 0 : value;
+    default:
+      return above ? maxValue : 0;
+  }
+};
+
+/**
+ * Local mean or Gaussian-weighted mean of every pixel's blockSize × blockSize
+ * neighbourhood (border replicate), rounded to 8 bits like cv.adaptiveThreshold
+ * @param plane Grayscale values, row-major
+ * @param blockSize Odd neighbourhood size
+ */
+export const computeLocalMeans = (
+  plane: Uint8Array,
+  width: number,
+  height: number,
+  blockSize: number,
+  method: 'mean' | 'gaussian'
+): Uint8Array => {
+  const radius = (blockSize - 1) / 2;
+  const weights = new Float64Array(blockSize);
+
+  if (method === 'gaussian') {
+    // Same sigma as cv.getGaussianKernel(blockSize, 0)
+    const sigma = 0.3 * ((blockSize - 1) * 0.5 - 1) + 0.8;
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) {
+      weights[k + radius] = Math.exp(-(k * k) / (2 * sigma * sigma));
+      sum += weights[k + radius];
+    }
+    for (let k = 0; k < blockSize; k++) weights[k] /= sum;
+  } else {
+    weights.fill(1 / blockSize);
+  }
+
+  const clamp = (value: number, size: number) => value < 0 ? 0 : value >= size ? size - 1 : value;
+  const temp = new Float64Array(plane.length);
+  const output = new Uint8Array(plane.length);
+
+  // Separable: horizontal pass, then vertical pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += plane[y * width + clamp(x + k, width)] * weights[k + radius];
+      }
+      temp[y * width + x] = sum;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += temp[clamp(y + k, height) * width + x] * weights[k + radius];
+      }
+      output[y * width + x] = Math.round(sum);
+    }
+  }
+
+  return output;
+};
@@ -20,6 +20,26 @@ export type TransformationType =
   | 'flip'
   | 'crop'
   | 'perspective'
+  | 'frequencyFilter'
+  | 'contours'
+  | 'distanceTransform'
+  | 'colorConvert'
+  | 'splitChannels'
+  | 'noise'
+  // Generators (no inputs)
+  | 'testPattern'
+  // Multi-input operations
+  | 'add'
+  | 'subtract'
+  | 'absDiff'
+  | 'blend'
+  | 'bitwiseAnd'
+  | 'bitwiseOr'
+  | 'bitwiseXor'
+  | 'maskedCopy'
+  | 'mergeChannels'
+  | 'hough'
+  | 'watershed'
   | 'custom';
 
 // New inspection node types
@@ -33,7 +53,10 @@ export type InspectionType =
   | 'edgeDensity'         // Analyze edge density in regions
   | 'colorDistribution'   // Advanced color distribution analysis
   | 'textureAnalysis'     // Texture analysis using various descriptors
-  | 'fourierTransform';   // Frequency domain analysis using FFT
+  | 'fourierTransform'    // Frequency domain analysis using FFT
+  | 'featureDetection'    // Keypoint detection (Harris, Shi-Tomasi, FAST, ORB)
+  | 'imageQuality'        // Full-reference quality of a test image (MSE, PSNR, SSIM, MS-SSIM)
+  | 'lineProfile';        // Intensity along a line or polyline drawn on the image
 
 export type ParameterType = 
   | 'number' 
@@ -138,6 +161,24 @@ export interface Transformation {
   };
 }
 
+// Named input port (target handle) of a transformation node
+export interface InputPort {
+  id: string;
+  label: string;
+  description?: string;
+  optional?: boolean;
+}
+
+// Named output port (source handle) of a transformation node with several results
+export interface OutputPort {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+// How multi-input nodes reconcile inputs of different sizes
+export type SizeMismatchPolicy = 'resize' | 'crop' | 'error';
+
 export interface ImageProcessingNode {
   id: string;
   type: 'input' | 'transformation' | 'output' | 'inspection';
@@ -150,6 +191,8 @@ export interface ImageProcessingEdge {
   id: string;
   source: string;
   target: string;
+  sourceHandle?: string; // Output port on the source node (multi-output nodes)
+  targetHandle?: string; // Input port on the target node (multi-input nodes)
 }
 
 export interface Pipeline {
@@ -184,7 +227,7 @@ export interface SavedProject {
 export interface SerializedPipelineState {
   nodes: SerializedNode[];
   edges: SerializedEdge[];
-  inputImages: Record<string, string>; // nodeId -> base64 encoded image
+  inputImages: Record<string, string>; // nodeId -> image reference (data URL or bundle path; empty when images are stored as blobs)
 }
 
 export interface SerializedNode {
@@ -200,6 +243,8 @@ export interface SerializedEdge {
   id: string;
   source: string;
   target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
 }
 
 // Histogram-specific data structures
@@ -215,6 +260,155 @@ export interface HistogramData {
   height: number;
 }
 
+// Histogram transformation methods: global equalization, CLAHE, or matching a reference
+export type HistogramMethod = 'global' | 'adaptive' | 'match';
+
+// Whether histogram operations act on luminance only or on each RGB channel
+export type HistogramChannelMode = 'luminance' | 'perChannel';
+
+// Histograms around a histogram transformation, for before/after comparison
+export interface HistogramTransformAnalysis {
+  method: HistogramMethod;
+  mode: HistogramChannelMode;
+  before: HistogramData;
+  after: HistogramData;
+  reference?: HistogramData;
+}
+
+// How a thresholded pixel is written (OpenCV THRESH_BINARY, THRESH_BINARY_INV, ...)
+export type ThresholdType = 'binary' | 'binaryInverse' | 'truncate' | 'toZero' | 'toZeroInverse';
+
+// How the global threshold value is chosen
+export type ThresholdSelection = 'manual' | 'otsu' | 'triangle';
+
+// The global threshold a threshold transformation applied
+export interface ThresholdAnalysis {
+  selection: ThresholdSelection;
+  type: ThresholdType;
+  value: number;
+}
+
+// Corners of a quadrilateral in image pixel coordinates
+export interface QuadCorners {
+  topLeft: PointValue;
+  topRight: PointValue;
+  bottomRight: PointValue;
+  bottomLeft: PointValue;
+}
+
+// How a perspective warp gets its source quadrilateral
+export type PerspectiveMode = 'points' | 'autoDocument' | 'matrix';
+
+// The source quadrilateral and output size a perspective warp used
+export interface PerspectiveAnalysis {
+  mode: PerspectiveMode;
+  // Not set in matrix mode
+  corners?: QuadCorners;
+  sourceWidth: number;
+  sourceHeight: number;
+  outputWidth: number;
+  outputHeight: number;
+}
+
+// Which contours contour analysis keeps: outer outlines only, or holes as well
+export type ContourRetrieval = 'external' | 'all';
+
+// Measurements of one contour found by contour analysis, in image pixels
+export interface ObjectMeasurement {
+  // 1-based, in the order OpenCV returned the contours
+  id: number;
+  // Connected-component label of the pixels the contour runs along
+  label: number;
+  // Area enclosed by the contour
+  area: number;
+  // Pixels in the connected component
+  pixelArea: number;
+  perimeter: number;
+  // 4π·area / perimeter², 1 for a circle
+  circularity: number;
+  // Bounding box width / height
+  aspectRatio: number;
+  centroid: PointValue;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  // The seven Hu invariant moments
+  huMoments: number[];
+  // Whether the contour is the outline of a hole
+  isHole: boolean;
+}
+
+// Objects found by contour analysis of a binary image
+export interface ContourAnalysis {
+  retrieval: ContourRetrieval;
+  // Foreground connected components, background excluded
+  componentCount: number;
+  objects: ObjectMeasurement[];
+}
+
+// Hough transform variants: cv.HoughLines, cv.HoughLinesP or cv.HoughCircles
+export type HoughMode = 'standard' | 'probabilistic' | 'circles';
+
+// A detected line in normal form (x·cos θ + y·sin θ = ρ) and where it is drawn
+export interface HoughLine {
+  rho: number;
+  // Radians, in [0, π)
+  theta: number;
+  // Segment end points (probabilistic), or where the line crosses the image border (standard)
+  start: PointValue;
+  end: PointValue;
+}
+
+export interface HoughCircle {
+  center: PointValue;
+  radius: number;
+}
+
+// Primitives found by a Hough detection
+export interface HoughAnalysis {
+  mode: HoughMode;
+  lines: HoughLine[];
+  circles: HoughCircle[];
+  // Detections beyond the maximum count are not drawn or listed
+  truncated: boolean;
+}
+
+// Distance metrics of cv.distanceTransform (chessboard is DIST_C)
+export type DistanceMetric = 'L1' | 'L2' | 'chessboard';
+
+// Regions found by a marker-based watershed segmentation
+export interface WatershedAnalysis {
+  // Seeds taken from the markers input, or from distance-transform peaks
+  markerSource: 'input' | 'auto';
+  // Seeded regions, not counting the background
+  regionCount: number;
+}
+
+// Noise models of the noise transformation
+export type NoiseType = 'gaussian' | 'saltPepper' | 'poisson' | 'speckle';
+
+// Synthetic images of the test pattern generator
+export type TestPatternType =
+  | 'checkerboard'
+  | 'linearGradient'
+  | 'radialGradient'
+  | 'zonePlate'
+  | 'siemensStar'
+  | 'randomShapes'
+  | 'uniformNoise'
+  | 'stepEdge';
+
+// Colour spaces an RGB image can be converted to (OpenCV 8-bit channel encodings)
+export type ColorSpace = 'rgb' | 'hsv' | 'hls' | 'lab' | 'ycrcb' | 'xyz';
+
+// Non-image data reported by a transformation alongside its result image
+export interface TransformationAnalysis {
+  histogram?: HistogramTransformAnalysis;
+  threshold?: ThresholdAnalysis;
+  perspective?: PerspectiveAnalysis;
+  contours?: ContourAnalysis;
+  hough?: HoughAnalysis;
+  watershed?: WatershedAnalysis;
+}
+
 // Inspection result interface
 export interface InspectionResult {
   nodeId: string;
@@ -224,6 +418,15 @@ export interface InspectionResult {
   processingTime: number;
 }
 
+// Image coordinate examined by the pixel inspector, and the node preview it was picked on
+export interface InspectedPixel {
+  nodeId: string;
+  x: number;
+  y: number;
+  // A pinned pixel stays put while the pointer moves over other previews
+  pinned: boolean;
+}
+
 // Structuring element shape types
 export type StructuringElementShape = 'rect' | 'ellipse' | 'cross' | 'stick' | 'bipoint' | 'circle' | 'square' | 'custom';
 
@@ -0,0 +1,82 @@
+/**
+ * Pipeline worker: runs transformations off the main thread.
+ * Each worker owns its own OpenCV runtime (the bundled npm build) and draws on
+ * OffscreenCanvas, so the React Flow canvas stays responsive while large
+ * images are processed.
+ */
+import { processImage, processMultiInputImage, initOpenCV } from '../utils/imageProcessing';
+import {
+  toTransferableImage,
+  fromTransferableImage,
+  collectTransferList
+} from './workerProtocol';
+import type {
+  ProcessJobMessage,
+  WorkerRequestMessage,
+  WorkerResponseMessage,
+  TransferableImage
+} from './workerProtocol';
+
+// Start loading OpenCV as soon as the worker is spawned, before the first job arrives
+initOpenCV().catch(error => {
+  console.warn('Worker OpenCV initialization failed, JavaScript fallbacks will be used:', error);
+});
+
+const post = (message: WorkerResponseMessage, transfer: ArrayBuffer[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const reportProgress = (jobId: number, stage: string, progress: number) => {
+  post({ type: 'progress', jobId, stage, progress });
+};
+
+const runJob = async (message: ProcessJobMessage) => {
+  const { jobId, transformation, multiInput, includeIntermediates } = message;
+  reportProgress(jobId, 'Preparing input', 0.1);
+
+  const inputs: Record<string, ImageData> = {};
+  Object.entries(message.inputs).forEach(([portId, image]) => {
+    inputs[portId] = fromTransferableImage(image);
+  });
+
+  reportProgress(jobId, `Applying ${transformation.name}`, 0.2);
+
+  const processResult = multiInput
+    ? await processMultiInputImage(inputs, transformation, includeIntermediates)
+    : await processImage(inputs.input, transformation, includeIntermediates);
+
+  reportProgress(jobId, 'Transferring result', 0.9);
+
+  const result = toTransferableImage(processResult.result);
+  const intermediates = (processResult.intermediates || []).map(intermediate => ({
+    stage: intermediate.stage,
+    description: intermediate.description,
+    image: toTransferableImage(intermediate.imageData)
+  }));
+
+  const outputs = processResult.outputs
+    ? Object.fromEntries(
+        Object.entries(processResult.outputs).map(([portId, imageData]) => [portId, toTransferableImage(imageData)])
+      )
+    : undefined;
+
+  const images: TransferableImage[] = [
+    result,
+    ...intermediates.map(intermediate => intermediate.image),
+    ...Object.values(outputs || {})
+  ];
+  post({ type: 'result', jobId, result, intermediates, outputs, analysis: processResult.analysis }, collectTransferList(images));
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequestMessage>) => {
+  const message = event.data;
+  if (message.type !== 'process') return;
+
+  runJob(message).catch(error => {
+    post({
+      type: 'error',
+      jobId: message.jobId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  });
+};
@@ -0,0 +1,120 @@
+import type { Transformation, TransformationAnalysis } from '../utils/types';
+
+/**
+ * Message protocol between the WorkerPool and the pipeline workers.
+ * Pixel data always travels as transferable ArrayBuffers so large images are
+ * moved between threads instead of being copied.
+ */
+
+/**
+ * ImageData flattened into a transferable buffer
+ */
+export interface TransferableImage {
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+}
+
+/**
+ * Main thread -> worker: run one transformation
+ */
+export interface ProcessJobMessage {
+  type: 'process';
+  jobId: number;
+  transformation: Transformation;
+  // Keyed by input port id; single-input transformations use 'input'
+  inputs: Record<string, TransferableImage>;
+  multiInput: boolean;
+  includeIntermediates: boolean;
+}
+
+/**
+ * Worker -> main thread: coarse progress of a running job (0 - 1)
+ */
+export interface JobProgressMessage {
+  type: 'progress';
+  jobId: number;
+  stage: string;
+  progress: number;
+}
+
+/**
+ * Worker -> main thread: finished job with its result, intermediate stages,
+ * named output images and any non-image analysis (structured-cloned, not
+ * transferred)
+ */
+export interface JobResultMessage {
+  type: 'result';
+  jobId: number;
+  result: TransferableImage;
+  intermediates: Array<{
+    stage: string;
+    description: string;
+    image: TransferableImage;
+  }>;
+  // Keyed by output port id (multi-output transformations only)
+  outputs?: Record<string, TransferableImage>;
+  analysis?: TransformationAnalysis;
+}
+
+/**
+ * Worker -> main thread: the transformation threw
+ */
+export interface JobErrorMessage {
+  type: 'error';
+  jobId: number;
+  message: string;
+}
+
+export type WorkerRequestMessage = ProcessJobMessage;
+export type WorkerResponseMessage = JobProgressMessage | JobResultMessage | JobErrorMessage;
+
+/**
+ * Plain-data copy of a transformation for postMessage. Parameters keep their
+ * name, type and value only: definitions copied from the node templates carry
+ * showIf/validate functions, which structured cloning cannot handle.
+ */
+export const toWorkerTransformation = (transformation: Transformation): Transformation => {
+  return {
+    ...transformation,
+    inputNodes: [...transformation.inputNodes],
+    parameters: transformation.parameters.map(param => ({
+      name: param.name,
+      type: param.type,
+      value: param.value
+    }))
+  };
+};
+
+/**
+ * Wrap ImageData pixels for transfer. The ImageData must not be used by the
+ * sender after the buffer has been transferred.
+ */
+export const toTransferableImage = (imageData: ImageData): TransferableImage => {
+  const { data } = imageData;
+  // Views onto a larger buffer are copied so only the pixels are transferred
+  const buffer = data.byteOffset === 0 && data.byteLength === data.buffer.byteLength
+    ? data.buffer as ArrayBuffer
+    : data.slice().buffer as ArrayBuffer;
+
+  return {
+    width: imageData.width,
+    height: imageData.height,
+    buffer
+  };
+};
+
+/**
+ * Rebuild ImageData around a received buffer (no copy)
+ */
+export const fromTransferableImage = (image: TransferableImage): ImageData => {
+  return new ImageData(new Uint8ClampedArray(image.buffer), image.width, image.height);
+};
+
+/**
+ * Collect the distinct buffers of a set of images for the postMessage transfer
+ * list (a buffer listed twice makes postMessage throw)
+ */
+export const collectTransferList = (images: TransferableImage[]): ArrayBuffer[] => {
+  return Array.from(new Set(images.map(image => image.buffer)));
+};
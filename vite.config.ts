@@ -8,4 +8,8 @@ export default defineConfig({
     react(),
     tailwindcss(),
   ],
+  // The pipeline workers are ES module workers
+  worker: {
+    format: 'es',
+  },
 })